@@ -41,11 +41,17 @@ import { CartProvider } from './src/context/CartContext';
 import { DeviceProvider, useDevice } from './src/context/DeviceContext';
 import { SocketProvider } from './src/context/SocketContext';
 import { PreordersProvider, usePreorders } from './src/context/PreordersContext';
+import { OfflineQueueProvider } from './src/context/OfflineQueueContext';
+import { ManagerOverrideProvider } from './src/context/ManagerOverrideContext';
+import { PrinterProvider } from './src/context/PrinterContext';
+import { CustomerDisplayProvider } from './src/context/CustomerDisplayContext';
+import { RegisterModeProvider } from './src/context/RegisterModeContext';
 import { SocketEventHandlers } from './src/components/SocketEventHandlers';
 import { StripeTerminalContextProvider, useTerminal } from './src/context/StripeTerminalContext';
 import { NetworkStatus } from './src/components/NetworkStatus';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { DataPrefetcher } from './src/components/DataPrefetcher';
+import { usePermissions } from './src/hooks';
 import { config } from './src/lib/config';
 
 // Auth screens
@@ -61,6 +67,7 @@ import { MenuScreen } from './src/screens/MenuScreen';
 import { TransactionsScreen } from './src/screens/TransactionsScreen';
 import { TransactionDetailScreen } from './src/screens/TransactionDetailScreen';
 import { SettingsScreen } from './src/screens/SettingsScreen';
+import { ReportsScreen } from './src/screens/ReportsScreen';
 import { TapToPaySettingsScreen } from './src/screens/TapToPaySettingsScreen';
 import { UpgradeScreen } from './src/screens/UpgradeScreen';
 import { StripeOnboardingScreen } from './src/screens/StripeOnboardingScreen';
@@ -85,6 +92,25 @@ import { TapToPayEducationScreen } from './src/screens/TapToPayEducationScreen';
 // Reader management
 import { ReaderManagementScreen } from './src/screens/ReaderManagementScreen';
 
+// Cash drawer screens
+import { CashDrawerScreen } from './src/screens/CashDrawerScreen';
+import { ShiftReportScreen } from './src/screens/ShiftReportScreen';
+import { PrinterSettingsScreen } from './src/screens/PrinterSettingsScreen';
+import { KitchenDisplayScreen } from './src/screens/KitchenDisplayScreen';
+import { KitchenStationsScreen } from './src/screens/KitchenStationsScreen';
+import { CustomerDisplayScreen } from './src/screens/CustomerDisplayScreen';
+import { CustomersScreen } from './src/screens/CustomersScreen';
+import { CustomerProfileScreen } from './src/screens/CustomerProfileScreen';
+import { GiftCardsScreen } from './src/screens/GiftCardsScreen';
+import { TaxRatesScreen } from './src/screens/TaxRatesScreen';
+import { PromoCodesScreen } from './src/screens/PromoCodesScreen';
+import { PayoutsScreen } from './src/screens/PayoutsScreen';
+import { PayoutDetailScreen } from './src/screens/PayoutDetailScreen';
+import { TeamScreen } from './src/screens/TeamScreen';
+import { RegisterModeScreen } from './src/screens/RegisterModeScreen';
+import { TimeClockScreen } from './src/screens/TimeClockScreen';
+import { TipReportScreen } from './src/screens/TipReportScreen';
+
 // Onboarding components
 import { SetupPaymentsModal } from './src/components/SetupPaymentsModal';
 
@@ -399,6 +425,9 @@ function TabIcon({
     case 'History':
       iconName = focused ? 'receipt' : 'receipt-outline';
       break;
+    case 'Reports':
+      iconName = focused ? 'bar-chart' : 'bar-chart-outline';
+      break;
     case 'Events':
       iconName = focused ? 'scan' : 'scan-outline';
       break;
@@ -460,6 +489,7 @@ function TabNavigator() {
   const { subscription } = useAuth();
   const { counts: preorderCounts } = usePreorders();
   const { selectedCatalog } = useCatalog();
+  const { can } = usePermissions();
 
   // Only show Events tab for Pro/Enterprise users
   const isPro = subscription?.tier === 'pro' || subscription?.tier === 'enterprise';
@@ -509,6 +539,13 @@ function TabNavigator() {
         component={HistoryStackNavigator}
         options={{ tabBarLabel: 'History' }}
       />
+      {can('view_reports') && (
+        <Tab.Screen
+          name="Reports"
+          component={ReportsScreen}
+          options={{ tabBarLabel: 'Reports' }}
+        />
+      )}
       {isPro && (
         <Tab.Screen
           name="Events"
@@ -656,6 +693,91 @@ function AuthenticatedNavigator() {
         component={ReaderManagementScreen}
         options={{ presentation: 'card' }}
       />
+      <Stack.Screen
+        name="CashDrawer"
+        component={CashDrawerScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="ShiftReport"
+        component={ShiftReportScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="Printers"
+        component={PrinterSettingsScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="KitchenDisplay"
+        component={KitchenDisplayScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="KitchenStations"
+        component={KitchenStationsScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="CustomerDisplay"
+        component={CustomerDisplayScreen}
+        options={{ presentation: 'card', gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="Customers"
+        component={CustomersScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="CustomerProfile"
+        component={CustomerProfileScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="GiftCards"
+        component={GiftCardsScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="TaxRates"
+        component={TaxRatesScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="PromoCodes"
+        component={PromoCodesScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="Payouts"
+        component={PayoutsScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="PayoutDetail"
+        component={PayoutDetailScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="Team"
+        component={TeamScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="RegisterMode"
+        component={RegisterModeScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="TimeClock"
+        component={TimeClockScreen}
+        options={{ presentation: 'card' }}
+      />
+      <Stack.Screen
+        name="TipReport"
+        component={TipReportScreen}
+        options={{ presentation: 'card' }}
+      />
       <Stack.Screen
         name="Upgrade"
         component={UpgradeScreen}
@@ -837,19 +959,29 @@ export default function App() {
             <SafeAreaProvider>
               <ThemeProvider>
                 <AuthProvider>
-                  <SocketProvider>
-                    <SocketEventHandlers />
-                    <DeviceProvider>
-                      <CatalogProvider>
-                        <PreordersProvider>
-                          <CartProvider>
-                            <NetworkStatus />
-                            <AppNavigator />
-                          </CartProvider>
-                        </PreordersProvider>
-                      </CatalogProvider>
-                    </DeviceProvider>
-                  </SocketProvider>
+                  <RegisterModeProvider>
+                    <SocketProvider>
+                      <SocketEventHandlers />
+                      <DeviceProvider>
+                        <OfflineQueueProvider>
+                          <CatalogProvider>
+                            <PreordersProvider>
+                              <CartProvider>
+                                <CustomerDisplayProvider>
+                                  <ManagerOverrideProvider>
+                                    <PrinterProvider>
+                                      <NetworkStatus />
+                                      <AppNavigator />
+                                    </PrinterProvider>
+                                  </ManagerOverrideProvider>
+                                </CustomerDisplayProvider>
+                              </CartProvider>
+                            </PreordersProvider>
+                          </CatalogProvider>
+                        </OfflineQueueProvider>
+                      </DeviceProvider>
+                    </SocketProvider>
+                  </RegisterModeProvider>
                 </AuthProvider>
               </ThemeProvider>
             </SafeAreaProvider>
@@ -64,6 +64,14 @@ export default ({ config }: ConfigContext): ExpoConfig => {
           tapToPayCheck: true,
         },
       ],
+      [
+        'react-native-ble-plx',
+        {
+          isBackgroundEnabled: false,
+          neverForLocation: true,
+          bluetoothAlwaysPermission: 'This app uses Bluetooth to connect to receipt printers',
+        },
+      ],
       [
         'expo-alternate-app-icons',
         {
@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Pressable,
   TextInput,
   ScrollView,
@@ -20,8 +19,18 @@ import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/dat
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
 import { glass } from '../lib/colors';
-import type { Catalog, CatalogLayoutType, UpdateCatalogData } from '../lib/api';
+import type { Catalog, CatalogLayoutType, ServiceChargeType, TaxRoundingMode, UpdateCatalogData } from '../lib/api';
+import { getCurrencySymbol } from '../utils/currency';
+import { DEFAULT_SERVICE_CHARGE_NAME } from '../utils/service-charge';
+import { useAuth } from '../context/AuthContext';
+import { Modal } from './Modal';
 import { Toggle } from './Toggle';
+import {
+  TimeWindowsEditor,
+  TimeWindowDraft,
+  toTimeWindowDrafts,
+  fromScheduleDrafts,
+} from './TimeWindowsEditor';
 
 interface CatalogSettingsModalProps {
   visible: boolean;
@@ -39,6 +48,16 @@ const LAYOUT_OPTIONS: { value: CatalogLayoutType; label: string; icon: keyof typ
   { value: 'compact', label: 'Compact', icon: 'menu-outline' },
 ];
 
+const TAX_ROUNDING_OPTIONS: { value: TaxRoundingMode; label: string }[] = [
+  { value: 'line', label: 'Each item' },
+  { value: 'order', label: 'Order total' },
+];
+
+const SERVICE_CHARGE_TYPES: { value: ServiceChargeType; label: string }[] = [
+  { value: 'percentage', label: 'Percentage' },
+  { value: 'fixed', label: 'Fixed amount' },
+];
+
 export function CatalogSettingsModal({
   visible,
   catalog,
@@ -48,6 +67,7 @@ export function CatalogSettingsModal({
   onClose,
 }: CatalogSettingsModalProps) {
   const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
   const glassColors = isDark ? glass.dark : glass.light;
 
   // Form state
@@ -62,7 +82,16 @@ export function CatalogSettingsModal({
   const [allowCustomTip, setAllowCustomTip] = useState(true);
   const [promptForEmail, setPromptForEmail] = useState(false);
   const [taxRateString, setTaxRateString] = useState('0');
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [taxRounding, setTaxRounding] = useState<TaxRoundingMode>('line');
+  const [serviceChargeEnabled, setServiceChargeEnabled] = useState(false);
+  const [serviceChargeName, setServiceChargeName] = useState('');
+  const [serviceChargeType, setServiceChargeType] = useState<ServiceChargeType>('percentage');
+  const [serviceChargeValueString, setServiceChargeValueString] = useState('');
+  const [minItemCountString, setMinItemCountString] = useState('');
+  const [minSubtotalString, setMinSubtotalString] = useState('');
   const [layoutType, setLayoutType] = useState<CatalogLayoutType>('grid');
+  const [schedules, setSchedules] = useState<TimeWindowDraft[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isDuplicating, setIsDuplicating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -82,7 +111,19 @@ export function CatalogSettingsModal({
       setAllowCustomTip(catalog.allowCustomTip);
       setPromptForEmail(catalog.promptForEmail);
       setTaxRateString(String(catalog.taxRate || 0));
+      setTaxInclusive(catalog.taxInclusive ?? false);
+      setTaxRounding(catalog.taxRounding ?? 'line');
+      const serviceCharge = catalog.serviceCharge;
+      setServiceChargeEnabled(!!serviceCharge);
+      setServiceChargeName(serviceCharge?.name || '');
+      setServiceChargeType(serviceCharge?.type || 'percentage');
+      setServiceChargeValueString(serviceCharge
+        ? serviceCharge.type === 'fixed' ? (serviceCharge.value / 100).toFixed(2) : String(serviceCharge.value)
+        : '');
+      setMinItemCountString(serviceCharge?.minItemCount != null ? String(serviceCharge.minItemCount) : '');
+      setMinSubtotalString(serviceCharge?.minSubtotal != null ? (serviceCharge.minSubtotal / 100).toFixed(2) : '');
       setLayoutType(catalog.layoutType);
+      setSchedules(toTimeWindowDrafts(catalog.schedules || []));
       setShowDatePicker(false);
     }
   }, [visible, catalog]);
@@ -124,6 +165,35 @@ export function CatalogSettingsModal({
       return;
     }
 
+    let serviceCharge: UpdateCatalogData['serviceCharge'] = null;
+    if (serviceChargeEnabled) {
+      const value = parseFloat(serviceChargeValueString);
+      if (isNaN(value) || value <= 0 || (serviceChargeType === 'percentage' && value > 100)) {
+        Alert.alert('Error', 'Please enter a valid service charge');
+        return;
+      }
+      const minItemCount = minItemCountString.trim() ? parseInt(minItemCountString, 10) : null;
+      const minSubtotal = minSubtotalString.trim() ? parseFloat(minSubtotalString) : null;
+      if ((minItemCount !== null && (isNaN(minItemCount) || minItemCount < 1))
+        || (minSubtotal !== null && (isNaN(minSubtotal) || minSubtotal < 0))) {
+        Alert.alert('Error', 'Please enter a valid minimum party size or order amount');
+        return;
+      }
+      serviceCharge = {
+        name: serviceChargeName.trim() || DEFAULT_SERVICE_CHARGE_NAME,
+        type: serviceChargeType,
+        value: serviceChargeType === 'fixed' ? Math.round(value * 100) : value,
+        minItemCount,
+        minSubtotal: minSubtotal !== null ? Math.round(minSubtotal * 100) : null,
+      };
+    }
+
+    const parsedSchedules = fromScheduleDrafts(schedules);
+    if ('error' in parsedSchedules) {
+      Alert.alert('Error', parsedSchedules.error);
+      return;
+    }
+
     setIsSaving(true);
     try {
       await onSave({
@@ -137,7 +207,11 @@ export function CatalogSettingsModal({
         allowCustomTip,
         promptForEmail,
         taxRate,
+        taxInclusive,
+        taxRounding,
+        serviceCharge,
         layoutType,
+        schedules: parsedSchedules.schedules,
       });
       onClose();
     } catch (error: any) {
@@ -404,6 +478,15 @@ export function CatalogSettingsModal({
               </View>
             </View>
 
+            {/* Schedule */}
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Schedule</Text>
+              <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                Days and hours this menu is served. It switches on automatically when its hours start. Leave empty to always offer it.
+              </Text>
+              <TimeWindowsEditor windows={schedules} onChange={setSchedules} addLabel="Add hours" />
+            </View>
+
             {/* Layout Type */}
             <View style={styles.section}>
               <Text style={styles.label} maxFontSizeMultiplier={1.5}>Product Layout</Text>
@@ -438,7 +521,10 @@ export function CatalogSettingsModal({
 
             {/* Tax Rate */}
             <View style={styles.section}>
-              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Tax Rate</Text>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Default Tax Rate</Text>
+              <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                For items without a named rate. Named rates are set up in Settings.
+              </Text>
               <View style={styles.taxInputContainer}>
                 <TextInput
                   style={styles.taxInput}
@@ -453,6 +539,46 @@ export function CatalogSettingsModal({
               </View>
             </View>
 
+            {/* Tax Inclusive */}
+            <View style={styles.section}>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleInfo}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.5}>Prices Include Tax</Text>
+                  <Text style={styles.toggleDescription} maxFontSizeMultiplier={1.5}>
+                    Tax is worked out from the item prices instead of added on top
+                  </Text>
+                </View>
+                <Toggle value={taxInclusive} onValueChange={setTaxInclusive} accessibilityLabel="Prices include tax" />
+              </View>
+            </View>
+
+            {/* Tax Rounding */}
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Round Tax On</Text>
+              <View style={styles.layoutOptions}>
+                {TAX_ROUNDING_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.layoutOption,
+                      taxRounding === option.value && styles.layoutOptionSelected
+                    ]}
+                    onPress={() => setTaxRounding(option.value)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Round tax on ${option.label.toLowerCase()}`}
+                    accessibilityState={{ selected: taxRounding === option.value }}
+                  >
+                    <Text style={[
+                      styles.layoutOptionText,
+                      taxRounding === option.value && styles.layoutOptionTextSelected
+                    ]} maxFontSizeMultiplier={1.3}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             {/* Divider */}
             <View style={styles.divider} />
 
@@ -544,6 +670,112 @@ export function CatalogSettingsModal({
               </>
             )}
 
+            {/* Service Charge */}
+            <View style={styles.section}>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleInfo}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.5}>Service Charge</Text>
+                  <Text style={styles.toggleDescription} maxFontSizeMultiplier={1.5}>
+                    Add a mandatory charge or auto-gratuity, separate from tips
+                  </Text>
+                </View>
+                <Toggle value={serviceChargeEnabled} onValueChange={setServiceChargeEnabled} accessibilityLabel="Service charge" />
+              </View>
+            </View>
+
+            {serviceChargeEnabled && (
+              <>
+                <View style={styles.section}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.5}>Name on Receipt</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={serviceChargeName}
+                    onChangeText={setServiceChargeName}
+                    placeholder={DEFAULT_SERVICE_CHARGE_NAME}
+                    placeholderTextColor={colors.textMuted}
+                    maxLength={40}
+                    accessibilityLabel="Service charge name"
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <View style={styles.layoutOptions}>
+                    {SERVICE_CHARGE_TYPES.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.layoutOption,
+                          serviceChargeType === option.value && styles.layoutOptionSelected
+                        ]}
+                        onPress={() => setServiceChargeType(option.value)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`${option.label} service charge`}
+                        accessibilityState={{ selected: serviceChargeType === option.value }}
+                      >
+                        <Text style={[
+                          styles.layoutOptionText,
+                          serviceChargeType === option.value && styles.layoutOptionTextSelected
+                        ]} maxFontSizeMultiplier={1.3}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <View style={[styles.taxInputContainer, styles.serviceChargeValue]}>
+                    {serviceChargeType === 'fixed' && (
+                      <Text style={styles.taxSymbol} maxFontSizeMultiplier={1.5}>{getCurrencySymbol(currency)}</Text>
+                    )}
+                    <TextInput
+                      style={styles.taxInput}
+                      value={serviceChargeValueString}
+                      onChangeText={setServiceChargeValueString}
+                      placeholder={serviceChargeType === 'fixed' ? '0.00' : '18'}
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="decimal-pad"
+                      accessibilityLabel={serviceChargeType === 'fixed' ? 'Service charge amount' : 'Service charge percentage'}
+                    />
+                    {serviceChargeType === 'percentage' && (
+                      <Text style={styles.taxSymbol} maxFontSizeMultiplier={1.5}>%</Text>
+                    )}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.5}>Apply When</Text>
+                  <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                    Either one triggers the charge. Leave both empty to add it to every order.
+                  </Text>
+                  <View style={styles.thresholdRow}>
+                    <View style={[styles.taxInputContainer, styles.thresholdInput]}>
+                      <TextInput
+                        style={styles.taxInput}
+                        value={minItemCountString}
+                        onChangeText={setMinItemCountString}
+                        placeholder="Items"
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="number-pad"
+                        accessibilityLabel="Minimum item count"
+                      />
+                      <Text style={styles.taxSymbol} maxFontSizeMultiplier={1.5}>+ items</Text>
+                    </View>
+                    <View style={[styles.taxInputContainer, styles.thresholdInput]}>
+                      <Text style={styles.taxSymbol} maxFontSizeMultiplier={1.5}>{getCurrencySymbol(currency)}</Text>
+                      <TextInput
+                        style={styles.taxInput}
+                        value={minSubtotalString}
+                        onChangeText={setMinSubtotalString}
+                        placeholder="Subtotal"
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="decimal-pad"
+                        accessibilityLabel="Minimum order subtotal"
+                      />
+                      <Text style={styles.taxSymbol} maxFontSizeMultiplier={1.5}>+</Text>
+                    </View>
+                  </View>
+                </View>
+              </>
+            )}
+
             {/* Prompt for Email Toggle */}
             <View style={styles.section}>
               <View style={styles.toggleRow}>
@@ -809,6 +1041,10 @@ const createStyles = (colors: any, glassColors: any, isDark: boolean) =>
       color: colors.textMuted,
       marginTop: 2,
     },
+    sectionDescription: {
+      marginTop: 0,
+      marginBottom: 12,
+    },
     layoutOptions: {
       flexDirection: 'row',
       gap: 8,
@@ -856,6 +1092,16 @@ const createStyles = (colors: any, glassColors: any, isDark: boolean) =>
       color: colors.textSecondary,
       fontWeight: '500',
     },
+    serviceChargeValue: {
+      marginTop: 12,
+    },
+    thresholdRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    thresholdInput: {
+      flex: 1,
+    },
     divider: {
       height: 1,
       backgroundColor: glassColors.border,
@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Pressable,
   TextInput,
   ScrollView,
@@ -20,6 +19,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
 import { glass } from '../lib/colors';
 import type { Category } from '../lib/api';
+import { Modal } from './Modal';
 import { Toggle } from './Toggle';
 
 interface CategoryManagerModalProps {
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Dimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { fonts } from '../lib/fonts';
+import { Modal } from './Modal';
+
+// Dynamically import expo-camera (may not be installed)
+let CameraView: any = null;
+let useCameraPermissions: any = null;
+try {
+  const mod = require('expo-camera');
+  CameraView = mod.CameraView;
+  useCameraPermissions = mod.useCameraPermissions;
+} catch {
+  // expo-camera not installed
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const SCAN_AREA_SIZE = SCREEN_WIDTH * 0.7;
+
+// Printed gift cards and product labels use 1D barcodes as well as QR
+const DEFAULT_BARCODE_TYPES = ['qr', 'code128', 'code39', 'ean13', 'ean8', 'upc_a', 'upc_e'];
+
+// Continuous mode: how long to wait before accepting the next code
+const SCAN_COOLDOWN_MS = 1500;
+
+export interface ScanFeedback {
+  message: string;
+  isError: boolean;
+}
+
+interface CodeScannerModalProps {
+  visible: boolean;
+  title: string;
+  hint?: string;
+  barcodeTypes?: string[];
+  continuous?: boolean; // keep scanning after each code, e.g. adding several items to the cart
+  feedback?: ScanFeedback | null; // result of the last scan, shown over the camera
+  onScan: (code: string) => void;
+  onClose: () => void;
+}
+
+export function CodeScannerModal({
+  visible,
+  title,
+  hint,
+  barcodeTypes = DEFAULT_BARCODE_TYPES,
+  continuous = false,
+  feedback,
+  onScan,
+  onClose,
+}: CodeScannerModalProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const scannedRef = useRef(false);
+  const cooldownRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Camera permissions
+  const permissionHook = useCameraPermissions ? useCameraPermissions() : [null, null];
+  const [permission, requestPermission] = permissionHook || [null, null];
+
+  // Accept one scan per opening (or per cooldown when continuous) so a code
+  // held in frame isn't reported repeatedly
+  useEffect(() => {
+    if (visible) scannedRef.current = false;
+    return () => {
+      if (cooldownRef.current) clearTimeout(cooldownRef.current);
+    };
+  }, [visible]);
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    if (scannedRef.current || !data) return;
+    scannedRef.current = true;
+    onScan(data.trim());
+    if (continuous) {
+      cooldownRef.current = setTimeout(() => {
+        scannedRef.current = false;
+      }, SCAN_COOLDOWN_MS);
+    }
+  };
+
+  const renderMessage = (heading: string, message: string, showEnable: boolean) => (
+    <View style={styles.messageContainer}>
+      <Ionicons name="camera-outline" size={40} color="rgba(255,255,255,0.7)" />
+      <Text style={styles.messageTitle} maxFontSizeMultiplier={1.3}>{heading}</Text>
+      <Text style={styles.messageText} maxFontSizeMultiplier={1.5}>{message}</Text>
+      {showEnable && (
+        <TouchableOpacity
+          style={[styles.enableButton, { backgroundColor: colors.primary }]}
+          onPress={requestPermission}
+          accessibilityRole="button"
+          accessibilityLabel="Enable Camera"
+        >
+          <Ionicons name="camera" size={18} color="#fff" />
+          <Text style={styles.enableButtonText} maxFontSizeMultiplier={1.3}>Enable Camera</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!CameraView ? (
+          renderMessage('Camera Not Available', 'The camera module is not installed.\nType the code instead.', false)
+        ) : !permission?.granted ? (
+          renderMessage('Camera Access Required', 'Allow camera access to scan codes.', true)
+        ) : (
+          <>
+            <CameraView
+              style={StyleSheet.absoluteFill}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes }}
+              onBarcodeScanned={visible ? handleBarcodeScanned : undefined}
+            />
+            <View style={styles.scanFrameContainer} pointerEvents="none">
+              <View style={styles.scanFrame} />
+              {hint && <Text style={styles.hint} maxFontSizeMultiplier={1.5}>{hint}</Text>}
+            </View>
+          </>
+        )}
+
+        {feedback && (
+          <View
+            style={[
+              styles.feedback,
+              { bottom: insets.bottom + 32, backgroundColor: feedback.isError ? colors.error : colors.success },
+            ]}
+            accessibilityRole="alert"
+            accessibilityLiveRegion="polite"
+          >
+            <Ionicons name={feedback.isError ? 'alert-circle' : 'checkmark-circle'} size={20} color="#fff" />
+            <Text style={styles.feedbackText} numberOfLines={2} maxFontSizeMultiplier={1.3}>{feedback.message}</Text>
+          </View>
+        )}
+
+        <View style={[styles.header, { paddingTop: insets.top + 12 }]}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close scanner"
+          >
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title} maxFontSizeMultiplier={1.3}>{title}</Text>
+          <View style={{ width: 40 }} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  title: {
+    fontSize: 17,
+    fontFamily: fonts.semiBold,
+    color: '#fff',
+  },
+  scanFrameContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scanFrame: {
+    width: SCAN_AREA_SIZE,
+    height: SCAN_AREA_SIZE * 0.6,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.8)',
+  },
+  hint: {
+    marginTop: 20,
+    fontSize: 14,
+    fontFamily: fonts.medium,
+    color: '#fff',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  feedback: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 14,
+  },
+  feedbackText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+    color: '#fff',
+  },
+  messageContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  messageTitle: {
+    fontSize: 18,
+    fontFamily: fonts.semiBold,
+    color: '#fff',
+  },
+  messageText: {
+    fontSize: 14,
+    fontFamily: fonts.regular,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  enableButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  enableButtonText: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+    color: '#fff',
+  },
+});
@@ -4,10 +4,10 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Pressable,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
+import { Modal } from './Modal';
 
 interface ConfirmModalProps {
   visible: boolean;
@@ -0,0 +1,430 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { customersApi, Customer } from '../lib/api';
+import { getCustomerDisplayName } from '../utils/customers';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import logger from '../lib/logger';
+import { Modal } from './Modal';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface CustomerLookupModalProps {
+  visible: boolean;
+  initialQuery?: string; // e.g. the receipt email already typed at checkout
+  onSelect: (customer: Customer) => void;
+  onCancel: () => void;
+}
+
+export function CustomerLookupModal({
+  visible,
+  initialQuery,
+  onSelect,
+  onCancel,
+}: CustomerLookupModalProps) {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form when the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setQuery(initialQuery || '');
+    setResults([]);
+    setShowCreateForm(false);
+    setName('');
+    setEmail('');
+    setPhone('');
+    setError(null);
+  }, [visible, initialQuery]);
+
+  // Search as the user types
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!visible || trimmed.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const customers = await customersApi.search(trimmed);
+        if (!cancelled) setResults(customers);
+      } catch (err) {
+        logger.error('Customer search error:', err);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, visible]);
+
+  const openCreateForm = () => {
+    // Prefill from the search, which is usually an email or phone number
+    const trimmed = query.trim();
+    if (trimmed.includes('@')) {
+      setEmail(trimmed);
+    } else if (/^[+\d][\d\s()-]*$/.test(trimmed)) {
+      setPhone(trimmed);
+    } else {
+      setName(trimmed);
+    }
+    setError(null);
+    setShowCreateForm(true);
+  };
+
+  const handleCreate = async () => {
+    if (!email.trim() && !phone.trim()) {
+      setError('Enter an email or phone number');
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const customer = await customersApi.create({
+        name: name.trim() || null,
+        email: email.trim() || null,
+        phone: phone.trim() || null,
+      });
+      onSelect(customer);
+    } catch (err: any) {
+      logger.error('Create customer error:', err);
+      setError(err.error || err.message || 'Failed to create customer');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: glassColors.backgroundElevated, borderColor: glassColors.border, color: colors.text },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.keyboardView}
+      >
+        <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close" accessibilityRole="button">
+          <Pressable
+            style={[styles.container, { backgroundColor: colors.card }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                {showCreateForm ? 'New Customer' : 'Find Customer'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+                onPress={onCancel}
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {showCreateForm ? (
+              <>
+                <TextInput
+                  style={inputStyle}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Name (optional)"
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="words"
+                  accessibilityLabel="Customer name"
+                />
+                <TextInput
+                  style={inputStyle}
+                  value={email}
+                  onChangeText={(text) => {
+                    setEmail(text);
+                    setError(null);
+                  }}
+                  placeholder="Email"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel="Customer email"
+                />
+                <TextInput
+                  style={inputStyle}
+                  value={phone}
+                  onChangeText={(text) => {
+                    setPhone(text);
+                    setError(null);
+                  }}
+                  placeholder="Phone"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="phone-pad"
+                  accessibilityLabel="Customer phone"
+                />
+              </>
+            ) : (
+              <>
+                <View style={[styles.input, styles.searchRow, { backgroundColor: glassColors.backgroundElevated, borderColor: glassColors.border }]}>
+                  <Ionicons name="search" size={18} color={colors.textMuted} />
+                  <TextInput
+                    style={[styles.searchInput, { color: colors.text }]}
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder="Email, phone or name"
+                    placeholderTextColor={colors.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus
+                    accessibilityLabel="Search customers"
+                  />
+                  {isSearching && <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Searching" />}
+                </View>
+
+                <ScrollView style={styles.results} keyboardShouldPersistTaps="handled">
+                  {results.map(customer => (
+                    <TouchableOpacity
+                      key={customer.id}
+                      style={[styles.resultRow, { borderBottomColor: glassColors.border }]}
+                      onPress={() => onSelect(customer)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Select ${getCustomerDisplayName(customer)}`}
+                    >
+                      <View style={styles.resultInfo}>
+                        <Text style={[styles.resultName, { color: colors.text }]} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                          {getCustomerDisplayName(customer)}
+                        </Text>
+                        <Text style={[styles.resultDetail, { color: colors.textSecondary }]} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                          {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+                        </Text>
+                      </View>
+                      <Text style={[styles.resultPoints, { color: colors.primary }]} maxFontSizeMultiplier={1.3}>
+                        {customer.pointsBalance} pts
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  {query.trim().length >= 2 && !isSearching && results.length === 0 && (
+                    <Text style={[styles.emptyText, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>
+                      No customers found
+                    </Text>
+                  )}
+                </ScrollView>
+              </>
+            )}
+
+            {error && (
+              <Text style={[styles.errorText, { color: colors.error }]} maxFontSizeMultiplier={1.5} accessibilityRole="alert">
+                {error}
+              </Text>
+            )}
+
+            {/* Actions */}
+            <View style={styles.actions}>
+              {showCreateForm ? (
+                <>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, { borderColor: glassColors.border }]}
+                    onPress={() => setShowCreateForm(false)}
+                    accessibilityRole="button"
+                    accessibilityLabel="Back to search"
+                  >
+                    <Text style={[styles.secondaryButtonText, { color: colors.text }]} maxFontSizeMultiplier={1.3}>Back</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, { backgroundColor: colors.primary }, isCreating && styles.buttonDisabled]}
+                    onPress={handleCreate}
+                    disabled={isCreating}
+                    accessibilityRole="button"
+                    accessibilityLabel="Create customer"
+                    accessibilityState={{ disabled: isCreating }}
+                  >
+                    {isCreating ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Add Customer</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.secondaryButton, styles.fullWidth, { borderColor: glassColors.border }]}
+                  onPress={openCreateForm}
+                  accessibilityRole="button"
+                  accessibilityLabel="New customer"
+                >
+                  <Ionicons name="person-add-outline" size={18} color={colors.primary} />
+                  <Text style={[styles.secondaryButtonText, { color: colors.primary }]} maxFontSizeMultiplier={1.3}>New Customer</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: fonts.medium,
+    marginBottom: 10,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 0,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 14,
+    fontSize: 16,
+    fontFamily: fonts.medium,
+  },
+  results: {
+    flexGrow: 0,
+    maxHeight: 300,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  resultInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  resultName: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+  },
+  resultDetail: {
+    fontSize: 13,
+    fontFamily: fonts.regular,
+    marginTop: 2,
+  },
+  resultPoints: {
+    fontSize: 13,
+    fontFamily: fonts.semiBold,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: fonts.regular,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: fonts.medium,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  fullWidth: {
+    flex: 1,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
@@ -3,7 +3,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useCatalog } from '../context/CatalogContext';
 import { useDevice } from '../context/DeviceContext';
 import { useAuth } from '../context/AuthContext';
-import { productsApi, categoriesApi, transactionsApi, ordersApi, preordersApi, eventsApi } from '../lib/api';
+import { productsApi, categoriesApi, taxRatesApi, transactionsApi, ordersApi, preordersApi, eventsApi } from '../lib/api';
 import { billingService } from '../lib/api/billing';
 import logger from '../lib/logger';
 
@@ -43,6 +43,12 @@ export function DataPrefetcher() {
       queryFn: () => categoriesApi.list(selectedCatalog.id),
     });
 
+    // Checkout: named tax rates, so offline sales are taxed correctly
+    queryClient.prefetchQuery({
+      queryKey: ['tax-rates'],
+      queryFn: () => taxRatesApi.list(),
+    });
+
     // Transactions: first page (default 'all' filter)
     queryClient.prefetchInfiniteQuery({
       queryKey: ['transactions', selectedCatalog.id, deviceId, 'all'],
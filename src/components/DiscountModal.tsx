@@ -0,0 +1,456 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { discountsApi, Discount } from '../lib/api';
+import { calculateDiscountAmount } from '../utils/discounts';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import logger from '../lib/logger';
+import { Modal } from './Modal';
+
+const QUICK_PERCENTAGES = [5, 10, 15, 20, 25, 50];
+
+type DiscountMode = 'percentage' | 'fixed' | 'promo';
+
+interface DiscountModalProps {
+  visible: boolean;
+  title: string;
+  baseAmount: number; // in cents - what the discount is taken off
+  currentDiscount?: Discount | null;
+  allowPromoCode?: boolean; // promo codes only apply to the whole order
+  catalogId?: string;
+  onApply: (discount: Discount) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+}
+
+export function DiscountModal({
+  visible,
+  title,
+  baseAmount,
+  currentDiscount,
+  allowPromoCode = false,
+  catalogId,
+  onApply,
+  onRemove,
+  onCancel,
+}: DiscountModalProps) {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const [mode, setMode] = useState<DiscountMode>('percentage');
+  const [value, setValue] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+
+  // Reset the form when the modal opens, prefilled with the current discount
+  useEffect(() => {
+    if (!visible) return;
+    setError(null);
+    setIsValidating(false);
+    if (currentDiscount?.promoCode) {
+      setMode('promo');
+      setPromoCode(currentDiscount.promoCode);
+      setValue('');
+    } else if (currentDiscount) {
+      setMode(currentDiscount.type);
+      setValue(currentDiscount.type === 'percentage'
+        ? currentDiscount.value.toString()
+        : (currentDiscount.value / 100).toFixed(2));
+      setPromoCode('');
+    } else {
+      setMode('percentage');
+      setValue('');
+      setPromoCode('');
+    }
+  }, [visible, currentDiscount]);
+
+  const parsed = parseFloat(value);
+  const draft: Discount | null = mode === 'promo' || isNaN(parsed) || parsed <= 0
+    ? null
+    : mode === 'percentage'
+      ? { type: 'percentage', value: Math.round(parsed) }
+      : { type: 'fixed', value: Math.round(parsed * 100) };
+  const previewAmount = calculateDiscountAmount(draft, baseAmount);
+
+  const handleApply = async () => {
+    setError(null);
+
+    if (mode !== 'promo') {
+      if (!draft) {
+        setError('Enter a discount amount');
+        return;
+      }
+      if (draft.type === 'percentage' && draft.value > 100) {
+        setError('Percentage can\'t be more than 100%');
+        return;
+      }
+      onApply(draft);
+      return;
+    }
+
+    const code = promoCode.trim().toUpperCase();
+    if (!code) {
+      setError('Enter a promo code');
+      return;
+    }
+
+    setIsValidating(true);
+    try {
+      const result = await discountsApi.validatePromoCode(code, { subtotal: baseAmount, catalogId });
+      if (!result.valid || !result.promoCode) {
+        setError(result.reason || 'This promo code isn\'t valid');
+        return;
+      }
+      onApply({
+        type: result.promoCode.type,
+        value: result.promoCode.value,
+        promoCodeId: result.promoCode.id,
+        promoCode: result.promoCode.code,
+        minSubtotal: result.promoCode.minSubtotal,
+      });
+    } catch (err: any) {
+      logger.error('Promo code validation error:', err);
+      setError(err.statusCode ? (err.error || 'This promo code isn\'t valid') : 'Promo codes need an internet connection');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const modes: Array<{ key: DiscountMode; label: string }> = [
+    { key: 'percentage', label: 'Percent' },
+    { key: 'fixed', label: 'Amount' },
+    ...(allowPromoCode ? [{ key: 'promo' as DiscountMode, label: 'Promo Code' }] : []),
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.keyboardView}
+      >
+        <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close" accessibilityRole="button">
+          <Pressable
+            style={[styles.container, { backgroundColor: colors.card }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <View style={styles.headerLeft}>
+                <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                  {title}
+                </Text>
+                <Text style={[styles.subtitle, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                  {formatCents(baseAmount, currency)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+                onPress={onCancel}
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {/* Mode selector */}
+            <View style={[styles.segment, { backgroundColor: glassColors.backgroundElevated }]}>
+              {modes.map(m => {
+                const isSelected = mode === m.key;
+                return (
+                  <TouchableOpacity
+                    key={m.key}
+                    style={[styles.segmentButton, isSelected && { backgroundColor: colors.primary }]}
+                    onPress={() => {
+                      setMode(m.key);
+                      setValue('');
+                      setError(null);
+                    }}
+                    accessibilityRole="button"
+                    accessibilityLabel={m.label}
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text
+                      style={[styles.segmentText, { color: isSelected ? '#FFFFFF' : colors.textSecondary }]}
+                      maxFontSizeMultiplier={1.3}
+                    >
+                      {m.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {mode === 'promo' ? (
+              <TextInput
+                style={[styles.input, { backgroundColor: glassColors.backgroundElevated, borderColor: error ? colors.error : glassColors.border, color: colors.text }]}
+                value={promoCode}
+                onChangeText={(text) => {
+                  setPromoCode(text);
+                  setError(null);
+                }}
+                placeholder="Enter promo code"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={32}
+                accessibilityLabel="Promo code"
+              />
+            ) : (
+              <>
+                {mode === 'percentage' && (
+                  <View style={styles.chips}>
+                    {QUICK_PERCENTAGES.map(pct => {
+                      const isSelected = value === pct.toString();
+                      return (
+                        <TouchableOpacity
+                          key={pct}
+                          style={[
+                            styles.chip,
+                            { backgroundColor: glassColors.backgroundElevated, borderColor: isSelected ? colors.primary : glassColors.border },
+                          ]}
+                          onPress={() => {
+                            setValue(pct.toString());
+                            setError(null);
+                          }}
+                          accessibilityRole="button"
+                          accessibilityLabel={`${pct} percent off`}
+                          accessibilityState={{ selected: isSelected }}
+                        >
+                          <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]} maxFontSizeMultiplier={1.3}>
+                            {pct}%
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+                <View style={[styles.input, styles.valueRow, { backgroundColor: glassColors.backgroundElevated, borderColor: error ? colors.error : glassColors.border }]}>
+                  {mode === 'fixed' && (
+                    <Text style={[styles.affix, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.3}>
+                      {getCurrencySymbol(currency)}
+                    </Text>
+                  )}
+                  <TextInput
+                    style={[styles.valueInput, { color: colors.text }]}
+                    value={value}
+                    onChangeText={(text) => {
+                      setValue(text);
+                      setError(null);
+                    }}
+                    placeholder={mode === 'percentage' ? '0' : '0.00'}
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType={mode === 'percentage' ? 'number-pad' : 'decimal-pad'}
+                    accessibilityLabel={mode === 'percentage' ? 'Discount percentage' : 'Discount amount'}
+                  />
+                  {mode === 'percentage' && (
+                    <Text style={[styles.affix, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.3}>%</Text>
+                  )}
+                </View>
+                {previewAmount > 0 && (
+                  <Text style={[styles.preview, { color: colors.success }]} maxFontSizeMultiplier={1.5}>
+                    -{formatCents(previewAmount, currency)}
+                  </Text>
+                )}
+              </>
+            )}
+
+            {error && (
+              <Text style={[styles.errorText, { color: colors.error }]} maxFontSizeMultiplier={1.5} accessibilityRole="alert">
+                {error}
+              </Text>
+            )}
+
+            {/* Actions */}
+            <View style={styles.actions}>
+              {currentDiscount && (
+                <TouchableOpacity
+                  style={[styles.removeButton, { borderColor: glassColors.border }]}
+                  onPress={onRemove}
+                  accessibilityRole="button"
+                  accessibilityLabel="Remove discount"
+                >
+                  <Text style={[styles.removeButtonText, { color: colors.error }]} maxFontSizeMultiplier={1.3}>Remove</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.applyButton, { backgroundColor: colors.primary }, isValidating && styles.applyButtonDisabled]}
+                onPress={handleApply}
+                disabled={isValidating}
+                accessibilityRole="button"
+                accessibilityLabel="Apply discount"
+                accessibilityState={{ disabled: isValidating }}
+              >
+                {isValidating ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.applyButtonText} maxFontSizeMultiplier={1.3}>Apply Discount</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  segment: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 9,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: fonts.semiBold,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 14,
+    fontSize: 17,
+    fontFamily: fonts.medium,
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 0,
+  },
+  affix: {
+    fontSize: 17,
+    fontFamily: fonts.semiBold,
+  },
+  valueInput: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 4,
+    fontSize: 17,
+    fontFamily: fonts.medium,
+  },
+  preview: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+    marginTop: 10,
+    textAlign: 'right',
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: fonts.medium,
+    marginTop: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  removeButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  applyButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Pressable,
   TextInput,
   KeyboardAvoidingView,
@@ -15,6 +14,7 @@ import { useTheme } from '../context/ThemeContext';
 import { Product } from '../lib/api/products';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
+import { Modal } from './Modal';
 
 interface ItemNotesModalProps {
   visible: boolean;
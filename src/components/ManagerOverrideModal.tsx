@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { managerOverrideApi, ManagerOverride } from '../lib/api';
+import type { Permission } from '../lib/permissions';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+import { Modal } from './Modal';
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 8;
+
+interface ManagerOverrideModalProps {
+  visible: boolean;
+  permission: Permission;
+  title?: string;
+  message: string;
+  onApproved: (override: ManagerOverride) => void;
+  onCancel: () => void;
+}
+
+export function ManagerOverrideModal({
+  visible,
+  permission,
+  title = 'Manager Approval',
+  message,
+  onApproved,
+  onCancel,
+}: ManagerOverrideModalProps) {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setError(null);
+      setIsVerifying(false);
+    }
+  }, [visible]);
+
+  const handleVerify = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`Enter a PIN of at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const override = await managerOverrideApi.verifyPin(pin, permission);
+      onApproved(override);
+    } catch (err: any) {
+      logger.error('Manager override error:', err);
+      setPin('');
+      if (err.statusCode === 401 || err.statusCode === 403) {
+        setError(err.error || 'That PIN can\'t approve this action');
+      } else if (err.statusCode === 429) {
+        setError('Too many attempts. Try again in a few minutes.');
+      } else {
+        setError(err.statusCode ? (err.error || 'Could not verify PIN') : 'Manager approval needs an internet connection');
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close dialog" accessibilityRole="button">
+          <Pressable style={[styles.container, { backgroundColor: colors.card }]}>
+            <View style={[styles.iconCircle, { backgroundColor: colors.primary + '20' }]}>
+              <Ionicons name="shield-checkmark-outline" size={28} color={colors.primary} />
+            </View>
+            <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>{title}</Text>
+            <Text style={[styles.message, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+              {message}
+            </Text>
+
+            <TextInput
+              style={[
+                styles.pinInput,
+                {
+                  backgroundColor: glassColors.backgroundElevated,
+                  borderColor: error ? colors.error : glassColors.border,
+                  color: colors.text,
+                },
+              ]}
+              value={pin}
+              onChangeText={(text) => {
+                setPin(text.replace(/[^0-9]/g, '').slice(0, MAX_PIN_LENGTH));
+                setError(null);
+              }}
+              placeholder="Manager PIN"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="number-pad"
+              secureTextEntry
+              autoFocus
+              maxLength={MAX_PIN_LENGTH}
+              editable={!isVerifying}
+              onSubmitEditing={handleVerify}
+              returnKeyType="done"
+              accessibilityLabel="Manager PIN"
+              maxFontSizeMultiplier={1.3}
+            />
+
+            {error && (
+              <Text style={[styles.errorText, { color: colors.error }]} maxFontSizeMultiplier={1.5} accessibilityRole="alert">
+                {error}
+              </Text>
+            )}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton, { borderColor: colors.border }]}
+                onPress={onCancel}
+                disabled={isVerifying}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel"
+                accessibilityHint="Dismisses the dialog without taking action"
+              >
+                <Text style={[styles.buttonText, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  { backgroundColor: colors.primary, opacity: pin.length < MIN_PIN_LENGTH || isVerifying ? 0.5 : 1 },
+                ]}
+                onPress={handleVerify}
+                disabled={pin.length < MIN_PIN_LENGTH || isVerifying}
+                accessibilityRole="button"
+                accessibilityLabel="Approve"
+                accessibilityHint="Verifies the manager PIN and continues"
+                accessibilityState={{ disabled: pin.length < MIN_PIN_LENGTH || isVerifying, busy: isVerifying }}
+              >
+                {isVerifying ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={[styles.buttonText, { color: '#FFFFFF' }]} maxFontSizeMultiplier={1.3}>
+                    Approve
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 340,
+    borderRadius: 16,
+    padding: 24,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  pinInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,30 @@
+import React, { useCallback } from 'react';
+import { Modal as NativeModal, ModalProps, View, StyleSheet } from 'react-native';
+import { useRegisterMode } from '../context/RegisterModeContext';
+
+/**
+ * React Native's Modal, with touches inside it counted as register activity.
+ * Modals render outside the app's view tree, where the register's idle timer can't see them.
+ */
+export function Modal({ children, ...props }: ModalProps) {
+  const { recordActivity } = useRegisterMode();
+
+  const handleTouchCapture = useCallback(() => {
+    recordActivity();
+    return false;
+  }, [recordActivity]);
+
+  return (
+    <NativeModal {...props}>
+      <View style={styles.root} onStartShouldSetResponderCapture={handleTouchCapture}>
+        {children}
+      </View>
+    </NativeModal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
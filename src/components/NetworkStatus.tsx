@@ -5,11 +5,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { useTheme } from '../context/ThemeContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
 import { fonts } from '../lib/fonts';
 
 export function NetworkStatus() {
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
+  const { pendingCount } = useOfflineQueue();
   const [isConnected, setIsConnected] = useState<boolean | null>(true);
   const [showBanner, setShowBanner] = useState(false);
   const slideAnim = useRef(new Animated.Value(-100)).current;
@@ -54,6 +56,13 @@ export function NetworkStatus() {
   if (!showBanner) return null;
 
   const isOffline = isConnected === false;
+  const message = isOffline
+    ? pendingCount > 0
+      ? `Offline · ${pendingCount} order${pendingCount === 1 ? '' : 's'} pending sync`
+      : 'No Internet Connection'
+    : pendingCount > 0
+      ? `Back Online · Syncing ${pendingCount} order${pendingCount === 1 ? '' : 's'}`
+      : 'Back Online';
 
   return (
     <Animated.View
@@ -66,7 +75,7 @@ export function NetworkStatus() {
         },
       ]}
       accessibilityRole="alert"
-      accessibilityLabel={isOffline ? 'No Internet Connection' : 'Back Online'}
+      accessibilityLabel={message}
       accessibilityLiveRegion="assertive"
     >
       <Ionicons
@@ -75,7 +84,7 @@ export function NetworkStatus() {
         color="#fff"
       />
       <Text style={styles.text} maxFontSizeMultiplier={1.5}>
-        {isOffline ? 'No Internet Connection' : 'Back Online'}
+        {message}
       </Text>
     </Animated.View>
   );
@@ -0,0 +1,304 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { getCurrencySymbol } from '../utils/currency';
+import { glass } from '../lib/colors';
+import { generateUUID } from '../lib/device';
+import type { ProductOptionGroup } from '../lib/api';
+import { Toggle } from './Toggle';
+
+// Editable form of an option group - price deltas are kept as typed strings
+export interface OptionGroupDraft {
+  id: string;
+  name: string;
+  required: boolean;
+  multiSelect: boolean;
+  options: Array<{ id: string; name: string; priceDelta: string }>;
+}
+
+export function toOptionGroupDrafts(groups: ProductOptionGroup[]): OptionGroupDraft[] {
+  return groups.map(group => ({
+    ...group,
+    options: group.options.map(option => ({
+      ...option,
+      priceDelta: option.priceDelta ? (option.priceDelta / 100).toFixed(2) : '',
+    })),
+  }));
+}
+
+/**
+ * Convert drafts back to option groups.
+ * Returns an error message instead if a group or option is incomplete.
+ */
+export function fromOptionGroupDrafts(drafts: OptionGroupDraft[]): { groups: ProductOptionGroup[] } | { error: string } {
+  const groups: ProductOptionGroup[] = [];
+  for (const draft of drafts) {
+    if (!draft.name.trim()) {
+      return { error: 'Every option group needs a name' };
+    }
+    const options = draft.options.filter(o => o.name.trim() || o.priceDelta.trim());
+    if (options.length === 0) {
+      return { error: `Add at least one option to "${draft.name.trim()}"` };
+    }
+    const parsedOptions = [];
+    for (const option of options) {
+      if (!option.name.trim()) {
+        return { error: `Every option in "${draft.name.trim()}" needs a name` };
+      }
+      const delta = option.priceDelta.trim() ? parseFloat(option.priceDelta) : 0;
+      if (isNaN(delta)) {
+        return { error: `Invalid price for "${option.name.trim()}"` };
+      }
+      parsedOptions.push({ id: option.id, name: option.name.trim(), priceDelta: Math.round(delta * 100) });
+    }
+    groups.push({
+      id: draft.id,
+      name: draft.name.trim(),
+      required: draft.required,
+      multiSelect: draft.multiSelect,
+      options: parsedOptions,
+    });
+  }
+  return { groups };
+}
+
+interface OptionGroupsEditorProps {
+  groups: OptionGroupDraft[];
+  onChange: (groups: OptionGroupDraft[]) => void;
+}
+
+export function OptionGroupsEditor({ groups, onChange }: OptionGroupsEditorProps) {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const styles = createStyles(colors, glassColors);
+
+  const updateGroup = (groupId: string, changes: Partial<OptionGroupDraft>) => {
+    onChange(groups.map(g => (g.id === groupId ? { ...g, ...changes } : g)));
+  };
+
+  const updateOption = (group: OptionGroupDraft, optionId: string, changes: { name?: string; priceDelta?: string }) => {
+    updateGroup(group.id, {
+      options: group.options.map(o => (o.id === optionId ? { ...o, ...changes } : o)),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      {
+        id: generateUUID(),
+        name: '',
+        required: false,
+        multiSelect: false,
+        options: [{ id: generateUUID(), name: '', priceDelta: '' }],
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {groups.map(group => (
+        <View key={group.id} style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <TextInput
+              style={[styles.input, styles.groupNameInput]}
+              value={group.name}
+              onChangeText={(text) => updateGroup(group.id, { name: text })}
+              placeholder="Group name (e.g. Size)"
+              placeholderTextColor={colors.textMuted}
+              maxLength={50}
+              accessibilityLabel="Option group name"
+            />
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange(groups.filter(g => g.id !== group.id))}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${group.name || 'option group'}`}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel} maxFontSizeMultiplier={1.5}>Required</Text>
+            <Toggle
+              value={group.required}
+              onValueChange={(value) => updateGroup(group.id, { required: value })}
+              accessibilityLabel="Option group required"
+            />
+          </View>
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel} maxFontSizeMultiplier={1.5}>Allow multiple choices</Text>
+            <Toggle
+              value={group.multiSelect}
+              onValueChange={(value) => updateGroup(group.id, { multiSelect: value })}
+              accessibilityLabel="Allow multiple choices"
+            />
+          </View>
+
+          {group.options.map(option => (
+            <View key={option.id} style={styles.optionRow}>
+              <TextInput
+                style={[styles.input, styles.optionNameInput]}
+                value={option.name}
+                onChangeText={(text) => updateOption(group, option.id, { name: text })}
+                placeholder="Option (e.g. Large)"
+                placeholderTextColor={colors.textMuted}
+                maxLength={50}
+                accessibilityLabel="Option name"
+              />
+              <View style={[styles.input, styles.priceInputContainer]}>
+                <Text style={styles.currencySymbol} maxFontSizeMultiplier={1.3}>+{getCurrencySymbol(currency)}</Text>
+                <TextInput
+                  style={styles.priceInput}
+                  value={option.priceDelta}
+                  onChangeText={(text) => updateOption(group, option.id, { priceDelta: text })}
+                  placeholder="0.00"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="numbers-and-punctuation"
+                  accessibilityLabel={`Extra charge for ${option.name || 'option'}`}
+                />
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${option.name || 'option'}`}
+              >
+                <Ionicons name="close-circle" size={20} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addOptionButton}
+            onPress={() => updateGroup(group.id, {
+              options: [...group.options, { id: generateUUID(), name: '', priceDelta: '' }],
+            })}
+            accessibilityRole="button"
+            accessibilityLabel="Add option"
+          >
+            <Ionicons name="add" size={18} color={colors.primary} />
+            <Text style={styles.addText} maxFontSizeMultiplier={1.5}>Add option</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addGroupButton}
+        onPress={addGroup}
+        accessibilityRole="button"
+        accessibilityLabel="Add option group"
+      >
+        <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+        <Text style={styles.addText} maxFontSizeMultiplier={1.5}>Add option group</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: any, glassColors: any) =>
+  StyleSheet.create({
+    groupCard: {
+      backgroundColor: glassColors.backgroundSubtle,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 12,
+    },
+    groupHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+    },
+    groupNameInput: {
+      flex: 1,
+      fontWeight: '600',
+    },
+    iconButton: {
+      width: 36,
+      height: 36,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    toggleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+    },
+    toggleLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 8,
+    },
+    optionNameInput: {
+      flex: 1,
+    },
+    priceInputContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      width: 110,
+      paddingVertical: 0,
+    },
+    currencySymbol: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginRight: 2,
+    },
+    priceInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+    },
+    addOptionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      marginTop: 12,
+    },
+    addGroupButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary + '60',
+    },
+    addText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+  });
@@ -7,7 +7,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
 import { openVendorDashboard } from '../lib/auth-handoff';
 
 interface PaymentsDisabledBannerProps {
@@ -16,9 +16,9 @@ interface PaymentsDisabledBannerProps {
 
 export function PaymentsDisabledBanner({ compact = false }: PaymentsDisabledBannerProps) {
   const { colors } = useTheme();
-  const { user } = useAuth();
   const styles = createStyles(colors, compact);
-  const isManager = user?.role === 'owner' || user?.role === 'admin';
+  const { can } = usePermissions();
+  const isManager = can('manage_business');
 
   if (compact) {
     return (
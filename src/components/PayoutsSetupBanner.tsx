@@ -7,7 +7,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
 import { openVendorDashboard } from '../lib/auth-handoff';
 
 interface PayoutsSetupBannerProps {
@@ -20,9 +20,9 @@ interface PayoutsSetupBannerProps {
  */
 export function PayoutsSetupBanner({ compact = false }: PayoutsSetupBannerProps) {
   const { colors, isDark } = useTheme();
-  const { user } = useAuth();
   const styles = createStyles(colors, compact, isDark);
-  const isManager = user?.role === 'owner' || user?.role === 'admin';
+  const { can } = usePermissions();
+  const isManager = can('manage_business');
 
   if (compact) {
     return (
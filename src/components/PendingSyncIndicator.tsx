@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { OutboxEntry } from '../lib/offline-queue';
+import { formatCents } from '../utils/currency';
+import { fonts } from '../lib/fonts';
+import { Modal } from './Modal';
+
+/**
+ * Shows "N orders pending sync" while offline orders are waiting in the outbox.
+ * Tapping it opens a list of queued orders where conflicts can be retried or discarded.
+ */
+export function PendingSyncIndicator() {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const { entries, pendingCount, conflicts, isOnline, isSyncing, syncNow, retryEntry, discardEntry } = useOfflineQueue();
+  const [detailsVisible, setDetailsVisible] = useState(false);
+  const styles = createStyles(colors, isDark);
+
+  if (entries.length === 0) return null;
+
+  const hasConflicts = conflicts.length > 0;
+  const label = hasConflicts
+    ? `${conflicts.length} order${conflicts.length === 1 ? '' : 's'} failed to sync`
+    : `${pendingCount} order${pendingCount === 1 ? '' : 's'} pending sync`;
+
+  const renderEntry = (entry: OutboxEntry) => {
+    const isConflict = entry.status === 'conflict';
+    return (
+      <View key={entry.clientOrderId} style={styles.entryRow}>
+        <Ionicons
+          name={isConflict ? 'alert-circle' : entry.type === 'cash_sale' ? 'cash-outline' : 'pause-circle-outline'}
+          size={20}
+          color={isConflict ? colors.error : colors.textSecondary}
+        />
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryTitle} maxFontSizeMultiplier={1.3}>
+            {entry.type === 'cash_sale' ? 'Cash sale' : `Held order${entry.holdName ? ` · ${entry.holdName}` : ''}`}
+            {' · '}
+            {formatCents(entry.params.totalAmount, currency)}
+          </Text>
+          <Text style={[styles.entrySubtitle, isConflict && { color: colors.error }]} maxFontSizeMultiplier={1.5}>
+            {isConflict
+              ? entry.error
+              : new Date(entry.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </Text>
+        </View>
+        {isConflict && (
+          <View style={styles.entryActions}>
+            <TouchableOpacity
+              onPress={() => retryEntry(entry.clientOrderId)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel="Retry syncing this order"
+            >
+              <Ionicons name="refresh" size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => discardEntry(entry.clientOrderId)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel="Discard this order"
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.container, hasConflicts && styles.containerConflict]}
+        onPress={() => setDetailsVisible(true)}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={label}
+        accessibilityHint="Shows orders waiting to sync"
+      >
+        {isSyncing ? (
+          <ActivityIndicator size="small" color={colors.warning} />
+        ) : (
+          <Ionicons
+            name={hasConflicts ? 'alert-circle' : 'cloud-upload-outline'}
+            size={18}
+            color={hasConflicts ? colors.error : colors.warning}
+          />
+        )}
+        <Text style={styles.text} maxFontSizeMultiplier={1.5}>{label}</Text>
+        <Ionicons name="chevron-forward" size={16} color={colors.textSecondary} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={detailsVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setDetailsVisible(false)}
+        accessibilityViewIsModal={true}
+      >
+        <Pressable style={styles.overlay} onPress={() => setDetailsVisible(false)} accessibilityLabel="Close dialog" accessibilityRole="button">
+          <Pressable style={styles.sheet}>
+            <Text style={styles.sheetTitle} maxFontSizeMultiplier={1.3}>Offline Orders</Text>
+            <Text style={styles.sheetMessage} maxFontSizeMultiplier={1.5}>
+              {isOnline
+                ? 'These orders were taken while offline and are being sent to the server in order.'
+                : 'These orders were taken while offline. They will sync automatically when the connection returns.'}
+            </Text>
+            <ScrollView style={styles.entryList}>
+              {entries.map(renderEntry)}
+            </ScrollView>
+            <View style={styles.buttons}>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton]}
+                onPress={() => setDetailsVisible(false)}
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Text style={[styles.buttonText, { color: colors.text }]} maxFontSizeMultiplier={1.3}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: colors.primary }, (!isOnline || isSyncing) && styles.buttonDisabled]}
+                onPress={syncNow}
+                disabled={!isOnline || isSyncing}
+                accessibilityRole="button"
+                accessibilityLabel="Sync now"
+                accessibilityState={{ disabled: !isOnline || isSyncing }}
+              >
+                {isSyncing ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={[styles.buttonText, { color: '#fff' }]} maxFontSizeMultiplier={1.3}>Sync Now</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: isDark ? '#1f1708' : (colors.warningBg || colors.warning + '15'),
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      marginHorizontal: 16,
+      marginVertical: 8,
+      gap: 8,
+    },
+    containerConflict: {
+      backgroundColor: isDark ? '#1f0a0a' : (colors.errorBg || colors.error + '15'),
+    },
+    text: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+    },
+    sheet: {
+      width: '100%',
+      maxWidth: 420,
+      maxHeight: '80%',
+      borderRadius: 16,
+      padding: 24,
+      backgroundColor: colors.card,
+    },
+    sheetTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+      marginBottom: 8,
+    },
+    sheetMessage: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      lineHeight: 20,
+      marginBottom: 16,
+    },
+    entryList: {
+      flexGrow: 0,
+    },
+    entryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 12,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: colors.border,
+    },
+    entryInfo: {
+      flex: 1,
+    },
+    entryTitle: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    entrySubtitle: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    entryActions: {
+      flexDirection: 'row',
+      gap: 16,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 20,
+    },
+    button: {
+      flex: 1,
+      height: 48,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+    },
+  });
@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Pressable,
   TextInput,
   ScrollView,
@@ -24,20 +23,43 @@ import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import { getCurrencySymbol } from '../utils/currency';
 import { glass } from '../lib/colors';
-import type { Product, Category } from '../lib/api';
+import type { Product, Category, ProductOptionGroup, PriceRule, StockAdjustmentReason, TaxRate } from '../lib/api';
+import { Modal } from './Modal';
 import { Toggle } from './Toggle';
+import { CodeScannerModal } from './CodeScannerModal';
+import { OptionGroupsEditor, OptionGroupDraft, toOptionGroupDrafts, fromOptionGroupDrafts } from './OptionGroupsEditor';
+import { TimeWindowsEditor, TimeWindowDraft, toTimeWindowDrafts, fromPriceRuleDrafts } from './TimeWindowsEditor';
+
+const STOCK_REASONS: Array<{ key: StockAdjustmentReason; label: string }> = [
+  { key: 'restock', label: 'Restock' },
+  { key: 'recount', label: 'Recount' },
+  { key: 'damaged', label: 'Damaged' },
+  { key: 'other', label: 'Other' },
+];
 
 interface ProductModalProps {
   visible: boolean;
   product: Product | null; // null for create, Product for edit
   categories: Category[];
+  taxRates: TaxRate[];
   catalogId: string;
   onSave: (data: {
     name: string;
     description: string;
+    sku: string;
+    upc: string;
     price: number; // in cents
     categoryId: string | null;
+    taxRateId: string | null; // null = the category's rate
     isActive: boolean;
+    optionGroups: ProductOptionGroup[];
+    priceRules: PriceRule[]; // time-based prices on this menu
+    inventory: {
+      trackStock: boolean;
+      stockQuantity?: number; // starting count, only when tracking is turned on
+      lowStockThreshold: number | null;
+      hideWhenSoldOut: boolean;
+    };
     image?: {
       uri: string;
       fileName: string;
@@ -45,6 +67,7 @@ interface ProductModalProps {
     };
     removeImage?: boolean;
   }) => Promise<void>;
+  onAdjustStock?: (adjustment: number, reason: StockAdjustmentReason) => Promise<number | null>;
   onClose: () => void;
   onOpenCategoryManager?: () => void;
 }
@@ -53,8 +76,10 @@ export function ProductModal({
   visible,
   product,
   categories,
+  taxRates,
   catalogId,
   onSave,
+  onAdjustStock,
   onClose,
   onOpenCategoryManager,
 }: ProductModalProps) {
@@ -67,14 +92,30 @@ export function ProductModal({
   // Form state
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [sku, setSku] = useState('');
+  const [upc, setUpc] = useState('');
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
   const [priceString, setPriceString] = useState('');
   const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [taxRateId, setTaxRateId] = useState<string | null>(null);
   const [isActive, setIsActive] = useState(true);
   const [imageUri, setImageUri] = useState<string | null>(null);
   const [existingImageUrl, setExistingImageUrl] = useState<string | null>(null);
   const [removeImage, setRemoveImage] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [optionGroups, setOptionGroups] = useState<OptionGroupDraft[]>([]);
+  const [priceRules, setPriceRules] = useState<TimeWindowDraft[]>([]);
+
+  // Inventory state - currentStock is the server count for products already being tracked
+  const [trackStock, setTrackStock] = useState(false);
+  const [currentStock, setCurrentStock] = useState<number | null>(null);
+  const [initialStockString, setInitialStockString] = useState('');
+  const [lowStockString, setLowStockString] = useState('');
+  const [hideWhenSoldOut, setHideWhenSoldOut] = useState(false);
+  const [adjustmentString, setAdjustmentString] = useState('');
+  const [adjustmentReason, setAdjustmentReason] = useState<StockAdjustmentReason>('restock');
+  const [isAdjusting, setIsAdjusting] = useState(false);
 
   // Reset form when modal opens/closes or product changes
   useEffect(() => {
@@ -82,22 +123,43 @@ export function ProductModal({
       if (product) {
         setName(product.name);
         setDescription(product.description || '');
+        setSku(product.sku || '');
+        setUpc(product.upc || '');
         setPriceString((product.price / 100).toFixed(2));
         setCategoryId(product.categoryId);
+        setTaxRateId(product.taxRateId);
         setIsActive(product.isActive);
         setExistingImageUrl(product.imageUrl);
         setImageUri(null);
         setRemoveImage(false);
+        setOptionGroups(toOptionGroupDrafts(product.optionGroups));
+        setPriceRules(toTimeWindowDrafts(product.priceRules));
+        setTrackStock(product.stockQuantity !== null);
+        setCurrentStock(product.stockQuantity);
+        setLowStockString(product.lowStockThreshold !== null ? product.lowStockThreshold.toString() : '');
+        setHideWhenSoldOut(product.hideWhenSoldOut);
       } else {
         setName('');
         setDescription('');
+        setSku('');
+        setUpc('');
         setPriceString('');
         setCategoryId(null);
+        setTaxRateId(null);
         setIsActive(true);
         setExistingImageUrl(null);
         setImageUri(null);
         setRemoveImage(false);
+        setOptionGroups([]);
+        setPriceRules([]);
+        setTrackStock(false);
+        setCurrentStock(null);
+        setLowStockString('');
+        setHideWhenSoldOut(false);
       }
+      setInitialStockString('');
+      setAdjustmentString('');
+      setAdjustmentReason('restock');
     }
   }, [visible, product]);
 
@@ -149,6 +211,34 @@ export function ProductModal({
     }
   };
 
+  // Recount sets the count directly; the other reasons add or remove the typed amount
+  const handleAdjustStock = async () => {
+    if (!onAdjustStock || currentStock === null) return;
+    const amount = parseInt(adjustmentString, 10);
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert('Error', 'Please enter a valid quantity');
+      return;
+    }
+    const adjustment = adjustmentReason === 'recount'
+      ? amount - currentStock
+      : adjustmentReason === 'restock' ? amount : -amount;
+    if (adjustment === 0) {
+      setAdjustmentString('');
+      return;
+    }
+
+    setIsAdjusting(true);
+    try {
+      const newStock = await onAdjustStock(adjustment, adjustmentReason);
+      setCurrentStock(newStock);
+      setAdjustmentString('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to adjust stock');
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
   const handleSave = async () => {
     // Validate
     if (!name.trim()) {
@@ -162,6 +252,31 @@ export function ProductModal({
       return;
     }
 
+    const parsedOptions = fromOptionGroupDrafts(optionGroups);
+    if ('error' in parsedOptions) {
+      Alert.alert('Error', parsedOptions.error);
+      return;
+    }
+
+    const parsedRules = fromPriceRuleDrafts(priceRules);
+    if ('error' in parsedRules) {
+      Alert.alert('Error', parsedRules.error);
+      return;
+    }
+
+    // Only products that aren't tracked yet take a starting count
+    const needsInitialStock = trackStock && currentStock === null;
+    const initialStock = parseInt(initialStockString, 10);
+    if (needsInitialStock && (isNaN(initialStock) || initialStock < 0)) {
+      Alert.alert('Error', 'Please enter how many are in stock');
+      return;
+    }
+    const lowStockThreshold = lowStockString.trim() ? parseInt(lowStockString, 10) : null;
+    if (lowStockThreshold !== null && (isNaN(lowStockThreshold) || lowStockThreshold < 0)) {
+      Alert.alert('Error', 'Please enter a valid low stock alert level');
+      return;
+    }
+
     setIsSaving(true);
     try {
       const imageData = imageUri ? {
@@ -173,9 +288,20 @@ export function ProductModal({
       await onSave({
         name: name.trim(),
         description: description.trim(),
+        sku: sku.trim(),
+        upc: upc.trim(),
         price: Math.round(priceNumber * 100), // Convert to cents
         categoryId,
+        taxRateId,
         isActive,
+        optionGroups: parsedOptions.groups,
+        priceRules: parsedRules.rules,
+        inventory: {
+          trackStock,
+          stockQuantity: needsInitialStock ? initialStock : undefined,
+          lowStockThreshold,
+          hideWhenSoldOut: trackStock && hideWhenSoldOut,
+        },
         image: imageData,
         removeImage: removeImage && !imageUri,
       });
@@ -318,6 +444,44 @@ export function ProductModal({
               </View>
             </View>
 
+            {/* SKU & Barcode */}
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>SKU</Text>
+              <TextInput
+                style={styles.input}
+                value={sku}
+                onChangeText={setSku}
+                placeholder="Optional stock code"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={64}
+                accessibilityLabel="Product SKU"
+              />
+            </View>
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Barcode (UPC/EAN)</Text>
+              <View style={styles.priceInputContainer}>
+                <TextInput
+                  style={[styles.priceInput, styles.barcodeInput]}
+                  value={upc}
+                  onChangeText={setUpc}
+                  placeholder="Scan or type the barcode"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                  maxLength={14}
+                  accessibilityLabel="Product barcode"
+                />
+                <TouchableOpacity
+                  onPress={() => setShowBarcodeScanner(true)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Scan barcode"
+                >
+                  <Ionicons name="barcode-outline" size={24} color={colors.primary} />
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {/* Category */}
             <View style={styles.section}>
               <View style={styles.labelRow}>
@@ -415,6 +579,38 @@ export function ProductModal({
               )}
             </View>
 
+            {/* Tax Rate */}
+            {taxRates.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.label} maxFontSizeMultiplier={1.5}>Tax Rate</Text>
+                <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                  Overrides the category's rate on every menu this product is on.
+                </Text>
+                <View style={styles.reasonRow}>
+                  {[{ id: null, label: 'Category rate' }, ...taxRates.map(rate => ({ id: rate.id, label: `${rate.name} (${rate.rate}%)` }))].map(option => {
+                    const isSelected = taxRateId === option.id;
+                    return (
+                      <TouchableOpacity
+                        key={option.id ?? 'category'}
+                        style={[styles.reasonChip, isSelected && styles.reasonChipSelected]}
+                        onPress={() => setTaxRateId(option.id)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Tax rate: ${option.label}`}
+                        accessibilityState={{ selected: isSelected }}
+                      >
+                        <Text
+                          style={[styles.reasonChipText, isSelected && styles.reasonChipTextSelected]}
+                          maxFontSizeMultiplier={1.3}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
             {/* Availability Toggle */}
             <View style={styles.section}>
               <View style={styles.toggleRow}>
@@ -431,9 +627,162 @@ export function ProductModal({
                 />
               </View>
             </View>
+
+            {/* Inventory */}
+            <View style={styles.section}>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleTextContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.5}>Track Stock</Text>
+                  <Text style={styles.toggleDescription} maxFontSizeMultiplier={1.5}>
+                    Count down as orders complete and mark sold out at zero
+                  </Text>
+                </View>
+                <Toggle
+                  value={trackStock}
+                  onValueChange={setTrackStock}
+                  accessibilityLabel="Track stock"
+                />
+              </View>
+
+              {trackStock && (
+                <View style={styles.inventoryContent}>
+                  {currentStock === null ? (
+                    <>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.5}>In Stock *</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={initialStockString}
+                        onChangeText={setInitialStockString}
+                        placeholder="0"
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="number-pad"
+                        accessibilityLabel="Quantity in stock"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <View style={styles.stockRow}>
+                        <Text style={styles.label} maxFontSizeMultiplier={1.5}>In Stock</Text>
+                        <Text
+                          style={[styles.stockCount, currentStock <= 0 && { color: colors.error }]}
+                          maxFontSizeMultiplier={1.3}
+                        >
+                          {currentStock <= 0 ? 'Sold out' : currentStock}
+                        </Text>
+                      </View>
+                      {onAdjustStock && (
+                        <>
+                          <View style={styles.reasonRow}>
+                            {STOCK_REASONS.map(reason => {
+                              const isSelected = adjustmentReason === reason.key;
+                              return (
+                                <TouchableOpacity
+                                  key={reason.key}
+                                  style={[styles.reasonChip, isSelected && styles.reasonChipSelected]}
+                                  onPress={() => setAdjustmentReason(reason.key)}
+                                  accessibilityRole="button"
+                                  accessibilityLabel={reason.label}
+                                  accessibilityState={{ selected: isSelected }}
+                                >
+                                  <Text
+                                    style={[styles.reasonChipText, isSelected && styles.reasonChipTextSelected]}
+                                    maxFontSizeMultiplier={1.3}
+                                  >
+                                    {reason.label}
+                                  </Text>
+                                </TouchableOpacity>
+                              );
+                            })}
+                          </View>
+                          <View style={styles.adjustRow}>
+                            <TextInput
+                              style={[styles.input, styles.adjustInput]}
+                              value={adjustmentString}
+                              onChangeText={setAdjustmentString}
+                              placeholder={adjustmentReason === 'recount' ? 'New count' : adjustmentReason === 'restock' ? 'Quantity to add' : 'Quantity to remove'}
+                              placeholderTextColor={colors.textMuted}
+                              keyboardType="number-pad"
+                              accessibilityLabel="Stock adjustment quantity"
+                            />
+                            <TouchableOpacity
+                              style={[styles.adjustButton, (isAdjusting || !adjustmentString.trim()) && styles.saveButtonDisabled]}
+                              onPress={handleAdjustStock}
+                              disabled={isAdjusting || !adjustmentString.trim()}
+                              accessibilityRole="button"
+                              accessibilityLabel="Apply stock adjustment"
+                              accessibilityState={{ disabled: isAdjusting || !adjustmentString.trim() }}
+                            >
+                              {isAdjusting ? (
+                                <ActivityIndicator size="small" color="#fff" accessibilityLabel="Adjusting stock" />
+                              ) : (
+                                <Text style={styles.saveButtonText} maxFontSizeMultiplier={1.3}>Apply</Text>
+                              )}
+                            </TouchableOpacity>
+                          </View>
+                        </>
+                      )}
+                    </>
+                  )}
+
+                  <Text style={[styles.label, styles.inventoryLabel]} maxFontSizeMultiplier={1.5}>Low Stock Alert</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={lowStockString}
+                    onChangeText={setLowStockString}
+                    placeholder="Alert when stock reaches (optional)"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="number-pad"
+                    accessibilityLabel="Low stock alert level"
+                  />
+
+                  <View style={[styles.toggleRow, styles.inventoryToggle]}>
+                    <View style={styles.toggleTextContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.5}>Hide When Sold Out</Text>
+                      <Text style={styles.toggleDescription} maxFontSizeMultiplier={1.5}>
+                        Remove from the menu instead of showing a sold out badge
+                      </Text>
+                    </View>
+                    <Toggle
+                      value={hideWhenSoldOut}
+                      onValueChange={setHideWhenSoldOut}
+                      accessibilityLabel="Hide when sold out"
+                    />
+                  </View>
+                </View>
+              )}
+            </View>
+
+            {/* Price Rules */}
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Time-Based Prices</Text>
+              <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                Happy hour and other prices that replace the regular price on this menu during set hours.
+              </Text>
+              <TimeWindowsEditor windows={priceRules} onChange={setPriceRules} withPrice addLabel="Add price rule" />
+            </View>
+
+            {/* Option Groups */}
+            <View style={styles.section}>
+              <Text style={styles.label} maxFontSizeMultiplier={1.5}>Options</Text>
+              <Text style={[styles.toggleDescription, styles.sectionDescription]} maxFontSizeMultiplier={1.5}>
+                Sizes, milk types, add-ons and other choices. Shared by every menu this product is on.
+              </Text>
+              <OptionGroupsEditor groups={optionGroups} onChange={setOptionGroups} />
+            </View>
           </ScrollView>
         </KeyboardAvoidingView>
       </View>
+
+      <CodeScannerModal
+        visible={showBarcodeScanner}
+        title="Scan Barcode"
+        hint="Line up the product's barcode"
+        onScan={(code) => {
+          setShowBarcodeScanner(false);
+          setUpc(code);
+        }}
+        onClose={() => setShowBarcodeScanner(false)}
+      />
     </Modal>
   );
 }
@@ -560,6 +909,10 @@ const createStyles = (colors: any, glassColors: any, isDark: boolean) =>
       fontWeight: '600',
       color: colors.text,
     },
+    barcodeInput: {
+      fontSize: 16,
+      fontWeight: '500',
+    },
     imagePicker: {
       borderRadius: 16,
       overflow: 'hidden',
@@ -664,4 +1017,74 @@ const createStyles = (colors: any, glassColors: any, isDark: boolean) =>
       color: colors.textMuted,
       marginTop: 2,
     },
+    sectionDescription: {
+      marginTop: 0,
+      marginBottom: 12,
+    },
+    toggleTextContainer: {
+      flex: 1,
+      marginRight: 12,
+    },
+    inventoryContent: {
+      marginTop: 16,
+    },
+    inventoryLabel: {
+      marginTop: 16,
+    },
+    inventoryToggle: {
+      marginTop: 16,
+    },
+    stockRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    stockCount: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    reasonRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 10,
+    },
+    reasonChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+    },
+    reasonChipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '15',
+    },
+    reasonChipText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.textSecondary,
+    },
+    reasonChipTextSelected: {
+      color: colors.primary,
+    },
+    adjustRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    adjustInput: {
+      flex: 1,
+    },
+    adjustButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingHorizontal: 20,
+      paddingVertical: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
   });
@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { Product, ProductOptionGroup } from '../lib/api/products';
+import { OrderItemModifier } from '../lib/api/orders';
+import { formatCents } from '../utils/currency';
+import { getActivePriceRule } from '../utils/schedules';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import { Modal } from './Modal';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+interface ProductOptionsModalProps {
+  visible: boolean;
+  product: Product | null;
+  onConfirm: (modifiers: OrderItemModifier[]) => void;
+  onCancel: () => void;
+}
+
+// Pre-select the first option of required single-choice groups (e.g. default size)
+function getDefaultSelections(groups: ProductOptionGroup[]): Record<string, string[]> {
+  const selections: Record<string, string[]> = {};
+  groups.forEach(group => {
+    selections[group.id] = group.required && !group.multiSelect && group.options.length > 0
+      ? [group.options[0].id]
+      : [];
+  });
+  return selections;
+}
+
+export function ProductOptionsModal({
+  visible,
+  product,
+  onConfirm,
+  onCancel,
+}: ProductOptionsModalProps) {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+
+  const groups = product?.optionGroups || [];
+
+  // Reset selections when modal opens with new product
+  useEffect(() => {
+    if (visible && product) {
+      setSelections(getDefaultSelections(product.optionGroups));
+    }
+  }, [visible, product]);
+
+  const toggleOption = (group: ProductOptionGroup, optionId: string) => {
+    setSelections(prev => {
+      const current = prev[group.id] || [];
+      if (group.multiSelect) {
+        return {
+          ...prev,
+          [group.id]: current.includes(optionId)
+            ? current.filter(id => id !== optionId)
+            : [...current, optionId],
+        };
+      }
+      // Single choice - tapping the selected option clears it unless the group is required
+      if (current.includes(optionId)) {
+        return group.required ? prev : { ...prev, [group.id]: [] };
+      }
+      return { ...prev, [group.id]: [optionId] };
+    });
+  };
+
+  // Flatten selections into structured modifiers, in group/option order
+  const modifiers = useMemo<OrderItemModifier[]>(() => {
+    const result: OrderItemModifier[] = [];
+    groups.forEach(group => {
+      const selected = selections[group.id] || [];
+      group.options.forEach(option => {
+        if (selected.includes(option.id)) {
+          result.push({
+            groupId: group.id,
+            groupName: group.name,
+            optionId: option.id,
+            optionName: option.name,
+            priceDelta: option.priceDelta,
+          });
+        }
+      });
+    });
+    return result;
+  }, [groups, selections]);
+
+  const missingRequired = groups.filter(g => g.required && (selections[g.id] || []).length === 0);
+  // Matches the price the cart will lock in when the item is added
+  const priceRule = product ? getActivePriceRule(product, new Date()) : undefined;
+  const basePrice = priceRule?.price ?? product?.price ?? 0;
+  const unitPrice = basePrice + modifiers.reduce((sum, m) => sum + m.priceDelta, 0);
+
+  const formatDelta = (delta: number) => {
+    if (delta === 0) return '';
+    return `${delta > 0 ? '+' : '-'}${formatCents(Math.abs(delta), currency)}`;
+  };
+
+  if (!product) return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close" accessibilityRole="button">
+        <Pressable
+          style={[styles.container, { backgroundColor: colors.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                {product.name}
+              </Text>
+              <Text style={[styles.productPrice, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                {formatCents(basePrice, currency)}{priceRule ? ` · ${priceRule.label}` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+            >
+              <Ionicons name="close" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.groupList} showsVerticalScrollIndicator={false}>
+            {groups.map(group => (
+              <View key={group.id} style={styles.group}>
+                <View style={styles.groupHeader}>
+                  <Text style={[styles.groupName, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                    {group.name}
+                  </Text>
+                  <Text
+                    style={[styles.groupHint, { color: group.required ? colors.primary : colors.textMuted }]}
+                    maxFontSizeMultiplier={1.5}
+                  >
+                    {group.required ? 'Required' : 'Optional'}{group.multiSelect ? ' · Choose any' : ''}
+                  </Text>
+                </View>
+                {group.options.map(option => {
+                  const isSelected = (selections[group.id] || []).includes(option.id);
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[
+                        styles.option,
+                        { backgroundColor: glassColors.backgroundElevated, borderColor: isSelected ? colors.primary : glassColors.border },
+                      ]}
+                      onPress={() => toggleOption(group, option.id)}
+                      accessibilityRole={group.multiSelect ? 'checkbox' : 'radio'}
+                      accessibilityLabel={`${option.name}${option.priceDelta ? ` ${formatDelta(option.priceDelta)}` : ''}`}
+                      accessibilityState={{ checked: isSelected }}
+                    >
+                      <Ionicons
+                        name={group.multiSelect
+                          ? (isSelected ? 'checkbox' : 'square-outline')
+                          : (isSelected ? 'radio-button-on' : 'radio-button-off')}
+                        size={22}
+                        color={isSelected ? colors.primary : colors.textMuted}
+                      />
+                      <Text style={[styles.optionName, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                        {option.name}
+                      </Text>
+                      {option.priceDelta !== 0 && (
+                        <Text style={[styles.optionPrice, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                          {formatDelta(option.priceDelta)}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+
+          {/* Add button */}
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.primary }, missingRequired.length > 0 && styles.addButtonDisabled]}
+            onPress={() => onConfirm(modifiers)}
+            disabled={missingRequired.length > 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Add to cart, ${formatCents(unitPrice, currency)}`}
+            accessibilityState={{ disabled: missingRequired.length > 0 }}
+          >
+            <Text style={styles.addButtonText} maxFontSizeMultiplier={1.3}>
+              {missingRequired.length > 0
+                ? `Choose ${missingRequired[0].name}`
+                : `Add to Cart · ${formatCents(unitPrice, currency)}`}
+            </Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: SCREEN_HEIGHT * 0.85,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+    marginBottom: 4,
+  },
+  productPrice: {
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  groupList: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  groupName: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  groupHint: {
+    fontSize: 13,
+    fontFamily: fonts.medium,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  optionPrice: {
+    fontSize: 14,
+    fontFamily: fonts.medium,
+  },
+  addButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
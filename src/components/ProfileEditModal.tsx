@@ -5,7 +5,6 @@ import {
   TextInput,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   ScrollView,
   ActivityIndicator,
   Alert,
@@ -24,6 +23,7 @@ import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 import { shadows } from '../lib/shadows';
 import logger from '../lib/logger';
+import { Modal } from './Modal';
 
 interface ProfileEditModalProps {
   visible: boolean;
@@ -6,7 +6,6 @@ import {
   Pressable,
   Alert,
   Animated,
-  Modal,
   useWindowDimensions,
   KeyboardAvoidingView,
   Platform,
@@ -23,6 +22,7 @@ import { fonts } from '../lib/fonts';
 import { glass } from '../lib/colors';
 import { shadows } from '../lib/shadows';
 import { useTapToPayGuard } from '../hooks';
+import { Modal } from './Modal';
 
 const KEYPAD_ROWS = [
   ['1', '2', '3'],
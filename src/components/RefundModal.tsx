@@ -0,0 +1,609 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { Modal } from './Modal';
+import { Toggle } from './Toggle';
+import type { RefundParams, RefundReason, TransactionDetail } from '../lib/api';
+import {
+  REFUND_REASONS,
+  calculateItemsRefund,
+  getRefundableQuantity,
+  getRemainingRefundable,
+  getRemainingTip,
+} from '../utils/refunds';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+
+type RefundMode = 'items' | 'amount';
+
+interface RefundModalProps {
+  visible: boolean;
+  transaction: TransactionDetail;
+  isSubmitting: boolean;
+  onConfirm: (params: RefundParams) => void;
+  onCancel: () => void;
+}
+
+function getPaymentLegLabel(paymentMethod: string): string {
+  if (paymentMethod === 'cash') return 'Cash';
+  if (paymentMethod === 'tap_to_pay') return 'Tap to Pay';
+  if (paymentMethod === 'gift_card') return 'Gift Card';
+  return 'Card';
+}
+
+export function RefundModal({
+  visible,
+  transaction,
+  isSubmitting,
+  onConfirm,
+  onCancel,
+}: RefundModalProps) {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const glassColors = isDark ? glass.dark : glass.light;
+
+  const refundableItems = (transaction.items || []).filter(item => getRefundableQuantity(item) > 0);
+  const paymentLegs = (transaction.orderPayments || []).filter(
+    payment => payment.status === 'succeeded' && payment.amount - (payment.amountRefunded || 0) > 0
+  );
+  const isSplit = (transaction.orderPayments?.length || 0) > 1;
+
+  const [mode, setMode] = useState<RefundMode>('items');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [includeTax, setIncludeTax] = useState(true);
+  const [includeTip, setIncludeTip] = useState(false);
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer');
+  const [paymentId, setPaymentId] = useState<string | null>(null);
+  const [asStoreCredit, setAsStoreCredit] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setMode(refundableItems.length > 0 ? 'items' : 'amount');
+    setQuantities({});
+    setIncludeTax(true);
+    setIncludeTip(false);
+    setValue('');
+    setReason('requested_by_customer');
+    setPaymentId(isSplit ? paymentLegs[0]?.id ?? null : null);
+    setAsStoreCredit(false);
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const selectedLeg = paymentLegs.find(payment => payment.id === paymentId);
+  const remaining = selectedLeg
+    ? Math.min(getRemainingRefundable(transaction), selectedLeg.amount - (selectedLeg.amountRefunded || 0))
+    : getRemainingRefundable(transaction);
+  const remainingTip = getRemainingTip(transaction);
+
+  const { itemsAmount, taxAmount, serviceChargeAmount } = calculateItemsRefund(transaction, quantities);
+  const itemsTax = includeTax ? taxAmount : 0;
+  const itemsTip = includeTip ? remainingTip : 0;
+  const parsed = parseFloat(value);
+  const requested = mode === 'items'
+    ? itemsAmount + itemsTax + serviceChargeAmount + itemsTip
+    : isNaN(parsed) ? 0 : Math.round(parsed * 100);
+  // Item refunds have to match the items sent, so they're never trimmed to fit the balance
+  const refundAmount = mode === 'items' ? requested : Math.min(requested, remaining);
+
+  const setQuantity = (itemId: string, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [itemId]: quantity }));
+    setError(null);
+  };
+
+  const handleConfirm = () => {
+    setError(null);
+    if (refundAmount <= 0) {
+      setError(mode === 'items' ? 'Select at least one item or the tip' : 'Enter a refund amount');
+      return;
+    }
+    if (requested > remaining) {
+      setError(mode === 'items'
+        ? `These come to ${formatCents(requested, currency)}, but only ${formatCents(remaining, currency)} can go back ${selectedLeg ? 'to this payment. Select fewer items or another payment.' : 'to the customer. Select fewer items.'}`
+        : `You can refund up to ${formatCents(remaining, currency)}`);
+      return;
+    }
+
+    const params: RefundParams = {
+      amount: refundAmount,
+      reasonCode: reason,
+      ...(selectedLeg && { orderPaymentId: selectedLeg.id }),
+      ...(asStoreCredit && { asStoreCredit: true }),
+    };
+    if (mode === 'items') {
+      params.items = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+      params.taxAmount = itemsTax;
+      params.serviceChargeAmount = serviceChargeAmount;
+      params.tipAmount = itemsTip;
+    }
+    onConfirm(params);
+  };
+
+  const modes: Array<{ key: RefundMode; label: string }> = [
+    ...(refundableItems.length > 0 ? [{ key: 'items' as RefundMode, label: 'Items' }] : []),
+    { key: 'amount', label: 'Custom Amount' },
+  ];
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    { backgroundColor: glassColors.backgroundElevated, borderColor: isSelected ? colors.primary : glassColors.border },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.keyboardView}
+      >
+        <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close" accessibilityRole="button">
+          <Pressable
+            style={[styles.container, { backgroundColor: colors.card }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <View style={styles.headerLeft}>
+                <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                  Issue Refund
+                </Text>
+                <Text style={[styles.subtitle, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                  {formatCents(remaining, currency)} refundable
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+                onPress={onCancel}
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+              {/* Payment leg (split payments) */}
+              {isSplit && paymentLegs.length > 0 && (
+                <>
+                  <Text style={[styles.label, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                    Refund To
+                  </Text>
+                  <View style={styles.chips}>
+                    {paymentLegs.map(payment => {
+                      const isSelected = paymentId === payment.id;
+                      const legRemaining = payment.amount - (payment.amountRefunded || 0);
+                      return (
+                        <TouchableOpacity
+                          key={payment.id}
+                          style={chipStyle(isSelected)}
+                          onPress={() => {
+                            setPaymentId(payment.id);
+                            setError(null);
+                          }}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Refund to ${getPaymentLegLabel(payment.paymentMethod)}, ${formatCents(legRemaining, currency)} refundable`}
+                          accessibilityState={{ selected: isSelected }}
+                        >
+                          <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]} maxFontSizeMultiplier={1.3}>
+                            {getPaymentLegLabel(payment.paymentMethod)} · {formatCents(legRemaining, currency)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              {/* Mode selector */}
+              {modes.length > 1 && (
+                <View style={[styles.segment, { backgroundColor: glassColors.backgroundElevated }]}>
+                  {modes.map(m => {
+                    const isSelected = mode === m.key;
+                    return (
+                      <TouchableOpacity
+                        key={m.key}
+                        style={[styles.segmentButton, isSelected && { backgroundColor: colors.primary }]}
+                        onPress={() => {
+                          setMode(m.key);
+                          setError(null);
+                        }}
+                        accessibilityRole="button"
+                        accessibilityLabel={m.label}
+                        accessibilityState={{ selected: isSelected }}
+                      >
+                        <Text
+                          style={[styles.segmentText, { color: isSelected ? '#FFFFFF' : colors.textSecondary }]}
+                          maxFontSizeMultiplier={1.3}
+                        >
+                          {m.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
+              {mode === 'items' ? (
+                <>
+                  {refundableItems.map(item => {
+                    const max = getRefundableQuantity(item);
+                    const quantity = quantities[item.id] || 0;
+                    return (
+                      <View key={item.id} style={[styles.itemRow, { borderBottomColor: glassColors.border }]}>
+                        <View style={styles.itemInfo}>
+                          <Text style={[styles.itemName, { color: colors.text }]} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                            {item.name}
+                          </Text>
+                          <Text style={[styles.itemMeta, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                            {formatCents(item.unitPrice, currency)} · {max} refundable
+                          </Text>
+                        </View>
+                        <View style={styles.stepper}>
+                          <TouchableOpacity
+                            style={[styles.stepperButton, { backgroundColor: glassColors.backgroundElevated }]}
+                            onPress={() => setQuantity(item.id, Math.max(0, quantity - 1))}
+                            disabled={quantity === 0}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Refund one less ${item.name}`}
+                            accessibilityState={{ disabled: quantity === 0 }}
+                          >
+                            <Ionicons name="remove" size={18} color={quantity === 0 ? colors.textMuted : colors.text} />
+                          </TouchableOpacity>
+                          <Text style={[styles.stepperValue, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                            {quantity}
+                          </Text>
+                          <TouchableOpacity
+                            style={[styles.stepperButton, { backgroundColor: glassColors.backgroundElevated }]}
+                            onPress={() => setQuantity(item.id, Math.min(max, quantity + 1))}
+                            disabled={quantity >= max}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Refund one more ${item.name}`}
+                            accessibilityState={{ disabled: quantity >= max }}
+                          >
+                            <Ionicons name="add" size={18} color={quantity >= max ? colors.textMuted : colors.text} />
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    );
+                  })}
+
+                  {serviceChargeAmount > 0 && (
+                    <Text style={[styles.itemMeta, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                      Includes {formatCents(serviceChargeAmount, currency)} service charge on the selected items
+                    </Text>
+                  )}
+
+                  {/* Tax-inclusive prices already refund their tax with the items */}
+                  {(transaction.taxAmount || 0) > 0 && !transaction.taxInclusive && (
+                    <View style={styles.toggleRow}>
+                      <Text style={[styles.toggleLabel, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                        Include tax{taxAmount > 0 ? ` (${formatCents(taxAmount, currency)})` : ''}
+                      </Text>
+                      <Toggle value={includeTax} onValueChange={setIncludeTax} accessibilityLabel="Include tax" />
+                    </View>
+                  )}
+                  {remainingTip > 0 && (
+                    <View style={styles.toggleRow}>
+                      <Text style={[styles.toggleLabel, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                        Refund tip ({formatCents(remainingTip, currency)})
+                      </Text>
+                      <Toggle value={includeTip} onValueChange={setIncludeTip} accessibilityLabel="Refund tip" />
+                    </View>
+                  )}
+                </>
+              ) : (
+                <View style={[styles.input, styles.valueRow, { backgroundColor: glassColors.backgroundElevated, borderColor: error ? colors.error : glassColors.border }]}>
+                  <Text style={[styles.affix, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.3}>
+                    {getCurrencySymbol(currency)}
+                  </Text>
+                  <TextInput
+                    style={[styles.valueInput, { color: colors.text }]}
+                    value={value}
+                    onChangeText={(text) => {
+                      setValue(text);
+                      setError(null);
+                    }}
+                    placeholder={(remaining / 100).toFixed(2)}
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel="Refund amount"
+                  />
+                </View>
+              )}
+
+              {/* Reason */}
+              <Text style={[styles.label, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                Reason
+              </Text>
+              <View style={styles.chips}>
+                {REFUND_REASONS.map(r => {
+                  const isSelected = reason === r.value;
+                  return (
+                    <TouchableOpacity
+                      key={r.value}
+                      style={chipStyle(isSelected)}
+                      onPress={() => setReason(r.value)}
+                      accessibilityRole="button"
+                      accessibilityLabel={r.label}
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]} maxFontSizeMultiplier={1.3}>
+                        {r.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.toggleRow}>
+                <Text style={[styles.toggleLabel, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                  Issue as store credit
+                </Text>
+                <Toggle value={asStoreCredit} onValueChange={setAsStoreCredit} accessibilityLabel="Issue as store credit" />
+              </View>
+            </ScrollView>
+
+            {/* Summary */}
+            <View style={[styles.summary, { borderTopColor: glassColors.border }]}>
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>Refund</Text>
+                <Text style={[styles.summaryValue, { color: colors.text }]} maxFontSizeMultiplier={1.5}>
+                  {formatCents(refundAmount, currency)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>Remaining after refund</Text>
+                <Text style={[styles.summaryLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                  {formatCents(Math.max(0, getRemainingRefundable(transaction) - refundAmount), currency)}
+                </Text>
+              </View>
+            </View>
+
+            {error && (
+              <Text style={[styles.errorText, { color: colors.error }]} maxFontSizeMultiplier={1.5} accessibilityRole="alert">
+                {error}
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.confirmButton, { backgroundColor: colors.error }, isSubmitting && styles.confirmButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={isSubmitting}
+              accessibilityRole="button"
+              accessibilityLabel={`${asStoreCredit ? 'Issue store credit' : 'Refund'} ${formatCents(refundAmount, currency)}`}
+              accessibilityState={{ disabled: isSubmitting }}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#FFFFFF" accessibilityLabel="Processing refund" />
+              ) : (
+                <Text style={styles.confirmButtonText} maxFontSizeMultiplier={1.3}>
+                  {asStoreCredit ? 'Issue' : 'Refund'} {formatCents(refundAmount, currency)}{asStoreCredit ? ' Credit' : ''}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: fonts.semiBold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  segment: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 8,
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 9,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: fonts.semiBold,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: fonts.semiBold,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+  },
+  itemMeta: {
+    fontSize: 13,
+    fontFamily: fonts.regular,
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 14,
+    fontSize: 17,
+    fontFamily: fonts.medium,
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 0,
+    marginTop: 8,
+  },
+  affix: {
+    fontSize: 17,
+    fontFamily: fonts.semiBold,
+  },
+  valueInput: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 4,
+    fontSize: 17,
+    fontFamily: fonts.medium,
+  },
+  summary: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 12,
+    marginTop: 8,
+    gap: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontFamily: fonts.medium,
+  },
+  summaryValue: {
+    fontSize: 17,
+    fontFamily: fonts.bold,
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: fonts.medium,
+    marginTop: 10,
+  },
+  confirmButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { ManagerOverrideModal } from './ManagerOverrideModal';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 6;
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+interface RegisterLockModalProps {
+  visible: boolean;
+  onUnlock: (pin: string) => Promise<unknown>;
+  onExitRegisterMode: () => void;
+}
+
+/**
+ * Full-screen PIN pad shown while a register-mode device is locked.
+ * A cashier's PIN unlocks it for them; a manager can turn register mode off from here.
+ */
+export function RegisterLockModal({ visible, onUnlock, onExitRegisterMode }: RegisterLockModalProps) {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { organization } = useAuth();
+  const insets = useSafeAreaInsets();
+
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [showExit, setShowExit] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setError(null);
+      setIsUnlocking(false);
+      setShowExit(false);
+    }
+  }, [visible]);
+
+  const handleUnlock = async (value: string) => {
+    if (value.length < MIN_PIN_LENGTH || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(value);
+    } catch (err: any) {
+      logger.error('Register unlock error:', err);
+      setPin('');
+      if (err.statusCode === 401 || err.statusCode === 403) {
+        setError(err.error || 'Incorrect PIN');
+      } else if (err.statusCode === 429) {
+        setError('Too many attempts. Try again in a few minutes.');
+      } else {
+        setError(err.statusCode ? (err.error || 'Could not unlock') : 'Unlocking needs an internet connection');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (isUnlocking) return;
+    setError(null);
+    if (key === 'delete') {
+      setPin(prev => prev.slice(0, -1));
+      return;
+    }
+    if (pin.length >= MAX_PIN_LENGTH) return;
+    const next = pin + key;
+    setPin(next);
+    // Six digits is the longest a PIN can be, so don't wait for Unlock
+    if (next.length === MAX_PIN_LENGTH) {
+      handleUnlock(next);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={() => {}}
+      accessibilityViewIsModal={true}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background, paddingTop: insets.top + 48, paddingBottom: insets.bottom + 24 }]}>
+        <View style={[styles.iconCircle, { backgroundColor: colors.primary + '20' }]}>
+          <Ionicons name="lock-closed-outline" size={28} color={colors.primary} />
+        </View>
+        <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+          {organization?.name || 'Register'}
+        </Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+          Enter your PIN to start
+        </Text>
+
+        <View style={styles.dots} accessibilityLabel={`${pin.length} digits entered`}>
+          {Array.from({ length: MAX_PIN_LENGTH }).map((_, index) => (
+            <View
+              key={index}
+              style={[
+                styles.dot,
+                { borderColor: error ? colors.error : glassColors.border },
+                index < pin.length && { backgroundColor: error ? colors.error : colors.primary, borderColor: 'transparent' },
+              ]}
+            />
+          ))}
+        </View>
+
+        <View style={styles.status}>
+          {isUnlocking ? (
+            <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Unlocking" />
+          ) : error ? (
+            <Text style={[styles.errorText, { color: colors.error }]} maxFontSizeMultiplier={1.5} accessibilityRole="alert">
+              {error}
+            </Text>
+          ) : null}
+        </View>
+
+        <View style={styles.keypad}>
+          {KEYS.map((key, index) =>
+            key === '' ? (
+              <View key={index} style={styles.key} />
+            ) : (
+              <TouchableOpacity
+                key={index}
+                style={[styles.key, key !== 'delete' && { backgroundColor: glassColors.backgroundElevated }]}
+                onPress={() => handleKey(key)}
+                disabled={isUnlocking}
+                accessibilityRole="button"
+                accessibilityLabel={key === 'delete' ? 'Delete' : key}
+              >
+                {key === 'delete' ? (
+                  <Ionicons name="backspace-outline" size={26} color={colors.text} />
+                ) : (
+                  <Text style={[styles.keyText, { color: colors.text }]} maxFontSizeMultiplier={1.2}>{key}</Text>
+                )}
+              </TouchableOpacity>
+            )
+          )}
+        </View>
+
+        {pin.length >= MIN_PIN_LENGTH && pin.length < MAX_PIN_LENGTH && (
+          <TouchableOpacity
+            style={[styles.unlockButton, { backgroundColor: colors.primary, opacity: isUnlocking ? 0.5 : 1 }]}
+            onPress={() => handleUnlock(pin)}
+            disabled={isUnlocking}
+            accessibilityRole="button"
+            accessibilityLabel="Unlock"
+          >
+            <Text style={styles.unlockText} maxFontSizeMultiplier={1.3}>Unlock</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={styles.exitButton}
+          onPress={() => setShowExit(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Exit register mode"
+          accessibilityHint="Needs a manager PIN"
+        >
+          <Text style={[styles.exitText, { color: colors.textMuted }]} maxFontSizeMultiplier={1.3}>Exit Register Mode</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ManagerOverrideModal
+        visible={showExit}
+        permission="manage_team"
+        title="Exit Register Mode"
+        message="A manager's PIN is needed to turn off register mode on this device."
+        onApproved={() => {
+          setShowExit(false);
+          onExitRegisterMode();
+        }}
+        onCancel={() => setShowExit(false)}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 14,
+    marginTop: 32,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1.5,
+  },
+  status: {
+    height: 44,
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  keypad: {
+    width: '100%',
+    maxWidth: 300,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 16,
+  },
+  key: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+  },
+  unlockButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    paddingHorizontal: 48,
+    borderRadius: 12,
+  },
+  unlockText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  exitButton: {
+    marginTop: 'auto',
+    paddingVertical: 12,
+  },
+  exitText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
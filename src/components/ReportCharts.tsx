@@ -0,0 +1,272 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ThemeColors } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+
+// Series colors for split/breakdown charts, taken from the active theme
+export function getSeriesColor(colors: ThemeColors, index: number): string {
+  const series = [
+    colors.primary,
+    colors.success,
+    colors.warning,
+    colors.error,
+    colors.primary300,
+    colors.successLight,
+    colors.warningLight,
+    colors.textMuted,
+  ];
+  return series[index % series.length];
+}
+
+export interface ChartDatum {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: ChartDatum[];
+  height?: number;
+  formatValue: (value: number) => string;
+  labelEvery?: number; // show every Nth x-axis label when bars are dense
+  accessibilityLabel: string;
+}
+
+/**
+ * Vertical bar chart drawn with plain Views.
+ */
+export function BarChart({ data, height = 140, formatValue, labelEvery = 1, accessibilityLabel }: BarChartProps) {
+  const { colors, isDark } = useTheme();
+  const max = Math.max(0, ...data.map(d => d.value));
+  const peak = data.find(d => d.value === max && max > 0);
+
+  return (
+    <View accessible accessibilityLabel={accessibilityLabel}>
+      {peak && (
+        <Text style={[styles.peakText, { color: colors.textMuted }]} maxFontSizeMultiplier={1.3}>
+          Peak {peak.label}: {formatValue(peak.value)}
+        </Text>
+      )}
+      <View style={[styles.barArea, { height, borderBottomColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.08)' }]}>
+        {data.map((d) => (
+          <View key={d.key} style={styles.barSlot}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: max > 0 ? Math.max(d.value > 0 ? 2 : 0, (d.value / max) * height) : 0,
+                  backgroundColor: d === peak ? colors.primary : colors.primary + '80',
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      {/* One label per group of labelEvery bars so dense charts stay readable */}
+      <View style={styles.labelRow}>
+        {data.filter((_, index) => index % labelEvery === 0).map((d, index) => (
+          <View key={d.key} style={{ flex: Math.min(labelEvery, data.length - index * labelEvery) }}>
+            <Text style={[styles.axisLabel, { color: colors.textMuted }]} numberOfLines={1} maxFontSizeMultiplier={1}>
+              {d.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface BreakdownListProps {
+  data: ChartDatum[];
+  formatValue: (value: number) => string;
+  formatDetail?: (datum: ChartDatum) => string;
+}
+
+/**
+ * Ranked rows with a proportional bar under each label.
+ */
+export function BreakdownList({ data, formatValue, formatDetail }: BreakdownListProps) {
+  const { colors, isDark } = useTheme();
+  const max = Math.max(0, ...data.map(d => d.value));
+  const trackColor = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.05)';
+
+  return (
+    <View>
+      {data.map((d, index) => (
+        <View
+          key={d.key}
+          style={styles.breakdownRow}
+          accessible
+          accessibilityLabel={`${d.label}, ${formatValue(d.value)}${formatDetail ? `, ${formatDetail(d)}` : ''}`}
+        >
+          <View style={styles.breakdownHeader}>
+            <Text style={[styles.breakdownLabel, { color: colors.text }]} numberOfLines={1} maxFontSizeMultiplier={1.3}>
+              {d.label}
+            </Text>
+            <Text style={[styles.breakdownValue, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+              {formatValue(d.value)}
+            </Text>
+          </View>
+          <View style={[styles.track, { backgroundColor: trackColor }]}>
+            <View
+              style={[
+                styles.fill,
+                { width: `${max > 0 ? (d.value / max) * 100 : 0}%`, backgroundColor: getSeriesColor(colors, index) },
+              ]}
+            />
+          </View>
+          {formatDetail && (
+            <Text style={[styles.breakdownDetail, { color: colors.textMuted }]} maxFontSizeMultiplier={1.3}>
+              {formatDetail(d)}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface SplitBarProps {
+  data: ChartDatum[];
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Single stacked bar showing each item's share of the total, with a legend.
+ */
+export function SplitBar({ data, formatValue }: SplitBarProps) {
+  const { colors, isDark } = useTheme();
+  const total = data.reduce((sum, d) => sum + d.value, 0);
+  const trackColor = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.05)';
+
+  return (
+    <View>
+      <View style={[styles.splitTrack, { backgroundColor: trackColor }]}>
+        {total > 0 && data.map((d, index) => (
+          <View
+            key={d.key}
+            style={{ flex: d.value / total, backgroundColor: getSeriesColor(colors, index) }}
+          />
+        ))}
+      </View>
+      {data.map((d, index) => {
+        const percent = total > 0 ? Math.round((d.value / total) * 100) : 0;
+        return (
+          <View
+            key={d.key}
+            style={styles.legendRow}
+            accessible
+            accessibilityLabel={`${d.label}, ${formatValue(d.value)}, ${percent} percent`}
+          >
+            <View style={[styles.legendDot, { backgroundColor: getSeriesColor(colors, index) }]} />
+            <Text style={[styles.legendLabel, { color: colors.text }]} numberOfLines={1} maxFontSizeMultiplier={1.3}>
+              {d.label}
+            </Text>
+            <Text style={[styles.legendPercent, { color: colors.textMuted }]} maxFontSizeMultiplier={1.3}>
+              {percent}%
+            </Text>
+            <Text style={[styles.legendValue, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+              {formatValue(d.value)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  peakText: {
+    fontSize: 12,
+    fontFamily: fonts.medium,
+    marginBottom: 8,
+  },
+  barArea: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    width: '80%',
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  axisLabel: {
+    fontSize: 10,
+    fontFamily: fonts.regular,
+  },
+  breakdownRow: {
+    paddingVertical: 8,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  breakdownLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.medium,
+    marginRight: 12,
+  },
+  breakdownValue: {
+    fontSize: 14,
+    fontFamily: fonts.semiBold,
+  },
+  breakdownDetail: {
+    fontSize: 12,
+    fontFamily: fonts.regular,
+    marginTop: 4,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  splitTrack: {
+    flexDirection: 'row',
+    height: 14,
+    borderRadius: 7,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  legendLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.medium,
+  },
+  legendPercent: {
+    fontSize: 13,
+    fontFamily: fonts.regular,
+    marginRight: 12,
+  },
+  legendValue: {
+    fontSize: 14,
+    fontFamily: fonts.semiBold,
+  },
+});
@@ -7,7 +7,6 @@ import {
   ScrollView,
   Animated,
   Dimensions,
-  Modal,
   TextInput,
   Pressable,
   ActivityIndicator,
@@ -24,11 +23,13 @@ import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/dat
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import { useCatalog } from '../context/CatalogContext';
+import { usePermissions } from '../hooks';
 import { catalogsApi, CreateCatalogData, CatalogLayoutType } from '../lib/api';
 import { openVendorDashboard } from '../lib/auth-handoff';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 import { shadows } from '../lib/shadows';
+import { Modal } from './Modal';
 import { Toggle } from './Toggle';
 
 const LAYOUT_OPTIONS: { value: CatalogLayoutType; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
@@ -853,15 +854,14 @@ function NoCatalogsWelcome({ colors, glassColors, isDark, isManager }: { colors:
 
 export function SetupRequired({ type }: SetupRequiredProps) {
   const { colors, isDark } = useTheme();
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const glassColors = isDark ? glass.dark : glass.light;
-  const isManager = user?.role === 'owner' || user?.role === 'admin';
 
   if (type === 'no-payment-account') {
-    return <PaymentSetupRequired colors={colors} isManager={isManager} />;
+    return <PaymentSetupRequired colors={colors} isManager={can('manage_business')} />;
   }
 
-  return <NoCatalogsWelcome colors={colors} glassColors={glassColors} isDark={isDark} isManager={isManager} />;
+  return <NoCatalogsWelcome colors={colors} glassColors={glassColors} isDark={isDark} isManager={can('edit_catalog')} />;
 }
 
 const createSimpleStyles = (colors: any) =>
@@ -11,7 +11,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Modal,
   Platform,
   Linking,
 } from 'react-native';
@@ -22,6 +21,7 @@ import { BlurView } from 'expo-blur';
 import { useTheme } from '../context/ThemeContext';
 import { glass } from '../lib/colors';
 import { shadows } from '../lib/shadows';
+import { Modal } from './Modal';
 
 // Apple TTPOi 5.4: Region-correct copy
 const TAP_TO_PAY_NAME = Platform.OS === 'ios' ? 'Tap to Pay on iPhone' : 'Tap to Pay';
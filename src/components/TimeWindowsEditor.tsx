@@ -0,0 +1,341 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { getCurrencySymbol } from '../utils/currency';
+import { DAY_LABELS, isValidTime } from '../utils/schedules';
+import { glass } from '../lib/colors';
+import { generateUUID } from '../lib/device';
+import type { TimeWindow, PriceRule } from '../lib/api';
+
+// Editable form of a schedule or price rule - times and price are kept as typed strings
+export interface TimeWindowDraft {
+  id: string;
+  label: string;
+  days: number[];
+  startTime: string;
+  endTime: string;
+  price: string;
+}
+
+export function toTimeWindowDrafts(windows: Array<TimeWindow | PriceRule>): TimeWindowDraft[] {
+  return windows.map(window => ({
+    id: 'id' in window ? window.id : generateUUID(),
+    label: 'label' in window ? window.label : '',
+    days: window.days,
+    startTime: window.startTime,
+    endTime: window.endTime,
+    price: 'price' in window ? (window.price / 100).toFixed(2) : '',
+  }));
+}
+
+function validateWindow(draft: TimeWindowDraft, name: string): string | null {
+  if (draft.days.length === 0) {
+    return `Pick at least one day for ${name}`;
+  }
+  if (!isValidTime(draft.startTime) || !isValidTime(draft.endTime)) {
+    return `Enter times for ${name} as HH:MM (24-hour)`;
+  }
+  return null;
+}
+
+function toWindow(draft: TimeWindowDraft): TimeWindow {
+  return {
+    days: [...draft.days].sort((a, b) => a - b),
+    startTime: draft.startTime.trim().padStart(5, '0'),
+    endTime: draft.endTime.trim().padStart(5, '0'),
+  };
+}
+
+/**
+ * Convert drafts back to catalog schedules.
+ * Returns an error message instead if a window is incomplete.
+ */
+export function fromScheduleDrafts(drafts: TimeWindowDraft[]): { schedules: TimeWindow[] } | { error: string } {
+  const schedules: TimeWindow[] = [];
+  for (const draft of drafts) {
+    const error = validateWindow(draft, 'every schedule');
+    if (error) return { error };
+    schedules.push(toWindow(draft));
+  }
+  return { schedules };
+}
+
+/**
+ * Convert drafts back to price rules.
+ * Returns an error message instead if a rule is incomplete.
+ */
+export function fromPriceRuleDrafts(drafts: TimeWindowDraft[]): { rules: PriceRule[] } | { error: string } {
+  const rules: PriceRule[] = [];
+  for (const draft of drafts) {
+    if (!draft.label.trim()) {
+      return { error: 'Every price rule needs a name' };
+    }
+    const name = `"${draft.label.trim()}"`;
+    const error = validateWindow(draft, name);
+    if (error) return { error };
+    const price = parseFloat(draft.price);
+    if (isNaN(price) || price < 0) {
+      return { error: `Invalid price for ${name}` };
+    }
+    rules.push({ id: draft.id, label: draft.label.trim(), price: Math.round(price * 100), ...toWindow(draft) });
+  }
+  return { rules };
+}
+
+interface TimeWindowsEditorProps {
+  windows: TimeWindowDraft[];
+  onChange: (windows: TimeWindowDraft[]) => void;
+  withPrice?: boolean; // price rules have a name and price, catalog schedules only days and hours
+  addLabel: string;
+}
+
+export function TimeWindowsEditor({ windows, onChange, withPrice = false, addLabel }: TimeWindowsEditorProps) {
+  const { colors, isDark } = useTheme();
+  const { currency } = useAuth();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const styles = createStyles(colors, glassColors);
+
+  const updateWindow = (windowId: string, changes: Partial<TimeWindowDraft>) => {
+    onChange(windows.map(w => (w.id === windowId ? { ...w, ...changes } : w)));
+  };
+
+  const toggleDay = (window: TimeWindowDraft, day: number) => {
+    updateWindow(window.id, {
+      days: window.days.includes(day) ? window.days.filter(d => d !== day) : [...window.days, day],
+    });
+  };
+
+  const addWindow = () => {
+    onChange([
+      ...windows,
+      {
+        id: generateUUID(),
+        label: '',
+        days: [1, 2, 3, 4, 5],
+        startTime: withPrice ? '16:00' : '09:00',
+        endTime: withPrice ? '18:00' : '17:00',
+        price: '',
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {windows.map(window => (
+        <View key={window.id} style={styles.windowCard}>
+          <View style={styles.windowHeader}>
+            {withPrice ? (
+              <>
+                <TextInput
+                  style={[styles.input, styles.labelInput]}
+                  value={window.label}
+                  onChangeText={(text) => updateWindow(window.id, { label: text })}
+                  placeholder="Name (e.g. Happy Hour)"
+                  placeholderTextColor={colors.textMuted}
+                  maxLength={40}
+                  accessibilityLabel="Price rule name"
+                />
+                <View style={[styles.input, styles.priceInputContainer]}>
+                  <Text style={styles.currencySymbol} maxFontSizeMultiplier={1.3}>{getCurrencySymbol(currency)}</Text>
+                  <TextInput
+                    style={styles.priceInput}
+                    value={window.price}
+                    onChangeText={(text) => updateWindow(window.id, { price: text })}
+                    placeholder="0.00"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel={`Price during ${window.label || 'price rule'}`}
+                  />
+                </View>
+              </>
+            ) : (
+              <Text style={[styles.hoursLabel, styles.labelInput]} maxFontSizeMultiplier={1.5}>Available</Text>
+            )}
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange(windows.filter(w => w.id !== window.id))}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${window.label || (withPrice ? 'price rule' : 'schedule')}`}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.daysRow}>
+            {DAY_LABELS.map((label, day) => {
+              const selected = window.days.includes(day);
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.dayChip, selected && styles.dayChipSelected]}
+                  onPress={() => toggleDay(window, day)}
+                  accessibilityRole="button"
+                  accessibilityLabel={label}
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={[styles.dayChipText, selected && styles.dayChipTextSelected]} maxFontSizeMultiplier={1.2}>
+                    {label.charAt(0)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.timesRow}>
+            <TextInput
+              style={[styles.input, styles.timeInput]}
+              value={window.startTime}
+              onChangeText={(text) => updateWindow(window.id, { startTime: text })}
+              placeholder="16:00"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+              accessibilityLabel="Start time"
+            />
+            <Text style={styles.hoursLabel} maxFontSizeMultiplier={1.5}>to</Text>
+            <TextInput
+              style={[styles.input, styles.timeInput]}
+              value={window.endTime}
+              onChangeText={(text) => updateWindow(window.id, { endTime: text })}
+              placeholder="18:00"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+              accessibilityLabel="End time"
+            />
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={addWindow}
+        accessibilityRole="button"
+        accessibilityLabel={addLabel}
+      >
+        <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+        <Text style={styles.addText} maxFontSizeMultiplier={1.5}>{addLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: any, glassColors: any) =>
+  StyleSheet.create({
+    windowCard: {
+      backgroundColor: glassColors.backgroundSubtle,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 12,
+    },
+    windowHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 10,
+    },
+    input: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+    },
+    labelInput: {
+      flex: 1,
+    },
+    iconButton: {
+      width: 36,
+      height: 36,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    priceInputContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      width: 110,
+      paddingVertical: 0,
+    },
+    currencySymbol: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginRight: 2,
+    },
+    priceInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+    },
+    daysRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 6,
+    },
+    dayChip: {
+      flex: 1,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      backgroundColor: glassColors.backgroundElevated,
+    },
+    dayChipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '20',
+    },
+    dayChipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    dayChipTextSelected: {
+      color: colors.primary,
+    },
+    timesRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 10,
+    },
+    timeInput: {
+      flex: 1,
+      textAlign: 'center',
+    },
+    hoursLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary + '60',
+    },
+    addText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+  });
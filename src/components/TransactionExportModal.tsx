@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useCatalog } from '../context/CatalogContext';
+import { useDevice } from '../context/DeviceContext';
+import { transactionsApi, ordersApi, preordersApi, OrderPayment } from '../lib/api';
+import {
+  TransactionFilters,
+  DATE_RANGE_PRESETS,
+  countActiveFilters,
+  toTransactionsListParams,
+  toOrdersListParams,
+  toPreordersListParams,
+} from '../utils/transaction-filters';
+import {
+  ExportKind,
+  EXPORT_KINDS,
+  getExportFileName,
+  transactionsToCsv,
+  ordersToCsv,
+  preordersToCsv,
+} from '../utils/exports';
+import { shareCsvFile } from '../lib/share-file';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import logger from '../lib/logger';
+import { Modal } from './Modal';
+
+// Detail requests in flight at once while building an export
+const DETAIL_CONCURRENCY = 4;
+
+interface TransactionExportModalProps {
+  visible: boolean;
+  filters: TransactionFilters;
+  onClose: () => void;
+}
+
+/**
+ * Runs fn over items a few at a time, keeping results in the same order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  onProgress: (done: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+      onProgress(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(DETAIL_CONCURRENCY, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Exports everything matching the transaction filters as CSV and opens the share sheet.
+ * Pulls every page of the list, then the details each row needs.
+ */
+export function TransactionExportModal({ visible, filters, onClose }: TransactionExportModalProps) {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { selectedCatalog } = useCatalog();
+  const { deviceId } = useDevice();
+
+  const [kind, setKind] = useState<ExportKind>('transactions');
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setIsExporting(false);
+    setProgress(null);
+    cancelledRef.current = false;
+  }, [visible]);
+
+  const isCancelled = () => cancelledRef.current;
+
+  const checkCancelled = () => {
+    if (isCancelled()) throw new Error('Export cancelled');
+  };
+
+  const buildTransactionsCsv = async (): Promise<{ csv: string; count: number }> => {
+    const list = await transactionsApi.listAll(
+      toTransactionsListParams(filters, selectedCatalog?.id, deviceId),
+      fetched => setProgress(`Found ${fetched} transactions…`),
+      isCancelled
+    );
+    checkCancelled();
+    const details = await mapWithConcurrency(
+      list,
+      tx => {
+        checkCancelled();
+        return transactionsApi.get(tx.id);
+      },
+      done => setProgress(`Loading details ${done} of ${list.length}…`)
+    );
+    return { csv: transactionsToCsv(details, currency), count: details.length };
+  };
+
+  const buildOrdersCsv = async (): Promise<{ csv: string; count: number }> => {
+    const orders = await ordersApi.listAll(
+      toOrdersListParams(filters, selectedCatalog?.id, deviceId),
+      fetched => setProgress(`Found ${fetched} orders…`),
+      isCancelled
+    );
+    checkCancelled();
+    // Only split orders have more than one payment leg to look up
+    const splitOrders = orders.filter(order => order.paymentMethod === 'split');
+    const payments = await mapWithConcurrency(
+      splitOrders,
+      order => {
+        checkCancelled();
+        return ordersApi.getPayments(order.id);
+      },
+      done => setProgress(`Loading split payments ${done} of ${splitOrders.length}…`)
+    );
+    const paymentsByOrder: Record<string, OrderPayment[]> = {};
+    splitOrders.forEach((order, index) => {
+      paymentsByOrder[order.id] = payments[index].payments;
+    });
+    return { csv: ordersToCsv(orders, paymentsByOrder, currency), count: orders.length };
+  };
+
+  const buildPreordersCsv = async (): Promise<{ csv: string; count: number }> => {
+    const preorders = await preordersApi.listAll(
+      toPreordersListParams(filters, selectedCatalog?.id),
+      fetched => setProgress(`Found ${fetched} preorders…`),
+      isCancelled
+    );
+    checkCancelled();
+    return { csv: preordersToCsv(preorders, currency), count: preorders.length };
+  };
+
+  const handleExport = async () => {
+    cancelledRef.current = false;
+    setIsExporting(true);
+    setProgress('Starting export…');
+    try {
+      const { csv, count } = kind === 'transactions'
+        ? await buildTransactionsCsv()
+        : kind === 'orders'
+          ? await buildOrdersCsv()
+          : await buildPreordersCsv();
+      checkCancelled();
+
+      if (count === 0) {
+        Alert.alert('Nothing to Export', `No ${kind} match the current filters.`);
+        return;
+      }
+
+      onClose();
+      await shareCsvFile(getExportFileName(kind), csv);
+    } catch (error: any) {
+      // Closing the modal stops the export without an error
+      if (cancelledRef.current) return;
+      logger.error('[Export] Failed to export CSV:', error);
+      Alert.alert('Error', error.error || error.message || 'Failed to export');
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    cancelledRef.current = true;
+    onClose();
+  };
+
+  const dateLabel = DATE_RANGE_PRESETS.find(p => p.key === filters.datePreset)?.label ?? 'Any Time';
+  const otherFilterCount = countActiveFilters(filters) - (filters.datePreset !== 'any' ? 1 : 0);
+  const filterSummary = [
+    dateLabel,
+    filters.search.trim() ? `"${filters.search.trim()}"` : null,
+    otherFilterCount > 0 ? `${otherFilterCount} more filter${otherFilterCount === 1 ? '' : 's'}` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+      accessibilityViewIsModal={true}
+    >
+      <Pressable style={styles.overlay} onPress={handleClose} accessibilityLabel="Close" accessibilityRole="button">
+        <Pressable
+          style={[styles.container, { backgroundColor: colors.card }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>Export CSV</Text>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+              onPress={handleClose}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+            >
+              <Ionicons name="close" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Export</Text>
+          {EXPORT_KINDS.map(option => {
+            const isActive = kind === option.key;
+            return (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.option,
+                  { backgroundColor: glassColors.backgroundElevated, borderColor: glassColors.border },
+                  isActive && { backgroundColor: colors.primary + '20', borderColor: colors.primary + '60' },
+                ]}
+                onPress={() => setKind(option.key)}
+                disabled={isExporting}
+                accessibilityRole="radio"
+                accessibilityLabel={option.label}
+                accessibilityHint={option.description}
+                accessibilityState={{ checked: isActive, disabled: isExporting }}
+              >
+                <View style={styles.optionText}>
+                  <Text style={[styles.optionLabel, { color: isActive ? colors.primary : colors.text }]} maxFontSizeMultiplier={1.3}>
+                    {option.label}
+                  </Text>
+                  <Text style={[styles.optionDescription, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5}>
+                    {option.description}
+                  </Text>
+                </View>
+                {isActive && <Ionicons name="checkmark-circle" size={22} color={colors.primary} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Filters</Text>
+          <Text style={[styles.summary, { color: colors.text }]} maxFontSizeMultiplier={1.5}>{filterSummary}</Text>
+          <Text style={[styles.hint, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>
+            Uses the search and filters from the transaction list. Change them there to export a different range.
+          </Text>
+
+          {isExporting && progress && (
+            <View style={styles.progressRow}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={[styles.progressText, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.5} accessibilityLiveRegion="polite">
+                {progress}
+              </Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.primary }, isExporting && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={isExporting}
+            accessibilityRole="button"
+            accessibilityLabel={`Export ${kind} as CSV`}
+          >
+            <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>
+              {isExporting ? 'Exporting…' : 'Export & Share'}
+            </Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontFamily: fonts.semiBold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    marginBottom: 8,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  optionDescription: {
+    fontSize: 13,
+    fontFamily: fonts.regular,
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  hint: {
+    fontSize: 13,
+    fontFamily: fonts.regular,
+    marginTop: 4,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 16,
+  },
+  progressText: {
+    fontSize: 14,
+    fontFamily: fonts.medium,
+  },
+  primaryButton: {
+    marginTop: 20,
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
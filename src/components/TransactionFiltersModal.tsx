@@ -0,0 +1,521 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useQuery } from '@tanstack/react-query';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useCatalog } from '../context/CatalogContext';
+import { useDevice } from '../context/DeviceContext';
+import { usePermissions } from '../hooks';
+import { teamApi } from '../lib/api';
+import { getCurrencySymbol } from '../utils/currency';
+import {
+  TransactionFilters,
+  SavedTransactionFilter,
+  DEFAULT_TRANSACTION_FILTERS,
+  DATE_RANGE_PRESETS,
+  PAYMENT_METHOD_FILTERS,
+} from '../utils/transaction-filters';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import { Modal } from './Modal';
+
+interface TransactionFiltersModalProps {
+  visible: boolean;
+  filters: TransactionFilters;
+  savedFilters: SavedTransactionFilter[];
+  onApply: (filters: TransactionFilters) => void;
+  onSaveFilter: (name: string, filters: TransactionFilters) => void;
+  onDeleteSavedFilter: (id: string) => void;
+  onCancel: () => void;
+}
+
+function centsToInput(cents: number | null): string {
+  return cents === null ? '' : (cents / 100).toFixed(2);
+}
+
+function inputToCents(text: string): number | null {
+  const value = parseFloat(text);
+  return text.trim() && !isNaN(value) && value >= 0 ? Math.round(value * 100) : null;
+}
+
+export function TransactionFiltersModal({
+  visible,
+  filters,
+  savedFilters,
+  onApply,
+  onSaveFilter,
+  onDeleteSavedFilter,
+  onCancel,
+}: TransactionFiltersModalProps) {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { catalogs, selectedCatalog } = useCatalog();
+  const { deviceId } = useDevice();
+  const { can } = usePermissions();
+
+  // Other devices come from the team's signed-in sessions, which only managers can see
+  const { data: teamMembers } = useQuery({
+    queryKey: ['team'],
+    queryFn: teamApi.list,
+    enabled: visible && can('manage_team'),
+  });
+
+  const [draft, setDraft] = useState<TransactionFilters>(filters);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [pickerTarget, setPickerTarget] = useState<'from' | 'to' | null>(null);
+  const [saveName, setSaveName] = useState('');
+
+  // Start from the filters in use each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(filters);
+    setMinAmount(centsToInput(filters.minAmount));
+    setMaxAmount(centsToInput(filters.maxAmount));
+    setPickerTarget(null);
+    setSaveName('');
+  }, [visible, filters]);
+
+  const update = (changes: Partial<TransactionFilters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const buildFilters = (): TransactionFilters => ({
+    ...draft,
+    minAmount: inputToCents(minAmount),
+    maxAmount: inputToCents(maxAmount),
+  });
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    const target = pickerTarget;
+    if (Platform.OS === 'android') {
+      setPickerTarget(null);
+    }
+    if (event.type !== 'set' || !selectedDate || !target) return;
+    update(target === 'from' ? { customFrom: selectedDate.toISOString() } : { customTo: selectedDate.toISOString() });
+  };
+
+  const handleSave = () => {
+    if (!saveName.trim()) return;
+    onSaveFilter(saveName.trim(), buildFilters());
+    setSaveName('');
+  };
+
+  const handleReset = () => {
+    setDraft({ ...DEFAULT_TRANSACTION_FILTERS, search: draft.search });
+    setMinAmount('');
+    setMaxAmount('');
+    setPickerTarget(null);
+  };
+
+  const catalogOptions: { key: string; label: string }[] = [
+    { key: 'current', label: selectedCatalog ? `Current (${selectedCatalog.name})` : 'Current Catalog' },
+    { key: 'all', label: 'All Catalogs' },
+    ...catalogs.filter(c => c.id !== selectedCatalog?.id).map(c => ({ key: c.id, label: c.name })),
+  ];
+
+  const deviceOptions: { key: string; label: string }[] = [
+    { key: 'all', label: 'All Devices' },
+    { key: 'this', label: 'This Device' },
+  ];
+  (teamMembers ?? []).flatMap(m => m.sessions).forEach(session => {
+    if (session.deviceId === deviceId || deviceOptions.some(o => o.key === session.deviceId)) return;
+    deviceOptions.push({ key: session.deviceId, label: session.deviceName });
+  });
+  // A saved filter can point at a device that has since signed out
+  if (!deviceOptions.some(o => o.key === draft.device)) {
+    deviceOptions.push({ key: draft.device, label: 'Other Device' });
+  }
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    { backgroundColor: glassColors.backgroundElevated, borderColor: glassColors.border },
+    active && { backgroundColor: colors.primary + '20', borderColor: colors.primary + '60' },
+  ];
+  const chipTextStyle = (active: boolean) => [
+    styles.chipText,
+    { color: active ? colors.primary : colors.textSecondary },
+  ];
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: glassColors.backgroundElevated, borderColor: glassColors.border, color: colors.text },
+  ];
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={chipStyle(active)}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={chipTextStyle(active)} maxFontSizeMultiplier={1.3} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const customDate = (target: 'from' | 'to') => {
+    const value = target === 'from' ? draft.customFrom : draft.customTo;
+    return value ? new Date(value) : new Date();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.keyboardView}
+      >
+        <Pressable style={styles.overlay} onPress={onCancel} accessibilityLabel="Close" accessibilityRole="button">
+          <Pressable
+            style={[styles.container, { backgroundColor: colors.card }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={[styles.title, { color: colors.text }]} maxFontSizeMultiplier={1.3}>Filters</Text>
+              <TouchableOpacity
+                style={[styles.closeButton, { backgroundColor: glassColors.backgroundElevated }]}
+                onPress={onCancel}
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+              {savedFilters.length > 0 && (
+                <>
+                  <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Saved Filters</Text>
+                  {savedFilters.map(saved => (
+                    <View key={saved.id} style={[styles.savedRow, { borderBottomColor: glassColors.border }]}>
+                      <TouchableOpacity
+                        style={styles.savedName}
+                        onPress={() => onApply(saved.filters)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Apply ${saved.name}`}
+                      >
+                        <Ionicons name="bookmark-outline" size={16} color={colors.primary} />
+                        <Text style={[styles.savedNameText, { color: colors.text }]} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                          {saved.name}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => onDeleteSavedFilter(saved.id)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Delete ${saved.name}`}
+                      >
+                        <Ionicons name="trash-outline" size={18} color={colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </>
+              )}
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Date</Text>
+              <View style={styles.chips}>
+                {DATE_RANGE_PRESETS.map(p => renderChip(p.key, p.label, draft.datePreset === p.key, () => update({ datePreset: p.key })))}
+              </View>
+              {draft.datePreset === 'custom' && (
+                <View style={styles.row}>
+                  {(['from', 'to'] as const).map(target => {
+                    const value = target === 'from' ? draft.customFrom : draft.customTo;
+                    const isOpen = pickerTarget === target;
+                    return (
+                      <TouchableOpacity
+                        key={target}
+                        style={[...chipStyle(isOpen), styles.dateButton]}
+                        onPress={() => setPickerTarget(isOpen ? null : target)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`${target === 'from' ? 'Start' : 'End'} date, ${value ? new Date(value).toLocaleDateString() : 'not set'}`}
+                      >
+                        <Text style={[styles.dateLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.3}>
+                          {target === 'from' ? 'From' : 'To'}
+                        </Text>
+                        <Text style={[styles.dateValue, { color: colors.text }]} maxFontSizeMultiplier={1.3}>
+                          {value ? new Date(value).toLocaleDateString() : target === 'from' ? 'Any' : 'Today'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              {pickerTarget && (
+                <DateTimePicker
+                  value={customDate(pickerTarget)}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                  maximumDate={new Date()}
+                  onChange={handleDateChange}
+                  themeVariant={isDark ? 'dark' : 'light'}
+                />
+              )}
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Amount</Text>
+              <View style={styles.row}>
+                {([['Min', minAmount, setMinAmount], ['Max', maxAmount, setMaxAmount]] as const).map(([label, value, setValue]) => (
+                  <View key={label} style={[...inputStyle, styles.amountInput]}>
+                    <Text style={[styles.currencySymbol, { color: colors.textSecondary }]} maxFontSizeMultiplier={1.3}>
+                      {getCurrencySymbol(currency)}
+                    </Text>
+                    <TextInput
+                      style={[styles.amountText, { color: colors.text }]}
+                      value={value}
+                      onChangeText={setValue}
+                      placeholder={label}
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="decimal-pad"
+                      accessibilityLabel={`${label === 'Min' ? 'Minimum' : 'Maximum'} amount`}
+                    />
+                  </View>
+                ))}
+              </View>
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Payment Method</Text>
+              <View style={styles.chips}>
+                {renderChip('any', 'Any', draft.paymentMethod === null, () => update({ paymentMethod: null }))}
+                {PAYMENT_METHOD_FILTERS.map(m => renderChip(m.key, m.label, draft.paymentMethod === m.key, () => update({ paymentMethod: m.key })))}
+              </View>
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Catalog</Text>
+              <View style={styles.chips}>
+                {catalogOptions.map(c => renderChip(c.key, c.label, draft.catalog === c.key, () => update({ catalog: c.key })))}
+              </View>
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Device</Text>
+              <View style={styles.chips}>
+                {deviceOptions.map(d => renderChip(`device-${d.key}`, d.label, draft.device === d.key, () => update({ device: d.key })))}
+              </View>
+
+              <Text style={[styles.sectionLabel, { color: colors.textMuted }]} maxFontSizeMultiplier={1.5}>Save These Filters</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[...inputStyle, styles.saveInput]}
+                  value={saveName}
+                  onChangeText={setSaveName}
+                  placeholder="Name (e.g. Weekend refunds)"
+                  placeholderTextColor={colors.textMuted}
+                  maxLength={40}
+                  accessibilityLabel="Saved filter name"
+                />
+                <TouchableOpacity
+                  style={[styles.saveButton, { borderColor: glassColors.border }, !saveName.trim() && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={!saveName.trim()}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save filters"
+                  accessibilityState={{ disabled: !saveName.trim() }}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: colors.primary }]} maxFontSizeMultiplier={1.3}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+
+            {/* Actions */}
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: glassColors.border }]}
+                onPress={handleReset}
+                accessibilityRole="button"
+                accessibilityLabel="Reset filters"
+              >
+                <Text style={[styles.secondaryButtonText, { color: colors.text }]} maxFontSizeMultiplier={1.3}>Reset</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                onPress={() => onApply(buildFilters())}
+                accessibilityRole="button"
+                accessibilityLabel="Apply filters"
+              >
+                <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: fonts.bold,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontFamily: fonts.semiBold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    maxWidth: 220,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: fonts.medium,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  dateButton: {
+    flex: 1,
+    maxWidth: undefined,
+    marginTop: 4,
+  },
+  dateLabel: {
+    fontSize: 12,
+    fontFamily: fonts.medium,
+  },
+  dateValue: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: fonts.medium,
+  },
+  amountInput: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 0,
+  },
+  currencySymbol: {
+    fontSize: 15,
+    fontFamily: fonts.semiBold,
+    marginRight: 4,
+  },
+  amountText: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: fonts.medium,
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  savedName: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginRight: 12,
+  },
+  savedNameText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: fonts.medium,
+  },
+  saveInput: {
+    flex: 1,
+  },
+  saveButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.semiBold,
+    color: '#FFFFFF',
+  },
+});
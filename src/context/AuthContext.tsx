@@ -2,7 +2,7 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import { Alert, Image } from 'react-native';
 import { authService, User, Organization, Subscription, stripeConnectApi, ConnectStatus } from '../lib/api';
 import { setOnSessionKicked, apiClient } from '../lib/api/client';
-import { setOnSocketSessionKicked } from '../lib/session-callbacks';
+import { setOnSocketSessionKicked, SessionKickedData } from '../lib/session-callbacks';
 import {
   checkBiometricCapabilities,
   isBiometricLoginEnabled,
@@ -54,8 +54,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Track if we're already showing a session kicked alert
   const sessionKickedAlertShown = useRef(false);
 
-  // Handle session kicked (user logged in on another device)
-  const handleSessionKicked = useCallback(async () => {
+  // Handle session kicked (logged in on another device, signed out by a manager or deactivated)
+  const handleSessionKicked = useCallback(async (data?: SessionKickedData) => {
     // Prevent showing multiple alerts
     if (sessionKickedAlertShown.current) {
       return;
@@ -87,9 +87,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
 
     // Show alert to user
+    const message = data?.cause === 'signed_out_remotely'
+      ? 'You have been signed out of this device by a manager.'
+      : data?.cause === 'deactivated'
+        ? 'Your account has been deactivated. Contact your manager to regain access.'
+        : 'You have been signed out because your account was signed in on another device.';
     Alert.alert(
       'Session Ended',
-      'You have been signed out because your account was signed in on another device.',
+      message,
       [{ text: 'OK', onPress: () => { sessionKickedAlertShown.current = false; } }]
     );
   }, []);
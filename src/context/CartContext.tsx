@@ -1,33 +1,74 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode, useMemo } from 'react';
-import { Product } from '../lib/api/products';
+import { Product, PriceRule } from '../lib/api/products';
+import { OrderItemModifier } from '../lib/api/orders';
+import { Discount } from '../lib/api/discounts';
+import { Customer } from '../lib/api/customers';
+import { ManagerOverride } from '../lib/api/manager-override';
+import { calculateDiscountAmount } from '../utils/discounts';
+import { getActivePriceRule } from '../utils/schedules';
+import { getRemainingStock } from '../utils/inventory';
 import { useAuth } from './AuthContext';
+import { useCatalog } from './CatalogContext';
+import { useRegisterMode } from './RegisterModeContext';
 
 export interface CartItem {
-  product: Product;
+  product: Product; // price is what applied when the item was added
+  priceRule?: PriceRule; // time-based price the item was added at, e.g. happy hour
   quantity: number;
   notes?: string; // per-item special instructions
-  cartKey: string; // unique key for cart (productId + notes hash)
+  modifiers?: OrderItemModifier[]; // selected product options
+  discount?: Discount; // line discount, applied to unit price x quantity
+  cartKey: string; // unique key for cart (productId + modifiers + notes hash)
 }
 
-// Generate a unique cart key for an item based on product ID and notes
-function generateCartKey(productId: string, notes?: string): string {
-  if (!notes || notes.trim() === '') {
-    return productId;
+// Generate a unique cart key for an item based on product ID, price rule, selected options and notes
+function generateCartKey(productId: string, notes?: string, modifiers?: OrderItemModifier[], priceRuleId?: string): string {
+  let key = productId;
+  if (priceRuleId) {
+    // Happy hour and regular-price items stay on separate lines
+    key += `@${priceRuleId}`;
   }
-  // Simple hash of notes to create unique key
-  return `${productId}::${notes.trim().toLowerCase()}`;
+  if (modifiers && modifiers.length > 0) {
+    // Sort so the same options picked in a different order land on the same line
+    key += `::${modifiers.map(m => m.optionId).sort().join(',')}`;
+  }
+  if (notes && notes.trim() !== '') {
+    // Simple hash of notes to create unique key
+    key += `::${notes.trim().toLowerCase()}`;
+  }
+  return key;
+}
+
+// Unit price of a cart line in cents, including option price deltas
+export function getCartItemUnitPrice(item: CartItem): number {
+  const modifiersTotal = (item.modifiers || []).reduce((sum, m) => sum + m.priceDelta, 0);
+  return item.product.price + modifiersTotal;
+}
+
+// Discount on a cart line in cents
+export function getCartItemDiscount(item: CartItem): number {
+  return calculateDiscountAmount(item.discount, getCartItemUnitPrice(item) * item.quantity);
 }
 
-export type PaymentMethodType = 'tap_to_pay' | 'cash' | 'split';
+export type PaymentMethodType = 'tap_to_pay' | 'cash' | 'split' | 'gift_card';
 
 interface CartContextType {
   items: CartItem[];
   itemCount: number;
   subtotal: number;
+  discountAmount: number; // line discounts + order discount, in cents
+  orderDiscount: Discount | null;
+  setOrderDiscount: (discount: Discount | null) => void;
+  discountOverride: ManagerOverride | null; // manager approval for discounts a cashier applied, dropped once they're removed
+  setDiscountOverride: (override: ManagerOverride | null) => void;
   orderNotes: string;
   setOrderNotes: (notes: string) => void;
   customerEmail: string;
   setCustomerEmail: (email: string) => void;
+  customer: Customer | null; // attached customer, earns loyalty points on the order
+  setCustomer: (customer: Customer | null) => void;
+  loyaltyPointsRedeemed: number; // points behind the current order discount, 0 if it isn't a loyalty reward
+  setLoyaltyPointsRedeemed: (points: number) => void;
   paymentMethod: PaymentMethodType;
   setPaymentMethod: (method: PaymentMethodType) => void;
   selectedTipIndex: number | null;
@@ -36,11 +77,12 @@ interface CartContextType {
   setCustomTipAmount: (amount: string) => void;
   showCustomTipInput: boolean;
   setShowCustomTipInput: (show: boolean) => void;
-  addItem: (product: Product, quantity?: number, notes?: string) => void;
+  addItem: (product: Product, quantity?: number, notes?: string, modifiers?: OrderItemModifier[]) => void;
   removeItem: (cartKey: string) => void;
   updateQuantity: (cartKey: string, quantity: number) => void;
   updateItemNotes: (cartKey: string, notes: string) => void;
-  incrementItem: (cartKey: string) => void;
+  setItemDiscount: (cartKey: string, discount: Discount | null) => void;
+  incrementItem: (cartKey: string) => boolean; // false when stock has run out
   decrementItem: (cartKey: string) => void;
   clearCart: () => void;
   getItemQuantity: (productId: string) => number;
@@ -55,9 +97,15 @@ interface CartProviderProps {
 
 export function CartProvider({ children }: CartProviderProps) {
   const { user } = useAuth();
+  const { setScheduleSwitchDeferred } = useCatalog();
+  const { activeCashier } = useRegisterMode();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | null>(null);
+  const [discountOverride, setDiscountOverride] = useState<ManagerOverride | null>(null);
   const [orderNotes, setOrderNotes] = useState<string>('');
   const [customerEmail, setCustomerEmail] = useState<string>('');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loyaltyPointsRedeemed, setLoyaltyPointsRedeemed] = useState(0);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('tap_to_pay');
   const [selectedTipIndex, setSelectedTipIndex] = useState<number | null>(null);
   const [customTipAmount, setCustomTipAmount] = useState<string>('');
@@ -69,8 +117,12 @@ export function CartProvider({ children }: CartProviderProps) {
     if (prevUserId.current && !user?.id) {
       // User was logged in, now logged out — clear cart
       setItems([]);
+      setOrderDiscount(null);
+      setDiscountOverride(null);
       setOrderNotes('');
       setCustomerEmail('');
+      setCustomer(null);
+      setLoyaltyPointsRedeemed(0);
       setPaymentMethod('tap_to_pay');
       setSelectedTipIndex(null);
       setCustomTipAmount('');
@@ -79,6 +131,19 @@ export function CartProvider({ children }: CartProviderProps) {
     prevUserId.current = user?.id;
   }, [user?.id]);
 
+  // The approval only covers discounts a manager signed off on, so drop it once none are left
+  const hasApprovedDiscount = !!orderDiscount?.approvedBy || items.some(item => !!item.discount?.approvedBy);
+  useEffect(() => {
+    if (!hasApprovedDiscount) {
+      setDiscountOverride(null);
+    }
+  }, [hasApprovedDiscount]);
+
+  // Scheduled menu changes wait until the cart is empty
+  useEffect(() => {
+    setScheduleSwitchDeferred(items.length > 0);
+  }, [items.length, setScheduleSwitchDeferred]);
+
   // Calculate total item count
   const itemCount = useMemo(() => {
     return items.reduce((total, item) => total + item.quantity, 0);
@@ -86,14 +151,23 @@ export function CartProvider({ children }: CartProviderProps) {
 
   // Calculate subtotal (in cents)
   const subtotal = useMemo(() => {
-    return items.reduce((total, item) => total + item.product.price * item.quantity, 0);
+    return items.reduce((total, item) => total + getCartItemUnitPrice(item) * item.quantity, 0);
   }, [items]);
 
-  // Add item to cart (with optional notes)
-  // If same product with same notes exists, increment quantity
-  // If same product with different notes, add as new item
-  const addItem = useCallback((product: Product, quantity: number = 1, notes?: string) => {
-    const cartKey = generateCartKey(product.id, notes);
+  // Line discounts come off first, the order discount applies to what's left
+  const discountAmount = useMemo(() => {
+    const lineDiscounts = items.reduce((total, item) => total + getCartItemDiscount(item), 0);
+    return lineDiscounts + calculateDiscountAmount(orderDiscount, subtotal - lineDiscounts);
+  }, [items, subtotal, orderDiscount]);
+
+  // Add item to cart (with optional notes and selected options)
+  // If same product with same options and notes exists, increment quantity
+  // If same product with different options or notes, add as new item
+  // The price is locked in when the item is added, so a price rule ending
+  // mid-order doesn't change items already in the cart
+  const addItem = useCallback((product: Product, quantity: number = 1, notes?: string, modifiers?: OrderItemModifier[]) => {
+    const priceRule = getActivePriceRule(product, new Date());
+    const cartKey = generateCartKey(product.id, notes, modifiers, priceRule?.id);
 
     setItems((currentItems) => {
       const existingIndex = currentItems.findIndex(
@@ -111,9 +185,11 @@ export function CartProvider({ children }: CartProviderProps) {
       } else {
         // New item (different product or different notes)
         return [...currentItems, {
-          product,
+          product: priceRule ? { ...product, price: priceRule.price } : product,
+          priceRule,
           quantity,
           notes: notes?.trim() || undefined,
+          modifiers: modifiers && modifiers.length > 0 ? modifiers : undefined,
           cartKey,
         }];
       }
@@ -148,7 +224,7 @@ export function CartProvider({ children }: CartProviderProps) {
       if (itemIndex < 0) return currentItems;
 
       const item = currentItems[itemIndex];
-      const newCartKey = generateCartKey(item.product.id, notes);
+      const newCartKey = generateCartKey(item.product.id, notes, item.modifiers, item.priceRule?.id);
 
       // Check if there's already an item with this new cartKey
       const existingWithNewKey = currentItems.findIndex(
@@ -156,7 +232,7 @@ export function CartProvider({ children }: CartProviderProps) {
       );
 
       if (existingWithNewKey >= 0) {
-        // Merge with existing item that has same product + notes
+        // Merge with existing item that has same product + options + notes
         const newItems = [...currentItems];
         newItems[existingWithNewKey] = {
           ...newItems[existingWithNewKey],
@@ -178,17 +254,39 @@ export function CartProvider({ children }: CartProviderProps) {
     });
   }, []);
 
-  // Increment item quantity by 1 using cartKey
-  const incrementItem = useCallback((cartKey: string) => {
+  // Set or clear the discount on a single cart line
+  const setItemDiscount = useCallback((cartKey: string, discount: Discount | null) => {
     setItems((currentItems) =>
       currentItems.map((item) =>
-        item.cartKey === cartKey
-          ? { ...item, quantity: item.quantity + 1 }
-          : item
+        item.cartKey === cartKey ? { ...item, discount: discount || undefined } : item
       )
     );
   }, []);
 
+  // Increment item quantity by 1 using cartKey, within the product's stock across all its lines
+  const incrementItem = useCallback((cartKey: string) => {
+    const inStock = (currentItems: CartItem[]) => {
+      const item = currentItems.find((i) => i.cartKey === cartKey);
+      if (!item) return false;
+      const inCart = currentItems
+        .filter((i) => i.product.id === item.product.id)
+        .reduce((sum, i) => sum + i.quantity, 0);
+      return getRemainingStock(item.product, inCart) > 0;
+    };
+
+    if (!inStock(items)) return false;
+    setItems((currentItems) =>
+      inStock(currentItems)
+        ? currentItems.map((item) =>
+            item.cartKey === cartKey
+              ? { ...item, quantity: item.quantity + 1 }
+              : item
+          )
+        : currentItems
+    );
+    return true;
+  }, [items]);
+
   // Decrement item quantity by 1 using cartKey
   const decrementItem = useCallback((cartKey: string) => {
     setItems((currentItems) => {
@@ -206,17 +304,31 @@ export function CartProvider({ children }: CartProviderProps) {
     });
   }, []);
 
-  // Clear all items, order notes, email, and payment method
+  // Clear all items, discounts, order notes, email, customer, and payment method
   const clearCart = useCallback(() => {
     setItems([]);
+    setOrderDiscount(null);
+    setDiscountOverride(null);
     setOrderNotes('');
     setCustomerEmail('');
+    setCustomer(null);
+    setLoyaltyPointsRedeemed(0);
     setPaymentMethod('tap_to_pay');
     setSelectedTipIndex(null);
     setCustomTipAmount('');
     setShowCustomTipInput(false);
   }, []);
 
+  // Locking the register hands it to the next cashier, so drop this one's sale and approvals
+  const cashierId = activeCashier?.id ?? null;
+  const prevCashierId = useRef(cashierId);
+  useEffect(() => {
+    if (prevCashierId.current && prevCashierId.current !== cashierId) {
+      clearCart();
+    }
+    prevCashierId.current = cashierId;
+  }, [cashierId, clearCart]);
+
   // Get total quantity of specific product (across all notes variations)
   const getItemQuantity = useCallback(
     (productId: string) => {
@@ -239,10 +351,19 @@ export function CartProvider({ children }: CartProviderProps) {
     items,
     itemCount,
     subtotal,
+    discountAmount,
+    orderDiscount,
+    setOrderDiscount,
+    discountOverride,
+    setDiscountOverride,
     orderNotes,
     setOrderNotes,
     customerEmail,
     setCustomerEmail,
+    customer,
+    setCustomer,
+    loyaltyPointsRedeemed,
+    setLoyaltyPointsRedeemed,
     paymentMethod,
     setPaymentMethod,
     selectedTipIndex,
@@ -255,12 +376,13 @@ export function CartProvider({ children }: CartProviderProps) {
     removeItem,
     updateQuantity,
     updateItemNotes,
+    setItemDiscount,
     incrementItem,
     decrementItem,
     clearCart,
     getItemQuantity,
     getItemByCartKey,
-  }), [items, itemCount, subtotal, orderNotes, setOrderNotes, customerEmail, setCustomerEmail, paymentMethod, setPaymentMethod, selectedTipIndex, setSelectedTipIndex, customTipAmount, setCustomTipAmount, showCustomTipInput, setShowCustomTipInput, addItem, removeItem, updateQuantity, updateItemNotes, incrementItem, decrementItem, clearCart, getItemQuantity, getItemByCartKey]);
+  }), [items, itemCount, subtotal, discountAmount, orderDiscount, setOrderDiscount, discountOverride, orderNotes, setOrderNotes, customerEmail, setCustomerEmail, customer, loyaltyPointsRedeemed, paymentMethod, setPaymentMethod, selectedTipIndex, setSelectedTipIndex, customTipAmount, setCustomTipAmount, showCustomTipInput, setShowCustomTipInput, addItem, removeItem, updateQuantity, updateItemNotes, setItemDiscount, incrementItem, decrementItem, clearCart, getItemQuantity, getItemByCartKey]);
 
   return (
     <CartContext.Provider value={value}>
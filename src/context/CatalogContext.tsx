@@ -3,6 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Catalog, catalogsApi } from '../lib/api';
 import { useAuth } from './AuthContext';
 import { useSocket, useSocketEvent, SocketEvents } from './SocketContext';
+import { isCatalogAvailable } from '../utils/schedules';
 import logger from '../lib/logger';
 
 interface CatalogContextType {
@@ -12,11 +13,15 @@ interface CatalogContextType {
   setSelectedCatalog: (catalog: Catalog) => Promise<void>;
   clearCatalog: () => Promise<void>;
   refreshCatalogs: () => Promise<void>;
+  now: Date; // updated every minute, for schedules and time-based prices
+  isSelectedCatalogAvailable: boolean; // false when the selected menu is outside its schedule
+  setScheduleSwitchDeferred: (deferred: boolean) => void; // set while a sale is open so its menu doesn't change mid-sale
 }
 
 const CatalogContext = createContext<CatalogContextType | undefined>(undefined);
 
 const CATALOG_STORAGE_KEY = 'selected_catalog';
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
 
 interface CatalogProviderProps {
   children: ReactNode;
@@ -28,6 +33,8 @@ export function CatalogProvider({ children }: CatalogProviderProps) {
   const [catalogs, setCatalogs] = useState<Catalog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasFetched, setHasFetched] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [scheduleSwitchDeferred, setScheduleSwitchDeferred] = useState(false);
 
   // Load cached catalog (for selectedCatalog) - but don't stop loading until catalogs list is fetched
   const loadCachedCatalog = useCallback(async () => {
@@ -146,6 +153,46 @@ export function CatalogProvider({ children }: CatalogProviderProps) {
   const selectedCatalogRef = useRef<Catalog | null>(null);
   selectedCatalogRef.current = selectedCatalog;
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), SCHEDULE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A scheduled menu (brunch, happy hour) whose window is open right now
+  const scheduledCatalog = useMemo(
+    () => catalogs.find(c => c.isActive && !c.isLocked && !!c.schedules?.length && isCatalogAvailable(c, now)) ?? null,
+    [catalogs, now]
+  );
+
+  // Switch menus when a schedule opens or closes. Only transitions switch,
+  // so a menu picked by hand stays selected until the next schedule change.
+  // While a sale is open the switch waits, so the cart keeps its menu's tax, tips and service charge.
+  const scheduledCatalogIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const scheduledId = scheduledCatalog?.id ?? null;
+    if (scheduledId === scheduledCatalogIdRef.current) return;
+    if (scheduleSwitchDeferred) {
+      logger.log('[CatalogContext] Schedule changed during a sale, switching once it is done');
+      return;
+    }
+    scheduledCatalogIdRef.current = scheduledId;
+
+    const currentSelected = selectedCatalogRef.current;
+    if (scheduledCatalog && currentSelected?.id !== scheduledCatalog.id) {
+      logger.log('[CatalogContext] Schedule opened, switching to:', scheduledCatalog.name);
+      setSelectedCatalog(scheduledCatalog);
+    } else if (!scheduledCatalog && currentSelected && !isCatalogAvailable(currentSelected, now)) {
+      // The scheduled menu closed, fall back to one that's always available
+      const fallback = catalogs.find(c => c.isActive && !c.isLocked && !c.schedules?.length);
+      if (fallback) {
+        logger.log('[CatalogContext] Schedule closed, switching to:', fallback.name);
+        setSelectedCatalog(fallback);
+      }
+    }
+  }, [scheduledCatalog, catalogs, now, setSelectedCatalog, scheduleSwitchDeferred]);
+
+  const isSelectedCatalogAvailable = selectedCatalog ? isCatalogAvailable(selectedCatalog, now) : true;
+
   const refreshCatalogs = useCallback(async () => {
     try {
       const fetchedCatalogs = await catalogsApi.list();
@@ -241,7 +288,10 @@ export function CatalogProvider({ children }: CatalogProviderProps) {
     setSelectedCatalog,
     clearCatalog,
     refreshCatalogs,
-  }), [selectedCatalog, catalogs, isLoading, setSelectedCatalog, clearCatalog, refreshCatalogs]);
+    now,
+    isSelectedCatalogAvailable,
+    setScheduleSwitchDeferred,
+  }), [selectedCatalog, catalogs, isLoading, setSelectedCatalog, clearCatalog, refreshCatalogs, now, isSelectedCatalogAvailable]);
 
   return (
     <CatalogContext.Provider value={value}>
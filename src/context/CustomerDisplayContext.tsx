@@ -0,0 +1,139 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCart, getCartItemUnitPrice, getCartItemDiscount } from './CartContext';
+import { useSocket, useSocketEvent, SocketEvents } from './SocketContext';
+import { formatModifiers } from '../utils/modifiers';
+import logger from '../lib/logger';
+
+export interface CustomerDisplayLine {
+  key: string;
+  name: string;
+  details: string; // selected options; notes are for the kitchen and aren't shown
+  quantity: number;
+  total: number; // after the line's own discount, in cents
+}
+
+export interface CustomerDisplayTipOption {
+  label: string;
+  amount: number | null; // null for the custom and no-tip options
+  isCustom?: boolean;
+}
+
+// Totals and choices while the register is on checkout
+// Quick charges and resumed orders aren't in the cart, so these totals take precedence
+export interface CustomerDisplayCheckout {
+  tipOptions: CustomerDisplayTipOption[]; // empty when tips aren't asked for
+  selectedTipIndex: number | null;
+  tipAmount: number;
+  subtotal: number;
+  discountAmount: number;
+  serviceCharge: { label: string; amount: number } | null;
+  taxLines: { label: string; amount: number }[];
+  total: number;
+  promptForEmail: boolean;
+  customerEmail: string;
+}
+
+// Everything a paired display shows, sent whenever it changes
+export interface CustomerDisplayState {
+  lines: CustomerDisplayLine[];
+  itemCount: number;
+  subtotal: number;
+  discountAmount: number; // line + order discounts
+  checkout: CustomerDisplayCheckout | null;
+}
+
+// What the customer picked on the display, sent back to the register
+export interface CustomerDisplaySelection {
+  tipIndex?: number;
+  customTipAmount?: string; // whole currency units, as typed
+  customerEmail?: string;
+}
+
+interface CustomerDisplayContextType {
+  isStreaming: boolean; // this register sends its cart to a paired display
+  setStreaming: (streaming: boolean) => Promise<void>;
+  publishCheckout: (checkout: CustomerDisplayCheckout | null) => void;
+}
+
+const CustomerDisplayContext = createContext<CustomerDisplayContextType | undefined>(undefined);
+
+const STREAMING_STORAGE_KEY = 'luma_customer_display_streaming';
+
+interface CustomerDisplayProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Register side of the customer display.
+ * Streams the live cart over the socket to this device's display room; the display
+ * itself runs CustomerDisplayScreen on a second device.
+ */
+export function CustomerDisplayProvider({ children }: CustomerDisplayProviderProps) {
+  const { items, itemCount, subtotal, discountAmount } = useCart();
+  const { isConnected, emit } = useSocket();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [checkout, setCheckout] = useState<CustomerDisplayCheckout | null>(null);
+  const [joinCount, setJoinCount] = useState(0);
+
+  useEffect(() => {
+    AsyncStorage.getItem(STREAMING_STORAGE_KEY)
+      .then(value => setIsStreaming(value === 'true'))
+      .catch(error => logger.error('[CustomerDisplay] Failed to load setting:', error));
+  }, []);
+
+  const setStreaming = useCallback(async (streaming: boolean) => {
+    setIsStreaming(streaming);
+    try {
+      await AsyncStorage.setItem(STREAMING_STORAGE_KEY, String(streaming));
+    } catch (error) {
+      logger.error('[CustomerDisplay] Failed to save setting:', error);
+    }
+  }, []);
+
+  const publishCheckout = useCallback((next: CustomerDisplayCheckout | null) => {
+    setCheckout(next);
+  }, []);
+
+  // A display that connects after the last change asks for the current state
+  const handleJoined = useCallback(() => setJoinCount(count => count + 1), []);
+  useSocketEvent(SocketEvents.CUSTOMER_DISPLAY_JOINED, handleJoined);
+
+  const state = useMemo<CustomerDisplayState>(() => ({
+    lines: items.map(item => ({
+      key: item.cartKey,
+      name: item.product.name,
+      details: formatModifiers(item.modifiers),
+      quantity: item.quantity,
+      total: getCartItemUnitPrice(item) * item.quantity - getCartItemDiscount(item),
+    })),
+    itemCount,
+    subtotal,
+    discountAmount,
+    checkout,
+  }), [items, itemCount, subtotal, discountAmount, checkout]);
+
+  useEffect(() => {
+    if (!isStreaming || !isConnected) return;
+    emit(SocketEvents.CUSTOMER_DISPLAY_CART, state);
+  }, [isStreaming, isConnected, emit, state, joinCount]);
+
+  const value = useMemo(
+    () => ({ isStreaming, setStreaming, publishCheckout }),
+    [isStreaming, setStreaming, publishCheckout]
+  );
+
+  return (
+    <CustomerDisplayContext.Provider value={value}>
+      {children}
+    </CustomerDisplayContext.Provider>
+  );
+}
+
+export function useCustomerDisplay(): CustomerDisplayContextType {
+  const context = useContext(CustomerDisplayContext);
+  if (!context) {
+    throw new Error('useCustomerDisplay must be used within a CustomerDisplayProvider');
+  }
+  return context;
+}
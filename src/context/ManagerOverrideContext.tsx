@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useState, useCallback, useRef, useMemo, ReactNode } from 'react';
+import { ManagerOverride } from '../lib/api';
+import type { Permission } from '../lib/permissions';
+import { ManagerOverrideModal } from '../components/ManagerOverrideModal';
+
+interface OverrideRequest {
+  permission: Permission;
+  title?: string;
+  message: string;
+}
+
+interface ManagerOverrideContextType {
+  /**
+   * Ask a manager to enter their PIN for one action.
+   * Resolves with the approval, or null if the cashier backed out.
+   */
+  requestOverride: (permission: Permission, message: string, title?: string) => Promise<ManagerOverride | null>;
+}
+
+const ManagerOverrideContext = createContext<ManagerOverrideContextType | undefined>(undefined);
+
+interface ManagerOverrideProviderProps {
+  children: ReactNode;
+}
+
+export function ManagerOverrideProvider({ children }: ManagerOverrideProviderProps) {
+  const [request, setRequest] = useState<OverrideRequest | null>(null);
+  const resolveRef = useRef<((override: ManagerOverride | null) => void) | null>(null);
+
+  const settle = useCallback((override: ManagerOverride | null) => {
+    resolveRef.current?.(override);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  const requestOverride = useCallback((permission: Permission, message: string, title?: string) => {
+    // Only one prompt at a time - a new request cancels any pending one
+    resolveRef.current?.(null);
+
+    return new Promise<ManagerOverride | null>((resolve) => {
+      resolveRef.current = resolve;
+      setRequest({ permission, message, title });
+    });
+  }, []);
+
+  const value = useMemo(() => ({ requestOverride }), [requestOverride]);
+
+  return (
+    <ManagerOverrideContext.Provider value={value}>
+      {children}
+      <ManagerOverrideModal
+        visible={request !== null}
+        permission={request?.permission ?? 'refund'}
+        title={request?.title}
+        message={request?.message ?? ''}
+        onApproved={(override) => settle(override)}
+        onCancel={() => settle(null)}
+      />
+    </ManagerOverrideContext.Provider>
+  );
+}
+
+export function useManagerOverride(): ManagerOverrideContextType {
+  const context = useContext(ManagerOverrideContext);
+  if (!context) {
+    throw new Error('useManagerOverride must be used within a ManagerOverrideProvider');
+  }
+  return context;
+}
@@ -0,0 +1,167 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
+import { Alert } from 'react-native';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { useQueryClient } from '@tanstack/react-query';
+import { CreateOrderParams } from '../lib/api';
+import { offlineOutbox, OutboxEntry } from '../lib/offline-queue';
+import { useAuth } from './AuthContext';
+import logger from '../lib/logger';
+
+interface OfflineQueueContextType {
+  isOnline: boolean;
+  entries: OutboxEntry[];
+  pendingCount: number;
+  conflicts: OutboxEntry[];
+  isSyncing: boolean;
+  queueCashSale: (params: CreateOrderParams, cashTendered: number, managerOverrideToken?: string) => Promise<OutboxEntry>;
+  queueHeldOrder: (params: CreateOrderParams, holdName?: string, managerOverrideToken?: string) => Promise<OutboxEntry>;
+  syncNow: () => Promise<void>;
+  retryEntry: (clientOrderId: string) => Promise<void>;
+  discardEntry: (clientOrderId: string) => Promise<void>;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+interface OfflineQueueProviderProps {
+  children: ReactNode;
+}
+
+export function OfflineQueueProvider({ children }: OfflineQueueProviderProps) {
+  const { isAuthenticated, organization } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(true);
+  const [allEntries, setAllEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const wasOnlineRef = useRef(true);
+
+  const organizationId = organization?.id ?? null;
+
+  // Load persisted entries and keep in sync with the outbox
+  useEffect(() => {
+    offlineOutbox.list().then(setAllEntries);
+    return offlineOutbox.subscribe(setAllEntries);
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
+      setIsOnline(!!(state.isConnected && state.isInternetReachable !== false));
+    });
+
+    NetInfo.fetch().then((state) => {
+      setIsOnline(!!(state.isConnected && state.isInternetReachable !== false));
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // Only expose entries for the signed-in organization
+  const entries = useMemo(
+    () => allEntries.filter(e => e.organizationId === organizationId),
+    [allEntries, organizationId]
+  );
+  const pendingCount = useMemo(() => entries.filter(e => e.status === 'pending').length, [entries]);
+  const conflicts = useMemo(() => entries.filter(e => e.status === 'conflict'), [entries]);
+
+  const syncNow = useCallback(async () => {
+    if (!isAuthenticated || !organizationId) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await offlineOutbox.flush(organizationId);
+      if (result.synced > 0) {
+        logger.log('[OfflineQueue] Synced', result.synced, 'offline order(s)');
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['held-orders'] });
+      }
+      if (result.conflicts.length > 0) {
+        Alert.alert(
+          'Some Orders Could Not Sync',
+          `${result.conflicts.length} offline order${result.conflicts.length === 1 ? ' was' : 's were'} rejected by the server. Review them from the pending sync indicator.`
+        );
+      }
+    } catch (error) {
+      logger.error('[OfflineQueue] Sync failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [isAuthenticated, organizationId, queryClient]);
+
+  // Flush when we come back online, and once on sign-in if anything is waiting
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) {
+      syncNow();
+    }
+    wasOnlineRef.current = isOnline;
+  }, [isOnline, syncNow]);
+
+  useEffect(() => {
+    if (isAuthenticated && organizationId && isOnline) {
+      syncNow();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, organizationId]);
+
+  const queueCashSale = useCallback(async (params: CreateOrderParams, cashTendered: number, managerOverrideToken?: string) => {
+    if (!organizationId) {
+      throw new Error('Not signed in');
+    }
+    return offlineOutbox.enqueue({
+      type: 'cash_sale',
+      organizationId,
+      params: { ...params, paymentMethod: 'cash' },
+      managerOverrideToken,
+      cashTendered,
+    });
+  }, [organizationId]);
+
+  const queueHeldOrder = useCallback(async (params: CreateOrderParams, holdName?: string, managerOverrideToken?: string) => {
+    if (!organizationId) {
+      throw new Error('Not signed in');
+    }
+    return offlineOutbox.enqueue({
+      type: 'held_order',
+      organizationId,
+      params,
+      managerOverrideToken,
+      holdName,
+    });
+  }, [organizationId]);
+
+  const retryEntry = useCallback(async (clientOrderId: string) => {
+    await offlineOutbox.retry(clientOrderId);
+    if (isOnline) {
+      await syncNow();
+    }
+  }, [isOnline, syncNow]);
+
+  const discardEntry = useCallback(async (clientOrderId: string) => {
+    await offlineOutbox.discard(clientOrderId);
+  }, []);
+
+  const value = useMemo(() => ({
+    isOnline,
+    entries,
+    pendingCount,
+    conflicts,
+    isSyncing,
+    queueCashSale,
+    queueHeldOrder,
+    syncNow,
+    retryEntry,
+    discardEntry,
+  }), [isOnline, entries, pendingCount, conflicts, isSyncing, queueCashSale, queueHeldOrder, syncNow, retryEntry, discardEntry]);
+
+  return (
+    <OfflineQueueContext.Provider value={value}>
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+}
+
+export function useOfflineQueue(): OfflineQueueContextType {
+  const context = useContext(OfflineQueueContext);
+  if (!context) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider');
+  }
+  return context;
+}
@@ -0,0 +1,196 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import {
+  PaperWidth,
+  PrinterConnectionType,
+  DiscoveredPrinter,
+  ReceiptData,
+  renderReceipt,
+  renderKitchenTicket,
+  scanBluetoothPrinters,
+  sendToPrinter,
+} from '../lib/printer';
+import { generateUUID } from '../lib/device';
+import logger from '../lib/logger';
+
+export interface SavedPrinter {
+  id: string;
+  name: string;
+  type: PrinterConnectionType;
+  address: string; // BLE device ID or IP/hostname
+  port?: number;
+  paperWidth: PaperWidth;
+  printReceipts: boolean;
+  printKitchenTickets: boolean;
+  autoPrint: boolean; // print as soon as a payment succeeds
+}
+
+export interface PrintResult {
+  printed: number;
+  failed: { printer: SavedPrinter; error: string }[];
+}
+
+export interface PrintOrderOptions {
+  autoOnly?: boolean; // only printers set to print after payment
+  receiptOnly?: boolean; // skip kitchen tickets, e.g. reprinting for the customer
+}
+
+interface PrinterContextType {
+  printers: SavedPrinter[];
+  discoveredPrinters: DiscoveredPrinter[];
+  isScanning: boolean;
+  startScan: () => Promise<void>;
+  stopScan: () => void;
+  addPrinter: (printer: Omit<SavedPrinter, 'id'>) => Promise<SavedPrinter>;
+  updatePrinter: (id: string, updates: Partial<Omit<SavedPrinter, 'id'>>) => Promise<void>;
+  removePrinter: (id: string) => Promise<void>;
+  printTestPage: (printer: SavedPrinter) => Promise<void>;
+  printOrder: (data: ReceiptData, options?: PrintOrderOptions) => Promise<PrintResult>;
+}
+
+const PrinterContext = createContext<PrinterContextType | undefined>(undefined);
+
+const PRINTERS_STORAGE_KEY = 'luma_printers';
+
+interface PrinterProviderProps {
+  children: ReactNode;
+}
+
+export function PrinterProvider({ children }: PrinterProviderProps) {
+  const { currency } = useAuth();
+  const [printers, setPrinters] = useState<SavedPrinter[]>([]);
+  const [discoveredPrinters, setDiscoveredPrinters] = useState<DiscoveredPrinter[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const stopScanRef = useRef<(() => void) | null>(null);
+  const printersRef = useRef<SavedPrinter[]>([]);
+
+  // Printers are paired to this device, so they live in local storage rather than the account
+  useEffect(() => {
+    AsyncStorage.getItem(PRINTERS_STORAGE_KEY)
+      .then(json => {
+        const saved = json ? (JSON.parse(json) as SavedPrinter[]) : [];
+        printersRef.current = saved;
+        setPrinters(saved);
+      })
+      .catch(error => logger.error('[Printer] Failed to load saved printers:', error));
+  }, []);
+
+  const persist = useCallback(async (next: SavedPrinter[]) => {
+    printersRef.current = next;
+    setPrinters(next);
+    try {
+      await AsyncStorage.setItem(PRINTERS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      logger.error('[Printer] Failed to save printers:', error);
+    }
+  }, []);
+
+  const stopScan = useCallback(() => {
+    stopScanRef.current?.();
+    stopScanRef.current = null;
+  }, []);
+
+  const startScan = useCallback(async () => {
+    stopScan();
+    setDiscoveredPrinters([]);
+    setIsScanning(true);
+    try {
+      stopScanRef.current = await scanBluetoothPrinters(
+        printer => setDiscoveredPrinters(prev => [...prev, printer]),
+        () => setIsScanning(false)
+      );
+    } catch (error) {
+      setIsScanning(false);
+      throw error;
+    }
+  }, [stopScan]);
+
+  // Don't leave the radio scanning if the provider unmounts mid-scan
+  useEffect(() => stopScan, [stopScan]);
+
+  const addPrinter = useCallback(async (printer: Omit<SavedPrinter, 'id'>) => {
+    const saved: SavedPrinter = { ...printer, id: generateUUID() };
+    await persist([...printersRef.current, saved]);
+    return saved;
+  }, [persist]);
+
+  const updatePrinter = useCallback(async (id: string, updates: Partial<Omit<SavedPrinter, 'id'>>) => {
+    await persist(printersRef.current.map(p => (p.id === id ? { ...p, ...updates } : p)));
+  }, [persist]);
+
+  const removePrinter = useCallback(async (id: string) => {
+    await persist(printersRef.current.filter(p => p.id !== id));
+  }, [persist]);
+
+  const printTestPage = useCallback(async (printer: SavedPrinter) => {
+    const data: ReceiptData = {
+      businessName: 'Luma POS',
+      orderNumber: 'TEST',
+      dateLabel: new Date().toLocaleString(),
+      items: [{ name: 'Test item', quantity: 1, unitPrice: 100, notes: 'Printer is working' }],
+      subtotal: 100,
+      discountAmount: 0,
+      taxAmount: 0,
+      tipAmount: 0,
+      totalAmount: 100,
+    };
+    await sendToPrinter(printer, renderReceipt(data, { paperWidth: printer.paperWidth, currency }));
+  }, [currency]);
+
+  /**
+   * Print a receipt and/or kitchen ticket on every printer configured for them.
+   * Printers are tried one at a time - BLE stacks on older Android devices
+   * drop connections when several are opened at once.
+   */
+  const printOrder = useCallback(async (data: ReceiptData, options?: PrintOrderOptions) => {
+    const result: PrintResult = { printed: 0, failed: [] };
+    const targets = printersRef.current.filter(p =>
+      (!options?.autoOnly || p.autoPrint) && (!options?.receiptOnly || p.printReceipts)
+    );
+
+    for (const printer of targets) {
+      try {
+        if (printer.printReceipts) {
+          await sendToPrinter(printer, renderReceipt(data, { paperWidth: printer.paperWidth, currency }));
+          result.printed++;
+        }
+        if (printer.printKitchenTickets && !options?.receiptOnly) {
+          await sendToPrinter(printer, renderKitchenTicket(data, { paperWidth: printer.paperWidth }));
+          result.printed++;
+        }
+      } catch (error: any) {
+        logger.error('[Printer] Print failed on', printer.name, error);
+        result.failed.push({ printer, error: error?.message || 'Could not reach printer' });
+      }
+    }
+    return result;
+  }, [currency]);
+
+  const value = useMemo(() => ({
+    printers,
+    discoveredPrinters,
+    isScanning,
+    startScan,
+    stopScan,
+    addPrinter,
+    updatePrinter,
+    removePrinter,
+    printTestPage,
+    printOrder,
+  }), [printers, discoveredPrinters, isScanning, startScan, stopScan, addPrinter, updatePrinter, removePrinter, printTestPage, printOrder]);
+
+  return (
+    <PrinterContext.Provider value={value}>
+      {children}
+    </PrinterContext.Provider>
+  );
+}
+
+export function usePrinters() {
+  const context = useContext(PrinterContext);
+  if (context === undefined) {
+    throw new Error('usePrinters must be used within a PrinterProvider');
+  }
+  return context;
+}
@@ -0,0 +1,197 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
+import { View, StyleSheet, AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import { registerModeApi, RegisterCashier } from '../lib/api';
+import { apiClient } from '../lib/api/client';
+import { getDeviceId, getDeviceInfo } from '../lib/device';
+import { RegisterLockModal } from '../components/RegisterLockModal';
+import logger from '../lib/logger';
+
+export const IDLE_TIMEOUT_OPTIONS = [1, 2, 5, 10, 15]; // minutes
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 5;
+const IDLE_CHECK_INTERVAL_MS = 10000;
+
+interface RegisterModeSettings {
+  enabled: boolean;
+  idleTimeoutMinutes: number;
+}
+
+interface RegisterModeContextType {
+  isRegisterMode: boolean;
+  idleTimeoutMinutes: number;
+  // The cashier the register is unlocked for, null while locked or outside register mode
+  activeCashier: RegisterCashier | null;
+  isLocked: boolean;
+  enableRegisterMode: () => Promise<void>;
+  disableRegisterMode: () => Promise<void>;
+  setIdleTimeout: (minutes: number) => Promise<void>;
+  unlock: (pin: string) => Promise<RegisterCashier>;
+  lock: () => void;
+  // Counts as cashier activity, for touches outside the app's view tree such as inside modals
+  recordActivity: () => void;
+}
+
+const RegisterModeContext = createContext<RegisterModeContextType | undefined>(undefined);
+
+const REGISTER_MODE_STORAGE_KEY = 'luma_register_mode';
+
+const DEFAULT_SETTINGS: RegisterModeSettings = {
+  enabled: false,
+  idleTimeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES,
+};
+
+interface RegisterModeProviderProps {
+  children: ReactNode;
+}
+
+export function RegisterModeProvider({ children }: RegisterModeProviderProps) {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [settings, setSettings] = useState<RegisterModeSettings>(DEFAULT_SETTINGS);
+  const [activeCashier, setActiveCashier] = useState<RegisterCashier | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  // Register mode belongs to this device, not the account
+  useEffect(() => {
+    AsyncStorage.getItem(REGISTER_MODE_STORAGE_KEY)
+      .then(json => {
+        if (json) setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(json) });
+      })
+      .catch(error => logger.error('[RegisterMode] Failed to load settings:', error));
+  }, []);
+
+  const persist = useCallback(async (next: RegisterModeSettings) => {
+    setSettings(next);
+    try {
+      await AsyncStorage.setItem(REGISTER_MODE_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      logger.error('[RegisterMode] Failed to save settings:', error);
+    }
+  }, []);
+
+  const clearCashier = useCallback(() => {
+    apiClient.setCashierToken(null);
+    setActiveCashier(null);
+  }, []);
+
+  const lock = useCallback(() => {
+    if (!activeCashier) return;
+    clearCashier();
+    getDeviceId()
+      .then(deviceId => registerModeApi.lock(deviceId))
+      .catch(error => logger.error('[RegisterMode] Failed to end cashier session:', error));
+  }, [activeCashier, clearCashier]);
+
+  const unlock = useCallback(async (pin: string) => {
+    const deviceId = await getDeviceId();
+    const cashier = await registerModeApi.unlock(deviceId, pin);
+    apiClient.setCashierToken(cashier.token);
+    lastActivityRef.current = Date.now();
+    setActiveCashier(cashier);
+    return cashier;
+  }, []);
+
+  const enableRegisterMode = useCallback(async () => {
+    const deviceId = await getDeviceId();
+    await registerModeApi.enable(deviceId, getDeviceInfo().name);
+    await persist({ ...settings, enabled: true });
+  }, [settings, persist]);
+
+  const disableRegisterMode = useCallback(async () => {
+    clearCashier();
+    await persist({ ...settings, enabled: false });
+    try {
+      const deviceId = await getDeviceId();
+      await registerModeApi.disable(deviceId);
+    } catch (error) {
+      logger.error('[RegisterMode] Failed to disable on server:', error);
+    }
+  }, [settings, persist, clearCashier]);
+
+  const setIdleTimeout = useCallback(async (minutes: number) => {
+    await persist({ ...settings, idleTimeoutMinutes: minutes });
+  }, [settings, persist]);
+
+  // Signing the owner out ends register mode on this device
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated && (settings.enabled || activeCashier)) {
+      clearCashier();
+      persist({ ...settings, enabled: false });
+    }
+  }, [isLoading, isAuthenticated, settings, activeCashier, clearCashier, persist]);
+
+  // Lock after the idle timeout, or once the cashier's token expires
+  const checkIdle = useCallback(() => {
+    if (!activeCashier) return;
+    const idleMs = Date.now() - lastActivityRef.current;
+    const expired = new Date(activeCashier.expiresAt).getTime() <= Date.now();
+    if (expired || idleMs >= settings.idleTimeoutMinutes * 60 * 1000) {
+      logger.log('[RegisterMode] Locking register', expired ? '(cashier session expired)' : '(idle)');
+      lock();
+    }
+  }, [activeCashier, settings.idleTimeoutMinutes, lock]);
+
+  useEffect(() => {
+    if (!activeCashier) return;
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [activeCashier, checkIdle]);
+
+  // Timers don't run in the background, so check again when the app comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') checkIdle();
+    });
+    return () => subscription.remove();
+  }, [checkIdle]);
+
+  const recordActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  // Any touch counts as activity; returning false leaves the touch to the app
+  const handleTouchCapture = useCallback(() => {
+    recordActivity();
+    return false;
+  }, [recordActivity]);
+
+  const isRegisterMode = settings.enabled && isAuthenticated;
+  const isLocked = isRegisterMode && !activeCashier;
+
+  const value = useMemo(() => ({
+    isRegisterMode,
+    idleTimeoutMinutes: settings.idleTimeoutMinutes,
+    activeCashier,
+    isLocked,
+    enableRegisterMode,
+    disableRegisterMode,
+    setIdleTimeout,
+    unlock,
+    lock,
+    recordActivity,
+  }), [isRegisterMode, settings.idleTimeoutMinutes, activeCashier, isLocked, enableRegisterMode, disableRegisterMode, setIdleTimeout, unlock, lock, recordActivity]);
+
+  return (
+    <RegisterModeContext.Provider value={value}>
+      <View style={styles.root} onStartShouldSetResponderCapture={handleTouchCapture}>
+        {children}
+      </View>
+      <RegisterLockModal visible={isLocked} onUnlock={unlock} onExitRegisterMode={disableRegisterMode} />
+    </RegisterModeContext.Provider>
+  );
+}
+
+export function useRegisterMode(): RegisterModeContextType {
+  const context = useContext(RegisterModeContext);
+  if (!context) {
+    throw new Error('useRegisterMode must be used within a RegisterModeProvider');
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
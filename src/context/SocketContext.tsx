@@ -15,7 +15,9 @@ export const SocketEvents = {
   USER_UPDATED: 'user:updated',
   ORGANIZATION_UPDATED: 'organization:updated',
   // Session events
-  SESSION_KICKED: 'session:kicked', // Emitted when user logs in on another device
+  SESSION_KICKED: 'session:kicked', // Emitted when user logs in on another device, is signed out remotely or deactivated
+  // Team events
+  TEAM_UPDATED: 'team:updated', // member invited, role changed, deactivated or a session started/ended
   // Subscription events
   SUBSCRIPTION_UPDATED: 'subscription:updated',
   // Catalog events
@@ -31,6 +33,9 @@ export const SocketEvents = {
   CATEGORY_CREATED: 'category:created',
   CATEGORY_DELETED: 'category:deleted',
   CATEGORIES_REORDERED: 'categories:reordered',
+  // Inventory events
+  INVENTORY_UPDATED: 'inventory:updated',
+  INVENTORY_LOW_STOCK: 'inventory:low_stock', // stock dropped to the product's low-stock threshold
   // Transaction events
   TRANSACTION_CREATED: 'transaction:created',
   TRANSACTION_UPDATED: 'transaction:updated',
@@ -55,9 +60,17 @@ export const SocketEvents = {
   PREORDER_READY: 'preorder:ready',
   PREORDER_COMPLETED: 'preorder:completed',
   PREORDER_CANCELLED: 'preorder:cancelled',
+  // Kitchen display events
+  KITCHEN_TICKET_CREATED: 'kitchen:ticket_created',
+  KITCHEN_TICKET_UPDATED: 'kitchen:ticket_updated', // bumped or recalled on any device
   // Terminal reader events (server-driven payments)
   TERMINAL_PAYMENT_SUCCEEDED: 'terminal:payment_succeeded',
   TERMINAL_PAYMENT_FAILED: 'terminal:payment_failed',
+  // Customer display events (relayed between a register and its paired display)
+  CUSTOMER_DISPLAY_JOIN: 'join:customer_display', // display -> server: subscribe to a register's stream
+  CUSTOMER_DISPLAY_JOINED: 'customer_display:joined', // a display connected to this register's stream
+  CUSTOMER_DISPLAY_CART: 'customer_display:cart', // register -> display: live cart and totals
+  CUSTOMER_DISPLAY_SELECTION: 'customer_display:selection', // display -> register: tip and receipt email
 } as const;
 
 type SocketEventName = typeof SocketEvents[keyof typeof SocketEvents];
@@ -1,3 +1,6 @@
 // Re-export custom hooks
 export { useTapToPayEducation } from './useTapToPayEducation';
 export { useTapToPayGuard } from './useTapToPayGuard';
+export { usePermissions } from './usePermissions';
+export { useAuthorize } from './useAuthorize';
+export type { Authorization } from './useAuthorize';
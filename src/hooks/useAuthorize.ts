@@ -0,0 +1,32 @@
+/**
+ * Hook for actions the signed-in user may not be allowed to do alone.
+ * Users with the permission go straight through; everyone else is asked
+ * for a manager PIN, and the approval is passed along with the action.
+ */
+
+import { useCallback } from 'react';
+import { useManagerOverride } from '../context/ManagerOverrideContext';
+import { usePermissions } from './usePermissions';
+import type { ManagerOverride } from '../lib/api';
+import type { Permission } from '../lib/permissions';
+
+export interface Authorization {
+  override: ManagerOverride | null; // null when the user has the permission themselves
+}
+
+export function useAuthorize() {
+  const { can } = usePermissions();
+  const { requestOverride } = useManagerOverride();
+
+  // Resolves null when the manager prompt was dismissed
+  const authorize = useCallback(
+    async (permission: Permission, message: string): Promise<Authorization | null> => {
+      if (can(permission)) return { override: null };
+      const override = await requestOverride(permission, message);
+      return override ? { override } : null;
+    },
+    [can, requestOverride]
+  );
+
+  return { authorize };
+}
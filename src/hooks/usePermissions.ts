@@ -0,0 +1,25 @@
+/**
+ * Hook for checking what the signed-in user is allowed to do.
+ * Permissions are mapped from user.role in lib/permissions, or from the
+ * unlocked cashier's role when the device is in register mode.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useRegisterMode } from '../context/RegisterModeContext';
+import { getPermissionsForRole, Permission } from '../lib/permissions';
+
+export function usePermissions() {
+  const { user } = useAuth();
+  const { activeCashier } = useRegisterMode();
+  const role = activeCashier ? activeCashier.role : user?.role;
+
+  const permissions = useMemo(() => getPermissionsForRole(role), [role]);
+
+  const can = useCallback(
+    (permission: Permission): boolean => permissions.includes(permission),
+    [permissions]
+  );
+
+  return { can, permissions, role };
+}
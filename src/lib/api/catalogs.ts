@@ -1,8 +1,29 @@
 import { apiClient } from './client';
+import type { TaxRoundingMode } from './tax-rates';
 
 export type CatalogLayoutType = 'grid' | 'list' | 'large-grid' | 'compact';
 export type PreorderPaymentMode = 'pay_now' | 'pay_at_pickup' | 'both';
 
+// Recurring weekly window in the device's local time
+// An endTime before startTime runs past midnight into the next day
+export interface TimeWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday, the day the window starts
+  startTime: string; // 'HH:mm'
+  endTime: string; // 'HH:mm'
+}
+
+export type ServiceChargeType = 'fixed' | 'percentage';
+
+// Mandatory charge for catering and large parties, kept separate from voluntary tips
+// Applies to every cart order unless a threshold is set; with both set, either one triggers it
+export interface ServiceCharge {
+  name: string; // e.g. 'Service Charge', 'Auto Gratuity'
+  type: ServiceChargeType;
+  value: number; // cents for 'fixed', percentage of the discounted subtotal for 'percentage'
+  minItemCount: number | null;
+  minSubtotal: number | null; // in cents, after discounts
+}
+
 export interface Catalog {
   id: string;
   name: string;
@@ -15,8 +36,12 @@ export interface Catalog {
   promptForEmail: boolean;
   tipPercentages: number[];
   allowCustomTip: boolean;
-  taxRate: number;
+  taxRate: number; // default percentage for items without a named rate
+  taxInclusive?: boolean; // prices already include tax
+  taxRounding?: TaxRoundingMode;
+  serviceCharge?: ServiceCharge | null; // null = none
   layoutType: CatalogLayoutType;
+  schedules?: TimeWindow[]; // when the menu is available, empty or missing = always
   isLocked?: boolean;
   // Preorder settings
   preorderEnabled: boolean;
@@ -39,7 +64,11 @@ export interface CreateCatalogData {
   tipPercentages?: number[];
   allowCustomTip?: boolean;
   taxRate?: number;
+  taxInclusive?: boolean;
+  taxRounding?: TaxRoundingMode;
+  serviceCharge?: ServiceCharge | null;
   layoutType?: CatalogLayoutType;
+  schedules?: TimeWindow[];
 }
 
 export interface UpdateCatalogData {
@@ -53,7 +82,11 @@ export interface UpdateCatalogData {
   tipPercentages?: number[];
   allowCustomTip?: boolean;
   taxRate?: number;
+  taxInclusive?: boolean;
+  taxRounding?: TaxRoundingMode;
+  serviceCharge?: ServiceCharge | null;
   layoutType?: CatalogLayoutType;
+  schedules?: TimeWindow[];
 }
 
 export const catalogsApi = {
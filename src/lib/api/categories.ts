@@ -8,6 +8,7 @@ export interface Category {
   icon: string | null;
   sortOrder: number;
   isActive: boolean;
+  taxRateId: string | null; // null = the menu's default rate
   productCount: number;
   createdAt: string;
   updatedAt: string;
@@ -17,6 +18,7 @@ export interface CreateCategoryData {
   name: string;
   description?: string | null;
   isActive?: boolean;
+  taxRateId?: string | null;
 }
 
 export interface UpdateCategoryData {
@@ -24,6 +26,7 @@ export interface UpdateCategoryData {
   description?: string | null;
   sortOrder?: number;
   isActive?: boolean;
+  taxRateId?: string | null;
 }
 
 export const categoriesApi = {
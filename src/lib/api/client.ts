@@ -29,6 +29,7 @@ class ApiClient {
   private requestQueue: RequestQueueItem[] = [];
   private isRefreshing = false;
   private sessionKicked = false;
+  private cashierToken: string | null = null;
 
   constructor() {
     this.baseURL = config.apiUrl;
@@ -216,6 +217,11 @@ class ApiClient {
       headers['X-Session-Version'] = sessionVersion;
     }
 
+    // Run as the unlocked cashier in register mode
+    if (this.cashierToken) {
+      headers['X-Register-Cashier'] = this.cashierToken;
+    }
+
     return headers;
   }
 
@@ -285,6 +291,9 @@ class ApiClient {
     if (sessionVersion) {
       headers['X-Session-Version'] = sessionVersion;
     }
+    if (this.cashierToken) {
+      headers['X-Register-Cashier'] = this.cashierToken;
+    }
 
     const response = await fetch(`${this.baseURL}${endpoint}`, {
       method: 'POST',
@@ -298,6 +307,13 @@ class ApiClient {
   resetSessionKicked() {
     this.sessionKicked = false;
   }
+
+  /**
+   * Set or clear the register-mode cashier that requests run as
+   */
+  setCashierToken(token: string | null) {
+    this.cashierToken = token;
+  }
 }
 
 export const apiClient = new ApiClient();
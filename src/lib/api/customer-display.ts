@@ -0,0 +1,28 @@
+import { apiClient } from './client';
+
+// Short-lived code a register shows so a customer display can pair with it
+export interface CustomerDisplayPairingCode {
+  code: string;
+  expiresAt: string;
+}
+
+// The register a customer display is paired with
+export interface PairedRegister {
+  deviceId: string;
+  deviceName: string;
+}
+
+export const customerDisplayApi = {
+  /**
+   * Create a pairing code for this register
+   * Entering it on another device in the organization turns that device into this register's customer display
+   */
+  createPairingCode: (deviceId: string, deviceName: string) =>
+    apiClient.post<CustomerDisplayPairingCode>('/customer-displays/pairing-codes', { deviceId, deviceName }),
+
+  /**
+   * Pair this device as a customer display using the register's code
+   */
+  pair: (code: string, deviceId: string) =>
+    apiClient.post<PairedRegister>('/customer-displays/pair', { code, deviceId }),
+};
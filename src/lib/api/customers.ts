@@ -0,0 +1,72 @@
+import { apiClient } from './client';
+
+export interface Customer {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  pointsBalance: number;
+  lifetimeSpend: number; // in cents, completed orders less refunds
+  orderCount: number;
+  lastOrderAt: string | null;
+  createdAt: string;
+}
+
+export interface CustomerData {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+// Points are earned on completed orders and redeemed in fixed-size rewards
+export interface LoyaltyProgram {
+  enabled: boolean;
+  pointsPerDollar: number; // earned per whole dollar of the order total, before tip
+  rewardPoints: number; // points needed for one reward
+  rewardValue: number; // in cents, discount for one reward
+}
+
+export const customersApi = {
+  /**
+   * Search customers by name, email or phone
+   */
+  search: async (query: string, limit = 20): Promise<Customer[]> => {
+    const searchParams = new URLSearchParams();
+    searchParams.append('search', query);
+    searchParams.append('limit', limit.toString());
+
+    const response = await apiClient.get<{ customers: Customer[] }>(`/customers?${searchParams.toString()}`);
+    return response.customers;
+  },
+
+  /**
+   * Get a customer with their current points balance
+   */
+  get: (customerId: string) =>
+    apiClient.get<Customer>(`/customers/${customerId}`),
+
+  /**
+   * Create a customer
+   * Email and phone are unique per organization
+   */
+  create: (data: CustomerData) =>
+    apiClient.post<Customer>('/customers', data),
+
+  /**
+   * Update a customer's contact details
+   */
+  update: (customerId: string, data: CustomerData) =>
+    apiClient.patch<Customer>(`/customers/${customerId}`, data),
+
+  /**
+   * Get the organization's loyalty program settings
+   */
+  getLoyaltyProgram: () =>
+    apiClient.get<LoyaltyProgram>('/loyalty/program'),
+
+  /**
+   * Update the loyalty program (requires manage_business)
+   */
+  updateLoyaltyProgram: (data: Partial<LoyaltyProgram>) =>
+    apiClient.patch<LoyaltyProgram>('/loyalty/program', data),
+};
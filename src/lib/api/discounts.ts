@@ -0,0 +1,94 @@
+import { apiClient } from './client';
+import type { ManagerApprover } from './manager-override';
+
+export type DiscountType = 'percentage' | 'fixed';
+
+// A discount chosen at checkout, before it's been applied to an amount
+export interface Discount {
+  type: DiscountType;
+  value: number; // whole percentage (e.g. 10 for 10%) or cents for fixed
+  label?: string; // e.g. "Staff", "Happy hour"
+  promoCodeId?: string;
+  promoCode?: string;
+  minSubtotal?: number | null; // promo code's minimum spend in cents, re-checked when the order changes
+  approvedBy?: ManagerApprover; // set when a manager PIN override allowed a cashier to apply it
+}
+
+// A discount as stored on an order or order item
+export interface AppliedDiscount extends Discount {
+  amount: number; // in cents, what was actually taken off
+}
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  type: DiscountType;
+  value: number; // whole percentage or cents
+  minSubtotal: number | null; // in cents
+  maxUses: number | null;
+  usesCount: number;
+  isActive: boolean;
+  startsAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePromoCodeData {
+  code: string;
+  description?: string | null;
+  type: DiscountType;
+  value: number;
+  minSubtotal?: number | null;
+  maxUses?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface UpdatePromoCodeData {
+  description?: string | null;
+  value?: number;
+  minSubtotal?: number | null;
+  maxUses?: number | null;
+  isActive?: boolean;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface ValidatePromoCodeResponse {
+  valid: boolean;
+  promoCode?: PromoCode;
+  reason?: string; // why the code can't be used (expired, below minimum, etc.)
+}
+
+export const discountsApi = {
+  /**
+   * Check a promo code against the current order before applying it
+   */
+  validatePromoCode: (code: string, params: { subtotal: number; catalogId?: string }) =>
+    apiClient.post<ValidatePromoCodeResponse>('/promo-codes/validate', { code, ...params }),
+
+  /**
+   * List promo codes for the organization
+   */
+  listPromoCodes: () => apiClient.get<PromoCode[]>('/promo-codes'),
+
+  /**
+   * Create a promo code
+   */
+  createPromoCode: (data: CreatePromoCodeData) =>
+    apiClient.post<PromoCode>('/promo-codes', data),
+
+  /**
+   * Update a promo code (the code itself can't be changed)
+   */
+  updatePromoCode: (id: string, data: UpdatePromoCodeData) =>
+    apiClient.patch<PromoCode>(`/promo-codes/${id}`, data),
+
+  /**
+   * Delete a promo code
+   */
+  deletePromoCode: (id: string) =>
+    apiClient.delete(`/promo-codes/${id}`),
+};
@@ -0,0 +1,42 @@
+import { apiClient } from './client';
+
+export type GiftCardKind = 'gift_card' | 'store_credit';
+
+export type GiftCardStatus = 'inactive' | 'active' | 'depleted' | 'disabled';
+
+// Gift cards are loaded when their sale order completes; store credit is issued from refunds
+export interface GiftCard {
+  id: string;
+  code: string;
+  kind: GiftCardKind;
+  status: GiftCardStatus;
+  balance: number; // in cents
+  initialBalance: number; // in cents
+  customerId: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export const giftCardsApi = {
+  /**
+   * Look up a gift card or store credit by its code
+   * Unknown codes return 404
+   */
+  lookup: (code: string) =>
+    apiClient.get<GiftCard>(`/gift-cards/${encodeURIComponent(code.trim())}`),
+
+  /**
+   * List recently sold or issued cards
+   */
+  list: async (limit = 20): Promise<GiftCard[]> => {
+    const response = await apiClient.get<{ giftCards: GiftCard[] }>(`/gift-cards?limit=${limit}`);
+    return response.giftCards;
+  },
+
+  /**
+   * Disable a lost or stolen card so it can no longer be redeemed
+   */
+  disable: (giftCardId: string) =>
+    apiClient.post<GiftCard>(`/gift-cards/${giftCardId}/disable`),
+};
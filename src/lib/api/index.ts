@@ -17,6 +17,9 @@ export type {
   CatalogLayoutType,
   CreateCatalogData,
   UpdateCatalogData,
+  TimeWindow,
+  ServiceCharge,
+  ServiceChargeType,
 } from './catalogs';
 
 export { productsApi, catalogProductsApi, libraryProductsApi, flattenCatalogProduct } from './products';
@@ -24,10 +27,15 @@ export type {
   Product,
   CatalogProduct,
   LibraryProduct,
+  ProductOption,
+  ProductOptionGroup,
+  PriceRule,
   CreateLibraryProductData,
   UpdateLibraryProductData,
   CreateCatalogProductData,
   UpdateCatalogProductData,
+  StockAdjustmentReason,
+  StockAdjustmentData,
 } from './products';
 
 export { categoriesApi } from './categories';
@@ -46,6 +54,11 @@ export type {
   PaymentMethod,
   Refund,
   RefundParams,
+  RefundResponse,
+  RefundReason,
+  RefundLineItem,
+  TransactionLineItem,
+  OrderPaymentDetail,
   SourceType,
 } from './transactions';
 
@@ -62,18 +75,36 @@ export { ordersApi } from './orders';
 export type {
   Order,
   OrderItem,
+  OrderItemModifier,
   CreateOrderParams,
   OrdersListResponse,
   HeldOrdersResponse,
   CashPaymentResponse,
   OrderPayment,
+  PaymentSplitItem,
   AddPaymentParams,
   AddPaymentResponse,
   OrderPaymentsResponse,
+  OrderTaxLine,
+  TenderType,
 } from './orders';
 
 export { stripeConnectApi } from './stripe-connect';
-export type { ConnectStatus } from './stripe-connect';
+export type {
+  ConnectStatus,
+  ConnectBalance,
+  PayoutSchedule,
+  PayoutInterval,
+  Payout,
+  PayoutStatus,
+  PayoutDetail,
+  PayoutTransaction,
+  PayoutTransactionType,
+  PayoutsListParams,
+  PayoutsListResponse,
+  FeeSummary,
+  FeeSummaryParams,
+} from './stripe-connect';
 
 export { eventsApi } from './events';
 export type { EventScanResult, OrgEvent, RecentScan } from './events';
@@ -88,3 +119,107 @@ export type {
   PreordersListResponse,
   PreorderStatsResponse,
 } from './preorders';
+
+export { discountsApi } from './discounts';
+export type {
+  Discount,
+  DiscountType,
+  AppliedDiscount,
+  PromoCode,
+  CreatePromoCodeData,
+  UpdatePromoCodeData,
+  ValidatePromoCodeResponse,
+} from './discounts';
+
+export { managerOverrideApi, MANAGER_OVERRIDE_HEADER, withManagerOverride } from './manager-override';
+export type { ManagerApprover, ManagerOverride } from './manager-override';
+
+export { shiftsApi } from './shifts';
+export type {
+  Shift,
+  ShiftStatus,
+  ShiftReport,
+  ShiftPaymentTotal,
+  CashMovement,
+  CashMovementType,
+  CashMovementData,
+  OpenShiftData,
+  CloseShiftData,
+  ShiftsListParams,
+  ShiftsListResponse,
+} from './shifts';
+
+export { reportsApi } from './reports';
+export type {
+  SalesReport,
+  SalesReportParams,
+  SalesSummary,
+  SalesByHour,
+  SalesByDay,
+  SalesByCatalog,
+  ProductSales,
+  CategorySales,
+  PaymentMethodSales,
+} from './reports';
+
+export { kitchenApi } from './kitchen';
+export type {
+  KitchenTicket,
+  KitchenTicketItem,
+  KitchenTicketSource,
+  KitchenTicketStatus,
+  KitchenTicketsParams,
+  KitchenStation,
+  StationData,
+} from './kitchen';
+
+export { customersApi } from './customers';
+export type {
+  Customer,
+  CustomerData,
+  LoyaltyProgram,
+} from './customers';
+
+export { giftCardsApi } from './gift-cards';
+export type {
+  GiftCard,
+  GiftCardKind,
+  GiftCardStatus,
+} from './gift-cards';
+
+export { taxRatesApi } from './tax-rates';
+export type {
+  TaxRate,
+  TaxRateData,
+  TaxRoundingMode,
+} from './tax-rates';
+
+export { customerDisplayApi } from './customer-display';
+export type {
+  CustomerDisplayPairingCode,
+  PairedRegister,
+} from './customer-display';
+
+export { teamApi } from './team';
+export type {
+  TeamMember,
+  TeamMemberStatus,
+  TeamRole,
+  TeamSession,
+  InviteTeamMemberData,
+} from './team';
+
+export { registerModeApi } from './register-mode';
+export type {
+  RegisterCashier,
+} from './register-mode';
+
+export { timeClockApi } from './time-clock';
+export type {
+  TimeEntry,
+  TimeEntriesParams,
+  TipPoolMethod,
+  TipPoolSettings,
+  TipReport,
+  TipReportParams,
+} from './time-clock';
@@ -0,0 +1,113 @@
+import { apiClient } from './client';
+
+export type KitchenTicketSource = 'order' | 'preorder';
+export type KitchenTicketStatus = 'open' | 'bumped';
+
+export interface KitchenTicketItem {
+  id: string;
+  name: string;
+  quantity: number;
+  categoryId: string | null; // used to route the item to a station
+  modifiers: string[]; // e.g. "Size: Large"
+  notes: string | null;
+  bumpedAt: string | null; // set when the station making the item bumps it
+}
+
+// One ticket per completed in-person order or accepted preorder
+export interface KitchenTicket {
+  id: string;
+  source: KitchenTicketSource;
+  sourceId: string; // order or preorder ID
+  orderNumber: string;
+  label: string | null; // customer name for preorders, hold name for in-person orders
+  catalogId: string | null;
+  items: KitchenTicketItem[];
+  notes: string | null;
+  status: KitchenTicketStatus;
+  createdAt: string;
+  bumpedAt: string | null;
+}
+
+export interface KitchenStation {
+  id: string;
+  catalogId: string;
+  name: string;
+  categoryIds: string[];
+}
+
+export interface KitchenTicketsParams {
+  catalogId: string;
+  status: KitchenTicketStatus;
+  limit?: number;
+}
+
+export interface StationData {
+  name: string;
+  categoryIds: string[];
+}
+
+export const kitchenApi = {
+  /**
+   * List kitchen tickets for a catalog
+   * Open tickets are oldest first, bumped tickets most recently bumped first
+   */
+  listTickets: async (params: KitchenTicketsParams): Promise<KitchenTicket[]> => {
+    const searchParams = new URLSearchParams();
+    searchParams.append('catalogId', params.catalogId);
+    searchParams.append('status', params.status);
+    if (params.limit) searchParams.append('limit', params.limit.toString());
+
+    const response = await apiClient.get<{ tickets: KitchenTicket[] }>(`/kitchen/tickets?${searchParams.toString()}`);
+    return response.tickets;
+  },
+
+  /**
+   * Mark a ticket as done, or only some of its items when a station bumps its share
+   * The ticket is bumped once every item is; bumping a preorder ticket also moves the preorder to ready
+   */
+  bump: async (ticketId: string, itemIds?: string[]): Promise<KitchenTicket> => {
+    const response = await apiClient.post<{ ticket: KitchenTicket }>(
+      `/kitchen/tickets/${ticketId}/bump`,
+      itemIds ? { itemIds } : undefined
+    );
+    return response.ticket;
+  },
+
+  /**
+   * Reopen a bumped ticket, or only the given items
+   * Recalling a preorder ticket moves a ready preorder back to preparing
+   */
+  recall: async (ticketId: string, itemIds?: string[]): Promise<KitchenTicket> => {
+    const response = await apiClient.post<{ ticket: KitchenTicket }>(
+      `/kitchen/tickets/${ticketId}/recall`,
+      itemIds ? { itemIds } : undefined
+    );
+    return response.ticket;
+  },
+
+  /**
+   * List stations for a catalog
+   */
+  listStations: async (catalogId: string): Promise<KitchenStation[]> => {
+    const response = await apiClient.get<{ stations: KitchenStation[] }>(`/catalogs/${catalogId}/kitchen-stations`);
+    return response.stations;
+  },
+
+  /**
+   * Create a station
+   */
+  createStation: (catalogId: string, data: StationData) =>
+    apiClient.post<KitchenStation>(`/catalogs/${catalogId}/kitchen-stations`, data),
+
+  /**
+   * Update a station's name or categories
+   */
+  updateStation: (catalogId: string, stationId: string, data: Partial<StationData>) =>
+    apiClient.patch<KitchenStation>(`/catalogs/${catalogId}/kitchen-stations/${stationId}`, data),
+
+  /**
+   * Delete a station
+   */
+  deleteStation: (catalogId: string, stationId: string) =>
+    apiClient.delete(`/catalogs/${catalogId}/kitchen-stations/${stationId}`),
+};
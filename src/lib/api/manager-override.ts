@@ -0,0 +1,32 @@
+import { apiClient } from './client';
+import type { Permission } from '../permissions';
+
+/** Header used to run a single request under a manager's approval */
+export const MANAGER_OVERRIDE_HEADER = 'X-Manager-Override';
+
+/** Request options carrying a manager's approval, or none when there isn't one */
+export function withManagerOverride(token?: string): RequestInit | undefined {
+  return token ? { headers: { [MANAGER_OVERRIDE_HEADER]: token } } : undefined;
+}
+
+export interface ManagerApprover {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface ManagerOverride {
+  token: string; // short-lived, only valid for the approved permission
+  permission: Permission;
+  approver: ManagerApprover;
+  expiresAt: string;
+}
+
+export const managerOverrideApi = {
+  /**
+   * Verify a manager's PIN for one action
+   * Returns a token to send with that action so it runs under the manager's identity
+   */
+  verifyPin: (pin: string, permission: Permission) =>
+    apiClient.post<ManagerOverride>('/auth/manager-override', { pin, permission }),
+};
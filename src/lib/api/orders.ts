@@ -1,4 +1,15 @@
 import { apiClient } from './client';
+import type { AppliedDiscount } from './discounts';
+import { withManagerOverride } from './manager-override';
+
+// A product option chosen for an order line (e.g. Size: Large +$0.50)
+export interface OrderItemModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number; // in cents
+}
 
 export interface OrderItem {
   productId: string;
@@ -6,22 +17,46 @@ export interface OrderItem {
   categoryId?: string;
   name: string;
   quantity: number;
-  unitPrice: number; // in cents
+  unitPrice: number; // in cents, includes modifier price deltas
   notes?: string; // per-item special instructions
+  modifiers?: OrderItemModifier[];
+  discount?: AppliedDiscount; // line discount, amount covers the whole line
+  taxRateId?: string | null; // rate the line was taxed at, null = the menu's default
+}
+
+// Tax collected at one rate; orders store one line per rate they used
+export interface OrderTaxLine {
+  taxRateId: string | null; // null = the menu's default rate
+  name: string;
+  rate: number; // percentage
+  taxableAmount: number; // in cents, net of tax and discounts
+  amount: number; // in cents
 }
 
+// How a single payment was taken; orders paid with more than one are 'split'
+export type TenderType = 'card' | 'cash' | 'tap_to_pay' | 'gift_card';
+
 export interface Order {
   id: string;
   orderNumber: string;
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'held';
-  paymentMethod: 'card' | 'cash' | 'tap_to_pay' | 'split' | null;
+  paymentMethod: TenderType | 'split' | null;
   subtotal: number; // in cents
+  discountAmount?: number; // line + order discounts, in cents
+  discount?: AppliedDiscount | null; // order-level discount
   taxAmount: number;
+  taxBreakdown?: OrderTaxLine[] | null;
+  taxInclusive?: boolean; // taxAmount is already part of subtotal
+  taxExempt?: boolean;
+  serviceChargeAmount?: number; // in cents, separate from tipAmount
+  serviceChargeName?: string | null;
   tipAmount: number;
   totalAmount: number;
   stripePaymentIntentId: string | null;
   customerEmail: string | null;
   customerId: string | null;
+  loyaltyPointsEarned?: number;
+  loyaltyPointsRedeemed?: number;
   catalogId: string | null;
   userId: string | null;
   deviceId: string | null;
@@ -37,6 +72,9 @@ export interface Order {
     quantity: number;
     unitPrice: number;
     notes?: string | null;
+    modifiers?: OrderItemModifier[] | null;
+    discount?: AppliedDiscount | null;
+    taxRateId?: string | null;
   }>;
   createdAt: string;
   updatedAt: string;
@@ -45,18 +83,32 @@ export interface Order {
 export interface CreateOrderParams {
   catalogId?: string;
   items?: OrderItem[];
-  subtotal: number; // in cents
+  subtotal: number; // in cents, before discounts
+  discountAmount?: number; // line + order discounts, in cents
+  discount?: AppliedDiscount; // order-level discount
+  promoCodeId?: string; // redeemed promo code, counted against its usage limit
   taxAmount?: number;
+  taxBreakdown?: OrderTaxLine[];
+  taxInclusive?: boolean;
+  taxExempt?: boolean; // needs the discount permission or a manager override
+  serviceChargeAmount?: number; // mandatory charge from the menu's service charge settings
+  serviceChargeName?: string;
   tipAmount?: number;
   totalAmount: number; // in cents
-  paymentMethod?: 'card' | 'cash' | 'tap_to_pay' | 'split';
+  paymentMethod?: TenderType | 'split';
   customerEmail?: string;
+  customerId?: string; // attached customer, earns loyalty points when the order completes
+  loyaltyPointsRedeemed?: number; // points spent on the order's loyalty discount
   stripePaymentIntentId?: string;
   isQuickCharge?: boolean;
   description?: string;
   deviceId?: string;
+  userId?: string; // cashier who took the order in register mode, otherwise the signed-in user
   notes?: string; // order-level notes
   holdName?: string; // for creating held orders
+  clientOrderId?: string; // idempotency key for orders created offline and replayed later
+  clientCreatedAt?: string; // when the offline order was actually taken
+  giftCardSaleCode?: string; // selling a gift card: the code loaded with the order total once paid
 }
 
 export interface OrdersListParams {
@@ -65,6 +117,14 @@ export interface OrdersListParams {
   status?: string;
   deviceId?: string;
   userId?: string;
+  customerId?: string;
+  catalogId?: string;
+  search?: string; // order number, daily number, customer name or email, or card last4
+  paymentMethod?: string;
+  minAmount?: number; // in cents
+  maxAmount?: number; // in cents
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
 }
 
 export interface OrdersListResponse {
@@ -81,24 +141,35 @@ export interface CashPaymentResponse {
   changeAmount: number;
 }
 
+// Order line a split payment covered
+export interface PaymentSplitItem {
+  orderItemId: string;
+  quantity: number;
+}
+
 export interface OrderPayment {
   id: string;
-  paymentMethod: 'card' | 'cash' | 'tap_to_pay';
+  paymentMethod: TenderType;
   amount: number;
   tipAmount: number;
   status: string;
   cashTendered: number | null;
   cashChange: number | null;
   stripePaymentIntentId?: string | null;
+  splitItems?: PaymentSplitItem[] | null; // by-item splits: the items this payment paid for
+  splitGuests?: number | null; // even splits: how many guests the bill was shared between
   createdAt?: string;
 }
 
 export interface AddPaymentParams {
-  paymentMethod: 'card' | 'cash' | 'tap_to_pay';
+  paymentMethod: TenderType;
   amount: number; // in cents
   tipAmount?: number;
   stripePaymentIntentId?: string;
   cashTendered?: number; // for cash payments
+  giftCardCode?: string; // for gift card and store credit payments, debited server-side
+  splitItems?: PaymentSplitItem[];
+  splitGuests?: number;
 }
 
 export interface AddPaymentResponse {
@@ -119,9 +190,10 @@ export const ordersApi = {
   /**
    * Create a new order
    * Call this BEFORE creating a Stripe PaymentIntent
+   * Pass a manager override token for discounts or a tax exemption the cashier couldn't apply alone
    */
-  create: (params: CreateOrderParams) =>
-    apiClient.post<Order>('/orders', params),
+  create: (params: CreateOrderParams, managerOverrideToken?: string) =>
+    apiClient.post<Order>('/orders', params, withManagerOverride(managerOverrideToken)),
 
   /**
    * Link a Stripe PaymentIntent to an existing order
@@ -150,11 +222,38 @@ export const ordersApi = {
     if (params?.status) searchParams.append('status', params.status);
     if (params?.deviceId) searchParams.append('deviceId', params.deviceId);
     if (params?.userId) searchParams.append('userId', params.userId);
+    if (params?.customerId) searchParams.append('customerId', params.customerId);
+    if (params?.catalogId) searchParams.append('catalogId', params.catalogId);
+    if (params?.search) searchParams.append('search', params.search);
+    if (params?.paymentMethod) searchParams.append('paymentMethod', params.paymentMethod);
+    if (params?.minAmount !== undefined) searchParams.append('minAmount', params.minAmount.toString());
+    if (params?.maxAmount !== undefined) searchParams.append('maxAmount', params.maxAmount.toString());
+    if (params?.from) searchParams.append('from', params.from);
+    if (params?.to) searchParams.append('to', params.to);
 
     const query = searchParams.toString();
     return apiClient.get<OrdersListResponse>(`/orders${query ? `?${query}` : ''}`);
   },
 
+  /**
+   * Every order matching the params, fetched page by page until total is reached
+   * onPage reports how many have been fetched so far, and paging stops early once isCancelled returns true
+   */
+  listAll: async (
+    params?: Omit<OrdersListParams, 'limit' | 'offset'>,
+    onPage?: (fetched: number) => void,
+    isCancelled?: () => boolean
+  ): Promise<Order[]> => {
+    const all: Order[] = [];
+    for (;;) {
+      if (isCancelled?.()) return all;
+      const page = await ordersApi.list({ ...params, limit: 100, offset: all.length });
+      all.push(...page.orders);
+      onPage?.(all.length);
+      if (page.orders.length === 0 || all.length >= page.total) return all;
+    }
+  },
+
   // ============================================
   // Held Orders (Open Tabs)
   // ============================================
@@ -167,6 +266,9 @@ export const ordersApi = {
     tipAmount?: number;
     taxAmount?: number;
     subtotal?: number;
+    discountAmount?: number;
+    discount?: AppliedDiscount | null;
+    promoCodeId?: string | null;
     totalAmount?: number;
     paymentMethod?: string;
     customerEmail?: string;
@@ -182,10 +284,12 @@ export const ordersApi = {
 
   /**
    * List held orders for the organization
+   * search matches the hold name, order number, customer name or email
    */
-  listHeld: (deviceId?: string) => {
+  listHeld: (deviceId?: string, search?: string) => {
     const searchParams = new URLSearchParams();
     if (deviceId) searchParams.append('deviceId', deviceId);
+    if (search) searchParams.append('search', search);
     const query = searchParams.toString();
     return apiClient.get<HeldOrdersResponse>(`/orders/held${query ? `?${query}` : ''}`);
   },
@@ -193,8 +297,11 @@ export const ordersApi = {
   /**
    * Cancel/delete a pending or held order
    */
-  cancel: (orderId: string) =>
-    apiClient.delete<{ success: boolean; message: string }>(`/orders/${orderId}`),
+  cancel: (orderId: string, managerOverrideToken?: string) =>
+    apiClient.delete<{ success: boolean; message: string }>(
+      `/orders/${orderId}`,
+      withManagerOverride(managerOverrideToken)
+    ),
 
   // ============================================
   // Cash Payments
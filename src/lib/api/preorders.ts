@@ -1,4 +1,5 @@
 import { apiClient } from './client';
+import { withManagerOverride } from './manager-override';
 
 export type PreorderStatus = 'pending' | 'preparing' | 'ready' | 'picked_up' | 'cancelled';
 export type PreorderPaymentType = 'pay_now' | 'pay_at_pickup';
@@ -40,6 +41,9 @@ export interface Preorder {
 export interface PreordersListParams {
   status?: PreorderStatus | PreorderStatus[];
   catalogId?: string;
+  search?: string; // order number, customer name or email
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
   limit?: number;
   offset?: number;
 }
@@ -71,6 +75,9 @@ export const preordersApi = {
       }
     }
     if (params?.catalogId) searchParams.append('catalogId', params.catalogId);
+    if (params?.search) searchParams.append('search', params.search);
+    if (params?.from) searchParams.append('from', params.from);
+    if (params?.to) searchParams.append('to', params.to);
     if (params?.limit) searchParams.append('limit', params.limit.toString());
     if (params?.offset) searchParams.append('offset', params.offset.toString());
 
@@ -78,6 +85,25 @@ export const preordersApi = {
     return apiClient.get<PreordersListResponse>(`/preorders${query ? `?${query}` : ''}`);
   },
 
+  /**
+   * Every preorder matching the params, fetched page by page until total is reached
+   * onPage reports how many have been fetched so far, and paging stops early once isCancelled returns true
+   */
+  listAll: async (
+    params?: Omit<PreordersListParams, 'limit' | 'offset'>,
+    onPage?: (fetched: number) => void,
+    isCancelled?: () => boolean
+  ): Promise<Preorder[]> => {
+    const all: Preorder[] = [];
+    for (;;) {
+      if (isCancelled?.()) return all;
+      const page = await preordersApi.list({ ...params, limit: 100, offset: all.length });
+      all.push(...page.preorders);
+      onPage?.(all.length);
+      if (page.preorders.length === 0 || all.length >= page.total) return all;
+    }
+  },
+
   /**
    * Get a single preorder by ID
    */
@@ -110,12 +136,14 @@ export const preordersApi = {
 
   /**
    * Cancel a preorder
-   * Will refund if already paid
+   * Will refund if already paid, so pass a manager override token when the signed-in user can't refund
    */
-  cancel: (id: string, reason?: string) =>
-    apiClient.post<{ success: boolean; refunded?: boolean }>(`/preorders/${id}/cancel`, {
-      ...(reason && { reason }),
-    }),
+  cancel: (id: string, reason?: string, managerOverrideToken?: string) =>
+    apiClient.post<{ success: boolean; refunded?: boolean }>(
+      `/preorders/${id}/cancel`,
+      { ...(reason && { reason }) },
+      withManagerOverride(managerOverrideToken)
+    ),
 
   /**
    * Get preorder stats for dashboard
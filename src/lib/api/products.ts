@@ -1,15 +1,34 @@
 import { apiClient } from './client';
+import type { TimeWindow } from './catalogs';
 
 // ============================================================================
 // Product Library Types (organization-level products without pricing)
 // ============================================================================
 
+export interface ProductOption {
+  id: string;
+  name: string;
+  priceDelta: number; // In cents, added to the product price (can be 0 or negative)
+}
+
+export interface ProductOptionGroup {
+  id: string;
+  name: string; // e.g. "Size", "Milk"
+  required: boolean; // must pick at least one option
+  multiSelect: boolean; // false = pick exactly one, true = pick any number
+  options: ProductOption[];
+}
+
 export interface LibraryProduct {
   id: string;
   name: string;
   description: string | null;
   imageId: string | null;
   imageUrl: string | null;
+  sku: string | null; // merchant's own stock code, unique per organization
+  upc: string | null; // printed barcode (UPC/EAN), unique per organization
+  taxRateId?: string | null; // overrides the category's rate on every menu
+  optionGroups?: ProductOptionGroup[];
   createdAt: string;
   updatedAt: string;
 }
@@ -17,17 +36,32 @@ export interface LibraryProduct {
 export interface CreateLibraryProductData {
   name: string;
   description?: string | null;
+  sku?: string | null;
+  upc?: string | null;
+  taxRateId?: string | null;
+  optionGroups?: ProductOptionGroup[];
 }
 
 export interface UpdateLibraryProductData {
   name?: string;
   description?: string | null;
+  sku?: string | null;
+  upc?: string | null;
+  taxRateId?: string | null;
+  optionGroups?: ProductOptionGroup[];
 }
 
 // ============================================================================
 // Catalog Product Types (product in a specific catalog with pricing)
 // ============================================================================
 
+// Replaces the catalog price during a recurring window, e.g. happy hour
+export interface PriceRule extends TimeWindow {
+  id: string;
+  label: string; // shown on the cart line, e.g. "Happy Hour"
+  price: number; // In cents
+}
+
 export interface CatalogProduct {
   id: string; // catalog_product id
   catalogId: string;
@@ -36,6 +70,10 @@ export interface CatalogProduct {
   price: number; // In cents
   sortOrder: number;
   isActive: boolean;
+  stockQuantity: number | null; // null = stock not tracked for this product
+  lowStockThreshold: number | null; // emits a low-stock socket event when stock drops to this
+  hideWhenSoldOut: boolean;
+  priceRules?: PriceRule[];
   createdAt: string;
   updatedAt: string;
   product: LibraryProduct;
@@ -55,10 +93,18 @@ export interface Product {
   price: number; // In cents
   imageId: string | null;
   imageUrl: string | null;
+  sku: string | null;
+  upc: string | null;
+  taxRateId: string | null; // null = use the category's rate
   categoryId: string | null;
   categoryName: string | null;
   isActive: boolean;
   sortOrder: number;
+  optionGroups: ProductOptionGroup[];
+  stockQuantity: number | null; // null = stock not tracked
+  lowStockThreshold: number | null;
+  hideWhenSoldOut: boolean;
+  priceRules: PriceRule[]; // first matching rule wins over price
   createdAt: string;
   updatedAt: string;
 }
@@ -68,6 +114,10 @@ export interface CreateCatalogProductData {
   price: number;
   categoryId?: string | null;
   isActive?: boolean;
+  stockQuantity?: number | null;
+  lowStockThreshold?: number | null;
+  hideWhenSoldOut?: boolean;
+  priceRules?: Array<Omit<PriceRule, 'id'>>;
 }
 
 export interface UpdateCatalogProductData {
@@ -75,6 +125,18 @@ export interface UpdateCatalogProductData {
   price?: number;
   sortOrder?: number;
   isActive?: boolean;
+  stockQuantity?: number | null; // null turns stock tracking off; use adjustStock for counts
+  lowStockThreshold?: number | null;
+  hideWhenSoldOut?: boolean;
+  priceRules?: Array<Omit<PriceRule, 'id'>>; // replaces the product's rules
+}
+
+export type StockAdjustmentReason = 'restock' | 'recount' | 'damaged' | 'other';
+
+export interface StockAdjustmentData {
+  adjustment: number; // positive adds stock, negative removes it
+  reason: StockAdjustmentReason;
+  note?: string;
 }
 
 // ============================================================================
@@ -91,10 +153,18 @@ export function flattenCatalogProduct(cp: CatalogProduct): Product {
     price: cp.price,
     imageId: cp.product.imageId,
     imageUrl: cp.product.imageUrl,
+    sku: cp.product.sku ?? null,
+    upc: cp.product.upc ?? null,
+    taxRateId: cp.product.taxRateId ?? null,
     categoryId: cp.categoryId,
     categoryName: cp.category?.name || null,
     isActive: cp.isActive,
     sortOrder: cp.sortOrder,
+    optionGroups: cp.product.optionGroups || [],
+    stockQuantity: cp.stockQuantity ?? null,
+    lowStockThreshold: cp.lowStockThreshold ?? null,
+    hideWhenSoldOut: cp.hideWhenSoldOut ?? false,
+    priceRules: cp.priceRules || [],
     createdAt: cp.createdAt,
     updatedAt: cp.updatedAt,
   };
@@ -179,6 +249,13 @@ export const catalogProductsApi = {
   update: (catalogId: string, catalogProductId: string, data: UpdateCatalogProductData) =>
     apiClient.patch<CatalogProduct>(`/catalogs/${catalogId}/products/${catalogProductId}`, data),
 
+  /**
+   * Adjust stock on hand by a relative amount (restock, shrinkage, recount)
+   * Relative so it doesn't overwrite sales that completed in the meantime
+   */
+  adjustStock: (catalogId: string, catalogProductId: string, data: StockAdjustmentData) =>
+    apiClient.post<CatalogProduct>(`/catalogs/${catalogId}/products/${catalogProductId}/stock`, data),
+
   /**
    * Remove a product from a catalog
    */
@@ -0,0 +1,37 @@
+import { apiClient } from './client';
+import type { TeamRole } from './team';
+
+// The cashier currently using a shared register
+export interface RegisterCashier {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+  role: TeamRole;
+  token: string; // sent as X-Register-Cashier on every request until the register locks
+  expiresAt: string;
+}
+
+export const registerModeApi = {
+  /**
+   * Turn this device into a shared register under the signed-in owner's session
+   * Registers stay signed in when the owner signs in elsewhere, and cashiers unlock them with a PIN
+   */
+  enable: (deviceId: string, deviceName: string) =>
+    apiClient.post<{ success: boolean }>('/register-mode/devices', { deviceId, deviceName }),
+
+  disable: (deviceId: string) =>
+    apiClient.delete<{ success: boolean }>(`/register-mode/devices/${deviceId}`),
+
+  /**
+   * Unlock the register for the team member with this PIN
+   */
+  unlock: (deviceId: string, pin: string) =>
+    apiClient.post<RegisterCashier>('/register-mode/unlock', { deviceId, pin }),
+
+  /**
+   * End the cashier's turn on the register
+   */
+  lock: (deviceId: string) =>
+    apiClient.post<{ success: boolean }>('/register-mode/lock', { deviceId }),
+};
@@ -0,0 +1,85 @@
+import { apiClient } from './client';
+
+export interface SalesReportParams {
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+  timezone?: string; // IANA zone used to bucket hours and days, e.g. 'America/New_York'
+  catalogId?: string;
+}
+
+export interface SalesSummary {
+  orderCount: number;
+  grossSales: number; // in cents, before discounts and refunds
+  discounts: number;
+  refunds: number;
+  refundCount: number;
+  netSales: number; // grossSales - discounts - refunds
+  averageOrder: number;
+  taxCollected: number;
+  tipsCollected: number;
+}
+
+export interface SalesByHour {
+  hour: number; // 0-23 in the requested timezone
+  orderCount: number;
+  amount: number; // in cents
+}
+
+export interface SalesByDay {
+  date: string; // YYYY-MM-DD in the requested timezone
+  orderCount: number;
+  amount: number;
+}
+
+export interface SalesByCatalog {
+  catalogId: string | null; // null for quick charges
+  catalogName: string | null;
+  orderCount: number;
+  amount: number;
+}
+
+export interface ProductSales {
+  productId: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface CategorySales {
+  categoryId: string | null; // null for uncategorized products
+  categoryName: string | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface PaymentMethodSales {
+  method: string; // 'card' | 'cash' | 'tap_to_pay' | 'split'
+  count: number;
+  amount: number;
+}
+
+export interface SalesReport {
+  summary: SalesSummary;
+  byHour: SalesByHour[];
+  byDay: SalesByDay[];
+  byCatalog: SalesByCatalog[];
+  topProducts: ProductSales[];
+  categoryMix: CategorySales[];
+  paymentMethods: PaymentMethodSales[];
+}
+
+export const reportsApi = {
+  /**
+   * Get aggregated sales for a date range
+   * Completed orders only; refunds are counted against the day they were issued
+   */
+  getSales: (params: SalesReportParams) => {
+    const searchParams = new URLSearchParams();
+    searchParams.append('from', params.from);
+    searchParams.append('to', params.to);
+    if (params.timezone) searchParams.append('timezone', params.timezone);
+    if (params.catalogId) searchParams.append('catalogId', params.catalogId);
+
+    return apiClient.get<SalesReport>(`/reports/sales?${searchParams.toString()}`);
+  },
+};
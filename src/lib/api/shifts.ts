@@ -0,0 +1,135 @@
+import { apiClient } from './client';
+
+export type ShiftStatus = 'open' | 'closed';
+
+export type CashMovementType = 'pay_in' | 'pay_out';
+
+export interface CashMovement {
+  id: string;
+  shiftId: string;
+  type: CashMovementType;
+  amount: number; // in cents, always positive
+  reason: string;
+  userName: string | null;
+  createdAt: string;
+}
+
+export interface Shift {
+  id: string;
+  deviceId: string;
+  status: ShiftStatus;
+  openedByName: string | null;
+  closedByName: string | null;
+  openedAt: string;
+  closedAt: string | null;
+  startingFloat: number; // in cents
+  cashSales: number; // completed cash OrderPayments on this device, less change given
+  cashRefunds: number;
+  payIns: number;
+  payOuts: number;
+  expectedCash: number; // startingFloat + cashSales - cashRefunds + payIns - payOuts
+  countedCash: number | null; // null until the shift is closed
+  variance: number | null; // countedCash - expectedCash
+  notes: string | null;
+}
+
+export interface ShiftPaymentTotal {
+  method: string; // 'card' | 'cash' | 'tap_to_pay' | 'split'
+  count: number;
+  amount: number; // in cents
+}
+
+// End-of-day (Z) report for a closed shift
+export interface ShiftReport {
+  shift: Shift;
+  movements: CashMovement[];
+  orderCount: number;
+  grossSales: number; // in cents, before discounts
+  discounts: number;
+  refunds: number;
+  netSales: number;
+  taxCollected: number;
+  tipsCollected: number;
+  payments: ShiftPaymentTotal[];
+}
+
+export interface OpenShiftData {
+  deviceId: string;
+  startingFloat: number; // in cents
+}
+
+export interface CashMovementData {
+  type: CashMovementType;
+  amount: number; // in cents
+  reason: string;
+}
+
+export interface CloseShiftData {
+  countedCash: number; // in cents
+  notes?: string;
+}
+
+export interface ShiftsListParams {
+  deviceId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ShiftsListResponse {
+  shifts: Shift[];
+  total: number;
+}
+
+export const shiftsApi = {
+  /**
+   * Get the open shift for a device, if any
+   */
+  getCurrent: (deviceId: string) =>
+    apiClient.get<{ shift: Shift | null; movements: CashMovement[] }>(
+      `/shifts/current?deviceId=${encodeURIComponent(deviceId)}`
+    ),
+
+  /**
+   * Open a shift with a starting float
+   */
+  open: (data: OpenShiftData) =>
+    apiClient.post<Shift>('/shifts', data),
+
+  /**
+   * Record cash put into (pay in) or taken out of (pay out) the drawer
+   */
+  addCashMovement: (shiftId: string, data: CashMovementData) =>
+    apiClient.post<CashMovement>(`/shifts/${shiftId}/cash-movements`, data),
+
+  /**
+   * Close a shift with the counted cash
+   * Expected cash is worked out server-side from completed cash payments on the shift's device
+   */
+  close: (shiftId: string, data: CloseShiftData) =>
+    apiClient.post<ShiftReport>(`/shifts/${shiftId}/close`, data),
+
+  /**
+   * List shifts, most recent first
+   */
+  list: (params?: ShiftsListParams) => {
+    const searchParams = new URLSearchParams();
+    if (params?.deviceId) searchParams.append('deviceId', params.deviceId);
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.offset) searchParams.append('offset', params.offset.toString());
+
+    const query = searchParams.toString();
+    return apiClient.get<ShiftsListResponse>(`/shifts${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Get the Z-report for a shift
+   */
+  getReport: (shiftId: string) =>
+    apiClient.get<ShiftReport>(`/shifts/${shiftId}/report`),
+
+  /**
+   * Email the Z-report for a shift
+   */
+  emailReport: (shiftId: string, email: string) =>
+    apiClient.post<{ success: boolean; message: string }>(`/shifts/${shiftId}/report/email`, { email }),
+};
@@ -15,7 +15,95 @@ export interface OnboardingLink {
   onboardingUrl: string;
 }
 
+export type PayoutInterval = 'manual' | 'daily' | 'weekly' | 'monthly';
+
+export interface PayoutSchedule {
+  interval: PayoutInterval;
+  delayDays: number; // days a payment waits before it's paid out
+  weeklyAnchor: string | null; // e.g. 'monday', for weekly payouts
+  monthlyAnchor: number | null; // day of the month, for monthly payouts
+}
+
+export interface ConnectBalance {
+  available: number; // in cents, ready to be paid out
+  pending: number; // in cents, not yet available
+  currency: string;
+  schedule: PayoutSchedule;
+  nextPayoutDate: number | null; // Unix timestamp of the next scheduled payout
+}
+
+export type PayoutStatus = 'paid' | 'pending' | 'in_transit' | 'canceled' | 'failed';
+
+export interface Payout {
+  id: string;
+  amount: number; // in cents
+  currency: string;
+  status: PayoutStatus;
+  created: number; // Unix timestamp
+  arrivalDate: number; // Unix timestamp the bank is expected to receive it
+  method: 'standard' | 'instant';
+  bankName: string | null;
+  last4: string | null;
+  failureMessage: string | null;
+}
+
+export type PayoutTransactionType = 'charge' | 'refund' | 'adjustment' | 'fee' | 'other';
+
+// A balance transaction settled in a payout
+export interface PayoutTransaction {
+  id: string;
+  type: PayoutTransactionType;
+  description: string | null;
+  amount: number; // in cents, gross
+  fee: number; // in cents
+  net: number; // in cents
+  created: number; // Unix timestamp
+  transactionId: string | null; // the app transaction, for charges and refunds
+}
+
+export interface PayoutDetail extends Payout {
+  grossAmount: number; // in cents, charges before refunds and fees
+  refundAmount: number;
+  feeAmount: number;
+  transactions: PayoutTransaction[];
+}
+
+export interface PayoutsListParams {
+  limit?: number;
+  starting_after?: string;
+}
+
+export interface PayoutsListResponse {
+  data: Payout[];
+  hasMore: boolean;
+}
+
+export interface FeeSummaryParams {
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+}
+
+export interface FeeSummary {
+  grossAmount: number; // in cents
+  refundAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  chargeCount: number;
+}
+
 export const stripeConnectApi = {
   getStatus: () => apiClient.get<ConnectStatus>('/stripe/connect/status'),
   getOnboardingLink: () => apiClient.post<OnboardingLink>('/stripe/connect/onboarding-link', {}),
+  getBalance: () => apiClient.get<ConnectBalance>('/stripe/connect/balance'),
+  listPayouts: (params?: PayoutsListParams) => {
+    const searchParams = new URLSearchParams();
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.starting_after) searchParams.append('starting_after', params.starting_after);
+
+    const query = searchParams.toString();
+    return apiClient.get<PayoutsListResponse>(`/stripe/connect/payouts${query ? `?${query}` : ''}`);
+  },
+  getPayout: (id: string) => apiClient.get<PayoutDetail>(`/stripe/connect/payouts/${id}`),
+  getFeeSummary: (params: FeeSummaryParams) =>
+    apiClient.get<FeeSummary>(`/stripe/connect/fees?from=${encodeURIComponent(params.from)}&to=${encodeURIComponent(params.to)}`),
 };
@@ -0,0 +1,47 @@
+import { apiClient } from './client';
+
+// Named rate shared by every menu in the organization, assigned to categories or products
+export interface TaxRate {
+  id: string;
+  name: string; // e.g. "Food", "Alcohol"
+  rate: number; // percentage, e.g. 8.875
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 'line' rounds each line's tax, 'order' rounds once per rate after adding lines up
+export type TaxRoundingMode = 'line' | 'order';
+
+export interface TaxRateData {
+  name: string;
+  rate: number;
+}
+
+export const taxRatesApi = {
+  /**
+   * List the organization's tax rates
+   */
+  list: async (): Promise<TaxRate[]> => {
+    const response = await apiClient.get<{ taxRates: TaxRate[] }>('/tax-rates');
+    return response.taxRates;
+  },
+
+  /**
+   * Create a named tax rate
+   */
+  create: (data: TaxRateData) =>
+    apiClient.post<TaxRate>('/tax-rates', data),
+
+  /**
+   * Update a tax rate's name or percentage
+   * Applies to future orders only; completed orders keep their stored breakdown
+   */
+  update: (id: string, data: Partial<TaxRateData>) =>
+    apiClient.patch<TaxRate>(`/tax-rates/${id}`, data),
+
+  /**
+   * Delete a tax rate (assigned categories and products fall back to the menu's default rate)
+   */
+  delete: (id: string) =>
+    apiClient.delete(`/tax-rates/${id}`),
+};
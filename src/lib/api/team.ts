@@ -0,0 +1,79 @@
+import { apiClient } from './client';
+
+export type TeamRole = 'owner' | 'admin' | 'staff';
+export type TeamMemberStatus = 'active' | 'invited' | 'deactivated';
+
+// A device a team member is currently signed in on
+export interface TeamSession {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  deviceModel: string | null;
+  os: string | null;
+  signedInAt: string;
+  lastActiveAt: string;
+}
+
+export interface TeamMember {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: TeamRole;
+  status: TeamMemberStatus;
+  invitedAt: string | null;
+  hasPin: boolean; // PIN for register mode and manager approvals
+  sessions: TeamSession[];
+}
+
+export interface InviteTeamMemberData {
+  email: string;
+  role: Exclude<TeamRole, 'owner'>;
+  firstName?: string;
+  lastName?: string;
+}
+
+export const teamApi = {
+  /**
+   * List everyone in the organization, including pending invites and deactivated accounts
+   */
+  list: async (): Promise<TeamMember[]> => {
+    const response = await apiClient.get<{ members: TeamMember[] }>('/team');
+    return response.members;
+  },
+
+  /**
+   * Email an invite to join the organization with the given role
+   */
+  invite: (data: InviteTeamMemberData) =>
+    apiClient.post<TeamMember>('/team/invitations', data),
+
+  resendInvite: (memberId: string) =>
+    apiClient.post<{ success: boolean }>(`/team/${memberId}/invitation/resend`),
+
+  updateRole: (memberId: string, role: Exclude<TeamRole, 'owner'>) =>
+    apiClient.patch<TeamMember>(`/team/${memberId}`, { role }),
+
+  /**
+   * Set the 4-6 digit PIN a member uses to unlock registers and approve actions
+   */
+  setPin: (memberId: string, pin: string) =>
+    apiClient.put<{ success: boolean }>(`/team/${memberId}/pin`, { pin }),
+
+  /**
+   * Deactivate an account
+   * Signs it out of every device and blocks new sign-ins until reactivated
+   */
+  deactivate: (memberId: string) =>
+    apiClient.post<TeamMember>(`/team/${memberId}/deactivate`),
+
+  reactivate: (memberId: string) =>
+    apiClient.post<TeamMember>(`/team/${memberId}/reactivate`),
+
+  /**
+   * Sign a member out of one device
+   * The device receives session:kicked and returns to the login screen
+   */
+  revokeSession: (memberId: string, sessionId: string) =>
+    apiClient.delete<{ success: boolean }>(`/team/${memberId}/sessions/${sessionId}`),
+};
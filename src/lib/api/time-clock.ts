@@ -0,0 +1,93 @@
+import { apiClient } from './client';
+import type { TeamRole } from './team';
+
+// One clock-in to clock-out stretch for a team member
+export interface TimeEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  role: TeamRole;
+  deviceId: string; // device the member clocked in on
+  clockInAt: string;
+  clockOutAt: string | null; // null while still clocked in
+}
+
+export type TipPoolMethod = 'equal' | 'hours';
+
+// How tips collected in a period are shared out
+export interface TipPoolSettings {
+  method: TipPoolMethod; // equal split between everyone who worked, or weighted by hours worked
+  eligibleRoles: TeamRole[]; // roles that share in the pool
+}
+
+export interface TimeEntriesParams {
+  from: string; // ISO timestamp, entries overlapping [from, to) are included
+  to: string;
+  userId?: string;
+  deviceId?: string;
+}
+
+export interface TipReportParams {
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+  deviceId?: string; // only orders and time entries on this device, e.g. for a drawer shift
+}
+
+// Tips from completed orders in a period, with who was on the clock
+export interface TipReport {
+  from: string;
+  to: string;
+  totalTips: number; // in cents, tipAmount of completed orders less refunded tips
+  orderCount: number; // completed orders with a tip
+  entries: TimeEntry[];
+  settings: TipPoolSettings;
+}
+
+export const timeClockApi = {
+  /**
+   * Open time entry for the signed-in user (or register-mode cashier), if clocked in
+   */
+  getCurrent: async (): Promise<TimeEntry | null> => {
+    const response = await apiClient.get<{ entry: TimeEntry | null }>('/time-clock/current');
+    return response.entry;
+  },
+
+  clockIn: (deviceId: string) =>
+    apiClient.post<TimeEntry>('/time-clock/clock-in', { deviceId }),
+
+  clockOut: (entryId: string) =>
+    apiClient.post<TimeEntry>(`/time-clock/${entryId}/clock-out`),
+
+  /**
+   * List time entries overlapping a period, earliest first
+   */
+  listEntries: async (params: TimeEntriesParams): Promise<TimeEntry[]> => {
+    const searchParams = new URLSearchParams();
+    searchParams.append('from', params.from);
+    searchParams.append('to', params.to);
+    if (params.userId) searchParams.append('userId', params.userId);
+    if (params.deviceId) searchParams.append('deviceId', params.deviceId);
+
+    const response = await apiClient.get<{ entries: TimeEntry[] }>(`/time-clock/entries?${searchParams.toString()}`);
+    return response.entries;
+  },
+
+  /**
+   * Tips and time entries for a period
+   * Shares are worked out on the device from the pool settings, see utils/tip-pool
+   */
+  getTipReport: (params: TipReportParams) => {
+    const searchParams = new URLSearchParams();
+    searchParams.append('from', params.from);
+    searchParams.append('to', params.to);
+    if (params.deviceId) searchParams.append('deviceId', params.deviceId);
+
+    return apiClient.get<TipReport>(`/time-clock/tip-report?${searchParams.toString()}`);
+  },
+
+  getTipPoolSettings: () =>
+    apiClient.get<TipPoolSettings>('/time-clock/tip-pool-settings'),
+
+  updateTipPoolSettings: (settings: TipPoolSettings) =>
+    apiClient.put<TipPoolSettings>('/time-clock/tip-pool-settings', settings),
+};
@@ -1,19 +1,40 @@
 import { apiClient } from './client';
+import type { AppliedDiscount } from './discounts';
+import { withManagerOverride } from './manager-override';
+import type { ManagerApprover } from './manager-override';
+import type { GiftCard } from './gift-cards';
+import type { OrderTaxLine } from './orders';
 
 export type SourceType = 'order' | 'preorder' | 'ticket';
 
 export interface PaymentMethod {
-  type?: string;       // 'card' | 'card_present' | 'cash' | 'split' | 'tap_to_pay'
+  type?: string;       // 'card' | 'card_present' | 'cash' | 'split' | 'tap_to_pay' | 'gift_card'
   brand: string | null;
   last4: string | null;
 }
 
+export type RefundReason = 'requested_by_customer' | 'wrong_item' | 'quality_issue' | 'duplicate' | 'other';
+
+// Quantity of one order line being refunded
+export interface RefundLineItem {
+  orderItemId: string;
+  quantity: number;
+}
+
 export interface Refund {
   id: string;
   amount: number;
   status: string;
   reason: string | null;
   created: number;
+  approvedBy?: ManagerApprover | null; // manager who approved a cashier's refund
+  reasonCode?: RefundReason | null;
+  items?: RefundLineItem[]; // empty for custom-amount refunds
+  taxAmount?: number; // portion of amount that was tax, in cents
+  tipAmount?: number; // portion of amount that was tip, in cents
+  serviceChargeAmount?: number; // portion of amount that was service charge, in cents
+  orderPaymentId?: string | null; // split payments: the leg this refund went back to
+  storeCreditCode?: string | null; // set when issued as store credit instead of to the tender
 }
 
 export interface Transaction {
@@ -45,6 +66,17 @@ export interface OrderPaymentDetail {
   cashChange: number | null;
   stripePaymentIntentId: string | null;
   created: number;
+  amountRefunded?: number; // in cents
+}
+
+export interface TransactionLineItem {
+  id: string; // order item ID
+  name: string;
+  quantity: number;
+  unitPrice: number; // in cents, includes modifier price deltas
+  discountAmount: number; // line discount covering the whole line, in cents
+  taxRateId?: string | null; // rate the line was taxed at, null = the menu's default
+  refundedQuantity: number;
 }
 
 export interface TransactionDetail extends Transaction {
@@ -52,6 +84,17 @@ export interface TransactionDetail extends Transaction {
   cashTendered?: number | null; // in cents
   cashChange?: number | null; // in cents
   orderPayments?: OrderPaymentDetail[];
+  discountAmount?: number | null; // in cents, line + order discounts
+  discount?: AppliedDiscount | null; // order-level discount
+  items?: TransactionLineItem[];
+  subtotal?: number | null; // in cents, before discounts
+  taxAmount?: number | null;
+  taxBreakdown?: OrderTaxLine[] | null;
+  taxInclusive?: boolean;
+  taxExempt?: boolean;
+  serviceChargeAmount?: number | null;
+  serviceChargeName?: string | null;
+  tipAmount?: number | null;
 }
 
 export interface TransactionsListParams {
@@ -60,6 +103,12 @@ export interface TransactionsListParams {
   status?: string;
   catalog_id?: string;
   device_id?: string;
+  search?: string; // order number, daily number, customer name or email, or card last4
+  payment_method?: string; // 'card' | 'cash' | 'split' | 'gift_card'
+  amount_gte?: number; // in cents
+  amount_lte?: number; // in cents
+  created_gte?: number; // Unix timestamp
+  created_lt?: number; // Unix timestamp
 }
 
 export interface TransactionsListResponse {
@@ -69,6 +118,18 @@ export interface TransactionsListResponse {
 
 export interface RefundParams {
   amount?: number; // Optional for partial refund (in cents)
+  items?: RefundLineItem[]; // line items being returned, restocked server-side
+  taxAmount?: number; // portion of amount that is tax
+  tipAmount?: number; // portion of amount that is tip
+  serviceChargeAmount?: number; // portion of amount that is service charge
+  reasonCode?: RefundReason;
+  orderPaymentId?: string; // split payments: which leg to refund
+  asStoreCredit?: boolean; // issue the amount as store credit instead of returning it to the tender
+}
+
+export interface RefundResponse {
+  success: boolean;
+  storeCredit?: GiftCard; // set when the refund was issued as store credit
 }
 
 export const transactionsApi = {
@@ -83,6 +144,12 @@ export const transactionsApi = {
     if (params?.status) searchParams.append('status', params.status);
     if (params?.catalog_id) searchParams.append('catalog_id', params.catalog_id);
     if (params?.device_id) searchParams.append('device_id', params.device_id);
+    if (params?.search) searchParams.append('search', params.search);
+    if (params?.payment_method) searchParams.append('payment_method', params.payment_method);
+    if (params?.amount_gte !== undefined) searchParams.append('amount_gte', params.amount_gte.toString());
+    if (params?.amount_lte !== undefined) searchParams.append('amount_lte', params.amount_lte.toString());
+    if (params?.created_gte !== undefined) searchParams.append('created_gte', params.created_gte.toString());
+    if (params?.created_lt !== undefined) searchParams.append('created_lt', params.created_lt.toString());
 
     const query = searchParams.toString();
     return apiClient.get<TransactionsListResponse>(
@@ -90,6 +157,27 @@ export const transactionsApi = {
     );
   },
 
+  /**
+   * Every transaction matching the params, following hasMore/starting_after page by page
+   * onPage reports how many have been fetched so far, and paging stops early once isCancelled returns true
+   */
+  listAll: async (
+    params?: Omit<TransactionsListParams, 'limit' | 'starting_after'>,
+    onPage?: (fetched: number) => void,
+    isCancelled?: () => boolean
+  ): Promise<Transaction[]> => {
+    const all: Transaction[] = [];
+    let startingAfter: string | undefined;
+    for (;;) {
+      if (isCancelled?.()) return all;
+      const page = await transactionsApi.list({ ...params, limit: 100, starting_after: startingAfter });
+      all.push(...page.data);
+      onPage?.(all.length);
+      if (!page.hasMore || page.data.length === 0) return all;
+      startingAfter = page.data[page.data.length - 1].id;
+    }
+  },
+
   /**
    * Get a single transaction with full details
    */
@@ -98,9 +186,14 @@ export const transactionsApi = {
 
   /**
    * Issue a refund for a transaction
+   * Pass a manager override token when the signed-in user can't refund
    */
-  refund: (id: string, params?: RefundParams) =>
-    apiClient.post<{ success: boolean }>(`/stripe/connect/transactions/${id}/refund`, params || {}),
+  refund: (id: string, params?: RefundParams, managerOverrideToken?: string) =>
+    apiClient.post<RefundResponse>(
+      `/stripe/connect/transactions/${id}/refund`,
+      params || {},
+      withManagerOverride(managerOverrideToken)
+    ),
 
   /**
    * Send receipt email for a transaction
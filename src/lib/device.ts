@@ -6,7 +6,7 @@ const DEVICE_ID_KEY = 'luma_device_id';
 /**
  * Generate a UUID v4
  */
-function generateUUID(): string {
+export function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
     const r = (Math.random() * 16) | 0;
     const v = c === 'x' ? r : (r & 0x3) | 0x8;
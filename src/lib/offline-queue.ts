@@ -0,0 +1,219 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ordersApi, CreateOrderParams } from './api/orders';
+import { generateUUID } from './device';
+import logger from './logger';
+
+/**
+ * Offline Order Outbox
+ *
+ * Persists cash sales and held orders that were taken while the device had no
+ * connection, then replays them against the API in the order they were taken.
+ * Each entry carries a client-generated order ID which the server uses as an
+ * idempotency key, so a replay that is interrupted halfway can safely retry.
+ */
+
+const OUTBOX_STORAGE_KEY = 'luma_offline_outbox';
+
+export type OutboxEntryType = 'cash_sale' | 'held_order';
+
+export interface OutboxEntry {
+  clientOrderId: string;
+  type: OutboxEntryType;
+  organizationId: string;
+  params: CreateOrderParams;
+  managerOverrideToken?: string; // approval for the order's discounts; the API checks it as of clientCreatedAt
+  cashTendered?: number; // cash_sale only, in cents
+  holdName?: string; // held_order only
+  serverOrderId?: string; // set once the order has been created on the server
+  status: 'pending' | 'conflict';
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface OutboxFlushResult {
+  synced: number;
+  conflicts: OutboxEntry[];
+  interrupted: boolean; // true if the flush stopped early on a network/server error
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * Whether an error means "try again later" rather than "the server rejected this".
+ * Network failures surface as a plain fetch error with no status code.
+ */
+export function isRetryableError(error: any): boolean {
+  const statusCode = error?.statusCode;
+  if (!statusCode) return true;
+  return statusCode === 401 || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+class OfflineOutbox {
+  private entries: OutboxEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<OutboxFlushResult> | null = null;
+  private listeners = new Set<OutboxListener>();
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const json = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+          this.entries = json ? (JSON.parse(json) as OutboxEntry[]) : [];
+        } catch (error) {
+          logger.error('[OfflineOutbox] Failed to load outbox:', error);
+          this.entries = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      logger.error('[OfflineOutbox] Failed to persist outbox:', error);
+    }
+    const snapshot = [...this.entries];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /**
+   * Subscribe to outbox changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  /**
+   * Queue an order for later sync. Returns the stored entry, including its client order ID.
+   */
+  async enqueue(entry: {
+    type: OutboxEntryType;
+    organizationId: string;
+    params: CreateOrderParams;
+    managerOverrideToken?: string;
+    cashTendered?: number;
+    holdName?: string;
+  }): Promise<OutboxEntry> {
+    await this.load();
+    const clientOrderId = generateUUID();
+    const createdAt = new Date().toISOString();
+    const stored: OutboxEntry = {
+      ...entry,
+      clientOrderId,
+      params: { ...entry.params, clientOrderId, clientCreatedAt: createdAt },
+      status: 'pending',
+      attempts: 0,
+      createdAt,
+    };
+    this.entries.push(stored);
+    await this.persist();
+    logger.log('[OfflineOutbox] Queued', stored.type, clientOrderId);
+    return stored;
+  }
+
+  /**
+   * Drop an entry (e.g. a conflict the user has reviewed).
+   */
+  async discard(clientOrderId: string) {
+    await this.load();
+    this.entries = this.entries.filter(e => e.clientOrderId !== clientOrderId);
+    await this.persist();
+  }
+
+  /**
+   * Move a conflicted entry back to pending so the next flush retries it.
+   */
+  async retry(clientOrderId: string) {
+    await this.load();
+    this.entries = this.entries.map(e =>
+      e.clientOrderId === clientOrderId ? { ...e, status: 'pending', error: undefined } : e
+    );
+    await this.persist();
+  }
+
+  /**
+   * Replay pending entries for an organization in the order they were taken.
+   * Concurrent calls share the same in-flight flush.
+   */
+  flush(organizationId: string): Promise<OutboxFlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush(organizationId).finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async runFlush(organizationId: string): Promise<OutboxFlushResult> {
+    await this.load();
+    const result: OutboxFlushResult = { synced: 0, conflicts: [], interrupted: false };
+    const queue = this.entries.filter(e => e.status === 'pending' && e.organizationId === organizationId);
+
+    for (const queued of queue) {
+      let entry = this.entries.find(e => e.clientOrderId === queued.clientOrderId);
+      if (!entry) continue; // discarded mid-flush
+
+      try {
+        if (!entry.serverOrderId) {
+          const order = await ordersApi.create(entry.params, entry.managerOverrideToken);
+          entry = this.update(entry.clientOrderId, { serverOrderId: order.id });
+          await this.persist();
+        }
+
+        if (entry.type === 'cash_sale') {
+          await ordersApi.completeCash(entry.serverOrderId!, entry.cashTendered ?? entry.params.totalAmount);
+        } else {
+          await ordersApi.hold(entry.serverOrderId!, entry.holdName);
+        }
+
+        this.entries = this.entries.filter(e => e.clientOrderId !== entry!.clientOrderId);
+        await this.persist();
+        result.synced += 1;
+      } catch (error: any) {
+        if (isRetryableError(error)) {
+          // Stop here so later entries are not replayed ahead of this one
+          logger.warn('[OfflineOutbox] Flush interrupted:', error?.message || error?.error || error);
+          this.update(entry.clientOrderId, { attempts: entry.attempts + 1 });
+          await this.persist();
+          result.interrupted = true;
+          break;
+        }
+
+        logger.error('[OfflineOutbox] Order rejected by server:', entry.clientOrderId, error);
+        const conflicted = this.update(entry.clientOrderId, {
+          status: 'conflict',
+          attempts: entry.attempts + 1,
+          error: error?.error || error?.message || 'Order was rejected by the server',
+        });
+        await this.persist();
+        result.conflicts.push(conflicted);
+      }
+    }
+
+    return result;
+  }
+
+  private update(clientOrderId: string, changes: Partial<OutboxEntry>): OutboxEntry {
+    let updated: OutboxEntry | undefined;
+    this.entries = this.entries.map(e => {
+      if (e.clientOrderId !== clientOrderId) return e;
+      updated = { ...e, ...changes };
+      return updated;
+    });
+    return updated!;
+  }
+}
+
+export const offlineOutbox = new OfflineOutbox();
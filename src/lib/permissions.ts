@@ -0,0 +1,42 @@
+/**
+ * Role-based permissions.
+ * User.role comes from the API as a plain string; anything that isn't a known
+ * manager role gets the staff (cashier) set.
+ */
+
+export type Permission =
+  | 'refund' // issue refunds on transactions and preorders
+  | 'discount' // apply discounts, promo codes and tax exemptions at checkout
+  | 'void_held_order' // delete held or resumed orders
+  | 'edit_catalog' // add/edit products, categories and menu settings
+  | 'delete_catalog'
+  | 'view_reports' // sales reports and summaries
+  | 'manage_business' // vendor portal, subscription, banking and payment setup
+  | 'manage_team'; // invite staff, change roles, deactivate accounts and sign out devices
+
+const ALL_PERMISSIONS: Permission[] = [
+  'refund',
+  'discount',
+  'void_held_order',
+  'edit_catalog',
+  'delete_catalog',
+  'view_reports',
+  'manage_business',
+  'manage_team',
+];
+
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS.filter(p => p !== 'delete_catalog'),
+};
+
+const STAFF_PERMISSIONS: Permission[] = [];
+
+export function getPermissionsForRole(role: string | undefined | null): Permission[] {
+  if (!role) return STAFF_PERMISSIONS;
+  return ROLE_PERMISSIONS[role] ?? STAFF_PERMISSIONS;
+}
+
+export function hasPermission(role: string | undefined | null, permission: Permission): boolean {
+  return getPermissionsForRole(role).includes(permission);
+}
@@ -0,0 +1,206 @@
+/**
+ * ESC/POS command builder
+ *
+ * Pure byte encoder with no React Native dependencies so receipt layouts can be
+ * rendered and compared byte-for-byte outside the app. Text is encoded for code
+ * page PC858 (Western European with the euro sign), which every thermal printer
+ * we have tested supports.
+ */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const CODE_PAGE_PC858 = 19;
+
+// Non-ASCII characters PC858 can print directly
+const PC858_CHARACTERS: Record<string, number> = {
+  '€': 0xd5,
+  '£': 0x9c,
+  '¥': 0xbe,
+  '¢': 0xbd,
+  '°': 0xf8,
+  'ñ': 0xa4,
+  'Ñ': 0xa5,
+  'é': 0x82,
+  'É': 0x90,
+  'ü': 0x81,
+  'Ü': 0x9a,
+  'ä': 0x84,
+  'Ä': 0x8e,
+  'ö': 0x94,
+  'Ö': 0x99,
+  'ß': 0xe1,
+};
+
+// Typographic punctuation that phones insert into names and notes
+const ASCII_SUBSTITUTES: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '\u00a0': ' ',
+};
+
+export type Alignment = 'left' | 'center' | 'right';
+
+/**
+ * Replace characters the printer cannot render so column widths stay correct.
+ * Accented letters outside the code page fall back to their base letter.
+ */
+export function normalizeText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80 || PC858_CHARACTERS[char] !== undefined) {
+      result += char;
+    } else if (ASCII_SUBSTITUTES[char] !== undefined) {
+      result += ASCII_SUBSTITUTES[char];
+    } else {
+      const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      result += base.length > 0 && base.charCodeAt(0) < 0x80 ? base : '?';
+    }
+  }
+  return result;
+}
+
+/**
+ * Encode text as PC858 bytes
+ */
+export function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of normalizeText(text)) {
+    const mapped = PC858_CHARACTERS[char];
+    bytes.push(mapped !== undefined ? mapped : char.charCodeAt(0));
+  }
+  return bytes;
+}
+
+/**
+ * Split text into lines no longer than width, breaking on spaces where possible
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of normalizeText(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      let remaining = word;
+      while (remaining.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(remaining.slice(0, width));
+        remaining = remaining.slice(width);
+      }
+      if (!line) {
+        line = remaining;
+      } else if (line.length + 1 + remaining.length <= width) {
+        line += ' ' + remaining;
+      } else {
+        lines.push(line);
+        line = remaining;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Left text and right text on one line, padded to width.
+ * The left side wraps onto its own lines if both sides do not fit.
+ */
+export function formatColumns(left: string, right: string, width: number): string[] {
+  const rightText = normalizeText(right);
+  const leftWidth = Math.max(1, width - rightText.length - 1);
+  const leftLines = wrapText(left, leftWidth);
+  const last = leftLines.pop() || '';
+  return [...leftLines, last + ' '.repeat(Math.max(1, width - last.length - rightText.length)) + rightText];
+}
+
+export class EscPosBuilder {
+  private bytes: number[] = [];
+
+  /** Reset the printer and select the PC858 code page */
+  init(): this {
+    this.bytes.push(ESC, 0x40, ESC, 0x74, CODE_PAGE_PC858);
+    return this;
+  }
+
+  align(alignment: Alignment): this {
+    const value = alignment === 'center' ? 1 : alignment === 'right' ? 2 : 0;
+    this.bytes.push(ESC, 0x61, value);
+    return this;
+  }
+
+  bold(enabled: boolean): this {
+    this.bytes.push(ESC, 0x45, enabled ? 1 : 0);
+    return this;
+  }
+
+  /** Character magnification, 1-8 in each direction */
+  size(width: number, height: number): this {
+    const w = Math.min(8, Math.max(1, width)) - 1;
+    const h = Math.min(8, Math.max(1, height)) - 1;
+    this.bytes.push(GS, 0x21, (w << 4) | h);
+    return this;
+  }
+
+  text(text: string): this {
+    this.bytes.push(...encodeText(text));
+    return this;
+  }
+
+  line(text = ''): this {
+    return this.text(text).newline();
+  }
+
+  lines(lines: string[]): this {
+    lines.forEach(l => this.line(l));
+    return this;
+  }
+
+  newline(): this {
+    this.bytes.push(LF);
+    return this;
+  }
+
+  /** Print buffer and feed n lines */
+  feed(lines = 1): this {
+    this.bytes.push(ESC, 0x64, Math.min(255, Math.max(0, lines)));
+    return this;
+  }
+
+  /** Feed past the cutter and do a partial cut */
+  cut(): this {
+    this.bytes.push(GS, 0x56, 0x42, 0x03);
+    return this;
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64-encode bytes for transports that only accept strings (BLE writes)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+    output += BASE64_ALPHABET[(triple >> 18) & 0x3f];
+    output += BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return output;
+}
@@ -0,0 +1,21 @@
+export {
+  EscPosBuilder,
+  normalizeText,
+  encodeText,
+  wrapText,
+  formatColumns,
+  bytesToBase64,
+} from './escpos';
+export type { Alignment } from './escpos';
+
+export { receiptFromOrder, renderReceipt, renderKitchenTicket } from './receipt';
+export type { PaperWidth, ReceiptItem, ReceiptData, RenderOptions } from './receipt';
+
+export {
+  DEFAULT_PRINTER_PORT,
+  isBluetoothPrintingAvailable,
+  isNetworkPrintingAvailable,
+  scanBluetoothPrinters,
+  sendToPrinter,
+} from './transport';
+export type { PrinterConnectionType, PrinterTarget, DiscoveredPrinter } from './transport';
@@ -0,0 +1,218 @@
+import { EscPosBuilder, formatColumns, wrapText } from './escpos';
+import { formatCents } from '../../utils/currency';
+import { getPaymentMethodLabel } from '../../utils/shift-report';
+import { formatTaxLineLabel } from '../../utils/tax';
+import { formatServiceChargeLabel } from '../../utils/service-charge';
+import type { CreateOrderParams, OrderItem, OrderItemModifier, OrderTaxLine } from '../api/orders';
+
+/**
+ * Receipt and kitchen ticket layouts
+ *
+ * Both renderers are pure: the same ReceiptData and options always produce the
+ * same bytes, so layouts can be checked against saved golden files. Anything
+ * locale or clock dependent (the date line) is formatted by the caller.
+ */
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font
+const CHARS_PER_LINE: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  unitPrice: number; // in cents, includes modifier price deltas
+  modifiers?: string[]; // e.g. "Size: Large"
+  notes?: string;
+  discountAmount?: number; // line discount covering the whole line, in cents
+}
+
+export interface ReceiptData {
+  businessName: string;
+  orderNumber: string;
+  dateLabel: string; // preformatted date/time, e.g. "Mar 4, 2026 12:41 PM"
+  items: ReceiptItem[];
+  subtotal: number; // in cents
+  discountAmount: number;
+  taxAmount: number;
+  taxBreakdown?: OrderTaxLine[]; // one line per rate, replaces the single tax line
+  taxInclusive?: boolean; // tax is already part of the item prices
+  taxExempt?: boolean;
+  serviceChargeAmount?: number; // mandatory charge, printed apart from the tip
+  serviceChargeName?: string | null;
+  tipAmount: number;
+  totalAmount: number;
+  paymentMethod?: string | null; // 'card' | 'cash' | 'tap_to_pay' | 'gift_card' | 'split'
+  cashTendered?: number;
+  changeAmount?: number;
+  notes?: string | null; // order-level notes
+}
+
+export interface RenderOptions {
+  paperWidth: PaperWidth;
+  currency: string;
+}
+
+// Fields shared by server orders and offline order params
+type ReceiptSource = Pick<CreateOrderParams, 'subtotal' | 'discountAmount' | 'totalAmount'> & {
+  orderNumber?: string;
+  items?: Array<Pick<OrderItem, 'name' | 'quantity' | 'unitPrice'> & {
+    notes?: string | null;
+    modifiers?: OrderItemModifier[] | null;
+    discount?: { amount: number } | null;
+  }>;
+  taxAmount?: number;
+  taxBreakdown?: OrderTaxLine[] | null;
+  taxInclusive?: boolean;
+  taxExempt?: boolean;
+  serviceChargeAmount?: number;
+  serviceChargeName?: string | null;
+  tipAmount?: number;
+  paymentMethod?: string | null;
+  notes?: string | null;
+};
+
+/**
+ * Build receipt data from a server order, or from the params of an offline sale
+ * that has no server order number yet (pass extras.orderNumber instead)
+ */
+export function receiptFromOrder(
+  order: ReceiptSource,
+  extras: { businessName: string; dateLabel: string; orderNumber?: string; cashTendered?: number; changeAmount?: number }
+): ReceiptData {
+  return {
+    businessName: extras.businessName,
+    orderNumber: order.orderNumber || extras.orderNumber || '-',
+    dateLabel: extras.dateLabel,
+    items: (order.items || []).map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      modifiers: item.modifiers?.map(m => `${m.groupName}: ${m.optionName}`),
+      notes: item.notes || undefined,
+      discountAmount: item.discount?.amount,
+    })),
+    subtotal: order.subtotal,
+    discountAmount: order.discountAmount || 0,
+    taxAmount: order.taxAmount || 0,
+    taxBreakdown: order.taxBreakdown || undefined,
+    taxInclusive: order.taxInclusive,
+    taxExempt: order.taxExempt,
+    serviceChargeAmount: order.serviceChargeAmount,
+    serviceChargeName: order.serviceChargeName,
+    tipAmount: order.tipAmount || 0,
+    totalAmount: order.totalAmount,
+    paymentMethod: order.paymentMethod,
+    cashTendered: extras.cashTendered,
+    changeAmount: extras.changeAmount,
+    notes: order.notes,
+  };
+}
+
+/**
+ * Render a customer receipt with prices, totals and payment details
+ */
+export function renderReceipt(data: ReceiptData, options: RenderOptions): Uint8Array {
+  const width = CHARS_PER_LINE[options.paperWidth];
+  const money = (cents: number) => formatCents(cents, options.currency);
+  const divider = '-'.repeat(width);
+  const p = new EscPosBuilder().init();
+
+  p.align('center').bold(true).size(2, 2);
+  p.lines(wrapText(data.businessName, Math.floor(width / 2)));
+  p.size(1, 1).bold(false);
+  p.line(`Order #${data.orderNumber}`);
+  p.line(data.dateLabel);
+  p.align('left').line(divider);
+
+  data.items.forEach(item => {
+    const lineTotal = item.unitPrice * item.quantity;
+    p.lines(formatColumns(`${item.quantity} x ${item.name}`, money(lineTotal), width));
+    item.modifiers?.forEach(modifier => p.lines(wrapText(`  + ${modifier}`, width)));
+    if (item.discountAmount) {
+      p.lines(formatColumns('  Discount', `-${money(item.discountAmount)}`, width));
+    }
+    if (item.notes) {
+      p.lines(wrapText(`  Note: ${item.notes}`, width));
+    }
+  });
+
+  p.line(divider);
+  p.lines(formatColumns('Subtotal', money(data.subtotal), width));
+  if (data.discountAmount > 0) {
+    p.lines(formatColumns('Discount', `-${money(data.discountAmount)}`, width));
+  }
+  if (data.serviceChargeAmount) {
+    p.lines(formatColumns(formatServiceChargeLabel(data.serviceChargeName), money(data.serviceChargeAmount), width));
+  }
+  if (data.taxBreakdown?.length) {
+    data.taxBreakdown.forEach(line => {
+      p.lines(formatColumns(formatTaxLineLabel(line, data.taxInclusive), money(line.amount), width));
+    });
+  } else if (data.taxAmount > 0) {
+    p.lines(formatColumns(data.taxInclusive ? 'Incl. Tax' : 'Tax', money(data.taxAmount), width));
+  }
+  if (data.taxExempt) {
+    p.lines(formatColumns('Tax', 'Exempt', width));
+  }
+  if (data.tipAmount > 0) {
+    p.lines(formatColumns('Tip', money(data.tipAmount), width));
+  }
+  p.bold(true).lines(formatColumns('TOTAL', money(data.totalAmount), width)).bold(false);
+
+  if (data.paymentMethod) {
+    p.line(divider);
+    p.lines(formatColumns('Paid by', getPaymentMethodLabel(data.paymentMethod), width));
+    if (data.cashTendered !== undefined) {
+      p.lines(formatColumns('Cash tendered', money(data.cashTendered), width));
+    }
+    if (data.changeAmount !== undefined) {
+      p.lines(formatColumns('Change', money(data.changeAmount), width));
+    }
+  }
+
+  if (data.notes) {
+    p.line(divider);
+    p.lines(wrapText(`Notes: ${data.notes}`, width));
+  }
+
+  p.newline().align('center').line('Thank you!');
+  return p.feed(3).cut().build();
+}
+
+/**
+ * Render a kitchen ticket: large order number, items, modifiers and notes, no prices
+ */
+export function renderKitchenTicket(data: ReceiptData, options: Pick<RenderOptions, 'paperWidth'>): Uint8Array {
+  const width = CHARS_PER_LINE[options.paperWidth];
+  // Double-width text fits half as many characters per line
+  const largeWidth = Math.floor(width / 2);
+  const p = new EscPosBuilder().init();
+
+  p.align('center').bold(true).size(2, 2);
+  p.line(`#${data.orderNumber}`);
+  p.size(1, 1).bold(false);
+  p.line(data.dateLabel);
+  p.align('left').line('='.repeat(width));
+
+  data.items.forEach(item => {
+    p.bold(true).size(2, 2);
+    p.lines(wrapText(`${item.quantity} ${item.name}`, largeWidth));
+    p.size(1, 1).bold(false);
+    item.modifiers?.forEach(modifier => p.lines(wrapText(`   + ${modifier}`, width)));
+    if (item.notes) {
+      p.bold(true).lines(wrapText(`   ** ${item.notes}`, width)).bold(false);
+    }
+    p.newline();
+  });
+
+  if (data.notes) {
+    p.line('='.repeat(width));
+    p.bold(true).lines(wrapText(`NOTES: ${data.notes}`, width)).bold(false);
+  }
+
+  return p.feed(3).cut().build();
+}
@@ -0,0 +1,193 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { bytesToBase64 } from './escpos';
+import logger from '../logger';
+
+/**
+ * Printer transports
+ *
+ * Network printers take raw ESC/POS on TCP port 9100. Bluetooth printers are
+ * reached over BLE by writing to the first writable characteristic the printer
+ * exposes. Both native modules are optional so Expo Go and web builds still load;
+ * printing simply reports that it is unavailable there.
+ */
+
+export type PrinterConnectionType = 'bluetooth' | 'network';
+
+export interface PrinterTarget {
+  type: PrinterConnectionType;
+  address: string; // BLE device ID or IP/hostname
+  port?: number; // network only, defaults to 9100
+}
+
+export interface DiscoveredPrinter {
+  id: string; // BLE device ID
+  name: string;
+  rssi: number | null;
+}
+
+export const DEFAULT_PRINTER_PORT = 9100;
+
+const CONNECT_TIMEOUT_MS = 8000;
+const BLE_SCAN_DURATION_MS = 10000;
+// Most BLE printers accept at least 20 bytes per write without MTU negotiation
+const BLE_CHUNK_SIZE = 20;
+
+const isExpoGo = Constants.appOwnership === 'expo';
+
+let TcpSocket: any = null;
+let BleManagerClass: any = null;
+if (Platform.OS !== 'web' && !isExpoGo) {
+  try {
+    TcpSocket = require('react-native-tcp-socket').default;
+  } catch {
+    // Native module not available
+  }
+  try {
+    BleManagerClass = require('react-native-ble-plx').BleManager;
+  } catch {
+    // Native module not available
+  }
+}
+
+let bleManager: any = null;
+function getBleManager() {
+  if (!BleManagerClass) {
+    throw new Error('Bluetooth printing is not available in this build');
+  }
+  if (!bleManager) {
+    bleManager = new BleManagerClass();
+  }
+  return bleManager;
+}
+
+export function isBluetoothPrintingAvailable(): boolean {
+  return BleManagerClass !== null;
+}
+
+export function isNetworkPrintingAvailable(): boolean {
+  return TcpSocket !== null;
+}
+
+async function ensureBluetoothPermissions(): Promise<void> {
+  if (Platform.OS !== 'android') return;
+
+  const permissions = Platform.Version >= 31
+    ? [PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN, PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT]
+    : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+  const result = await PermissionsAndroid.requestMultiple(permissions);
+  const denied = permissions.some(permission => result[permission] !== PermissionsAndroid.RESULTS.GRANTED);
+  if (denied) {
+    throw new Error('Bluetooth permission is required to find printers');
+  }
+}
+
+/**
+ * Scan for nearby BLE printers. Calls onFound once per device and onDone when
+ * the scan window ends. Returns a function that stops the scan early.
+ */
+export async function scanBluetoothPrinters(
+  onFound: (printer: DiscoveredPrinter) => void,
+  onDone: () => void
+): Promise<() => void> {
+  const manager = getBleManager();
+  await ensureBluetoothPermissions();
+
+  const seen = new Set<string>();
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(timer);
+    manager.stopDeviceScan();
+    onDone();
+  };
+  const timer = setTimeout(stop, BLE_SCAN_DURATION_MS);
+
+  manager.startDeviceScan(null, null, (error: any, device: any) => {
+    if (error) {
+      logger.error('[Printer] Bluetooth scan failed:', error);
+      stop();
+      return;
+    }
+    const name = device?.name || device?.localName;
+    // Unnamed devices are almost never printers and flood the list
+    if (!device || !name || seen.has(device.id)) return;
+    seen.add(device.id);
+    onFound({ id: device.id, name, rssi: device.rssi ?? null });
+  });
+
+  return stop;
+}
+
+function sendOverNetwork(host: string, port: number, data: Uint8Array): Promise<void> {
+  if (!TcpSocket) {
+    return Promise.reject(new Error('Network printing is not available in this build'));
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      client.destroy();
+      if (error) reject(error);
+      else resolve();
+    };
+
+    const client = TcpSocket.createConnection({ host, port, connectTimeout: CONNECT_TIMEOUT_MS }, () => {
+      client.write(data, undefined, (error?: Error) => {
+        if (error) {
+          finish(error);
+          return;
+        }
+        client.end();
+        finish();
+      });
+    });
+    client.setTimeout(CONNECT_TIMEOUT_MS, () => finish(new Error(`Printer at ${host} did not respond`)));
+    client.on('error', (error: Error) => finish(error));
+  });
+}
+
+async function sendOverBluetooth(deviceId: string, data: Uint8Array): Promise<void> {
+  const manager = getBleManager();
+  await ensureBluetoothPermissions();
+
+  const device = await manager.connectToDevice(deviceId, { timeout: CONNECT_TIMEOUT_MS });
+  try {
+    await device.discoverAllServicesAndCharacteristics();
+    const services = await device.services();
+
+    let target: any = null;
+    for (const service of services) {
+      const characteristics = await service.characteristics();
+      target = characteristics.find((c: any) => c.isWritableWithoutResponse || c.isWritableWithResponse);
+      if (target) break;
+    }
+    if (!target) {
+      throw new Error('This Bluetooth device does not accept print data');
+    }
+
+    for (let offset = 0; offset < data.length; offset += BLE_CHUNK_SIZE) {
+      const chunk = bytesToBase64(data.subarray(offset, offset + BLE_CHUNK_SIZE));
+      if (target.isWritableWithoutResponse) {
+        await target.writeWithoutResponse(chunk);
+      } else {
+        await target.writeWithResponse(chunk);
+      }
+    }
+  } finally {
+    manager.cancelDeviceConnection(deviceId).catch(() => {});
+  }
+}
+
+/**
+ * Send rendered ESC/POS bytes to a printer
+ */
+export function sendToPrinter(target: PrinterTarget, data: Uint8Array): Promise<void> {
+  if (target.type === 'network') {
+    return sendOverNetwork(target.address, target.port || DEFAULT_PRINTER_PORT, data);
+  }
+  return sendOverBluetooth(target.address, data);
+}
@@ -5,14 +5,23 @@
  * This breaks the circular dependency between AuthContext and SocketContext.
  */
 
+// Why the session ended, sent with session:kicked
+// Missing on older servers, which only kick when the user signs in elsewhere
+export type SessionKickedCause = 'signed_in_elsewhere' | 'signed_out_remotely' | 'deactivated';
+
+export interface SessionKickedData {
+  reason?: string;
+  cause?: SessionKickedCause;
+}
+
 // Callback for handling session kicked via socket (user logged in on another device)
-let onSocketSessionKickedCallback: ((data: any) => void) | null = null;
+let onSocketSessionKickedCallback: ((data: SessionKickedData) => void) | null = null;
 
 /**
  * Set the callback to be called when a session is kicked via socket.
  * Called by AuthContext to register its handler.
  */
-export function setOnSocketSessionKicked(callback: (data: any) => void) {
+export function setOnSocketSessionKicked(callback: (data: SessionKickedData) => void) {
   onSocketSessionKickedCallback = callback;
 }
 
@@ -20,7 +29,7 @@ export function setOnSocketSessionKicked(callback: (data: any) => void) {
  * Trigger the session kicked callback.
  * Called by SocketContext when it receives a SESSION_KICKED event.
  */
-export function triggerSessionKicked(data: any) {
+export function triggerSessionKicked(data: SessionKickedData) {
   if (onSocketSessionKickedCallback) {
     onSocketSessionKickedCallback(data);
   }
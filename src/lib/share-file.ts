@@ -0,0 +1,22 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Write a CSV to the cache directory and open the share sheet with the file,
+ * so it arrives as a .csv attachment rather than pasted text
+ */
+export async function shareCsvFile(fileName: string, csv: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(csv);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: fileName,
+  });
+}
@@ -0,0 +1,709 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useDevice } from '../context/DeviceContext';
+import { useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { shiftsApi, CashMovementType, Shift } from '../lib/api';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { formatVariance } from '../utils/shift-report';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+type DrawerAction = CashMovementType | 'close';
+
+const HISTORY_LIMIT = 20;
+
+// Parse a typed money amount ("12.50") into cents
+function parseAmount(value: string): number {
+  return Math.round(parseFloat(value || '0') * 100);
+}
+
+function sanitizeAmount(text: string): string {
+  const cleaned = text.replace(/[^0-9.]/g, '');
+  const [whole, ...rest] = cleaned.split('.');
+  return rest.length > 0 ? `${whole}.${rest.join('').slice(0, 2)}` : whole;
+}
+
+export function CashDrawerScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { deviceId } = useDevice();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const [startingFloat, setStartingFloat] = useState('');
+  const [action, setAction] = useState<DrawerAction | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const currencySymbol = getCurrencySymbol(currency);
+
+  const { data: current, isLoading, refetch, isRefetching } = useQuery({
+    queryKey: ['shift', 'current', deviceId],
+    queryFn: () => shiftsApi.getCurrent(deviceId!),
+    enabled: !!deviceId,
+  });
+
+  const { data: history, refetch: refetchHistory } = useQuery({
+    queryKey: ['shifts', deviceId],
+    queryFn: () => shiftsApi.list({ deviceId: deviceId!, limit: HISTORY_LIMIT }),
+    enabled: !!deviceId,
+  });
+
+  const shift = current?.shift ?? null;
+  const movements = current?.movements ?? [];
+  const closedShifts = (history?.shifts ?? []).filter(s => s.status === 'closed');
+
+  // Cash sales change the expected drawer total
+  const handleOrderCompleted = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['shift', 'current'] });
+  }, [queryClient]);
+
+  useSocketEvent(SocketEvents.ORDER_COMPLETED, handleOrderCompleted);
+  useSocketEvent(SocketEvents.ORDER_REFUNDED, handleOrderCompleted);
+
+  useFocusEffect(
+    useCallback(() => {
+      queryClient.invalidateQueries({ queryKey: ['shift', 'current'] });
+    }, [queryClient])
+  );
+
+  const resetForm = () => {
+    setAction(null);
+    setAmount('');
+    setReason('');
+  };
+
+  const openMutation = useMutation({
+    mutationFn: (float: number) => shiftsApi.open({ deviceId: deviceId!, startingFloat: float }),
+    onSuccess: () => {
+      setStartingFloat('');
+      queryClient.invalidateQueries({ queryKey: ['shift', 'current'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to open shift');
+    },
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: (data: { shiftId: string; type: CashMovementType; amount: number; reason: string }) =>
+      shiftsApi.addCashMovement(data.shiftId, { type: data.type, amount: data.amount, reason: data.reason }),
+    onSuccess: () => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['shift', 'current'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to record cash movement');
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: (data: { shiftId: string; countedCash: number; notes?: string }) =>
+      shiftsApi.close(data.shiftId, { countedCash: data.countedCash, notes: data.notes }),
+    onSuccess: (report) => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['shift', 'current'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.setQueryData(['shift-report', report.shift.id], report);
+      navigation.navigate('ShiftReport', { shiftId: report.shift.id });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to close shift');
+    },
+  });
+
+  const handleOpenShift = () => {
+    openMutation.mutate(parseAmount(startingFloat));
+  };
+
+  const handleSubmitAction = () => {
+    if (!shift || !action) return;
+    const cents = parseAmount(amount);
+
+    if (action === 'close') {
+      const variance = cents - shift.expectedCash;
+      const confirmClose = () => closeMutation.mutate({
+        shiftId: shift.id,
+        countedCash: cents,
+        notes: reason.trim() || undefined,
+      });
+
+      if (variance === 0) {
+        confirmClose();
+        return;
+      }
+      Alert.alert(
+        variance > 0 ? 'Drawer Is Over' : 'Drawer Is Short',
+        `Counted cash is ${formatVariance(variance, currency)} compared to the expected ${formatCents(shift.expectedCash, currency)}. Close the shift anyway?`,
+        [
+          { text: 'Recount', style: 'cancel' },
+          { text: 'Close Shift', style: 'destructive', onPress: confirmClose },
+        ]
+      );
+      return;
+    }
+
+    if (cents <= 0) {
+      Alert.alert('Missing Amount', 'Enter how much cash was moved.');
+      return;
+    }
+    if (!reason.trim()) {
+      Alert.alert('Missing Reason', 'Enter a reason, e.g. "Change from bank" or "Ice delivery".');
+      return;
+    }
+    movementMutation.mutate({ shiftId: shift.id, type: action, amount: cents, reason: reason.trim() });
+  };
+
+  const handleRefresh = () => {
+    refetch();
+    refetchHistory();
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    summaryLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    summaryValue: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    expectedLabel: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    expectedValue: {
+      fontSize: 18,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    primaryText: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    detailText: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    formLabel: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    amountRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      marginBottom: 12,
+    },
+    currencySymbol: {
+      fontSize: 18,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginRight: 4,
+    },
+    amountInput: {
+      flex: 1,
+      paddingVertical: 12,
+      fontSize: 18,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 4,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    destructiveButton: {
+      backgroundColor: colors.error,
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 14,
+    },
+    actionButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
+    actionDivider: {
+      width: 1,
+      backgroundColor: cardBorder,
+    },
+    closeShiftButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+    },
+    closeShiftText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.error,
+    },
+    statusDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginRight: 8,
+    },
+  });
+
+  const renderAmountInput = (value: string, onChange: (text: string) => void, label: string) => (
+    <View style={styles.amountRow}>
+      <Text style={styles.currencySymbol} maxFontSizeMultiplier={1.3}>{currencySymbol}</Text>
+      <TextInput
+        style={styles.amountInput}
+        value={value}
+        onChangeText={(text) => onChange(sanitizeAmount(text))}
+        placeholder="0.00"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="decimal-pad"
+        accessibilityLabel={label}
+        maxFontSizeMultiplier={1.3}
+      />
+    </View>
+  );
+
+  const renderSummaryRow = (label: string, cents: number, sign: '' | '+' | '-' = '') => (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>{label}</Text>
+      <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>
+        {sign === '-' && cents > 0 ? '-' : sign === '+' && cents > 0 ? '+' : ''}{formatCents(cents, currency)}
+      </Text>
+    </View>
+  );
+
+  const renderActionForm = (current: Shift) => {
+    const isClose = action === 'close';
+    const isPending = movementMutation.isPending || closeMutation.isPending;
+    const title = isClose ? 'Counted Cash' : action === 'pay_in' ? 'Pay In Amount' : 'Pay Out Amount';
+
+    return (
+      <View style={styles.form}>
+        <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>{title}</Text>
+        {renderAmountInput(amount, setAmount, title)}
+        {isClose && (
+          <Text style={[styles.detailText, { marginTop: -4, marginBottom: 12 }]} maxFontSizeMultiplier={1.5}>
+            Expected in drawer: {formatCents(current.expectedCash, currency)}
+          </Text>
+        )}
+        <TextInput
+          style={styles.input}
+          value={reason}
+          onChangeText={setReason}
+          placeholder={isClose ? 'Notes (optional)' : 'Reason (e.g. change from bank, supplier paid)'}
+          placeholderTextColor={colors.textMuted}
+          accessibilityLabel={isClose ? 'Closing notes' : 'Reason'}
+          maxFontSizeMultiplier={1.3}
+        />
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={resetForm}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel"
+          >
+            <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, isClose && styles.destructiveButton, isPending && { opacity: 0.6 }]}
+            onPress={handleSubmitAction}
+            disabled={isPending}
+            accessibilityRole="button"
+            accessibilityLabel={isClose ? 'Close shift' : 'Record cash movement'}
+          >
+            {isPending ? (
+              <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+            ) : (
+              <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>
+                {isClose ? 'Close Shift' : 'Record'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Cash Drawer</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor={colors.primary} />
+        }
+      >
+        {isLoading || !deviceId ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading shift" />
+          </View>
+        ) : !shift ? (
+          /* No open shift - start one */
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Open Shift</Text>
+            <View style={styles.card}>
+              <View style={styles.form}>
+                <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>Starting Float</Text>
+                {renderAmountInput(startingFloat, setStartingFloat, 'Starting float')}
+                <Text style={[styles.detailText, { marginTop: -4, marginBottom: 12 }]} maxFontSizeMultiplier={1.5}>
+                  Count the cash in the drawer before your first sale.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.primaryButton, openMutation.isPending && { opacity: 0.6 }]}
+                  onPress={handleOpenShift}
+                  disabled={openMutation.isPending}
+                  accessibilityRole="button"
+                  accessibilityLabel="Open shift"
+                >
+                  {openMutation.isPending ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Opening shift" />
+                  ) : (
+                    <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Open Shift</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        ) : (
+          <>
+            {/* Current shift */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Current Shift</Text>
+              <View style={styles.card}>
+                <View style={styles.row}>
+                  <View style={[styles.statusDot, { backgroundColor: colors.success }]} />
+                  <View style={styles.rowLeft}>
+                    <Text style={styles.primaryText} maxFontSizeMultiplier={1.3}>
+                      Opened {new Date(shift.openedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </Text>
+                    <Text style={styles.detailText} maxFontSizeMultiplier={1.5}>
+                      {new Date(shift.openedAt).toLocaleDateString()}{shift.openedByName ? ` · ${shift.openedByName}` : ''}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.divider} />
+                {renderSummaryRow('Starting float', shift.startingFloat)}
+                {renderSummaryRow('Cash sales', shift.cashSales, '+')}
+                {shift.cashRefunds > 0 && renderSummaryRow('Cash refunds', shift.cashRefunds, '-')}
+                {renderSummaryRow('Pay ins', shift.payIns, '+')}
+                {renderSummaryRow('Pay outs', shift.payOuts, '-')}
+                <View style={styles.divider} />
+                <View style={[styles.summaryRow, { paddingVertical: 14 }]}>
+                  <Text style={styles.expectedLabel} maxFontSizeMultiplier={1.3}>Expected in drawer</Text>
+                  <Text style={styles.expectedValue} maxFontSizeMultiplier={1.3}>{formatCents(shift.expectedCash, currency)}</Text>
+                </View>
+
+                {action && action !== 'close' ? (
+                  <>
+                    <View style={styles.divider} />
+                    {renderActionForm(shift)}
+                  </>
+                ) : (
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => { resetForm(); setAction('pay_in'); }}
+                      accessibilityRole="button"
+                      accessibilityLabel="Pay in"
+                      accessibilityHint="Record cash added to the drawer"
+                    >
+                      <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+                      <Text style={styles.actionButtonText} maxFontSizeMultiplier={1.3}>Pay In</Text>
+                    </TouchableOpacity>
+                    <View style={styles.actionDivider} />
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => { resetForm(); setAction('pay_out'); }}
+                      accessibilityRole="button"
+                      accessibilityLabel="Pay out"
+                      accessibilityHint="Record cash taken out of the drawer"
+                    >
+                      <Ionicons name="remove-circle-outline" size={20} color={colors.primary} />
+                      <Text style={styles.actionButtonText} maxFontSizeMultiplier={1.3}>Pay Out</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            </View>
+
+            {/* Pay ins / pay outs this shift */}
+            {movements.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Pay Ins & Pay Outs</Text>
+                <View style={styles.card}>
+                  {movements.map((movement, index) => (
+                    <React.Fragment key={movement.id}>
+                      {index > 0 && <View style={styles.divider} />}
+                      <View style={styles.row}>
+                        <View style={styles.rowLeft}>
+                          <Text style={styles.primaryText} maxFontSizeMultiplier={1.3}>{movement.reason}</Text>
+                          <Text style={styles.detailText} maxFontSizeMultiplier={1.5}>
+                            {new Date(movement.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                            {movement.userName ? ` · ${movement.userName}` : ''}
+                          </Text>
+                        </View>
+                        <Text
+                          style={[styles.summaryValue, { color: movement.type === 'pay_in' ? colors.success : colors.error }]}
+                          maxFontSizeMultiplier={1.3}
+                        >
+                          {movement.type === 'pay_in' ? '+' : '-'}{formatCents(movement.amount, currency)}
+                        </Text>
+                      </View>
+                    </React.Fragment>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Close shift */}
+            <View style={styles.section}>
+              <View style={styles.card}>
+                {action === 'close' ? (
+                  renderActionForm(shift)
+                ) : (
+                  <TouchableOpacity
+                    style={styles.closeShiftButton}
+                    onPress={() => { resetForm(); setAction('close'); }}
+                    accessibilityRole="button"
+                    accessibilityLabel="Close shift"
+                    accessibilityHint="Count the drawer and produce the end-of-day report"
+                  >
+                    <Ionicons name="lock-closed-outline" size={18} color={colors.error} />
+                    <Text style={styles.closeShiftText} maxFontSizeMultiplier={1.3}>Close Shift</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          </>
+        )}
+
+        {/* Shift history */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Shift History</Text>
+          <View style={styles.card}>
+            {closedShifts.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="time-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  Closed shifts on this device will show up here.
+                </Text>
+              </View>
+            ) : (
+              closedShifts.map((s, index) => {
+                const variance = s.variance ?? 0;
+                const varianceColor = variance === 0 ? colors.success : variance > 0 ? colors.warning : colors.error;
+                return (
+                  <React.Fragment key={s.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <TouchableOpacity
+                      style={styles.row}
+                      onPress={() => navigation.navigate('ShiftReport', { shiftId: s.id })}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Shift on ${new Date(s.openedAt).toLocaleDateString()}, over/short ${formatVariance(variance, currency)}. View Z-report`}
+                    >
+                      <View style={styles.rowLeft}>
+                        <Text style={styles.primaryText} maxFontSizeMultiplier={1.3}>
+                          {new Date(s.openedAt).toLocaleDateString()}
+                        </Text>
+                        <Text style={styles.detailText} maxFontSizeMultiplier={1.5}>
+                          {new Date(s.openedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          {s.closedAt ? ` – ${new Date(s.closedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}` : ''}
+                          {s.closedByName ? ` · ${s.closedByName}` : ''}
+                        </Text>
+                      </View>
+                      <Text style={[styles.summaryValue, { color: varianceColor, marginRight: 8 }]} maxFontSizeMultiplier={1.3}>
+                        {formatVariance(variance, currency)}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
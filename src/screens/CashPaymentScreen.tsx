@@ -13,7 +13,8 @@ import { useNavigation, useRoute, RouteProp, CommonActions } from '@react-naviga
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { ordersApi } from '../lib/api';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { ordersApi, CreateOrderParams } from '../lib/api';
 import { formatCents, getCurrencySymbol } from '../utils/currency';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
@@ -21,22 +22,25 @@ import { shadows } from '../lib/shadows';
 
 type RouteParams = {
   CashPayment: {
-    orderId: string;
-    orderNumber: string;
+    orderId?: string; // absent for offline sales
+    orderNumber?: string;
     totalAmount: number; // in cents
     customerEmail?: string;
+    offlineOrder?: CreateOrderParams; // queued for sync instead of completed against the API
+    offlineOverrideToken?: string; // manager approval to replay with the queued order
   };
 };
 
 export function CashPaymentScreen() {
   const { colors, isDark } = useTheme();
   const { currency } = useAuth();
+  const { queueCashSale } = useOfflineQueue();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<any>();
   const route = useRoute<RouteProp<RouteParams, 'CashPayment'>>();
   const glassColors = isDark ? glass.dark : glass.light;
 
-  const { orderId, orderNumber, totalAmount, customerEmail } = route.params;
+  const { orderId, orderNumber, totalAmount, customerEmail, offlineOrder, offlineOverrideToken } = route.params;
 
   const [cashTendered, setCashTendered] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -79,7 +83,17 @@ export function CashPaymentScreen() {
 
     setIsProcessing(true);
     try {
-      const response = await ordersApi.completeCash(orderId, cashTenderedCents);
+      let change: number;
+      let queuedOrder: CreateOrderParams | undefined;
+      if (offlineOrder) {
+        // No connection - queue the sale and work out change locally
+        const entry = await queueCashSale(offlineOrder, cashTenderedCents, offlineOverrideToken);
+        queuedOrder = entry.params;
+        change = cashTenderedCents - totalAmount;
+      } else {
+        const response = await ordersApi.completeCash(orderId!, cashTenderedCents);
+        change = response.changeAmount;
+      }
 
       navigation.dispatch(
         CommonActions.reset({
@@ -97,7 +111,9 @@ export function CashPaymentScreen() {
                 customerEmail,
                 paymentMethod: 'cash',
                 cashTendered: cashTenderedCents,
-                changeAmount: response.changeAmount,
+                changeAmount: change,
+                offline: !!offlineOrder,
+                offlineOrder: queuedOrder,
               },
             },
           ],
@@ -15,8 +15,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { useTheme } from '../context/ThemeContext';
-import { useAuth } from '../context/AuthContext';
 import { useCatalog } from '../context/CatalogContext';
+import { usePermissions } from '../hooks';
 import { Catalog } from '../lib/api';
 import { openVendorDashboard } from '../lib/auth-handoff';
 import { glass } from '../lib/colors';
@@ -397,12 +397,12 @@ const starStyles = StyleSheet.create({
 
 export function CatalogSelectScreen() {
   const { colors, isDark } = useTheme();
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigation = useNavigation<any>();
   const route = useRoute();
   const glassColors = isDark ? glass.dark : glass.light;
   const { catalogs, selectedCatalog, setSelectedCatalog, refreshCatalogs, isLoading } = useCatalog();
-  const isManager = user?.role === 'owner' || user?.role === 'admin';
+  const isManager = can('edit_catalog');
 
   const [isRefreshing, setIsRefreshing] = React.useState(false);
 
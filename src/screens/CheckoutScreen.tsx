@@ -11,7 +11,6 @@ import {
   Image,
   Animated,
   Platform,
-  Modal,
   KeyboardAvoidingView,
   Pressable,
   Dimensions,
@@ -21,27 +20,44 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { Swipeable } from 'react-native-gesture-handler';
+import { useQuery } from '@tanstack/react-query';
 import { useTheme } from '../context/ThemeContext';
-import { useCart, CartItem, PaymentMethodType } from '../context/CartContext';
+import { useCart, CartItem, PaymentMethodType, getCartItemUnitPrice, getCartItemDiscount } from '../context/CartContext';
 import { useCatalog } from '../context/CatalogContext';
 import { useAuth } from '../context/AuthContext';
 import { useTerminal } from '../context/StripeTerminalContext';
-import { stripeTerminalApi, ordersApi } from '../lib/api';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { useCustomerDisplay, CustomerDisplayCheckout, CustomerDisplaySelection } from '../context/CustomerDisplayContext';
+import { useRegisterMode } from '../context/RegisterModeContext';
+import { useAuthorize, Authorization } from '../hooks';
+import { stripeTerminalApi, ordersApi, customersApi, categoriesApi, taxRatesApi, discountsApi, CreateOrderParams, AppliedDiscount, Customer, Discount, ManagerOverride } from '../lib/api';
 import { getDeviceId } from '../lib/device';
 import { glass } from '../lib/colors';
 import { shadows } from '../lib/shadows';
 import { fonts } from '../lib/fonts';
+import { Modal } from '../components/Modal';
 import { PayoutsSetupBanner } from '../components/PayoutsSetupBanner';
 import { SetupRequiredBanner } from '../components/SetupRequiredBanner';
 import { StarBackground } from '../components/StarBackground';
+import { DiscountModal } from '../components/DiscountModal';
+import { CustomerLookupModal } from '../components/CustomerLookupModal';
 import logger from '../lib/logger';
 import { isValidEmailOrEmpty } from '../lib/validation';
 import { formatCents } from '../utils/currency';
+import { formatItemDetails } from '../utils/modifiers';
+import { formatDiscountLabel } from '../utils/discounts';
+import { calculateTax, resolveTaxRateId, getTaxRate, removeInclusiveTax, formatTaxLineLabel, TaxableLine, TaxCalculation } from '../utils/tax';
+import { calculateServiceCharge, formatServiceChargeLabel } from '../utils/service-charge';
+import { getCustomerDisplayName, calculatePointsEarned, getAvailableRewards, buildLoyaltyDiscount } from '../utils/customers';
 
 
 // Apple TTPOi 5.4: Use region-correct copy
 const TAP_TO_PAY_LABEL = Platform.OS === 'ios' ? 'Tap to Pay on iPhone' : 'Tap to Pay';
 
+// Wait for the cart to settle before re-checking a promo code with the API
+const PROMO_REVALIDATE_DELAY_MS = 800;
+
 interface TipOption {
   label: string;
   value: number;
@@ -53,6 +69,7 @@ type RouteParams = {
     total: number;
     isQuickCharge?: boolean;
     quickChargeDescription?: string;
+    giftCardCode?: string; // quick charge that sells a gift card: no tax or tip, loaded once paid
     resumedOrderId?: string;
     resumedOrder?: any;
   };
@@ -64,10 +81,14 @@ export function CheckoutScreen() {
   const navigation = useNavigation<any>();
   const route = useRoute<RouteProp<RouteParams, 'Checkout'>>();
   const glassColors = isDark ? glass.dark : glass.light;
-  const { items, itemCount, clearCart, incrementItem, decrementItem, removeItem, subtotal: cartSubtotal, orderNotes, setOrderNotes, customerEmail, setCustomerEmail, paymentMethod, setPaymentMethod, selectedTipIndex, setSelectedTipIndex, customTipAmount, setCustomTipAmount, showCustomTipInput, setShowCustomTipInput } = useCart();
+  const { items, itemCount, clearCart, incrementItem, decrementItem, removeItem, subtotal: cartSubtotal, discountAmount: cartDiscountAmount, orderDiscount, setOrderDiscount, setItemDiscount, discountOverride, setDiscountOverride, orderNotes, setOrderNotes, customerEmail, setCustomerEmail, customer, setCustomer, loyaltyPointsRedeemed, setLoyaltyPointsRedeemed, paymentMethod, setPaymentMethod, selectedTipIndex, setSelectedTipIndex, customTipAmount, setCustomTipAmount, showCustomTipInput, setShowCustomTipInput } = useCart();
   const { selectedCatalog } = useCatalog();
   const { isPaymentReady, connectLoading, connectStatus, currency } = useAuth();
   const { deviceCompatibility, isInitialized: isTerminalInitialized, isWarming } = useTerminal();
+  const { isOnline, queueHeldOrder } = useOfflineQueue();
+  const { authorize } = useAuthorize();
+  const { publishCheckout } = useCustomerDisplay();
+  const { activeCashier } = useRegisterMode();
 
   // Catalog data is automatically updated via socket events in CatalogContext
 
@@ -80,11 +101,55 @@ export function CheckoutScreen() {
   const [isHolding, setIsHolding] = useState(false);
   const holdNameInputRef = useRef<any>(null);
 
+  // Discount modal - null cartKey means the order-level discount
+  const [showDiscountModal, setShowDiscountModal] = useState(false);
+  const [discountCartKey, setDiscountCartKey] = useState<string | null>(null);
+  const discountOverrideRef = useRef<ManagerOverride | null>(null);
+
+  const [showCustomerLookup, setShowCustomerLookup] = useState(false);
+
+  const [taxExempt, setTaxExempt] = useState(false);
+  const [taxExemptOverride, setTaxExemptOverride] = useState<ManagerOverride | null>(null);
+
+  // A new cashier has to get their own approvals
+  const cashierId = activeCashier?.id ?? null;
+  const prevCashierId = useRef(cashierId);
+  useEffect(() => {
+    if (prevCashierId.current && prevCashierId.current !== cashierId) {
+      setTaxExempt(false);
+      setTaxExemptOverride(null);
+      discountOverrideRef.current = null;
+    }
+    prevCashierId.current = cashierId;
+  }, [cashierId]);
+
+  const { data: loyaltyProgram } = useQuery({
+    queryKey: ['loyalty-program'],
+    queryFn: () => customersApi.getLoyaltyProgram(),
+    staleTime: 5 * 60 * 1000,
+    enabled: isOnline,
+  });
+
+  // Categories and named rates decide which tax rate each line uses
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories', selectedCatalog?.id],
+    queryFn: () => categoriesApi.list(selectedCatalog!.id),
+    enabled: !!selectedCatalog,
+  });
+
+  const { data: taxRates = [] } = useQuery({
+    queryKey: ['tax-rates'],
+    queryFn: () => taxRatesApi.list(),
+    staleTime: 5 * 60 * 1000,
+    enabled: isOnline,
+  });
+
   // Refs to track current values for the beforeRemove handler (avoids stale closures)
   const currentValuesRef = useRef({
     tipAmount: 0,
     taxAmount: 0,
     subtotal: 0,
+    discountAmount: 0,
     grandTotal: 0,
     paymentMethod: 'tap_to_pay' as PaymentMethodType,
     customerEmail: '',
@@ -95,7 +160,7 @@ export function CheckoutScreen() {
   // Customer info section visibility (combines email + notes)
   const [showCustomerInfo, setShowCustomerInfo] = useState(false);
 
-  const { total: routeTotal, isQuickCharge, quickChargeDescription, resumedOrderId, resumedOrder } = route.params;
+  const { total: routeTotal, isQuickCharge, quickChargeDescription, giftCardCode, resumedOrderId, resumedOrder } = route.params;
   const styles = createStyles(colors, glassColors, isDark);
 
   // NOTE: Do NOT clear cart on unmount — only clear after explicit hold/delete/complete actions
@@ -121,6 +186,7 @@ export function CheckoutScreen() {
           cash: 'cash',
           card: 'tap_to_pay',
           split: 'split',
+          gift_card: 'gift_card',
         };
         setPaymentMethod(methodMap[resumedOrder.paymentMethod] || 'tap_to_pay');
       }
@@ -138,6 +204,17 @@ export function CheckoutScreen() {
       ? routeTotal
       : cartSubtotal;
 
+  // Discounts only apply to cart orders - quick charges are typed in already discounted,
+  // and resumed orders keep the discount they were held with
+  const discountAmount: number = resumedOrder
+    ? resumedOrder.discountAmount || 0
+    : isQuickCharge
+      ? 0
+      : cartDiscountAmount;
+
+  // Tax and tip are calculated on the discounted subtotal
+  const discountedSubtotal = subtotal - discountAmount;
+
   // Navigate back if cart becomes empty (not for quick charge or resumed orders)
   useEffect(() => {
     if (!isQuickCharge && !resumedOrder && items.length === 0) {
@@ -145,6 +222,13 @@ export function CheckoutScreen() {
     }
   }, [items.length, isQuickCharge, resumedOrder, navigation]);
 
+  // A gift card can't be bought with another gift card
+  useEffect(() => {
+    if (giftCardCode && paymentMethod === 'gift_card') {
+      setPaymentMethod('tap_to_pay');
+    }
+  }, [giftCardCode, paymentMethod, setPaymentMethod]);
+
   // Track whether we're allowing navigation (set to true after user confirms in dialog)
   const allowNavigationRef = useRef(false);
 
@@ -175,8 +259,10 @@ export function CheckoutScreen() {
             text: 'Delete Order',
             style: 'destructive',
             onPress: async () => {
+              const authorization = await authorize('void_held_order', 'A manager needs to approve deleting this order.');
+              if (!authorization) return;
               try {
-                await ordersApi.cancel(resumedOrderId);
+                await ordersApi.cancel(resumedOrderId, authorization.override?.token);
                 clearCart();
                 allowNavigationRef.current = true;
                 navigation.dispatch(e.data.action);
@@ -196,6 +282,7 @@ export function CheckoutScreen() {
                   tipAmount: vals.tipAmount,
                   taxAmount: vals.taxAmount,
                   subtotal: vals.subtotal,
+                  discountAmount: vals.discountAmount,
                   totalAmount: vals.grandTotal,
                   paymentMethod: vals.paymentMethod,
                   customerEmail: emailValid,
@@ -219,7 +306,7 @@ export function CheckoutScreen() {
     });
 
     return unsubscribe;
-  }, [resumedOrder, resumedOrderId, navigation]);
+  }, [resumedOrder, resumedOrderId, navigation, authorize]);
 
   // Show setup required banner when charges aren't enabled
   const showSetupBanner = !connectLoading && connectStatus && !connectStatus.chargesEnabled;
@@ -228,26 +315,57 @@ export function CheckoutScreen() {
   const showPayoutsBanner = !connectLoading && isPaymentReady && connectStatus && !connectStatus.payoutsEnabled;
 
   // Use catalog settings for tip, email, and tax
-  const showTipScreen = selectedCatalog?.showTipScreen ?? true;
+  const showTipScreen = (selectedCatalog?.showTipScreen ?? true) && !giftCardCode;
   const promptForEmail = selectedCatalog?.promptForEmail ?? true;
   const tipPercentages = selectedCatalog?.tipPercentages ?? [15, 18, 20, 25];
   const allowCustomTip = selectedCatalog?.allowCustomTip ?? true;
-  // Tax rate stored as whole number percentage (e.g., 5 for 5%)
-  // For resumed orders, calculate from stored values
-  const taxRate = useMemo(() => {
-    if (resumedOrder && resumedOrder.subtotal > 0) {
-      // Calculate tax rate from stored tax amount and subtotal
-      return Math.round((resumedOrder.taxAmount / resumedOrder.subtotal) * 100);
-    }
-    return selectedCatalog?.taxRate ?? 0;
-  }, [resumedOrder, selectedCatalog?.taxRate]);
+  // Tax-inclusive prices already contain their tax, so it isn't added to the total
+  const taxInclusive = resumedOrder ? !!resumedOrder.taxInclusive : !!selectedCatalog?.taxInclusive;
+  const isTaxExempt = resumedOrder ? !!resumedOrder.taxExempt : taxExempt;
+
+  // Tax per rate before any exemption (calculated per line on the discounted amounts)
+  const fullTax = useMemo<TaxCalculation>(() => {
+    // Gift card sales are stored value, taxed when the card is spent
+    if (resumedOrder || giftCardCode) return { taxAmount: 0, breakdown: [] };
+    const lines: TaxableLine[] = isQuickCharge
+      ? [{ amount: subtotal, taxRateId: null }]
+      : items.map(item => ({
+          amount: getCartItemUnitPrice(item) * item.quantity - getCartItemDiscount(item),
+          taxRateId: resolveTaxRateId(item.product, categories),
+        }));
+    const lineDiscounts = isQuickCharge ? 0 : items.reduce((sum, item) => sum + getCartItemDiscount(item), 0);
+    return calculateTax(lines, discountAmount - lineDiscounts, taxRates, {
+      defaultRate: selectedCatalog?.taxRate ?? 0,
+      inclusive: taxInclusive,
+      rounding: selectedCatalog?.taxRounding ?? 'line',
+    });
+  }, [resumedOrder, giftCardCode, isQuickCharge, subtotal, items, categories, discountAmount, taxRates, selectedCatalog?.taxRate, selectedCatalog?.taxRounding, taxInclusive]);
 
-  // Calculate tax amount (based on subtotal) - use resumed order's tax if available
-  const taxAmount = useMemo(() => {
-    if (resumedOrder) return resumedOrder.taxAmount;
-    if (taxRate <= 0) return 0;
-    return Math.round(subtotal * (taxRate / 100));
-  }, [subtotal, taxRate, resumedOrder]);
+  // Resumed orders keep the tax they were held with
+  const taxCalculation = useMemo<TaxCalculation>(() => {
+    if (resumedOrder) {
+      return { taxAmount: resumedOrder.taxAmount, breakdown: resumedOrder.taxBreakdown || [] };
+    }
+    return taxExempt ? { taxAmount: 0, breakdown: [] } : fullTax;
+  }, [resumedOrder, taxExempt, fullTax]);
+  const taxAmount = taxCalculation.taxAmount;
+
+  // An exempt sale on a tax-inclusive menu comes off the shelf prices, which include the tax
+  const exemptInclusiveTax = !resumedOrder && taxExempt && taxInclusive ? fullTax.taxAmount : 0;
+
+  // Mandatory service charge for large orders, kept apart from the voluntary tip
+  // Quick charges are typed in already complete, and resumed orders keep the charge they were held with
+  const serviceChargeAmount = useMemo(() => {
+    if (resumedOrder) return resumedOrder.serviceChargeAmount || 0;
+    if (isQuickCharge) return 0;
+    return calculateServiceCharge(selectedCatalog?.serviceCharge, { itemCount, subtotal: discountedSubtotal });
+  }, [resumedOrder, isQuickCharge, selectedCatalog?.serviceCharge, itemCount, discountedSubtotal]);
+
+  const serviceChargeName = resumedOrder?.serviceChargeName ?? selectedCatalog?.serviceCharge?.name;
+  const serviceChargeLabel = formatServiceChargeLabel(
+    serviceChargeName,
+    !resumedOrder && selectedCatalog?.serviceCharge?.type === 'percentage' ? selectedCatalog.serviceCharge.value : undefined
+  );
 
   // Build tip options
   const tipOptions: TipOption[] = useMemo(() => {
@@ -264,13 +382,14 @@ export function CheckoutScreen() {
     return options;
   }, [tipPercentages, allowCustomTip]);
 
-  // Calculate tip and grand total (subtotal + tax + tip) - use resumed order values if available
+  // Calculate tip and grand total (discounted subtotal + tax + tip) - use resumed order values if available
   const { tipAmount, grandTotal, tipPercentage } = useMemo(() => {
     // For resumed orders, use the stored values
     if (resumedOrder) {
       // Calculate tip percentage from stored values
-      const calcTipPct = resumedOrder.subtotal > 0
-        ? Math.round((resumedOrder.tipAmount / resumedOrder.subtotal) * 100)
+      const resumedTaxable = resumedOrder.subtotal - (resumedOrder.discountAmount || 0);
+      const calcTipPct = resumedTaxable > 0
+        ? Math.round((resumedOrder.tipAmount / resumedTaxable) * 100)
         : 0;
       return {
         tipAmount: resumedOrder.tipAmount,
@@ -279,9 +398,9 @@ export function CheckoutScreen() {
       };
     }
 
-    const subtotalWithTax = subtotal + taxAmount;
+    const totalBeforeTip = discountedSubtotal - exemptInclusiveTax + (taxInclusive ? 0 : taxAmount) + serviceChargeAmount;
     if (!showTipScreen || selectedTipIndex === null) {
-      return { tipAmount: 0, grandTotal: subtotalWithTax, tipPercentage: 0 };
+      return { tipAmount: 0, grandTotal: totalBeforeTip, tipPercentage: 0 };
     }
     const selectedOption = tipOptions[selectedTipIndex];
     if (selectedOption?.isCustom) {
@@ -289,14 +408,14 @@ export function CheckoutScreen() {
       // Custom tip is entered in dollars, convert to cents
       const tipCents = customTip * 100;
       // Calculate percentage for custom tip
-      const calcTipPct = subtotal > 0 ? Math.round((tipCents / subtotal) * 100) : 0;
-      return { tipAmount: tipCents, grandTotal: subtotalWithTax + tipCents, tipPercentage: calcTipPct };
+      const calcTipPct = discountedSubtotal > 0 ? Math.round((tipCents / discountedSubtotal) * 100) : 0;
+      return { tipAmount: tipCents, grandTotal: totalBeforeTip + tipCents, tipPercentage: calcTipPct };
     }
     const tipPct = selectedOption?.value || 0;
-    // Tip is calculated on subtotal (before tax)
-    const tip = Math.round(subtotal * tipPct);
-    return { tipAmount: tip, grandTotal: subtotalWithTax + tip, tipPercentage: Math.round(tipPct * 100) };
-  }, [subtotal, taxAmount, selectedTipIndex, showTipScreen, tipOptions, customTipAmount, resumedOrder]);
+    // Tip is calculated on the discounted subtotal (before tax)
+    const tip = Math.round(discountedSubtotal * tipPct);
+    return { tipAmount: tip, grandTotal: totalBeforeTip + tip, tipPercentage: Math.round(tipPct * 100) };
+  }, [discountedSubtotal, exemptInclusiveTax, taxAmount, taxInclusive, serviceChargeAmount, selectedTipIndex, showTipScreen, tipOptions, customTipAmount, resumedOrder]);
 
   // Keep refs in sync for the beforeRemove handler
   useEffect(() => {
@@ -304,13 +423,287 @@ export function CheckoutScreen() {
       tipAmount,
       taxAmount,
       subtotal,
+      discountAmount,
       grandTotal,
       paymentMethod,
       customerEmail,
       orderNotes,
       holdName,
     };
-  }, [tipAmount, taxAmount, subtotal, grandTotal, paymentMethod, customerEmail, orderNotes, holdName]);
+  }, [tipAmount, taxAmount, subtotal, discountAmount, grandTotal, paymentMethod, customerEmail, orderNotes, holdName]);
+
+  // Order-level discount as sent to the API, with the amount it actually took off
+  const appliedOrderDiscount = useMemo<AppliedDiscount | undefined>(() => {
+    if (!orderDiscount || isQuickCharge || resumedOrder) return undefined;
+    const lineDiscounts = items.reduce((sum, item) => sum + getCartItemDiscount(item), 0);
+    return { ...orderDiscount, amount: cartDiscountAmount - lineDiscounts };
+  }, [orderDiscount, isQuickCharge, resumedOrder, items, cartDiscountAmount]);
+
+  // Promo codes are validated when applied; check again if items are removed afterwards
+  const promoBaseAmount = subtotal - items.reduce((sum, item) => sum + getCartItemDiscount(item), 0);
+  useEffect(() => {
+    if (!orderDiscount?.promoCode || isQuickCharge || resumedOrder) return;
+    const promo = orderDiscount;
+    const removePromo = (reason: string) => {
+      setOrderDiscount(null);
+      Alert.alert('Promo Code Removed', `${promo.promoCode} no longer applies: ${reason}`);
+    };
+
+    if (promo.minSubtotal && promoBaseAmount < promo.minSubtotal) {
+      removePromo(`the order is below its ${formatCents(promo.minSubtotal, currency)} minimum.`);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      discountsApi.validatePromoCode(promo.promoCode!, { subtotal: promoBaseAmount, catalogId: selectedCatalog?.id })
+        .then(result => {
+          if (!cancelled && !result.valid) removePromo(result.reason || 'it isn\'t valid for this order.');
+        })
+        // Offline the minimum spend check above still applies
+        .catch(error => logger.warn('[Checkout] Promo code re-check failed:', error));
+    }, PROMO_REVALIDATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [orderDiscount, promoBaseAmount, isQuickCharge, resumedOrder, selectedCatalog?.id, setOrderDiscount, currency]);
+
+  // Give back rewards the order can no longer absorb when items are removed after redeeming
+  useEffect(() => {
+    if (loyaltyPointsRedeemed <= 0 || !loyaltyProgram || loyaltyProgram.rewardPoints <= 0) return;
+    const redeemedRewards = Math.floor(loyaltyPointsRedeemed / loyaltyProgram.rewardPoints);
+    const rewards = Math.min(redeemedRewards, Math.floor(promoBaseAmount / loyaltyProgram.rewardValue));
+    if (rewards <= 0) {
+      setOrderDiscount(null);
+      setLoyaltyPointsRedeemed(0);
+      Alert.alert('Reward Removed', 'The order is now less than one reward, so no points will be redeemed.');
+      return;
+    }
+    if (rewards !== redeemedRewards) {
+      setOrderDiscount(buildLoyaltyDiscount(loyaltyProgram, rewards, promoBaseAmount));
+      setLoyaltyPointsRedeemed(rewards * loyaltyProgram.rewardPoints);
+    }
+  }, [promoBaseAmount, loyaltyPointsRedeemed, loyaltyProgram, setOrderDiscount, setLoyaltyPointsRedeemed]);
+
+  const buildOrderItems = () => items.map((item) => {
+    const taxRateId = resolveTaxRateId(item.product, categories);
+    // Exempt tax-inclusive sales send prices with the tax taken out
+    const rate = exemptInclusiveTax > 0 ? getTaxRate(taxRateId, taxRates, selectedCatalog?.taxRate ?? 0) : 0;
+    return {
+      productId: item.product.productId,
+      categoryId: item.product.categoryId || undefined,
+      name: item.product.name,
+      quantity: item.quantity,
+      unitPrice: removeInclusiveTax(getCartItemUnitPrice(item), rate),
+      notes: item.notes, // Include per-item notes
+      modifiers: item.modifiers, // Include selected options
+      discount: item.discount ? { ...item.discount, amount: removeInclusiveTax(getCartItemDiscount(item), rate) } : undefined,
+      taxRateId,
+    };
+  });
+
+  // Subtotal and discount sent with a new order, so they add up with its line prices and total
+  const getOrderAmounts = (orderItems?: ReturnType<typeof buildOrderItems>) => {
+    if (exemptInclusiveTax <= 0) return { subtotal, discountAmount };
+    const exemptSubtotal = orderItems
+      ? orderItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)
+      : subtotal - exemptInclusiveTax;
+    return { subtotal: exemptSubtotal, discountAmount: exemptSubtotal - (discountedSubtotal - exemptInclusiveTax) };
+  };
+
+  // Stored with the order for receipts and reporting
+  const orderTaxParams = {
+    taxBreakdown: taxCalculation.breakdown,
+    taxInclusive: taxInclusive || undefined,
+    taxExempt: taxExempt || undefined,
+  };
+
+  const handleToggleTaxExempt = async () => {
+    if (taxExempt) {
+      setTaxExempt(false);
+      setTaxExemptOverride(null);
+      return;
+    }
+    const authorization = await authorize('discount', 'A manager needs to approve a tax-exempt sale.');
+    if (!authorization) return;
+    // Sent with the order so the server records who approved it
+    setTaxExemptOverride(authorization.override);
+    setTaxExempt(true);
+  };
+
+  /**
+   * Manager approval to send with a new order, from whichever approvals still apply to it.
+   * Discounts and the tax exemption are both approved under the discount permission, so
+   * one token covers the order. An expired approval is asked for again; resolves null
+   * if the manager prompt is dismissed.
+   */
+  const authorizeOrder = async (includeDiscounts: boolean): Promise<Authorization | null> => {
+    const approvals = [includeDiscounts ? discountOverride : null, taxExempt ? taxExemptOverride : null]
+      .filter((approval): approval is ManagerOverride => approval !== null);
+    if (approvals.length === 0) return { override: null };
+
+    const latest = approvals.reduce((a, b) => (new Date(b.expiresAt) > new Date(a.expiresAt) ? b : a));
+    if (new Date(latest.expiresAt).getTime() > Date.now()) return { override: latest };
+    return authorize('discount', 'The manager approval for this order has expired. A manager needs to approve it again.');
+  };
+
+  // One row per tax rate, plus the exemption toggle while building a new order
+  const taxRows = useMemo(() => (
+    taxCalculation.breakdown.length > 0
+      ? taxCalculation.breakdown.map(line => ({
+          key: line.taxRateId ?? 'default',
+          label: formatTaxLineLabel(line, taxInclusive),
+          amount: line.amount,
+        }))
+      : taxAmount > 0
+        ? [{ key: 'tax', label: taxInclusive ? 'Incl. Tax' : 'Tax', amount: taxAmount }]
+        : []
+  ), [taxCalculation, taxInclusive, taxAmount]);
+  const canToggleTaxExempt = !resumedOrder && !giftCardCode && (taxExempt || fullTax.taxAmount > 0);
+
+  // Totals and tip options mirrored on a paired customer display
+  const customerDisplayCheckout = useMemo<CustomerDisplayCheckout>(() => ({
+    tipOptions: showTipScreen && !resumedOrder
+      ? tipOptions.map(option => ({
+          label: option.label,
+          amount: option.value > 0 ? Math.round(discountedSubtotal * option.value) : null,
+          isCustom: option.isCustom,
+        }))
+      : [],
+    selectedTipIndex,
+    tipAmount,
+    subtotal,
+    discountAmount,
+    serviceCharge: serviceChargeAmount > 0 ? { label: serviceChargeLabel, amount: serviceChargeAmount } : null,
+    taxLines: exemptInclusiveTax > 0
+      ? [{ label: 'Tax Exempt', amount: -exemptInclusiveTax }]
+      : taxRows.map(row => ({ label: row.label, amount: row.amount })),
+    total: grandTotal,
+    promptForEmail,
+    customerEmail: customerEmail.trim(),
+  }), [showTipScreen, resumedOrder, tipOptions, discountedSubtotal, selectedTipIndex, tipAmount, subtotal, discountAmount, serviceChargeAmount, serviceChargeLabel, taxRows, exemptInclusiveTax, grandTotal, promptForEmail, customerEmail]);
+
+  useEffect(() => {
+    publishCheckout(customerDisplayCheckout);
+  }, [publishCheckout, customerDisplayCheckout]);
+
+  // Back to the plain cart view once checkout closes
+  useEffect(() => () => publishCheckout(null), [publishCheckout]);
+
+  const renderTaxRows = () => (
+    <>
+      {taxRows.map(row => (
+        <View key={row.key} style={styles.totalsRow}>
+          <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>{row.label}</Text>
+          <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(row.amount, currency)}</Text>
+        </View>
+      ))}
+      {isTaxExempt && (
+        <View style={styles.totalsRow}>
+          <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>{exemptInclusiveTax > 0 ? 'Tax Exempt' : 'Tax'}</Text>
+          <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>
+            {exemptInclusiveTax > 0 ? `-${formatCents(exemptInclusiveTax, currency)}` : 'Exempt'}
+          </Text>
+        </View>
+      )}
+      {canToggleTaxExempt && (
+        <TouchableOpacity
+          style={styles.discountButton}
+          onPress={handleToggleTaxExempt}
+          accessibilityRole="button"
+          accessibilityLabel={taxExempt ? 'Charge tax on this order' : 'Mark order tax exempt'}
+        >
+          <Ionicons name={taxExempt ? 'close-circle-outline' : 'receipt-outline'} size={16} color={colors.primary} />
+          <Text style={styles.discountButtonText} maxFontSizeMultiplier={1.5}>
+            {taxExempt ? 'Charge Tax' : 'Tax Exempt'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
+  const discountItem = discountCartKey ? items.find(i => i.cartKey === discountCartKey) : undefined;
+
+  const openDiscountModal = async (cartKey: string | null) => {
+    // Cashiers need a manager PIN before they can discount
+    const authorization = await authorize('discount', 'A manager needs to approve this discount.');
+    if (!authorization) return;
+    discountOverrideRef.current = authorization.override;
+    setDiscountCartKey(cartKey);
+    setShowDiscountModal(true);
+  };
+
+  const handleApplyDiscount = (discount: Discount | null) => {
+    const override = discountOverrideRef.current;
+    const approved = discount && override ? { ...discount, approvedBy: override.approver } : discount;
+    if (override) {
+      // Sent with the order so the server records who approved it
+      setDiscountOverride(override);
+    }
+    if (discountCartKey) {
+      setItemDiscount(discountCartKey, approved);
+    } else {
+      // A manual order discount replaces any loyalty reward
+      setOrderDiscount(approved);
+      setLoyaltyPointsRedeemed(0);
+    }
+    setShowDiscountModal(false);
+    setDiscountCartKey(null);
+  };
+
+  const handleSelectCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    if (!customerEmail.trim() && selected.email) {
+      setCustomerEmail(selected.email);
+    }
+    setShowCustomerLookup(false);
+  };
+
+  const handleRemoveCustomer = () => {
+    if (loyaltyPointsRedeemed > 0) {
+      setOrderDiscount(null);
+      setLoyaltyPointsRedeemed(0);
+    }
+    setCustomer(null);
+  };
+
+  // Redeem only as many rewards as the order can use
+  const handleRedeemPoints = () => {
+    if (!customer || !loyaltyProgram) return;
+    const lineDiscounts = items.reduce((sum, item) => sum + getCartItemDiscount(item), 0);
+    const maxAmount = subtotal - lineDiscounts;
+    // Only whole rewards the order can absorb, so no points are spent on value the customer doesn't get
+    const rewards = Math.min(
+      getAvailableRewards(loyaltyProgram, customer.pointsBalance),
+      Math.floor(maxAmount / loyaltyProgram.rewardValue)
+    );
+    if (rewards <= 0) {
+      Alert.alert('Order Too Small', `Rewards are worth ${formatCents(loyaltyProgram.rewardValue, currency)} each, which is more than this order.`);
+      return;
+    }
+    const redeem = () => {
+      // The approval went with the replaced discount unless a line discount still needs it
+      if (orderDiscount && !items.some(item => !!item.discount?.approvedBy)) {
+        setDiscountOverride(null);
+      }
+      setOrderDiscount(buildLoyaltyDiscount(loyaltyProgram, rewards, maxAmount));
+      setLoyaltyPointsRedeemed(rewards * loyaltyProgram.rewardPoints);
+    };
+    // Points are redeemed as the order discount, so they can't stack with another one
+    if (orderDiscount) {
+      Alert.alert(
+        'Replace Discount?',
+        `Redeeming points replaces the ${orderDiscount.promoCode || orderDiscount.label || 'current'} discount on this order.`,
+        [
+          { text: 'Keep Discount', style: 'cancel' },
+          { text: 'Redeem Points', onPress: redeem },
+        ]
+      );
+      return;
+    }
+    redeem();
+  };
 
   const handleTipSelect = (index: number) => {
     setSelectedTipIndex(index);
@@ -323,6 +716,22 @@ export function CheckoutScreen() {
     }
   };
 
+  // Tip or receipt email the customer picked on a paired display
+  const handleCustomerDisplaySelection = useCallback((selection: CustomerDisplaySelection) => {
+    if (selection.tipIndex !== undefined && showTipScreen && !resumedOrder) {
+      const selectedOption = tipOptions[selection.tipIndex];
+      if (selectedOption) {
+        setSelectedTipIndex(selection.tipIndex);
+        setShowCustomTipInput(!!selectedOption.isCustom);
+        setCustomTipAmount(selectedOption.isCustom ? selection.customTipAmount || '' : '');
+      }
+    }
+    if (selection.customerEmail && isValidEmailOrEmpty(selection.customerEmail)) {
+      setCustomerEmail(selection.customerEmail);
+    }
+  }, [showTipScreen, resumedOrder, tipOptions, setSelectedTipIndex, setShowCustomTipInput, setCustomTipAmount, setCustomerEmail]);
+  useSocketEvent(SocketEvents.CUSTOMER_DISPLAY_SELECTION, handleCustomerDisplaySelection);
+
   // Handle hold order
   const handleHoldOrder = async () => {
     if (isQuickCharge) return; // Can't hold quick charges
@@ -333,7 +742,12 @@ export function CheckoutScreen() {
       return;
     }
 
-    logger.log('Hold order: Starting hold process', { isResumedOrder: !!resumedOrderId });
+    if (!isOnline && resumedOrderId) {
+      Alert.alert('No Internet Connection', 'A resumed order can only be held again while online.');
+      return;
+    }
+
+    logger.log('Hold order: Starting hold process', { isResumedOrder: !!resumedOrderId, isOnline });
     setIsHolding(true);
     try {
       let orderId: string;
@@ -345,6 +759,7 @@ export function CheckoutScreen() {
           tipAmount: tipAmount,
           taxAmount: taxAmount,
           subtotal: subtotal,
+          discountAmount: discountAmount,
           totalAmount: grandTotal,
           paymentMethod: paymentMethod,
           customerEmail: customerEmail.trim() || undefined,
@@ -366,35 +781,57 @@ export function CheckoutScreen() {
         }
       } else {
         // New order: create then hold
+        const authorization = await authorizeOrder(true);
+        if (!authorization) return;
+        const managerOverrideToken = authorization.override?.token;
+
         const deviceId = await getDeviceId();
         logger.log('Hold order: Got device ID:', deviceId);
 
-        const orderItems = items.map((item) => ({
-          productId: item.product.productId,
-          categoryId: item.product.categoryId || undefined,
-          name: item.product.name,
-          quantity: item.quantity,
-          unitPrice: item.product.price,
-          notes: item.notes,
-        }));
+        const orderItems = buildOrderItems();
 
-        const createOrderParams = {
+        const createOrderParams: CreateOrderParams = {
           catalogId: selectedCatalog?.id,
           items: orderItems,
-          subtotal: subtotal,
+          ...getOrderAmounts(orderItems),
+          discount: appliedOrderDiscount,
+          promoCodeId: appliedOrderDiscount?.promoCodeId,
           taxAmount: taxAmount,
+          ...orderTaxParams,
+          serviceChargeAmount: serviceChargeAmount || undefined,
+          serviceChargeName: serviceChargeAmount ? serviceChargeName || undefined : undefined,
           tipAmount: tipAmount,
           totalAmount: grandTotal,
           paymentMethod: paymentMethod,
           customerEmail: customerEmail.trim() || undefined,
+          customerId: customer?.id,
+          loyaltyPointsRedeemed: loyaltyPointsRedeemed || undefined,
           deviceId,
+          userId: activeCashier?.id,
           notes: orderNotes || undefined,
           holdName: holdName.trim() || undefined,
         };
 
+        if (!isOnline) {
+          // Queue the held order; it's created and held on the server once we reconnect
+          const queued = await queueHeldOrder(createOrderParams, holdName.trim() || undefined, managerOverrideToken);
+          logger.log('Hold order: Queued offline', { clientOrderId: queued.clientOrderId });
+
+          setShowHoldModal(false);
+          clearCart();
+          allowNavigationRef.current = true;
+          navigation.goBack();
+
+          Alert.alert(
+            'Order Held Offline',
+            `Order "${holdName.trim() || 'Untitled'}" has been saved on this device and will appear in the History tab once it syncs.`
+          );
+          return;
+        }
+
         logger.log('Hold order: Creating order with params:', JSON.stringify(createOrderParams, null, 2));
 
-        const order = await ordersApi.create(createOrderParams);
+        const order = await ordersApi.create(createOrderParams, managerOverrideToken);
         logger.log('Hold order: Order created', { orderId: order.id, orderNumber: order.orderNumber, status: order.status });
 
         const heldOrder = await ordersApi.hold(order.id, holdName.trim() || undefined);
@@ -477,6 +914,17 @@ export function CheckoutScreen() {
       return;
     }
 
+    // Only new cash sales can be taken without a connection - they're queued and synced later
+    if (!isOnline && (paymentMethod !== 'cash' || resumedOrder)) {
+      Alert.alert(
+        'No Internet Connection',
+        resumedOrder
+          ? 'Held orders can only be paid while online.'
+          : 'Card, gift card and split payments need an internet connection. Cash sales can still be taken offline.'
+      );
+      return;
+    }
+
     // Check if payment setup is complete
     if (connectStatus && !connectStatus.chargesEnabled) {
       Alert.alert(
@@ -521,34 +969,52 @@ export function CheckoutScreen() {
         order = resumedOrder;
       } else {
         // Create new order
-        const orderItems = isQuickCharge
-          ? undefined
-          : items.map((item) => ({
-              productId: item.product.productId,
-              categoryId: item.product.categoryId || undefined,
-              name: item.product.name,
-              quantity: item.quantity,
-              unitPrice: item.product.price,
-              notes: item.notes, // Include per-item notes
-            }));
+        const authorization = await authorizeOrder(!isQuickCharge);
+        if (!authorization) return;
+        const managerOverrideToken = authorization.override?.token;
+
+        const orderItems = isQuickCharge ? undefined : buildOrderItems();
 
         // Get device ID for order tracking
         const deviceId = await getDeviceId();
 
-        order = await ordersApi.create({
+        const orderParams: CreateOrderParams = {
           catalogId: selectedCatalog?.id,
           items: orderItems,
-          subtotal: subtotal,
+          ...getOrderAmounts(orderItems),
+          discount: appliedOrderDiscount,
+          promoCodeId: appliedOrderDiscount?.promoCodeId,
           taxAmount: taxAmount,
+          ...orderTaxParams,
+          serviceChargeAmount: serviceChargeAmount || undefined,
+          serviceChargeName: serviceChargeAmount ? serviceChargeName || undefined : undefined,
           tipAmount: tipAmount,
           totalAmount: grandTotal,
           paymentMethod: paymentMethod,
           customerEmail: receiptEmail,
+          customerId: customer?.id,
+          loyaltyPointsRedeemed: isQuickCharge ? undefined : loyaltyPointsRedeemed || undefined,
           isQuickCharge: isQuickCharge || false,
           description: isQuickCharge ? quickChargeDescription : undefined,
           deviceId,
+          userId: activeCashier?.id,
           notes: orderNotes || undefined, // Include order-level notes
-        });
+          giftCardSaleCode: giftCardCode,
+        };
+
+        // Offline cash sale - the order is created when the outbox syncs
+        if (!isOnline && paymentMethod === 'cash') {
+          navigation.navigate('CashPayment', {
+            totalAmount: grandTotal,
+            customerEmail: receiptEmail,
+            offlineOrder: orderParams,
+            offlineOverrideToken: managerOverrideToken,
+          });
+          setIsProcessing(false);
+          return;
+        }
+
+        order = await ordersApi.create(orderParams, managerOverrideToken);
       }
 
       // Handle cash payment - navigate to cash screen
@@ -563,13 +1029,16 @@ export function CheckoutScreen() {
         return;
       }
 
-      // Handle split payment - navigate to split screen
-      if (paymentMethod === 'split') {
+      // Handle split and gift card payments - navigate to split screen,
+      // where a partial gift card balance can be combined with other methods
+      if (paymentMethod === 'split' || paymentMethod === 'gift_card') {
         navigation.navigate('SplitPayment', {
           orderId: order.id,
           orderNumber: order.orderNumber,
           totalAmount: grandTotal,
           customerEmail: receiptEmail,
+          initialMethod: paymentMethod === 'gift_card' ? 'gift_card' : undefined,
+          isGiftCardSale: !!giftCardCode || undefined,
         });
         setIsProcessing(false);
         return;
@@ -601,7 +1070,10 @@ export function CheckoutScreen() {
           catalogId: selectedCatalog?.id || '',
           isQuickCharge: isQuickCharge ? 'true' : 'false',
           subtotal: subtotal.toString(),
+          discountAmount: discountAmount.toString(),
+          promoCode: (resumedOrder ? resumedOrder.discount?.promoCode : appliedOrderDiscount?.promoCode) || '',
           taxAmount: taxAmount.toString(),
+          serviceChargeAmount: serviceChargeAmount.toString(),
           tipAmount: tipAmount.toString(),
         },
         receiptEmail,
@@ -711,7 +1183,7 @@ export function CheckoutScreen() {
             <View style={styles.tipOptions}>
               {tipOptions.map((option, index) => {
                 const isSelected = selectedTipIndex === index;
-                const calculatedTip = option.value > 0 ? Math.round(subtotal * option.value) : 0;
+                const calculatedTip = option.value > 0 ? Math.round(discountedSubtotal * option.value) : 0;
                 return (
                   <View key={index} style={styles.tipButton}>
                     <TouchableOpacity
@@ -784,9 +1256,9 @@ export function CheckoutScreen() {
               <View style={styles.customerInfoHeaderLeft}>
                 <Ionicons name="person-outline" size={18} color={colors.textSecondary} />
                 <Text style={styles.customerInfoTitle} maxFontSizeMultiplier={1.5}>
-                  {customerEmail || orderNotes ? 'Customer Info' : 'Add Customer Info'}
+                  {customer ? getCustomerDisplayName(customer) : customerEmail || orderNotes ? 'Customer Info' : 'Add Customer Info'}
                 </Text>
-                {(customerEmail || orderNotes) && !showCustomerInfo && (
+                {(customer || customerEmail || orderNotes) && !showCustomerInfo && (
                   <View style={styles.customerInfoBadge}>
                     <Ionicons name="checkmark-circle" size={14} color={colors.primary} />
                   </View>
@@ -800,6 +1272,62 @@ export function CheckoutScreen() {
             </TouchableOpacity>
             {showCustomerInfo && (
               <View style={styles.customerInfoContent}>
+                {/* Attached customer, for order history and loyalty points */}
+                {!resumedOrder && (customer ? (
+                  <View style={styles.customerCard}>
+                    <View style={styles.customerCardRow}>
+                      <View style={styles.customerCardInfo}>
+                        <Text style={styles.customerCardName} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                          {getCustomerDisplayName(customer)}
+                        </Text>
+                        {loyaltyProgram?.enabled && (
+                          <Text style={styles.customerCardDetail} maxFontSizeMultiplier={1.5}>
+                            {customer.pointsBalance} points
+                            {calculatePointsEarned(loyaltyProgram, grandTotal - tipAmount) > 0
+                              ? ` · earns ${calculatePointsEarned(loyaltyProgram, grandTotal - tipAmount)} on this order`
+                              : ''}
+                          </Text>
+                        )}
+                      </View>
+                      <TouchableOpacity
+                        onPress={handleRemoveCustomer}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Remove customer ${getCustomerDisplayName(customer)}`}
+                      >
+                        <Ionicons name="close-circle" size={20} color={colors.textMuted} />
+                      </TouchableOpacity>
+                    </View>
+                    {!isQuickCharge && loyaltyPointsRedeemed === 0 && getAvailableRewards(loyaltyProgram, customer.pointsBalance) > 0 && (
+                      <TouchableOpacity
+                        style={styles.redeemButton}
+                        onPress={handleRedeemPoints}
+                        accessibilityRole="button"
+                        accessibilityLabel="Redeem loyalty points"
+                      >
+                        <Ionicons name="gift-outline" size={16} color={colors.primary} />
+                        <Text style={styles.redeemButtonText} maxFontSizeMultiplier={1.5}>
+                          Redeem points ({formatCents(getAvailableRewards(loyaltyProgram, customer.pointsBalance) * (loyaltyProgram?.rewardValue || 0), currency)} available)
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {loyaltyPointsRedeemed > 0 && (
+                      <Text style={styles.customerCardDetail} maxFontSizeMultiplier={1.5}>
+                        Redeeming {loyaltyPointsRedeemed} points
+                      </Text>
+                    )}
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.findCustomerButton}
+                    onPress={() => setShowCustomerLookup(true)}
+                    accessibilityRole="button"
+                    accessibilityLabel="Find or add customer"
+                  >
+                    <Ionicons name="search" size={16} color={colors.primary} />
+                    <Text style={styles.redeemButtonText} maxFontSizeMultiplier={1.5}>Find or add customer</Text>
+                  </TouchableOpacity>
+                ))}
                 {promptForEmail && (
                   <View style={styles.customerInfoField}>
                     <TextInput
@@ -910,6 +1438,33 @@ export function CheckoutScreen() {
                   Split
                 </Text>
               </TouchableOpacity>
+              {!giftCardCode && (
+                <TouchableOpacity
+                  style={[
+                    styles.paymentMethodButton,
+                    paymentMethod === 'gift_card' && styles.paymentMethodButtonSelected,
+                  ]}
+                  onPress={() => setPaymentMethod('gift_card')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Gift card payment"
+                  accessibilityState={{ selected: paymentMethod === 'gift_card' }}
+                >
+                  <Ionicons
+                    name="gift-outline"
+                    size={20}
+                    color={paymentMethod === 'gift_card' ? '#fff' : colors.text}
+                  />
+                  <Text
+                    style={[
+                      styles.paymentMethodButtonText,
+                      paymentMethod === 'gift_card' && styles.paymentMethodButtonTextSelected,
+                    ]}
+                    maxFontSizeMultiplier={1.3}
+                  >
+                    Gift Card
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
 
@@ -922,12 +1477,7 @@ export function CheckoutScreen() {
                   <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Quick Charge</Text>
                   <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(subtotal, currency)}</Text>
                 </View>
-                {taxAmount > 0 && (
-                  <View style={styles.totalsRow}>
-                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tax ({taxRate}%)</Text>
-                    <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(taxAmount, currency)}</Text>
-                  </View>
-                )}
+                {renderTaxRows()}
                 {tipAmount > 0 && (
                   <View style={styles.totalsRow}>
                     <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tip ({tipPercentage}%)</Text>
@@ -956,17 +1506,22 @@ export function CheckoutScreen() {
                   </View>
                   <View style={styles.itemInfo}>
                     <Text style={styles.itemName} maxFontSizeMultiplier={1.5} numberOfLines={1}>{item.name}</Text>
-                    {item.notes ? (
-                      <Text style={styles.itemNotes} maxFontSizeMultiplier={1.5} numberOfLines={1}>{item.notes}</Text>
+                    {item.notes || item.modifiers?.length ? (
+                      <Text style={styles.itemNotes} maxFontSizeMultiplier={1.5} numberOfLines={1}>{formatItemDetails(item.modifiers, item.notes)}</Text>
                     ) : (
                       <Text style={styles.itemUnitPrice} maxFontSizeMultiplier={1.5}>{formatCents(item.unitPrice, currency)} each</Text>
                     )}
+                    {item.discount?.amount > 0 && (
+                      <Text style={styles.itemDiscount} maxFontSizeMultiplier={1.5} numberOfLines={1}>
+                        {formatDiscountLabel(item.discount, currency)} · -{formatCents(item.discount.amount, currency)}
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.quantityControls}>
                     <Text style={styles.quantityText} maxFontSizeMultiplier={1.5}>x{item.quantity}</Text>
                   </View>
                   <Text style={styles.itemPrice} maxFontSizeMultiplier={1.5} numberOfLines={1} adjustsFontSizeToFit>
-                    {formatCents(item.unitPrice * item.quantity, currency)}
+                    {formatCents(item.unitPrice * item.quantity - (item.discount?.amount || 0), currency)}
                   </Text>
                 </View>
               ))}
@@ -976,12 +1531,21 @@ export function CheckoutScreen() {
                   <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Subtotal</Text>
                   <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(subtotal, currency)}</Text>
                 </View>
-                {taxAmount > 0 && (
+                {discountAmount > 0 && (
                   <View style={styles.totalsRow}>
-                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tax ({taxRate}%)</Text>
-                    <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(taxAmount, currency)}</Text>
+                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>
+                      Discount{resumedOrder.discount ? ` · ${formatDiscountLabel(resumedOrder.discount, currency)}` : ''}
+                    </Text>
+                    <Text style={styles.discountValue} maxFontSizeMultiplier={1.5}>-{formatCents(discountAmount, currency)}</Text>
                   </View>
                 )}
+                {serviceChargeAmount > 0 && (
+                  <View style={styles.totalsRow}>
+                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>{serviceChargeLabel}</Text>
+                    <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(serviceChargeAmount, currency)}</Text>
+                  </View>
+                )}
+                {renderTaxRows()}
                 {tipAmount > 0 && (
                   <View style={styles.totalsRow}>
                     <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tip ({tipPercentage}%)</Text>
@@ -1013,19 +1577,34 @@ export function CheckoutScreen() {
                     extrapolate: 'clamp',
                   });
                   return (
-                    <TouchableOpacity
-                      style={styles.deleteAction}
-                      onPress={() => removeItem(item.cartKey)}
-                      activeOpacity={0.8}
-                      accessibilityRole="button"
-                      accessibilityLabel={`Remove ${item.product.name} from cart`}
-                    >
-                      <Animated.View
-                        style={[styles.deleteActionContent, { transform: [{ scale }], opacity }]}
+                    <View style={styles.swipeActions}>
+                      <TouchableOpacity
+                        style={styles.discountAction}
+                        onPress={() => openDiscountModal(item.cartKey)}
+                        activeOpacity={0.8}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Discount ${item.product.name}`}
                       >
-                        <Ionicons name="trash" size={20} color="#fff" />
-                      </Animated.View>
-                    </TouchableOpacity>
+                        <Animated.View
+                          style={[styles.deleteActionContent, { transform: [{ scale }], opacity }]}
+                        >
+                          <Ionicons name="pricetag" size={20} color="#fff" />
+                        </Animated.View>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.deleteAction}
+                        onPress={() => removeItem(item.cartKey)}
+                        activeOpacity={0.8}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Remove ${item.product.name} from cart`}
+                      >
+                        <Animated.View
+                          style={[styles.deleteActionContent, { transform: [{ scale }], opacity }]}
+                        >
+                          <Ionicons name="trash" size={20} color="#fff" />
+                        </Animated.View>
+                      </TouchableOpacity>
+                    </View>
                   );
                 };
 
@@ -1048,10 +1627,20 @@ export function CheckoutScreen() {
                       </View>
                       <View style={styles.itemInfo}>
                         <Text style={styles.itemName} maxFontSizeMultiplier={1.5} numberOfLines={1}>{item.product.name}</Text>
-                        {item.notes ? (
-                          <Text style={styles.itemNotes} maxFontSizeMultiplier={1.5} numberOfLines={1}>{item.notes}</Text>
+                        {item.notes || item.modifiers ? (
+                          <Text style={styles.itemNotes} maxFontSizeMultiplier={1.5} numberOfLines={1}>{formatItemDetails(item.modifiers, item.notes)}</Text>
                         ) : (
-                          <Text style={styles.itemUnitPrice} maxFontSizeMultiplier={1.5}>{formatCents(item.product.price, currency)} each</Text>
+                          <Text style={styles.itemUnitPrice} maxFontSizeMultiplier={1.5}>{formatCents(getCartItemUnitPrice(item), currency)} each</Text>
+                        )}
+                        {item.discount && (
+                          <Text style={styles.itemDiscount} maxFontSizeMultiplier={1.5} numberOfLines={1}>
+                            {formatDiscountLabel(item.discount, currency)} · -{formatCents(getCartItemDiscount(item), currency)}
+                          </Text>
+                        )}
+                        {item.priceRule && (
+                          <Text style={styles.itemPriceRule} maxFontSizeMultiplier={1.5} numberOfLines={1}>
+                            {item.priceRule.label} price
+                          </Text>
                         )}
                       </View>
                       <View style={styles.quantityControls}>
@@ -1070,7 +1659,11 @@ export function CheckoutScreen() {
                         <Text style={styles.quantityText} maxFontSizeMultiplier={1.5} accessibilityRole="text" accessibilityLabel={`Quantity ${item.quantity}`}>{item.quantity}</Text>
                         <TouchableOpacity
                           style={styles.quantityButton}
-                          onPress={() => incrementItem(item.cartKey)}
+                          onPress={() => {
+                            if (!incrementItem(item.cartKey)) {
+                              Alert.alert('Not Enough Stock', `Only ${item.product.stockQuantity} ${item.product.name} left, and they're all in the cart.`);
+                            }
+                          }}
                           accessibilityRole="button"
                           accessibilityLabel={`Increase ${item.product.name} quantity`}
                         >
@@ -1078,7 +1671,7 @@ export function CheckoutScreen() {
                         </TouchableOpacity>
                       </View>
                       <Text style={styles.itemPrice} maxFontSizeMultiplier={1.5} numberOfLines={1} adjustsFontSizeToFit>
-                        {formatCents(item.product.price * item.quantity, currency)}
+                        {formatCents(getCartItemUnitPrice(item) * item.quantity - getCartItemDiscount(item), currency)}
                       </Text>
                     </View>
                   </Swipeable>
@@ -1090,12 +1683,30 @@ export function CheckoutScreen() {
                   <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Subtotal ({itemCount} items)</Text>
                   <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(subtotal, currency)}</Text>
                 </View>
-                {taxAmount > 0 && (
+                {discountAmount > 0 && (
                   <View style={styles.totalsRow}>
-                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tax ({taxRate}%)</Text>
-                    <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(taxAmount, currency)}</Text>
+                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Discount</Text>
+                    <Text style={styles.discountValue} maxFontSizeMultiplier={1.5}>-{formatCents(discountAmount, currency)}</Text>
                   </View>
                 )}
+                <TouchableOpacity
+                  style={styles.discountButton}
+                  onPress={() => openDiscountModal(null)}
+                  accessibilityRole="button"
+                  accessibilityLabel={orderDiscount ? `Edit order discount, ${formatDiscountLabel(orderDiscount, currency)}` : 'Add order discount'}
+                >
+                  <Ionicons name="pricetag-outline" size={16} color={colors.primary} />
+                  <Text style={styles.discountButtonText} maxFontSizeMultiplier={1.5}>
+                    {orderDiscount ? formatDiscountLabel(orderDiscount, currency) : 'Add Discount'}
+                  </Text>
+                </TouchableOpacity>
+                {serviceChargeAmount > 0 && (
+                  <View style={styles.totalsRow}>
+                    <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>{serviceChargeLabel}</Text>
+                    <Text style={styles.totalsValue} maxFontSizeMultiplier={1.5}>{formatCents(serviceChargeAmount, currency)}</Text>
+                  </View>
+                )}
+                {renderTaxRows()}
                 {tipAmount > 0 && (
                   <View style={styles.totalsRow}>
                     <Text style={styles.totalsLabel} maxFontSizeMultiplier={1.5}>Tip ({tipPercentage}%)</Text>
@@ -1121,12 +1732,12 @@ export function CheckoutScreen() {
           style={[
             styles.payButton,
             paymentMethod === 'cash' && styles.payButtonCash,
-            paymentMethod === 'split' && styles.payButtonSplit,
+            (paymentMethod === 'split' || paymentMethod === 'gift_card') && styles.payButtonSplit,
             paymentMethod === 'tap_to_pay' && { backgroundColor: isDark ? '#fff' : '#09090b' },
             isProcessing && styles.payButtonDisabled,
           ]}
           accessibilityRole="button"
-          accessibilityLabel={isProcessing ? 'Processing payment' : paymentMethod === 'tap_to_pay' ? `${TAP_TO_PAY_LABEL}, ${formatCents(grandTotal, currency)}` : paymentMethod === 'cash' ? `Pay with cash, ${formatCents(grandTotal, currency)}` : `Split payment, ${formatCents(grandTotal, currency)}`}
+          accessibilityLabel={isProcessing ? 'Processing payment' : paymentMethod === 'tap_to_pay' ? `${TAP_TO_PAY_LABEL}, ${formatCents(grandTotal, currency)}` : paymentMethod === 'cash' ? `Pay with cash, ${formatCents(grandTotal, currency)}` : paymentMethod === 'gift_card' ? `Pay with gift card, ${formatCents(grandTotal, currency)}` : `Split payment, ${formatCents(grandTotal, currency)}`}
           accessibilityState={{ disabled: isProcessing }}
         >
           {isProcessing ? (
@@ -1147,6 +1758,11 @@ export function CheckoutScreen() {
                   <Ionicons name="cash-outline" size={22} color="#fff" />
                   <Text style={styles.payButtonText} maxFontSizeMultiplier={1.3}>Pay with Cash</Text>
                 </>
+              ) : paymentMethod === 'gift_card' ? (
+                <>
+                  <Ionicons name="gift-outline" size={22} color="#fff" />
+                  <Text style={styles.payButtonText} maxFontSizeMultiplier={1.3}>Pay with Gift Card</Text>
+                </>
               ) : (
                 <>
                   <Ionicons name="git-branch-outline" size={22} color="#fff" />
@@ -1158,6 +1774,31 @@ export function CheckoutScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Order / line item discount */}
+      <DiscountModal
+        visible={showDiscountModal}
+        title={discountItem ? `Discount ${discountItem.product.name}` : 'Order Discount'}
+        baseAmount={discountItem
+          ? getCartItemUnitPrice(discountItem) * discountItem.quantity
+          : subtotal - items.reduce((sum, item) => sum + getCartItemDiscount(item), 0)}
+        currentDiscount={discountItem ? discountItem.discount : orderDiscount}
+        allowPromoCode={!discountItem}
+        catalogId={selectedCatalog?.id}
+        onApply={handleApplyDiscount}
+        onRemove={() => handleApplyDiscount(null)}
+        onCancel={() => {
+          setShowDiscountModal(false);
+          setDiscountCartKey(null);
+        }}
+      />
+
+      <CustomerLookupModal
+        visible={showCustomerLookup}
+        initialQuery={customerEmail.trim() || undefined}
+        onSelect={handleSelectCustomer}
+        onCancel={() => setShowCustomerLookup(false)}
+      />
+
       {/* Hold Order Modal */}
       <Modal
         visible={showHoldModal}
@@ -1317,13 +1958,24 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       backgroundColor: glassColors.backgroundElevated,
       borderRadius: 12,
     },
+    swipeActions: {
+      flexDirection: 'row',
+      gap: 6,
+      marginLeft: -8,
+    },
+    discountAction: {
+      backgroundColor: colors.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      borderRadius: 12,
+    },
     deleteAction: {
       backgroundColor: colors.error,
       justifyContent: 'center',
       alignItems: 'center',
       paddingHorizontal: 16,
       borderRadius: 12,
-      marginLeft: -8,
     },
     deleteActionContent: {
       alignItems: 'center',
@@ -1414,6 +2066,23 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       fontSize: 14,
       color: colors.textSecondary,
     },
+    discountValue: {
+      fontSize: 14,
+      color: colors.success,
+    },
+    discountButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      alignSelf: 'flex-start',
+      paddingVertical: 4,
+      marginBottom: 6,
+    },
+    discountButtonText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
     totalRow: {
       flexDirection: 'row',
       justifyContent: 'space-between',
@@ -1571,6 +2240,16 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       color: colors.primary,
       fontStyle: 'italic',
     },
+    itemDiscount: {
+      fontSize: 12,
+      fontFamily: fonts.medium,
+      color: colors.success,
+    },
+    itemPriceRule: {
+      fontSize: 12,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
     // Customer info section styles (combined email + notes)
     customerInfoSection: {
       marginBottom: 16,
@@ -1605,6 +2284,53 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
     customerInfoField: {
       gap: 4,
     },
+    customerCard: {
+      backgroundColor: glassColors.background,
+      borderRadius: 10,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      gap: 6,
+    },
+    customerCardRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    customerCardInfo: {
+      flex: 1,
+    },
+    customerCardName: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    customerCardDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    findCustomerButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      backgroundColor: glassColors.background,
+      borderRadius: 10,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+    },
+    redeemButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      alignSelf: 'flex-start',
+      paddingVertical: 2,
+    },
+    redeemButtonText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
     customerInfoInput: {
       backgroundColor: glassColors.background,
       borderRadius: 10,
@@ -1640,10 +2366,12 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
     },
     paymentMethodOptions: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       gap: 10,
     },
     paymentMethodButton: {
       flex: 1,
+      minWidth: '45%',
       flexDirection: 'row',
       alignItems: 'center',
       justifyContent: 'center',
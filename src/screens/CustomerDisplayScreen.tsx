@@ -0,0 +1,788 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  useWindowDimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useDevice } from '../context/DeviceContext';
+import { useSocket, useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { useCustomerDisplay, CustomerDisplayState, CustomerDisplaySelection } from '../context/CustomerDisplayContext';
+import { customerDisplayApi, CustomerDisplayPairingCode, PairedRegister } from '../lib/api';
+import { getDeviceName } from '../lib/device';
+import { isValidEmailOrEmpty } from '../lib/validation';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+
+const REGISTER_STORAGE_KEY = 'customer_display_register';
+
+export function CustomerDisplayScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { deviceId } = useDevice();
+  const { isConnected, emit } = useSocket();
+  const { isStreaming, setStreaming } = useCustomerDisplay();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+
+  // Register this device is displaying for; null while setting up
+  const [register, setRegister] = useState<PairedRegister | null>(null);
+  const [isLoadingRegister, setIsLoadingRegister] = useState(true);
+  const [pairingCode, setPairingCode] = useState<CustomerDisplayPairingCode | null>(null);
+  const [isCreatingCode, setIsCreatingCode] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+
+  const [displayState, setDisplayState] = useState<CustomerDisplayState | null>(null);
+  const [customTip, setCustomTip] = useState('');
+  const [showCustomTip, setShowCustomTip] = useState(false);
+  const [email, setEmail] = useState('');
+  const [emailSent, setEmailSent] = useState(false);
+
+  const isWide = width >= 700;
+  const checkout = displayState?.checkout ?? null;
+
+  useEffect(() => {
+    AsyncStorage.getItem(REGISTER_STORAGE_KEY)
+      .then(json => setRegister(json ? (JSON.parse(json) as PairedRegister) : null))
+      .catch(error => logger.error('[CustomerDisplay] Failed to load paired register:', error))
+      .finally(() => setIsLoadingRegister(false));
+  }, []);
+
+  // Rooms don't survive a reconnect, so join the register's stream every time the socket connects
+  useEffect(() => {
+    if (!register || !isConnected) return;
+    emit(SocketEvents.CUSTOMER_DISPLAY_JOIN, register.deviceId);
+  }, [register, isConnected, emit]);
+
+  const handleCart = useCallback((data: CustomerDisplayState) => {
+    setDisplayState(data);
+  }, []);
+  useSocketEvent(SocketEvents.CUSTOMER_DISPLAY_CART, handleCart);
+
+  // Reset the customer's choices once the register moves on to the next order
+  useEffect(() => {
+    if (checkout) return;
+    setCustomTip('');
+    setShowCustomTip(false);
+    setEmail('');
+    setEmailSent(false);
+  }, [checkout]);
+
+  const sendSelection = (selection: CustomerDisplaySelection) => {
+    if (!register) return;
+    emit(SocketEvents.CUSTOMER_DISPLAY_SELECTION, { registerDeviceId: register.deviceId, ...selection });
+  };
+
+  const handleTipPress = (index: number) => {
+    const option = checkout?.tipOptions[index];
+    if (!option) return;
+    if (option.isCustom) {
+      setShowCustomTip(true);
+      return;
+    }
+    setShowCustomTip(false);
+    sendSelection({ tipIndex: index });
+  };
+
+  const handleCustomTipSubmit = () => {
+    const index = checkout?.tipOptions.findIndex(option => option.isCustom) ?? -1;
+    if (index < 0) return;
+    sendSelection({ tipIndex: index, customTipAmount: String(parseInt(customTip, 10) || 0) });
+  };
+
+  const handleEmailSubmit = () => {
+    if (!email.trim() || !isValidEmailOrEmpty(email)) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address');
+      return;
+    }
+    sendSelection({ customerEmail: email.trim() });
+    setEmailSent(true);
+  };
+
+  const handleCreateCode = async () => {
+    if (!deviceId) return;
+    setIsCreatingCode(true);
+    try {
+      const code = await customerDisplayApi.createPairingCode(deviceId, getDeviceName());
+      setPairingCode(code);
+      await setStreaming(true);
+    } catch (error: any) {
+      Alert.alert('Error', error.error || error.message || 'Failed to create pairing code');
+    } finally {
+      setIsCreatingCode(false);
+    }
+  };
+
+  const handleStopStreaming = async () => {
+    setPairingCode(null);
+    await setStreaming(false);
+  };
+
+  const handlePair = async () => {
+    if (!deviceId || !codeInput.trim()) return;
+    setIsPairing(true);
+    try {
+      const paired = await customerDisplayApi.pair(codeInput.trim(), deviceId);
+      await AsyncStorage.setItem(REGISTER_STORAGE_KEY, JSON.stringify(paired));
+      setRegister(paired);
+      setCodeInput('');
+    } catch (error: any) {
+      Alert.alert('Error', error.error || error.message || 'Failed to pair with register');
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  // Exiting needs a long press so customers can't leave the display by accident
+  const handleExitDisplay = () => {
+    Alert.alert(
+      'Exit Customer Display',
+      `Stop showing orders from ${register?.deviceName || 'the register'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Exit',
+          style: 'destructive',
+          onPress: async () => {
+            await AsyncStorage.removeItem(REGISTER_STORAGE_KEY).catch(() => {});
+            setRegister(null);
+            setDisplayState(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    form: {
+      padding: 16,
+    },
+    bodyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginBottom: 12,
+    },
+    pairingCode: {
+      fontSize: 40,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      letterSpacing: 8,
+      textAlign: 'center',
+      marginVertical: 8,
+    },
+    statusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 12,
+    },
+    statusText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.success,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    // Display mode
+    displayContainer: {
+      flex: 1,
+      backgroundColor: colors.background,
+      paddingTop: insets.top + 8,
+      paddingBottom: insets.bottom + 8,
+    },
+    displayHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+      paddingBottom: 8,
+    },
+    displayRegister: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+    },
+    displayBody: {
+      flex: 1,
+      flexDirection: isWide ? 'row' : 'column',
+    },
+    displayItems: {
+      flex: isWide ? 3 : undefined,
+      paddingHorizontal: 20,
+    },
+    displaySide: {
+      flex: isWide ? 2 : undefined,
+      paddingHorizontal: 20,
+      borderLeftWidth: isWide ? 1 : 0,
+      borderLeftColor: cardBorder,
+    },
+    welcome: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 32,
+    },
+    welcomeTitle: {
+      fontSize: 32,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      marginTop: 16,
+    },
+    welcomeText: {
+      fontSize: 17,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 8,
+      textAlign: 'center',
+    },
+    lineRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+    },
+    lineQuantity: {
+      width: 40,
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.textSecondary,
+    },
+    lineInfo: {
+      flex: 1,
+      marginRight: 12,
+    },
+    lineName: {
+      fontSize: 18,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    lineDetails: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    lineTotal: {
+      fontSize: 18,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    totalsCard: {
+      marginTop: 16,
+      padding: 16,
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+    },
+    totalRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    },
+    totalLabel: {
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    totalValue: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    discountValue: {
+      color: colors.success,
+    },
+    grandTotalRow: {
+      marginTop: 8,
+      paddingTop: 12,
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    grandTotalLabel: {
+      fontSize: 22,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    grandTotalValue: {
+      fontSize: 22,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    promptTitle: {
+      fontSize: 20,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+      marginTop: 24,
+      marginBottom: 12,
+    },
+    tipOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 10,
+    },
+    tipButton: {
+      flexGrow: 1,
+      minWidth: 96,
+      paddingVertical: 16,
+      borderRadius: 14,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: cardBorder,
+      backgroundColor: glassColors.backgroundElevated,
+    },
+    tipButtonSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '20',
+    },
+    tipButtonLabel: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    tipButtonLabelSelected: {
+      color: colors.primary,
+    },
+    tipButtonAmount: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    inlineRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      marginTop: 12,
+    },
+    inlineInput: {
+      flex: 1,
+      marginBottom: 0,
+    },
+    inlineButton: {
+      flex: 0,
+      paddingHorizontal: 20,
+    },
+    sentRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    sentText: {
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+  });
+
+  if (isLoadingRegister) {
+    return (
+      <View style={[styles.container, styles.welcome]}>
+        <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading" />
+      </View>
+    );
+  }
+
+  if (register) {
+    const lines = displayState?.lines ?? [];
+    const subtotal = checkout?.subtotal ?? displayState?.subtotal ?? 0;
+    const discountAmount = checkout?.discountAmount ?? displayState?.discountAmount ?? 0;
+    const isEmpty = lines.length === 0 && !checkout;
+
+    return (
+      <View style={styles.displayContainer}>
+        <View style={styles.displayHeader}>
+          <Text style={styles.displayRegister} maxFontSizeMultiplier={1.3}>
+            {register.deviceName}{isConnected ? '' : ' · Reconnecting...'}
+          </Text>
+          <TouchableOpacity
+            onLongPress={handleExitDisplay}
+            delayLongPress={1500}
+            accessibilityRole="button"
+            accessibilityLabel="Exit customer display"
+            accessibilityHint="Press and hold to exit"
+          >
+            <Ionicons name="close" size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        {isEmpty ? (
+          <View style={styles.welcome}>
+            <Ionicons name="storefront-outline" size={56} color={colors.primary} />
+            <Text style={styles.welcomeTitle} maxFontSizeMultiplier={1.3}>Welcome</Text>
+            <Text style={styles.welcomeText} maxFontSizeMultiplier={1.5}>Your order will appear here</Text>
+          </View>
+        ) : (
+          <View style={styles.displayBody}>
+            <ScrollView style={styles.displayItems}>
+              {lines.map(line => (
+                <View key={line.key} style={styles.lineRow}>
+                  <Text style={styles.lineQuantity} maxFontSizeMultiplier={1.3}>{line.quantity}×</Text>
+                  <View style={styles.lineInfo}>
+                    <Text style={styles.lineName} maxFontSizeMultiplier={1.3}>{line.name}</Text>
+                    {!!line.details && (
+                      <Text style={styles.lineDetails} maxFontSizeMultiplier={1.3}>{line.details}</Text>
+                    )}
+                  </View>
+                  <Text style={styles.lineTotal} maxFontSizeMultiplier={1.3}>{formatCents(line.total, currency)}</Text>
+                </View>
+              ))}
+            </ScrollView>
+
+            <ScrollView style={styles.displaySide} keyboardShouldPersistTaps="handled" automaticallyAdjustKeyboardInsets>
+              <View style={styles.totalsCard}>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>Subtotal</Text>
+                  <Text style={styles.totalValue} maxFontSizeMultiplier={1.3}>{formatCents(subtotal, currency)}</Text>
+                </View>
+                {discountAmount > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>Discount</Text>
+                    <Text style={[styles.totalValue, styles.discountValue]} maxFontSizeMultiplier={1.3}>
+                      -{formatCents(discountAmount, currency)}
+                    </Text>
+                  </View>
+                )}
+                {checkout?.serviceCharge && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>{checkout.serviceCharge.label}</Text>
+                    <Text style={styles.totalValue} maxFontSizeMultiplier={1.3}>{formatCents(checkout.serviceCharge.amount, currency)}</Text>
+                  </View>
+                )}
+                {checkout?.taxLines.map(taxLine => (
+                  <View key={taxLine.label} style={styles.totalRow}>
+                    <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>{taxLine.label}</Text>
+                    <Text style={styles.totalValue} maxFontSizeMultiplier={1.3}>{formatCents(taxLine.amount, currency)}</Text>
+                  </View>
+                ))}
+                {!!checkout?.tipAmount && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>Tip</Text>
+                    <Text style={styles.totalValue} maxFontSizeMultiplier={1.3}>{formatCents(checkout.tipAmount, currency)}</Text>
+                  </View>
+                )}
+                <View style={[styles.totalRow, styles.grandTotalRow]}>
+                  <Text style={styles.grandTotalLabel} maxFontSizeMultiplier={1.2}>Total</Text>
+                  <Text style={styles.grandTotalValue} maxFontSizeMultiplier={1.2}>
+                    {formatCents(checkout ? checkout.total : subtotal - discountAmount, currency)}
+                  </Text>
+                </View>
+              </View>
+
+              {checkout && checkout.tipOptions.length > 0 && (
+                <>
+                  <Text style={styles.promptTitle} maxFontSizeMultiplier={1.3}>Add a Tip</Text>
+                  <View style={styles.tipOptions}>
+                    {checkout.tipOptions.map((option, index) => {
+                      const isSelected = checkout.selectedTipIndex === index || (option.isCustom && showCustomTip);
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          style={[styles.tipButton, isSelected && styles.tipButtonSelected]}
+                          onPress={() => handleTipPress(index)}
+                          accessibilityRole="button"
+                          accessibilityLabel={option.amount ? `${option.label} tip, ${formatCents(option.amount, currency)}` : option.label}
+                          accessibilityState={{ selected: isSelected }}
+                        >
+                          <Text style={[styles.tipButtonLabel, isSelected && styles.tipButtonLabelSelected]} maxFontSizeMultiplier={1.3}>
+                            {option.label}
+                          </Text>
+                          {!!option.amount && (
+                            <Text style={styles.tipButtonAmount} maxFontSizeMultiplier={1.3}>{formatCents(option.amount, currency)}</Text>
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {showCustomTip && (
+                    <View style={styles.inlineRow}>
+                      <TextInput
+                        style={[styles.input, styles.inlineInput]}
+                        value={customTip}
+                        onChangeText={setCustomTip}
+                        placeholder={`${getCurrencySymbol(currency)}0`}
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="number-pad"
+                        autoFocus
+                        accessibilityLabel={`Custom tip amount in ${currency.toUpperCase()}`}
+                      />
+                      <TouchableOpacity
+                        style={[styles.primaryButton, styles.inlineButton]}
+                        onPress={handleCustomTipSubmit}
+                        accessibilityRole="button"
+                        accessibilityLabel="Add custom tip"
+                      >
+                        <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Add Tip</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </>
+              )}
+
+              {checkout?.promptForEmail && (
+                <>
+                  <Text style={styles.promptTitle} maxFontSizeMultiplier={1.3}>Email Receipt</Text>
+                  {emailSent || checkout.customerEmail ? (
+                    <View style={styles.sentRow}>
+                      <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                      <Text style={styles.sentText} maxFontSizeMultiplier={1.3}>
+                        Receipt will be sent to {checkout.customerEmail || email.trim()}
+                      </Text>
+                    </View>
+                  ) : (
+                    <View style={styles.inlineRow}>
+                      <TextInput
+                        style={[styles.input, styles.inlineInput]}
+                        value={email}
+                        onChangeText={setEmail}
+                        placeholder="you@example.com"
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="email-address"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        accessibilityLabel="Email for receipt"
+                      />
+                      <TouchableOpacity
+                        style={[styles.primaryButton, styles.inlineButton]}
+                        onPress={handleEmailSubmit}
+                        accessibilityRole="button"
+                        accessibilityLabel="Send receipt to this email"
+                      >
+                        <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Send</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </>
+              )}
+            </ScrollView>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Customer Display</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>This Register</Text>
+          <View style={styles.card}>
+            <View style={styles.form}>
+              {isStreaming && (
+                <View style={styles.statusRow}>
+                  <Ionicons name="radio-outline" size={18} color={colors.success} />
+                  <Text style={styles.statusText} maxFontSizeMultiplier={1.3}>Sending cart to customer display</Text>
+                </View>
+              )}
+              {pairingCode ? (
+                <>
+                  <Text style={styles.bodyText} maxFontSizeMultiplier={1.5}>
+                    On the customer's device, open Customer Display and enter:
+                  </Text>
+                  <Text style={styles.pairingCode} maxFontSizeMultiplier={1.2} accessibilityLabel={`Pairing code ${pairingCode.code.split('').join(' ')}`}>
+                    {pairingCode.code}
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.bodyText} maxFontSizeMultiplier={1.5}>
+                  Show this register's cart, totals and tip options on a second device facing the customer.
+                </Text>
+              )}
+              <View style={styles.buttonRow}>
+                {isStreaming && (
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={handleStopStreaming}
+                    accessibilityRole="button"
+                    accessibilityLabel="Stop sending cart"
+                  >
+                    <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Stop</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.primaryButton, isCreatingCode && { opacity: 0.6 }]}
+                  onPress={handleCreateCode}
+                  disabled={isCreatingCode || !deviceId}
+                  accessibilityRole="button"
+                  accessibilityLabel={pairingCode ? 'New pairing code' : 'Pair a display'}
+                >
+                  {isCreatingCode ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Creating code" />
+                  ) : (
+                    <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>
+                      {pairingCode ? 'New Code' : 'Pair a Display'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Use This Device as the Display</Text>
+          <View style={styles.card}>
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                value={codeInput}
+                onChangeText={setCodeInput}
+                placeholder="Pairing code from the register"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                accessibilityLabel="Pairing code"
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.primaryButton, (isPairing || !codeInput.trim()) && { opacity: 0.6 }]}
+                  onPress={handlePair}
+                  disabled={isPairing || !codeInput.trim() || !deviceId}
+                  accessibilityRole="button"
+                  accessibilityLabel="Start customer display"
+                >
+                  {isPairing ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Pairing" />
+                  ) : (
+                    <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Start Display</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            The device must be signed in to the same organization. Press and hold the close button to exit display mode.
+          </Text>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
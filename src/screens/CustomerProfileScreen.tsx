@@ -0,0 +1,459 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { customersApi, ordersApi, CustomerData } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { getCustomerDisplayName } from '../utils/customers';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+type RouteParams = {
+  CustomerProfile: {
+    customerId: string;
+  };
+};
+
+const ORDER_HISTORY_LIMIT = 50;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function CustomerProfileScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RouteParams, 'CustomerProfile'>>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const { customerId } = route.params;
+
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+
+  const { data: customer, isLoading } = useQuery({
+    queryKey: ['customer', customerId],
+    queryFn: () => customersApi.get(customerId),
+  });
+
+  const { data: ordersData, isLoading: isLoadingOrders } = useQuery({
+    queryKey: ['orders', 'customer', customerId],
+    queryFn: () => ordersApi.list({ customerId, limit: ORDER_HISTORY_LIMIT }),
+  });
+
+  const { data: program } = useQuery({
+    queryKey: ['loyalty-program'],
+    queryFn: () => customersApi.getLoyaltyProgram(),
+  });
+
+  const startEditing = () => {
+    setName(customer?.name || '');
+    setEmail(customer?.email || '');
+    setPhone(customer?.phone || '');
+    setEditing(true);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (data: CustomerData) => customersApi.update(customerId, data),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['customer', customerId], updated);
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      setEditing(false);
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to update customer');
+    },
+  });
+
+  const handleSave = () => {
+    if (!email.trim() && !phone.trim()) {
+      Alert.alert('Missing Contact', 'A customer needs an email or phone number.');
+      return;
+    }
+    updateMutation.mutate({
+      name: name.trim() || null,
+      email: email.trim() || null,
+      phone: phone.trim() || null,
+    });
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    centered: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    statsRow: {
+      flexDirection: 'row',
+    },
+    stat: {
+      flex: 1,
+      paddingVertical: 16,
+      alignItems: 'center',
+    },
+    statValue: {
+      fontSize: 20,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    statLabel: {
+      fontSize: 12,
+      fontFamily: fonts.medium,
+      color: colors.textMuted,
+      marginTop: 4,
+    },
+    statDivider: {
+      width: 1,
+      backgroundColor: cardBorder,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    rowLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    rowValue: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowTitle: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    form: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 4,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  const orders = ordersData?.orders ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1} maxFontSizeMultiplier={1.3}>
+          {customer ? getCustomerDisplayName(customer) : 'Customer'}
+        </Text>
+        {customer && (
+          <TouchableOpacity
+            onPress={() => (editing ? setEditing(false) : startEditing())}
+            accessibilityRole="button"
+            accessibilityLabel={editing ? 'Cancel editing' : 'Edit customer'}
+          >
+            <Ionicons name={editing ? 'close' : 'create-outline'} size={24} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading customer" />
+        </View>
+      ) : !customer ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Customer not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Stats */}
+          <View style={styles.section}>
+            <View style={[styles.card, styles.statsRow]}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue} maxFontSizeMultiplier={1.3}>{formatCents(customer.lifetimeSpend, currency)}</Text>
+                <Text style={styles.statLabel} maxFontSizeMultiplier={1.5}>Lifetime Spend</Text>
+              </View>
+              <View style={styles.statDivider} />
+              <View style={styles.stat}>
+                <Text style={styles.statValue} maxFontSizeMultiplier={1.3}>{customer.orderCount}</Text>
+                <Text style={styles.statLabel} maxFontSizeMultiplier={1.5}>Orders</Text>
+              </View>
+              {program?.enabled && (
+                <>
+                  <View style={styles.statDivider} />
+                  <View style={styles.stat}>
+                    <Text style={styles.statValue} maxFontSizeMultiplier={1.3}>{customer.pointsBalance}</Text>
+                    <Text style={styles.statLabel} maxFontSizeMultiplier={1.5}>Points</Text>
+                  </View>
+                </>
+              )}
+            </View>
+          </View>
+
+          {/* Contact */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Contact</Text>
+            <View style={styles.card}>
+              {editing ? (
+                <View style={styles.form}>
+                  <TextInput
+                    style={styles.input}
+                    value={name}
+                    onChangeText={setName}
+                    placeholder="Name"
+                    placeholderTextColor={colors.textMuted}
+                    autoCapitalize="words"
+                    accessibilityLabel="Customer name"
+                  />
+                  <TextInput
+                    style={styles.input}
+                    value={email}
+                    onChangeText={setEmail}
+                    placeholder="Email"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    accessibilityLabel="Customer email"
+                  />
+                  <TextInput
+                    style={styles.input}
+                    value={phone}
+                    onChangeText={setPhone}
+                    placeholder="Phone"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="phone-pad"
+                    accessibilityLabel="Customer phone"
+                  />
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => setEditing(false)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Cancel"
+                    >
+                      <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, updateMutation.isPending && { opacity: 0.6 }]}
+                      onPress={handleSave}
+                      disabled={updateMutation.isPending}
+                      accessibilityRole="button"
+                      accessibilityLabel="Save customer"
+                    >
+                      {updateMutation.isPending ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                      ) : (
+                        <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Save</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.row}>
+                    <Text style={styles.rowLabel} maxFontSizeMultiplier={1.5}>Email</Text>
+                    <Text style={styles.rowValue} numberOfLines={1} maxFontSizeMultiplier={1.5}>{customer.email || '—'}</Text>
+                  </View>
+                  <View style={styles.divider} />
+                  <View style={styles.row}>
+                    <Text style={styles.rowLabel} maxFontSizeMultiplier={1.5}>Phone</Text>
+                    <Text style={styles.rowValue} maxFontSizeMultiplier={1.5}>{customer.phone || '—'}</Text>
+                  </View>
+                  <View style={styles.divider} />
+                  <View style={styles.row}>
+                    <Text style={styles.rowLabel} maxFontSizeMultiplier={1.5}>Customer Since</Text>
+                    <Text style={styles.rowValue} maxFontSizeMultiplier={1.5}>{formatDate(customer.createdAt)}</Text>
+                  </View>
+                </>
+              )}
+            </View>
+          </View>
+
+          {/* Order History */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Orders</Text>
+            <View style={styles.card}>
+              {isLoadingOrders ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Loading orders" />
+                </View>
+              ) : orders.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>No orders yet</Text>
+                </View>
+              ) : (
+                orders.map((order, index) => (
+                  <React.Fragment key={order.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <View style={styles.row}>
+                      <View style={styles.rowLeft}>
+                        <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>Order #{order.orderNumber}</Text>
+                        <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>
+                          {formatDate(order.createdAt)}
+                          {order.status !== 'completed' ? ` · ${order.status}` : ''}
+                          {order.loyaltyPointsEarned ? ` · +${order.loyaltyPointsEarned} pts` : ''}
+                          {order.loyaltyPointsRedeemed ? ` · -${order.loyaltyPointsRedeemed} pts` : ''}
+                        </Text>
+                      </View>
+                      <Text style={styles.rowValue} maxFontSizeMultiplier={1.5}>{formatCents(order.totalAmount, currency)}</Text>
+                    </View>
+                  </React.Fragment>
+                ))
+              )}
+            </View>
+          </View>
+
+          <View style={{ height: insets.bottom + 32 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
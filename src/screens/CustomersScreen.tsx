@@ -0,0 +1,441 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
+import { Toggle } from '../components/Toggle';
+import { customersApi, LoyaltyProgram } from '../lib/api';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { getCustomerDisplayName } from '../utils/customers';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function CustomersScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [editingProgram, setEditingProgram] = useState(false);
+  const [programEnabled, setProgramEnabled] = useState(false);
+  const [pointsPerDollar, setPointsPerDollar] = useState('');
+  const [rewardPoints, setRewardPoints] = useState('');
+  const [rewardValue, setRewardValue] = useState('');
+
+  const canManageBusiness = can('manage_business');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // An empty search lists the most recent customers
+  const { data: customers, isLoading } = useQuery({
+    queryKey: ['customers', debouncedQuery],
+    queryFn: () => customersApi.search(debouncedQuery, 50),
+  });
+
+  const { data: program } = useQuery({
+    queryKey: ['loyalty-program'],
+    queryFn: () => customersApi.getLoyaltyProgram(),
+  });
+
+  const startEditingProgram = () => {
+    setProgramEnabled(program?.enabled ?? false);
+    setPointsPerDollar(program ? program.pointsPerDollar.toString() : '1');
+    setRewardPoints(program ? program.rewardPoints.toString() : '100');
+    setRewardValue(program ? (program.rewardValue / 100).toFixed(2) : '5.00');
+    setEditingProgram(true);
+  };
+
+  const programMutation = useMutation({
+    mutationFn: (data: Partial<LoyaltyProgram>) => customersApi.updateLoyaltyProgram(data),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['loyalty-program'], updated);
+      setEditingProgram(false);
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to save loyalty program');
+    },
+  });
+
+  const handleSaveProgram = () => {
+    const perDollar = parseInt(pointsPerDollar, 10);
+    const points = parseInt(rewardPoints, 10);
+    const value = Math.round(parseFloat(rewardValue) * 100);
+    if (!(perDollar > 0) || !(points > 0) || !(value > 0)) {
+      Alert.alert('Invalid Settings', 'Points per dollar, points per reward and reward value must all be more than zero.');
+      return;
+    }
+    programMutation.mutate({
+      enabled: programEnabled,
+      pointsPerDollar: perDollar,
+      rewardPoints: points,
+      rewardValue: value,
+    });
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 14,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    rowTitle: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rowValue: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    fieldLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    toggleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    toggleLabel: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 4,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Customers</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Loyalty Program */}
+        {(program || canManageBusiness) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Loyalty Program</Text>
+            <View style={styles.card}>
+              {editingProgram ? (
+                <View style={styles.form}>
+                  <View style={styles.toggleRow}>
+                    <Text style={styles.toggleLabel} maxFontSizeMultiplier={1.3}>Enabled</Text>
+                    <Toggle value={programEnabled} onValueChange={setProgramEnabled} accessibilityLabel="Loyalty program enabled" />
+                  </View>
+                  <Text style={styles.fieldLabel} maxFontSizeMultiplier={1.5}>Points per {getCurrencySymbol(currency)}1 spent</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={pointsPerDollar}
+                    onChangeText={setPointsPerDollar}
+                    keyboardType="number-pad"
+                    accessibilityLabel="Points earned per dollar"
+                  />
+                  <Text style={styles.fieldLabel} maxFontSizeMultiplier={1.5}>Points per reward</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={rewardPoints}
+                    onChangeText={setRewardPoints}
+                    keyboardType="number-pad"
+                    accessibilityLabel="Points needed for one reward"
+                  />
+                  <Text style={styles.fieldLabel} maxFontSizeMultiplier={1.5}>Reward value ({getCurrencySymbol(currency)})</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={rewardValue}
+                    onChangeText={setRewardValue}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel="Discount for one reward"
+                  />
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => setEditingProgram(false)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Cancel"
+                    >
+                      <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, programMutation.isPending && { opacity: 0.6 }]}
+                      onPress={handleSaveProgram}
+                      disabled={programMutation.isPending}
+                      accessibilityRole="button"
+                      accessibilityLabel="Save loyalty program"
+                    >
+                      {programMutation.isPending ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                      ) : (
+                        <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Save</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={startEditingProgram}
+                  disabled={!canManageBusiness}
+                  accessibilityRole={canManageBusiness ? 'button' : undefined}
+                  accessibilityLabel={program?.enabled ? 'Loyalty program, on' : 'Loyalty program, off'}
+                >
+                  <View style={styles.rowLeft}>
+                    <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>
+                      {program?.enabled ? 'On' : 'Off'}
+                    </Text>
+                    {program?.enabled && (
+                      <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>
+                        {program.pointsPerDollar} pts per {getCurrencySymbol(currency)}1 · {program.rewardPoints} pts = {formatCents(program.rewardValue, currency)} off
+                      </Text>
+                    )}
+                  </View>
+                  {canManageBusiness && <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />}
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+              Customers earn points when an order they're attached to completes, and can redeem them at checkout.
+            </Text>
+          </View>
+        )}
+
+        {/* Directory */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Directory</Text>
+          <View style={styles.card}>
+            <View style={styles.searchRow}>
+              <Ionicons name="search" size={18} color={colors.textMuted} />
+              <TextInput
+                style={styles.searchInput}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search by name, email or phone"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                accessibilityLabel="Search customers"
+              />
+            </View>
+            <View style={styles.divider} />
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading customers" />
+              </View>
+            ) : !customers || customers.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="people-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  {debouncedQuery ? 'No customers match your search.' : 'No customers yet.\nAdd them at checkout from Customer Info.'}
+                </Text>
+              </View>
+            ) : (
+              customers.map((customer, index) => (
+                <React.Fragment key={customer.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <TouchableOpacity
+                    style={styles.row}
+                    onPress={() => navigation.navigate('CustomerProfile', { customerId: customer.id })}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${getCustomerDisplayName(customer)}, ${customer.orderCount} orders`}
+                  >
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.rowTitle} numberOfLines={1} maxFontSizeMultiplier={1.3}>
+                        {getCustomerDisplayName(customer)}
+                      </Text>
+                      <Text style={styles.rowDetail} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                        {customer.orderCount} {customer.orderCount === 1 ? 'order' : 'orders'} · {formatCents(customer.lifetimeSpend, currency)}
+                      </Text>
+                    </View>
+                    {program?.enabled && (
+                      <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>{customer.pointsBalance} pts</Text>
+                    )}
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,547 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions, useTapToPayGuard } from '../hooks';
+import { CodeScannerModal } from '../components/CodeScannerModal';
+import { giftCardsApi, GiftCard } from '../lib/api';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+const SALE_AMOUNTS = [2500, 5000, 10000]; // in cents
+const MIN_SALE_AMOUNT = 50; // Stripe minimum, in cents
+
+type ScanTarget = 'balance' | 'sell';
+
+const STATUS_LABELS: Record<GiftCard['status'], string> = {
+  inactive: 'Not activated',
+  active: 'Active',
+  depleted: 'Used up',
+  disabled: 'Disabled',
+};
+
+export function GiftCardsScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { can } = usePermissions();
+  const { guardCheckout } = useTapToPayGuard();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const [balanceCode, setBalanceCode] = useState('');
+  const [checkedCard, setCheckedCard] = useState<GiftCard | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [saleCode, setSaleCode] = useState('');
+  const [saleAmount, setSaleAmount] = useState<number | null>(SALE_AMOUNTS[0]);
+  const [customAmount, setCustomAmount] = useState('');
+  const [scanTarget, setScanTarget] = useState<ScanTarget | null>(null);
+
+  const canManageBusiness = can('manage_business');
+
+  const { data: recentCards, isLoading } = useQuery({
+    queryKey: ['gift-cards'],
+    queryFn: () => giftCardsApi.list(20),
+  });
+
+  const checkBalance = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    setBalanceCode(trimmed);
+    setIsChecking(true);
+    try {
+      setCheckedCard(await giftCardsApi.lookup(trimmed));
+    } catch (error: any) {
+      setCheckedCard(null);
+      Alert.alert('Card Not Found', error.error || error.message || 'No gift card matches this code');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const disableMutation = useMutation({
+    mutationFn: (giftCardId: string) => giftCardsApi.disable(giftCardId),
+    onSuccess: (updated) => {
+      setCheckedCard(updated);
+      queryClient.invalidateQueries({ queryKey: ['gift-cards'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to disable card');
+    },
+  });
+
+  const handleDisable = (card: GiftCard) => {
+    Alert.alert(
+      'Disable Card',
+      `${card.code} will no longer be accepted. Its ${formatCents(card.balance, currency)} balance stays on record.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Disable', style: 'destructive', onPress: () => disableMutation.mutate(card.id) },
+      ]
+    );
+  };
+
+  const saleCents = saleAmount ?? Math.round(parseFloat(customAmount || '0') * 100);
+
+  // The card is loaded by the server once the sale order is paid
+  const handleSell = () => {
+    const code = saleCode.trim();
+    if (!code) {
+      Alert.alert('Card Code Required', 'Scan or type the code on the card being sold.');
+      return;
+    }
+    if (saleCents < MIN_SALE_AMOUNT) {
+      Alert.alert('Invalid Amount', `Minimum amount is ${formatCents(MIN_SALE_AMOUNT, currency)}`);
+      return;
+    }
+    if (!guardCheckout()) return;
+
+    navigation.navigate('Checkout', {
+      total: saleCents,
+      isQuickCharge: true,
+      quickChargeDescription: `Gift Card ${code} - ${formatCents(saleCents, currency)}`,
+      giftCardCode: code,
+    });
+    setSaleCode('');
+    setCustomAmount('');
+    setSaleAmount(SALE_AMOUNTS[0]);
+  };
+
+  const handleScan = (code: string) => {
+    const target = scanTarget;
+    setScanTarget(null);
+    if (target === 'balance') {
+      checkBalance(code);
+    } else {
+      setSaleCode(code);
+    }
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    codeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingLeft: 14,
+      paddingRight: 8,
+    },
+    codeInput: {
+      flex: 1,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+      letterSpacing: 1,
+    },
+    iconButton: {
+      padding: 8,
+    },
+    checkButton: {
+      backgroundColor: colors.primary + '20',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      minWidth: 64,
+      alignItems: 'center',
+    },
+    checkButtonText: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    rowTitle: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rowValue: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    destructiveText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.error,
+    },
+    form: {
+      padding: 16,
+    },
+    fieldLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 10,
+      borderWidth: 1,
+      alignItems: 'center',
+    },
+    chipText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+  });
+
+  const renderCodeInput = (
+    value: string,
+    onChange: (text: string) => void,
+    target: ScanTarget,
+    onSubmit?: () => void,
+  ) => (
+    <View style={styles.codeRow}>
+      <TextInput
+        style={styles.codeInput}
+        value={value}
+        onChangeText={onChange}
+        onSubmitEditing={onSubmit}
+        placeholder="Card code"
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        returnKeyType={onSubmit ? 'search' : 'done'}
+        accessibilityLabel={target === 'balance' ? 'Gift card code to check' : 'Gift card code to sell'}
+      />
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => setScanTarget(target)}
+        accessibilityRole="button"
+        accessibilityLabel="Scan card"
+      >
+        <Ionicons name="scan-outline" size={22} color={colors.primary} />
+      </TouchableOpacity>
+      {onSubmit && (
+        <TouchableOpacity
+          style={styles.checkButton}
+          onPress={onSubmit}
+          disabled={isChecking || !value.trim()}
+          accessibilityRole="button"
+          accessibilityLabel="Check balance"
+        >
+          {isChecking ? (
+            <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Checking" />
+          ) : (
+            <Text style={styles.checkButtonText} maxFontSizeMultiplier={1.3}>Check</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Gift Cards</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Balance Check */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Check Balance</Text>
+          <View style={styles.card}>
+            {renderCodeInput(
+              balanceCode,
+              (text) => {
+                setBalanceCode(text);
+                setCheckedCard(null);
+              },
+              'balance',
+              () => checkBalance(balanceCode),
+            )}
+            {checkedCard && (
+              <>
+                <View style={styles.divider} />
+                <View style={styles.row}>
+                  <View style={styles.rowLeft}>
+                    <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>
+                      {checkedCard.kind === 'store_credit' ? 'Store Credit' : 'Gift Card'}
+                    </Text>
+                    <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>
+                      {STATUS_LABELS[checkedCard.status]} · {formatCents(checkedCard.initialBalance, currency)} loaded
+                      {checkedCard.expiresAt ? ` · Expires ${new Date(checkedCard.expiresAt).toLocaleDateString()}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>
+                    {formatCents(checkedCard.balance, currency)}
+                  </Text>
+                </View>
+                {canManageBusiness && checkedCard.status === 'active' && (
+                  <>
+                    <View style={styles.divider} />
+                    <TouchableOpacity
+                      style={styles.row}
+                      onPress={() => handleDisable(checkedCard)}
+                      disabled={disableMutation.isPending}
+                      accessibilityRole="button"
+                      accessibilityLabel="Disable card"
+                    >
+                      <Text style={styles.destructiveText} maxFontSizeMultiplier={1.3}>Disable Card</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Sell */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Sell a Gift Card</Text>
+          <View style={styles.card}>
+            {renderCodeInput(saleCode, setSaleCode, 'sell')}
+            <View style={styles.divider} />
+            <View style={styles.form}>
+              <Text style={styles.fieldLabel} maxFontSizeMultiplier={1.5}>Amount</Text>
+              <View style={styles.chips}>
+                {SALE_AMOUNTS.map(amount => {
+                  const isSelected = saleAmount === amount;
+                  return (
+                    <TouchableOpacity
+                      key={amount}
+                      style={[styles.chip, { borderColor: isSelected ? colors.primary : cardBorder }]}
+                      onPress={() => {
+                        setSaleAmount(amount);
+                        setCustomAmount('');
+                      }}
+                      accessibilityRole="button"
+                      accessibilityLabel={formatCents(amount, currency)}
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]} maxFontSizeMultiplier={1.3}>
+                        {formatCents(amount, currency)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={[styles.input, saleAmount === null && { borderColor: colors.primary }]}
+                value={customAmount}
+                onChangeText={(text) => {
+                  setCustomAmount(text);
+                  setSaleAmount(null);
+                }}
+                placeholder={`Other amount (${getCurrencySymbol(currency)})`}
+                placeholderTextColor={colors.textMuted}
+                keyboardType="decimal-pad"
+                accessibilityLabel="Other gift card amount"
+              />
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={handleSell}
+                accessibilityRole="button"
+                accessibilityLabel={`Sell gift card for ${formatCents(saleCents, currency)}`}
+              >
+                <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>
+                  Charge {formatCents(saleCents, currency)}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            The card is activated with this balance once the sale is paid. Gift card sales aren't taxed or tipped.
+          </Text>
+        </View>
+
+        {/* Recent */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Recent</Text>
+          <View style={styles.card}>
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading gift cards" />
+              </View>
+            ) : !recentCards || recentCards.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="gift-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  No gift cards or store credit yet.
+                </Text>
+              </View>
+            ) : (
+              recentCards.map((giftCard, index) => (
+                <React.Fragment key={giftCard.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <TouchableOpacity
+                    style={styles.row}
+                    onPress={() => checkBalance(giftCard.code)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${giftCard.code}, ${formatCents(giftCard.balance, currency)} left`}
+                  >
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.rowTitle} numberOfLines={1} maxFontSizeMultiplier={1.3}>{giftCard.code}</Text>
+                      <Text style={styles.rowDetail} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                        {giftCard.kind === 'store_credit' ? 'Store credit' : 'Gift card'} · {STATUS_LABELS[giftCard.status]}
+                      </Text>
+                    </View>
+                    <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>
+                      {formatCents(giftCard.balance, currency)}
+                    </Text>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+
+      <CodeScannerModal
+        visible={scanTarget !== null}
+        title="Scan Gift Card"
+        hint="Line up the card's barcode or QR code"
+        onScan={handleScan}
+        onClose={() => setScanTarget(null)}
+      />
+    </View>
+  );
+}
@@ -22,7 +22,7 @@ import { formatCents } from '../utils/currency';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 import { shadows } from '../lib/shadows';
-import { useTapToPayGuard } from '../hooks';
+import { useTapToPayGuard, useAuthorize } from '../hooks';
 
 function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString);
@@ -165,6 +165,7 @@ export function HeldOrdersScreen() {
   const { deviceId } = useDevice();
   const navigation = useNavigation<any>();
   const { guardCheckout } = useTapToPayGuard();
+  const { authorize } = useAuthorize();
   const glassColors = isDark ? glass.dark : glass.light;
 
   const [orders, setOrders] = useState<Order[]>([]);
@@ -243,17 +244,20 @@ export function HeldOrdersScreen() {
   };
 
   const handleCancelOrder = async (order: Order) => {
+    const orderName = order.holdName || `Order #${order.orderNumber}`;
     Alert.alert(
       'Cancel Order',
-      `Are you sure you want to cancel "${order.holdName || `Order #${order.orderNumber}`}"?`,
+      `Are you sure you want to cancel "${orderName}"?`,
       [
         { text: 'Keep', style: 'cancel' },
         {
           text: 'Cancel Order',
           style: 'destructive',
           onPress: async () => {
+            const authorization = await authorize('void_held_order', `A manager needs to approve cancelling "${orderName}".`);
+            if (!authorization) return;
             try {
-              await ordersApi.cancel(order.id);
+              await ordersApi.cancel(order.id, authorization.override?.token);
               setOrders(prev => prev.filter(o => o.id !== order.id));
             } catch (error: any) {
               Alert.alert('Error', error.message || 'Failed to cancel order');
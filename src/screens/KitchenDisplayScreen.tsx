@@ -0,0 +1,597 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  Vibration,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { useTheme } from '../context/ThemeContext';
+import { useCatalog } from '../context/CatalogContext';
+import { useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { usePermissions } from '../hooks';
+import { kitchenApi, KitchenTicket, KitchenTicketItem, KitchenTicketStatus, KitchenStation } from '../lib/api';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+
+// Elapsed-time thresholds for ticket colouring, in minutes
+const WARNING_MINUTES = 5;
+const LATE_MINUTES = 10;
+
+const TICKET_MIN_WIDTH = 280;
+const BUMPED_LIMIT = 30;
+
+const STATION_STORAGE_KEY = 'kitchen_station';
+
+function formatElapsed(from: string, now: number): string {
+  const totalSeconds = Math.max(0, Math.floor((now - new Date(from).getTime()) / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function getElapsedColor(from: string, now: number, colors: any): string {
+  const minutes = (now - new Date(from).getTime()) / 60000;
+  if (minutes >= LATE_MINUTES) return colors.error;
+  if (minutes >= WARNING_MINUTES) return colors.warning;
+  return colors.success;
+}
+
+// Items in the station's categories, plus anything no station makes so it isn't missed
+function isRoutedToStation(item: KitchenTicketItem, station: KitchenStation, stations: KitchenStation[]): boolean {
+  if (item.categoryId && station.categoryIds.includes(item.categoryId)) return true;
+  return !stations.some(s => item.categoryId && s.categoryIds.includes(item.categoryId));
+}
+
+/**
+ * The ticket as one station sees it: only its items, open until the station bumps them.
+ * Null means the ticket has nothing for the station in this view.
+ */
+function filterTicketForStation(
+  ticket: KitchenTicket,
+  station: KitchenStation | null,
+  stations: KitchenStation[],
+  view: KitchenTicketStatus
+): KitchenTicket | null {
+  if (!station) return ticket.status === view ? ticket : null;
+  const items = ticket.items.filter(item => isRoutedToStation(item, station, stations));
+  if (items.length === 0) return null;
+
+  const bumpedAt = items.every(item => item.bumpedAt)
+    ? items.map(item => item.bumpedAt!).sort().pop()!
+    : null;
+  if (view === 'open') {
+    return bumpedAt ? null : { ...ticket, items, status: 'open', bumpedAt: null };
+  }
+  return bumpedAt ? { ...ticket, items, status: 'bumped', bumpedAt } : null;
+}
+
+export function KitchenDisplayScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { selectedCatalog } = useCatalog();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+  const { width } = useWindowDimensions();
+
+  const [view, setView] = useState<KitchenTicketStatus>('open');
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const catalogId = selectedCatalog?.id;
+  const numColumns = Math.max(1, Math.floor((width - 16) / TICKET_MIN_WIDTH));
+
+  // Tick once a second so elapsed times and colours stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Each device remembers which station it is showing, per catalog
+  useEffect(() => {
+    if (!catalogId) return;
+    AsyncStorage.getItem(`${STATION_STORAGE_KEY}:${catalogId}`)
+      .then(saved => setStationId(saved))
+      .catch(error => logger.error('[Kitchen] Failed to load station:', error));
+  }, [catalogId]);
+
+  const selectStation = (id: string | null) => {
+    setStationId(id);
+    if (!catalogId) return;
+    const key = `${STATION_STORAGE_KEY}:${catalogId}`;
+    (id ? AsyncStorage.setItem(key, id) : AsyncStorage.removeItem(key))
+      .catch(error => logger.error('[Kitchen] Failed to save station:', error));
+  };
+
+  const { data: stations } = useQuery({
+    queryKey: ['kitchen-stations', catalogId],
+    queryFn: () => kitchenApi.listStations(catalogId!),
+    enabled: !!catalogId,
+  });
+
+  const { data: tickets, isLoading, refetch, isRefetching } = useQuery({
+    queryKey: ['kitchen-tickets', catalogId, view],
+    queryFn: () => kitchenApi.listTickets({
+      catalogId: catalogId!,
+      status: view,
+      limit: view === 'bumped' ? BUMPED_LIMIT : undefined,
+    }),
+    enabled: !!catalogId,
+  });
+
+  const station = stations?.find(s => s.id === stationId) ?? null;
+
+  // A station's bumped items can sit on tickets other stations are still working on
+  const { data: openTickets } = useQuery({
+    queryKey: ['kitchen-tickets', catalogId, 'open'],
+    queryFn: () => kitchenApi.listTickets({ catalogId: catalogId!, status: 'open' }),
+    enabled: !!catalogId && !!station && view === 'bumped',
+  });
+
+  const visibleTickets = useMemo(() => {
+    const candidates = station && view === 'bumped' ? [...(openTickets ?? []), ...(tickets ?? [])] : tickets ?? [];
+    const filtered = candidates
+      .map(ticket => filterTicketForStation(ticket, station, stations ?? [], view))
+      .filter((ticket): ticket is KitchenTicket => ticket !== null);
+    return station && view === 'bumped'
+      ? filtered.sort((a, b) => (b.bumpedAt ?? '').localeCompare(a.bumpedAt ?? ''))
+      : filtered;
+  }, [tickets, openTickets, station, stations, view]);
+
+  const handleTicketCreated = useCallback(() => {
+    if (Platform.OS !== 'web') {
+      Vibration.vibrate([0, 200, 100, 200]);
+    }
+    queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+  }, [queryClient]);
+
+  const handleTicketsChanged = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+  }, [queryClient]);
+
+  useSocketEvent(SocketEvents.KITCHEN_TICKET_CREATED, handleTicketCreated);
+  useSocketEvent(SocketEvents.KITCHEN_TICKET_UPDATED, handleTicketsChanged);
+  // Cancelled preorders and voided orders drop off the display
+  useSocketEvent(SocketEvents.PREORDER_CANCELLED, handleTicketsChanged);
+  useSocketEvent(SocketEvents.ORDER_DELETED, handleTicketsChanged);
+
+  useFocusEffect(
+    useCallback(() => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stations'] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+    }, [queryClient])
+  );
+
+  // Bump and recall move the ticket between lists straight away; the socket event refreshes other devices.
+  // A station only bumps its own items, so the ticket stays open for the others.
+  const statusMutation = useMutation({
+    mutationFn: (data: { ticketId: string; action: 'bump' | 'recall'; itemIds?: string[] }) =>
+      data.action === 'bump'
+        ? kitchenApi.bump(data.ticketId, data.itemIds)
+        : kitchenApi.recall(data.ticketId, data.itemIds),
+    onMutate: ({ ticketId, action, itemIds }) => {
+      if (!itemIds) {
+        queryClient.setQueryData<KitchenTicket[]>(
+          ['kitchen-tickets', catalogId, view],
+          prev => prev?.filter(t => t.id !== ticketId)
+        );
+        return;
+      }
+      const bumpedAt = action === 'bump' ? new Date().toISOString() : null;
+      queryClient.setQueriesData<KitchenTicket[]>(
+        { queryKey: ['kitchen-tickets', catalogId] },
+        prev => prev?.map(t => t.id !== ticketId ? t : {
+          ...t,
+          items: t.items.map(item => itemIds.includes(item.id) ? { ...item, bumpedAt } : item),
+        })
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-tickets'] });
+    },
+    onError: (error: any, { action }) => {
+      Alert.alert('Error', error.error || error.message || `Failed to ${action} ticket`);
+    },
+  });
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    viewToggle: {
+      flexDirection: 'row',
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      padding: 3,
+    },
+    viewOption: {
+      paddingHorizontal: 14,
+      paddingVertical: 6,
+      borderRadius: 8,
+    },
+    viewOptionActive: {
+      backgroundColor: colors.primary,
+    },
+    viewOptionText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    viewOptionTextActive: {
+      color: '#FFFFFF',
+      fontFamily: fonts.semiBold,
+    },
+    stationBar: {
+      flexGrow: 0,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+    },
+    stationBarContent: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      gap: 8,
+    },
+    stationChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 20,
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1,
+      borderColor: cardBorder,
+    },
+    stationChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    stationChipText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    stationChipTextActive: {
+      color: '#FFFFFF',
+      fontFamily: fonts.semiBold,
+    },
+    listContent: {
+      padding: 8,
+    },
+    emptyListContent: {
+      flex: 1,
+    },
+    ticketSlot: {
+      flex: 1 / numColumns,
+      padding: 8,
+    },
+    ticket: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    ticketHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      gap: 8,
+    },
+    ticketNumber: {
+      fontSize: 20,
+      fontFamily: fonts.bold,
+      color: '#FFFFFF',
+    },
+    ticketLabel: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: '#FFFFFF',
+    },
+    ticketElapsed: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+      fontVariant: ['tabular-nums'],
+    },
+    ticketBody: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+    },
+    itemRow: {
+      flexDirection: 'row',
+      paddingVertical: 4,
+    },
+    itemQuantity: {
+      width: 32,
+      fontSize: 17,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    itemDetails: {
+      flex: 1,
+    },
+    itemName: {
+      fontSize: 17,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    itemModifier: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    itemNotes: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.warning,
+      marginTop: 2,
+    },
+    ticketNotes: {
+      flexDirection: 'row',
+      gap: 6,
+      marginTop: 8,
+      paddingTop: 8,
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    ticketNotesText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.warning,
+    },
+    ticketButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    ticketButtonText: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    emptyState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: 40,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 22,
+    },
+  });
+
+  const renderTicket = ({ item: ticket }: { item: KitchenTicket }) => {
+    const isOpen = ticket.status === 'open';
+    const headerColor = isOpen ? getElapsedColor(ticket.createdAt, now, colors) : colors.textMuted;
+    const elapsed = formatElapsed(ticket.createdAt, isOpen ? now : new Date(ticket.bumpedAt || ticket.createdAt).getTime());
+    const action = isOpen ? 'bump' : 'recall';
+
+    return (
+      <View style={styles.ticketSlot}>
+        <View style={styles.ticket}>
+          <View
+            style={[styles.ticketHeader, { backgroundColor: headerColor }]}
+            accessible
+            accessibilityLabel={`Order ${ticket.orderNumber}${ticket.label ? `, ${ticket.label}` : ''}, ${ticket.source === 'preorder' ? 'preorder' : 'in person'}, ${elapsed}`}
+          >
+            <Ionicons name={ticket.source === 'preorder' ? 'phone-portrait-outline' : 'storefront-outline'} size={16} color="#FFFFFF" />
+            <Text style={styles.ticketNumber} maxFontSizeMultiplier={1.3}>#{ticket.orderNumber}</Text>
+            <Text style={styles.ticketLabel} numberOfLines={1} maxFontSizeMultiplier={1.3}>{ticket.label || ''}</Text>
+            <Text style={styles.ticketElapsed} maxFontSizeMultiplier={1.3}>{elapsed}</Text>
+          </View>
+
+          <View style={styles.ticketBody}>
+            {ticket.items.map(item => (
+              <View key={item.id} style={styles.itemRow}>
+                <Text style={styles.itemQuantity} maxFontSizeMultiplier={1.3}>{item.quantity}</Text>
+                <View style={styles.itemDetails}>
+                  <Text style={styles.itemName} maxFontSizeMultiplier={1.3}>{item.name}</Text>
+                  {item.modifiers.map(modifier => (
+                    <Text key={modifier} style={styles.itemModifier} maxFontSizeMultiplier={1.3}>+ {modifier}</Text>
+                  ))}
+                  {item.notes ? (
+                    <Text style={styles.itemNotes} maxFontSizeMultiplier={1.3}>{item.notes}</Text>
+                  ) : null}
+                </View>
+              </View>
+            ))}
+            {ticket.notes ? (
+              <View style={styles.ticketNotes}>
+                <Ionicons name="document-text-outline" size={16} color={colors.warning} />
+                <Text style={styles.ticketNotesText} maxFontSizeMultiplier={1.3}>{ticket.notes}</Text>
+              </View>
+            ) : null}
+          </View>
+
+          <TouchableOpacity
+            style={styles.ticketButton}
+            onPress={() => statusMutation.mutate({
+              ticketId: ticket.id,
+              action,
+              itemIds: station ? ticket.items.map(item => item.id) : undefined,
+            })}
+            accessibilityRole="button"
+            accessibilityLabel={isOpen ? `Bump order ${ticket.orderNumber}` : `Recall order ${ticket.orderNumber}`}
+          >
+            <Ionicons name={isOpen ? 'checkmark-done' : 'arrow-undo'} size={20} color={colors.primary} />
+            <Text style={styles.ticketButtonText} maxFontSizeMultiplier={1.3}>{isOpen ? 'Bump' : 'Recall'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      {isLoading ? (
+        <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading tickets" />
+      ) : (
+        <>
+          <Ionicons name={view === 'open' ? 'restaurant-outline' : 'checkmark-done-outline'} size={64} color={colors.textMuted} />
+          <Text style={styles.emptyTitle} maxFontSizeMultiplier={1.3}>
+            {view === 'open' ? 'All Caught Up' : 'No Bumped Tickets'}
+          </Text>
+          <Text style={styles.emptySubtitle} maxFontSizeMultiplier={1.5}>
+            {view === 'open'
+              ? `New ${station ? `${station.name} ` : ''}tickets from the register and preorders will appear here.`
+              : 'Bumped tickets appear here so they can be recalled.'}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Kitchen</Text>
+        <View style={styles.headerRight}>
+          <View style={styles.viewToggle}>
+            {(['open', 'bumped'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.viewOption, view === option && styles.viewOptionActive]}
+                onPress={() => setView(option)}
+                accessibilityRole="button"
+                accessibilityLabel={option === 'open' ? 'Open tickets' : 'Bumped tickets'}
+                accessibilityState={{ selected: view === option }}
+              >
+                <Text style={[styles.viewOptionText, view === option && styles.viewOptionTextActive]} maxFontSizeMultiplier={1.3}>
+                  {option === 'open' ? 'Open' : 'Bumped'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {can('edit_catalog') && (
+            <TouchableOpacity
+              onPress={() => navigation.navigate('KitchenStations')}
+              accessibilityRole="button"
+              accessibilityLabel="Edit stations"
+            >
+              <Ionicons name="options-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {stations && stations.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.stationBar}
+          contentContainerStyle={styles.stationBarContent}
+        >
+          {[null, ...stations].map(s => {
+            const active = (s?.id ?? null) === (station?.id ?? null);
+            return (
+              <TouchableOpacity
+                key={s?.id ?? 'all'}
+                style={[styles.stationChip, active && styles.stationChipActive]}
+                onPress={() => selectStation(s?.id ?? null)}
+                accessibilityRole="button"
+                accessibilityLabel={s ? `${s.name} station` : 'All stations'}
+                accessibilityState={{ selected: active }}
+              >
+                <Text style={[styles.stationChipText, active && styles.stationChipTextActive]} maxFontSizeMultiplier={1.3}>
+                  {s ? s.name : 'All'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <FlatList
+        key={numColumns}
+        data={visibleTickets}
+        keyExtractor={(item) => item.id}
+        renderItem={renderTicket}
+        numColumns={numColumns}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingBottom: insets.bottom + 8 },
+          visibleTickets.length === 0 && styles.emptyListContent,
+        ]}
+        ListEmptyComponent={renderEmptyState}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />
+        }
+      />
+    </View>
+  );
+}
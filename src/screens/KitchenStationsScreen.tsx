@@ -0,0 +1,420 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useCatalog } from '../context/CatalogContext';
+import { kitchenApi, categoriesApi, KitchenStation, StationData } from '../lib/api';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+export function KitchenStationsScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { selectedCatalog } = useCatalog();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const catalogId = selectedCatalog?.id;
+
+  // null = not editing, 'new' = creating, otherwise the station being edited
+  const [editing, setEditing] = useState<KitchenStation | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+
+  const { data: stations, isLoading } = useQuery({
+    queryKey: ['kitchen-stations', catalogId],
+    queryFn: () => kitchenApi.listStations(catalogId!),
+    enabled: !!catalogId,
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ['categories', catalogId],
+    queryFn: () => categoriesApi.list(catalogId!),
+    enabled: !!catalogId,
+  });
+
+  const categoryName = (id: string) => categories?.find(c => c.id === id)?.name;
+
+  const startEditing = (station: KitchenStation | 'new') => {
+    setEditing(station);
+    setName(station === 'new' ? '' : station.name);
+    setCategoryIds(station === 'new' ? [] : station.categoryIds);
+  };
+
+  const stopEditing = () => {
+    setEditing(null);
+    setName('');
+    setCategoryIds([]);
+  };
+
+  const toggleCategory = (id: string) => {
+    setCategoryIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: StationData) =>
+      editing === 'new' || !editing
+        ? kitchenApi.createStation(catalogId!, data)
+        : kitchenApi.updateStation(catalogId!, editing.id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stations', catalogId] });
+      stopEditing();
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to save station');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (stationId: string) => kitchenApi.deleteStation(catalogId!, stationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-stations', catalogId] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to delete station');
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Give the station a name, e.g. "Grill" or "Drinks".');
+      return;
+    }
+    if (categoryIds.length === 0) {
+      Alert.alert('No Categories', 'Pick at least one category to send to this station.');
+      return;
+    }
+    saveMutation.mutate({ name: name.trim(), categoryIds });
+  };
+
+  const handleDelete = (station: KitchenStation) => {
+    Alert.alert(
+      'Delete Station',
+      `Delete ${station.name}? Devices showing this station will switch back to all tickets.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate(station.id),
+        },
+      ]
+    );
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    stationName: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    stationDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    deleteButton: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      gap: 12,
+    },
+    categoryName: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.text,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Kitchen Stations</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity
+            onPress={() => (editing ? stopEditing() : startEditing('new'))}
+            accessibilityRole="button"
+            accessibilityLabel={editing ? 'Cancel editing' : 'Add station'}
+          >
+            <Ionicons name={editing ? 'close' : 'add-circle-outline'} size={26} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {editing && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>
+              {editing === 'new' ? 'New Station' : `Edit ${editing.name}`}
+            </Text>
+            <View style={styles.card}>
+              <View style={styles.form}>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Station name (e.g. 'Grill')"
+                  placeholderTextColor={colors.textMuted}
+                  accessibilityLabel="Station name"
+                />
+                {(categories ?? []).map(category => {
+                  const selected = categoryIds.includes(category.id);
+                  return (
+                    <TouchableOpacity
+                      key={category.id}
+                      style={styles.categoryRow}
+                      onPress={() => toggleCategory(category.id)}
+                      accessibilityRole="checkbox"
+                      accessibilityLabel={category.name}
+                      accessibilityState={{ checked: selected }}
+                    >
+                      <Ionicons
+                        name={selected ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={selected ? colors.primary : colors.textMuted}
+                      />
+                      <Text style={styles.categoryName} maxFontSizeMultiplier={1.3}>{category.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={stopEditing}
+                    accessibilityRole="button"
+                    accessibilityLabel="Cancel"
+                  >
+                    <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, saveMutation.isPending && { opacity: 0.6 }]}
+                    onPress={handleSave}
+                    disabled={saveMutation.isPending}
+                    accessibilityRole="button"
+                    accessibilityLabel="Save station"
+                  >
+                    {saveMutation.isPending ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Stations</Text>
+          <View style={styles.card}>
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading stations" />
+              </View>
+            ) : !stations || stations.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="restaurant-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  No stations yet.{'\n'}Tap + to route categories like drinks or grill items to their own screen.
+                </Text>
+              </View>
+            ) : (
+              stations.map((station, index) => (
+                <React.Fragment key={station.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <TouchableOpacity
+                    style={styles.row}
+                    onPress={() => startEditing(station)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${station.name}. Tap to edit`}
+                  >
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.stationName} maxFontSizeMultiplier={1.3}>{station.name}</Text>
+                      <Text style={styles.stationDetail} numberOfLines={2} maxFontSizeMultiplier={1.5}>
+                        {station.categoryIds.map(categoryName).filter(Boolean).join(', ') || 'No categories'}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.deleteButton}
+                      onPress={() => handleDelete(station)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Delete ${station.name}`}
+                    >
+                      <Ionicons name="trash-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            Stations are shared by every device on this menu. Each kitchen screen picks which station it shows. Items in categories no station makes show on every station.
+          </Text>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
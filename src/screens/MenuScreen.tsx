@@ -16,6 +16,7 @@ import {
   TextInput,
   Alert,
   Dimensions,
+  Vibration,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Constants from 'expo-constants';
@@ -53,6 +54,7 @@ import {
   productsApi,
   Product,
   categoriesApi,
+  taxRatesApi,
   Category,
   CatalogLayoutType,
   catalogsApi,
@@ -60,19 +62,32 @@ import {
   libraryProductsApi,
   UpdateCatalogData,
   LibraryProduct,
+  OrderItemModifier,
+  ProductOptionGroup,
+  PriceRule,
+  UpdateCatalogProductData,
+  StockAdjustmentReason,
+  CreateLibraryProductData,
+  UpdateLibraryProductData,
 } from '../lib/api';
 import { formatCents } from '../utils/currency';
+import { isSoldOut, getRemainingStock } from '../utils/inventory';
+import { findProductByCode } from '../utils/barcodes';
+import { getProductPrice } from '../utils/schedules';
 import { openVendorDashboard } from '../lib/auth-handoff';
 import { SetupRequired } from '../components/SetupRequired';
 import { ProductModal } from '../components/ProductModal';
 import { CategoryManagerModal } from '../components/CategoryManagerModal';
 import { CatalogSettingsModal } from '../components/CatalogSettingsModal';
 import { ItemNotesModal } from '../components/ItemNotesModal';
+import { ProductOptionsModal } from '../components/ProductOptionsModal';
 import { StarBackground } from '../components/StarBackground';
 import { QuickChargeBottomSheet } from '../components/QuickChargeBottomSheet';
+import { PendingSyncIndicator } from '../components/PendingSyncIndicator';
+import { CodeScannerModal, ScanFeedback } from '../components/CodeScannerModal';
 import { glass } from '../lib/colors';
 import { shadows } from '../lib/shadows';
-import { useTapToPayGuard } from '../hooks';
+import { useTapToPayGuard, usePermissions } from '../hooks';
 
 const isWeb = Platform.OS === 'web';
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -517,11 +532,6 @@ const AnimatedPressable = memo(function AnimatedPressable({
   );
 });
 
-// Check if user can manage catalog (owner or admin)
-const canManageCatalog = (role: string | undefined): boolean => {
-  return role === 'owner' || role === 'admin';
-};
-
 export function MenuScreen() {
   const { colors, isDark } = useTheme();
   const navigation = useNavigation<any>();
@@ -529,8 +539,8 @@ export function MenuScreen() {
   const insets = useSafeAreaInsets();
   const glassColors = isDark ? glass.dark : glass.light;
   const { isLoading: authLoading, user, completeOnboarding, subscription, currency } = useAuth();
-  const { selectedCatalog, catalogs, isLoading: catalogsLoading, refreshCatalogs, setSelectedCatalog } = useCatalog();
-  const { addItem, getItemQuantity, decrementItem, itemCount, subtotal } = useCart();
+  const { selectedCatalog, catalogs, isLoading: catalogsLoading, refreshCatalogs, setSelectedCatalog, now, isSelectedCatalogAvailable } = useCatalog();
+  const { items: cartItems, addItem, getItemQuantity, decrementItem, itemCount, subtotal } = useCart();
   const { guardCheckout } = useTapToPayGuard();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -566,7 +576,10 @@ export function MenuScreen() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [notesModalVisible, setNotesModalVisible] = useState(false);
   const [notesProduct, setNotesProduct] = useState<Product | null>(null);
+  const [optionsProduct, setOptionsProduct] = useState<Product | null>(null);
   const [quickChargeVisible, setQuickChargeVisible] = useState(false);
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
   const [isManualRefreshing, setIsManualRefreshing] = useState(false);
 
   // Bulk selection state
@@ -574,7 +587,8 @@ export function MenuScreen() {
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
 
   // Check if user can manage catalog
-  const canManage = canManageCatalog(user?.role);
+  const { can } = usePermissions();
+  const canManage = can('edit_catalog');
 
   // Navigate new users to education screen (which now includes Enable step)
   React.useEffect(() => {
@@ -606,6 +620,14 @@ export function MenuScreen() {
     // Uses default staleTime (30s) - refetches on app foreground to catch updates missed while socket was disconnected
   });
 
+  // Named tax rates for the product editor
+  const { data: taxRates } = useQuery({
+    queryKey: ['tax-rates'],
+    queryFn: () => taxRatesApi.list(),
+    enabled: isEditMode,
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Library products for adding to catalog
   const { data: libraryProducts } = useQuery({
     queryKey: ['libraryProducts'],
@@ -655,6 +677,18 @@ export function MenuScreen() {
   useSocketEvent(SocketEvents.CATEGORY_UPDATED, handleCategoriesUpdate);
   useSocketEvent(SocketEvents.CATEGORY_DELETED, handleCategoriesUpdate);
   useSocketEvent(SocketEvents.CATEGORIES_REORDERED, handleCategoriesUpdate);
+  useSocketEvent(SocketEvents.INVENTORY_UPDATED, handleProductsUpdate);
+
+  // Let managers know when something is about to sell out
+  const handleLowStock = useCallback((data?: { catalogId?: string; productName?: string; stockQuantity?: number }) => {
+    handleProductsUpdate();
+    if (!canManage || !data || data.catalogId !== selectedCatalog?.id) return;
+    Alert.alert(
+      'Low Stock',
+      `${data.productName || 'A product'} is running low${data.stockQuantity != null ? ` (${data.stockQuantity} left)` : ''}.`
+    );
+  }, [handleProductsUpdate, canManage, selectedCatalog?.id]);
+  useSocketEvent(SocketEvents.INVENTORY_LOW_STOCK, handleLowStock);
 
   // ============================================================================
   // Mutations
@@ -662,7 +696,7 @@ export function MenuScreen() {
 
   // Create library product mutation
   const createLibraryProductMutation = useMutation({
-    mutationFn: async (data: { name: string; description?: string }) => {
+    mutationFn: async (data: CreateLibraryProductData) => {
       return libraryProductsApi.create(data);
     },
     onSuccess: () => {
@@ -672,7 +706,7 @@ export function MenuScreen() {
 
   // Update library product mutation
   const updateLibraryProductMutation = useMutation({
-    mutationFn: async ({ productId, data }: { productId: string; data: { name?: string; description?: string } }) => {
+    mutationFn: async ({ productId, data }: { productId: string; data: UpdateLibraryProductData }) => {
       return libraryProductsApi.update(productId, data);
     },
     onSuccess: () => {
@@ -698,12 +732,16 @@ export function MenuScreen() {
 
   // Add product to catalog mutation
   const addToCatalogMutation = useMutation({
-    mutationFn: async (data: { catalogId: string; productId: string; price: number; categoryId?: string | null; isActive?: boolean }) => {
+    mutationFn: async (data: { catalogId: string; productId: string; price: number; categoryId?: string | null; isActive?: boolean; stockQuantity?: number | null; lowStockThreshold?: number | null; hideWhenSoldOut?: boolean; priceRules?: PriceRule[] }) => {
       return catalogProductsApi.add(data.catalogId, {
         productId: data.productId,
         price: data.price,
         categoryId: data.categoryId,
         isActive: data.isActive,
+        stockQuantity: data.stockQuantity,
+        lowStockThreshold: data.lowStockThreshold,
+        hideWhenSoldOut: data.hideWhenSoldOut,
+        priceRules: data.priceRules,
       });
     },
     onSuccess: () => {
@@ -715,7 +753,7 @@ export function MenuScreen() {
 
   // Update catalog product mutation
   const updateCatalogProductMutation = useMutation({
-    mutationFn: async ({ catalogId, catalogProductId, data }: { catalogId: string; catalogProductId: string; data: { price?: number; categoryId?: string | null; isActive?: boolean } }) => {
+    mutationFn: async ({ catalogId, catalogProductId, data }: { catalogId: string; catalogProductId: string; data: UpdateCatalogProductData }) => {
       return catalogProductsApi.update(catalogId, catalogProductId, data);
     },
     onSuccess: () => {
@@ -725,6 +763,18 @@ export function MenuScreen() {
     },
   });
 
+  // Adjust stock on hand mutation
+  const adjustStockMutation = useMutation({
+    mutationFn: async ({ catalogId, catalogProductId, adjustment, reason }: { catalogId: string; catalogProductId: string; adjustment: number; reason: StockAdjustmentReason }) => {
+      return catalogProductsApi.adjustStock(catalogId, catalogProductId, { adjustment, reason });
+    },
+    onSuccess: () => {
+      if (selectedCatalog) {
+        queryClient.invalidateQueries({ queryKey: ['products', selectedCatalog.id] });
+      }
+    },
+  });
+
   // Remove product from catalog mutation
   const removeFromCatalogMutation = useMutation({
     mutationFn: async ({ catalogId, catalogProductId }: { catalogId: string; catalogProductId: string }) => {
@@ -826,9 +876,20 @@ export function MenuScreen() {
   const handleSaveProduct = async (data: {
     name: string;
     description: string;
+    sku: string;
+    upc: string;
     price: number;
     categoryId: string | null;
+    taxRateId: string | null;
     isActive: boolean;
+    optionGroups: ProductOptionGroup[];
+    priceRules: PriceRule[];
+    inventory: {
+      trackStock: boolean;
+      stockQuantity?: number; // only set when tracking starts
+      lowStockThreshold: number | null;
+      hideWhenSoldOut: boolean;
+    };
     image?: { uri: string; fileName: string; mimeType: string };
     removeImage?: boolean;
   }) => {
@@ -836,12 +897,16 @@ export function MenuScreen() {
 
     if (editingProduct) {
       // Update existing product
-      // First update the library product (name, description)
+      // First update the library product (name, description, codes, tax rate, option groups)
       await updateLibraryProductMutation.mutateAsync({
         productId: editingProduct.productId,
         data: {
           name: data.name,
           description: data.description || undefined,
+          sku: data.sku || null,
+          upc: data.upc || null,
+          taxRateId: data.taxRateId,
+          optionGroups: data.optionGroups,
         },
       });
 
@@ -855,14 +920,21 @@ export function MenuScreen() {
         });
       }
 
-      // Update catalog product (price, category, visibility)
+      // Update catalog product (price, price rules, category, visibility)
       await updateCatalogProductMutation.mutateAsync({
         catalogId: selectedCatalog.id,
         catalogProductId: editingProduct.id,
         data: {
           price: data.price,
+          priceRules: data.priceRules,
           categoryId: data.categoryId,
           isActive: data.isActive,
+          // Counts on tracked products only change through adjustStock so sales aren't overwritten
+          ...(!data.inventory.trackStock
+            ? { stockQuantity: null }
+            : data.inventory.stockQuantity !== undefined && { stockQuantity: data.inventory.stockQuantity }),
+          lowStockThreshold: data.inventory.trackStock ? data.inventory.lowStockThreshold : null,
+          hideWhenSoldOut: data.inventory.hideWhenSoldOut,
         },
       });
     } else {
@@ -871,6 +943,10 @@ export function MenuScreen() {
       const libraryProduct = await createLibraryProductMutation.mutateAsync({
         name: data.name,
         description: data.description || undefined,
+        sku: data.sku || undefined,
+        upc: data.upc || undefined,
+        taxRateId: data.taxRateId || undefined,
+        optionGroups: data.optionGroups.length > 0 ? data.optionGroups : undefined,
       });
 
       // Handle image
@@ -890,6 +966,10 @@ export function MenuScreen() {
         price: data.price,
         categoryId: data.categoryId,
         isActive: data.isActive,
+        stockQuantity: data.inventory.trackStock ? data.inventory.stockQuantity ?? 0 : null,
+        priceRules: data.priceRules.length > 0 ? data.priceRules : undefined,
+        lowStockThreshold: data.inventory.trackStock ? data.inventory.lowStockThreshold : null,
+        hideWhenSoldOut: data.inventory.hideWhenSoldOut,
       });
     }
 
@@ -897,6 +977,18 @@ export function MenuScreen() {
     refetch();
   };
 
+  // Returns the new stock count so the product modal can show it
+  const handleAdjustStock = async (adjustment: number, reason: StockAdjustmentReason): Promise<number | null> => {
+    if (!selectedCatalog || !editingProduct) return null;
+    const updated = await adjustStockMutation.mutateAsync({
+      catalogId: selectedCatalog.id,
+      catalogProductId: editingProduct.id,
+      adjustment,
+      reason,
+    });
+    return updated.stockQuantity;
+  };
+
   const handleDeleteProduct = (product: Product) => {
     Alert.alert(
       'Remove Product',
@@ -1084,7 +1176,10 @@ export function MenuScreen() {
   const filteredProducts = useMemo(() => {
     if (!products) return [];
     // In edit mode, show all products; otherwise only show active ones
-    let filtered = isEditMode ? products : products.filter((p) => p.isActive);
+    // (and drop sold-out products that are set to hide themselves)
+    let filtered = isEditMode
+      ? products
+      : products.filter((p) => p.isActive && !(p.hideWhenSoldOut && isSoldOut(p)));
 
     // Filter by category
     if (selectedCategory) {
@@ -1096,7 +1191,9 @@ export function MenuScreen() {
       const query = searchQuery.toLowerCase().trim();
       filtered = filtered.filter((p) =>
         p.name.toLowerCase().includes(query) ||
-        (p.description && p.description.toLowerCase().includes(query))
+        (p.description && p.description.toLowerCase().includes(query)) ||
+        (p.sku && p.sku.toLowerCase().includes(query)) ||
+        (p.upc && p.upc.includes(query))
       );
     }
 
@@ -1148,11 +1245,65 @@ export function MenuScreen() {
   const handleAddToCart = (product: Product) => {
     if (isEditMode) {
       handleOpenProductModal(product);
+    } else if (getRemainingStock(product, getItemQuantity(product.id)) <= 0) {
+      Alert.alert(
+        isSoldOut(product) ? 'Sold Out' : 'Not Enough Stock',
+        isSoldOut(product)
+          ? `${product.name} is sold out.`
+          : `Only ${product.stockQuantity} ${product.name} left, and they're all in the cart.`
+      );
+    } else if (product.optionGroups.length > 0) {
+      // Products with option groups need a size/milk/etc. choice before adding
+      setOptionsProduct(product);
     } else {
       addItem(product);
     }
   };
 
+  const handleCloseScanner = () => {
+    setScannerVisible(false);
+    setScanFeedback(null);
+  };
+
+  // Scan-to-cart: the scanner stays open so several items can be scanned in a row
+  const handleScanCode = (code: string) => {
+    const product = findProductByCode((products || []).filter(p => p.isActive), code);
+    if (!product) {
+      Vibration.vibrate(200);
+      setScanFeedback({ message: `No product in this menu matches ${code}`, isError: true });
+      return;
+    }
+    if (getRemainingStock(product, getItemQuantity(product.id)) <= 0) {
+      Vibration.vibrate(200);
+      setScanFeedback({ message: isSoldOut(product) ? `${product.name} is sold out` : `No more ${product.name} in stock`, isError: true });
+      return;
+    }
+    if (product.optionGroups.length > 0) {
+      // Options need a choice, so hand over to the options modal
+      handleCloseScanner();
+      setOptionsProduct(product);
+      return;
+    }
+    Vibration.vibrate(10);
+    addItem(product);
+    setScanFeedback({ message: `Added ${product.name} · ${formatCents(product.price, currency)}`, isError: false });
+  };
+
+  // Products with options/notes live on separate cart lines - decrement the most recently added one
+  const handleDecrementProduct = (product: Product) => {
+    const lines = cartItems.filter(i => i.product.id === product.id);
+    if (lines.length > 0) {
+      decrementItem(lines[lines.length - 1].cartKey);
+    }
+  };
+
+  const handleAddWithOptions = (modifiers: OrderItemModifier[]) => {
+    if (optionsProduct) {
+      addItem(optionsProduct, 1, undefined, modifiers);
+    }
+    setOptionsProduct(null);
+  };
+
   // Long-press opens notes modal
   const handleProductLongPress = (product: Product) => {
     if (!isEditMode) {
@@ -1183,7 +1334,10 @@ export function MenuScreen() {
   const renderProduct = ({ item, drag, isActive: isDragging }: RenderItemParams<Product>) => {
     const quantity = getItemQuantity(item.id);
     const isInactive = !item.isActive;
+    const soldOut = isSoldOut(item);
     const isSelected = selectedProducts.has(item.id);
+    // Editing shows the regular price, selling shows what the cart will charge right now
+    const price = isEditMode ? item.price : getProductPrice(item, now);
 
     // Handle press based on mode
     const handlePress = () => {
@@ -1247,11 +1401,15 @@ export function MenuScreen() {
       </View>
     ) : null;
 
-    // Inactive badge
+    // Inactive badge (sold out takes precedence outside edit mode)
     const inactiveBadge = isInactive && isEditMode ? (
       <View style={styles.inactiveBadge}>
         <Text maxFontSizeMultiplier={1.5} style={styles.inactiveBadgeText}>Hidden</Text>
       </View>
+    ) : soldOut ? (
+      <View style={[styles.inactiveBadge, styles.soldOutBadge]}>
+        <Text maxFontSizeMultiplier={1.5} style={styles.inactiveBadgeText}>Sold Out</Text>
+      </View>
     ) : null;
 
     // List layout - horizontal card with image on left
@@ -1260,13 +1418,13 @@ export function MenuScreen() {
         <AnimatedPressable
           style={[
             styles.listCard,
-            isInactive && isEditMode && styles.cardInactive,
+            (isInactive && isEditMode || soldOut && !isEditMode) && styles.cardInactive,
             isSelected && styles.cardSelected,
             isDragging && styles.cardDragging,
           ]}
           onPress={handlePress}
           onLongPress={supportsDragAndDrop ? undefined : () => undefined /* handleProductLongPress(item) - COMMENTED FOR DEBUGGING */}
-          accessibilityLabel={`${item.name}, ${formatCents(item.price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}`}
+          accessibilityLabel={`${item.name}, ${formatCents(price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}${soldOut ? ', sold out' : ''}`}
           accessibilityHint={isEditMode ? 'Tap to edit product' : 'Tap to add to cart'}
         >
           {dragHandle}
@@ -1292,7 +1450,7 @@ export function MenuScreen() {
                     <>
                       <TouchableOpacity
                         style={styles.listQuantityDecrementButton}
-                        onPress={() => decrementItem(item.id)}
+                        onPress={() => handleDecrementProduct(item)}
                         accessibilityRole="button"
                         accessibilityLabel={`Remove one ${item.name} from cart`}
                       >
@@ -1329,7 +1487,7 @@ export function MenuScreen() {
               </Text>
             ) : null}
             <Text maxFontSizeMultiplier={1.3} style={styles.listPrice}>
-              {formatCents(item.price, currency)}
+              {formatCents(price, currency)}
             </Text>
           </View>
           {isSelectionMode ? null : isEditMode ? editOverlay : null}
@@ -1346,13 +1504,13 @@ export function MenuScreen() {
         <AnimatedPressable
           style={[
             styles.largeCard,
-            isInactive && isEditMode && styles.cardInactive,
+            (isInactive && isEditMode || soldOut && !isEditMode) && styles.cardInactive,
             isSelected && styles.cardSelected,
             isDragging && styles.cardDragging,
           ]}
           onPress={handlePress}
           onLongPress={supportsDragAndDrop ? undefined : () => undefined /* handleProductLongPress(item) - COMMENTED FOR DEBUGGING */}
-          accessibilityLabel={`${item.name}, ${formatCents(item.price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}`}
+          accessibilityLabel={`${item.name}, ${formatCents(price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}${soldOut ? ', sold out' : ''}`}
           accessibilityHint={isEditMode ? 'Tap to edit product' : 'Tap to add to cart'}
         >
           {dragHandle}
@@ -1381,7 +1539,7 @@ export function MenuScreen() {
             </View>
             <View style={styles.largePriceRow}>
               <Text maxFontSizeMultiplier={1.2} style={styles.largePrice}>
-                {formatCents(item.price, currency)}
+                {formatCents(price, currency)}
               </Text>
               {!isEditMode && !isSelectionMode && (
                 <View style={styles.largeQuantityControls}>
@@ -1389,7 +1547,7 @@ export function MenuScreen() {
                     <>
                       <TouchableOpacity
                         style={styles.largeQuantityDecrementButton}
-                        onPress={() => decrementItem(item.id)}
+                        onPress={() => handleDecrementProduct(item)}
                         accessibilityRole="button"
                         accessibilityLabel={`Remove one ${item.name} from cart`}
                       >
@@ -1434,13 +1592,13 @@ export function MenuScreen() {
         <AnimatedPressable
           style={[
             styles.compactCard,
-            isInactive && isEditMode && styles.cardInactive,
+            (isInactive && isEditMode || soldOut && !isEditMode) && styles.cardInactive,
             isSelected && styles.cardSelected,
             isDragging && styles.cardDragging,
           ]}
           onPress={handlePress}
           onLongPress={supportsDragAndDrop ? undefined : () => undefined /* handleProductLongPress(item) - COMMENTED FOR DEBUGGING */}
-          accessibilityLabel={`${item.name}, ${formatCents(item.price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}`}
+          accessibilityLabel={`${item.name}, ${formatCents(price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}${soldOut ? ', sold out' : ''}`}
           accessibilityHint={isEditMode ? 'Tap to edit product' : 'Tap to add to cart'}
         >
           {supportsDragAndDrop && (
@@ -1470,9 +1628,14 @@ export function MenuScreen() {
                 <Text maxFontSizeMultiplier={1.5} style={styles.compactHiddenText}>Hidden</Text>
               </View>
             )}
+            {soldOut && !isSelectionMode && (
+              <View style={[styles.compactHiddenBadge, styles.compactSoldOutBadge]}>
+                <Text maxFontSizeMultiplier={1.5} style={[styles.compactHiddenText, styles.compactSoldOutText]}>Sold Out</Text>
+              </View>
+            )}
           </View>
           <Text maxFontSizeMultiplier={1.3} style={styles.compactPrice}>
-            {formatCents(item.price, currency)}
+            {formatCents(price, currency)}
           </Text>
           {isSelectionMode ? null : isEditMode ? (
             <View style={styles.compactEditActions}>
@@ -1499,7 +1662,7 @@ export function MenuScreen() {
                 <>
                   <TouchableOpacity
                     style={styles.compactQuantityDecrementButton}
-                    onPress={() => decrementItem(item.id)}
+                    onPress={() => handleDecrementProduct(item)}
                     accessibilityRole="button"
                     accessibilityLabel={`Remove one ${item.name} from cart`}
                   >
@@ -1541,12 +1704,12 @@ export function MenuScreen() {
       <AnimatedPressable
         style={[
           styles.productCard,
-          isInactive && isEditMode && styles.cardInactive,
+          (isInactive && isEditMode || soldOut && !isEditMode) && styles.cardInactive,
           isSelected && styles.cardSelected,
         ]}
         onPress={handlePress}
         onLongPress={() => undefined /* handleProductLongPress(item) - COMMENTED FOR DEBUGGING */}
-        accessibilityLabel={`${item.name}, ${formatCents(item.price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}`}
+        accessibilityLabel={`${item.name}, ${formatCents(price, currency)}${quantity > 0 ? `, ${quantity} in cart` : ''}${isInactive && isEditMode ? ', hidden' : ''}${soldOut ? ', sold out' : ''}`}
         accessibilityHint={isEditMode ? 'Tap to edit product' : 'Tap to add to cart'}
       >
         {selectionCheckbox}
@@ -1567,7 +1730,7 @@ export function MenuScreen() {
           </Text>
           <View style={styles.productPriceRow}>
             <Text maxFontSizeMultiplier={1.3} style={styles.productPrice}>
-              {formatCents(item.price, currency)}
+              {formatCents(price, currency)}
             </Text>
             {!isEditMode && !isSelectionMode && (
               <View style={styles.quantityControls}>
@@ -1575,7 +1738,7 @@ export function MenuScreen() {
                   <>
                     <TouchableOpacity
                       style={styles.quantityDecrementButton}
-                      onPress={() => decrementItem(item.id)}
+                      onPress={() => handleDecrementProduct(item)}
                       accessibilityRole="button"
                       accessibilityLabel={`Remove one ${item.name} from cart`}
                     >
@@ -1818,6 +1981,18 @@ export function MenuScreen() {
               ) : null}
             </View>
             <View style={styles.headerButtons}>
+              {!isEditMode && (
+                <TouchableOpacity
+                  style={styles.searchButton}
+                  onPress={() => setScannerVisible(true)}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel="Scan barcodes"
+                  accessibilityHint="Scan product barcodes to add them to the cart"
+                >
+                  <Ionicons name="barcode-outline" size={20} color={colors.text} />
+                </TouchableOpacity>
+              )}
               {!isEditMode && (
                 <TouchableOpacity
                   style={styles.searchButton}
@@ -1859,6 +2034,19 @@ export function MenuScreen() {
         )}
       </View>
 
+      {/* Offline orders waiting to sync */}
+      <PendingSyncIndicator />
+
+      {/* Menu picked outside its scheduled hours */}
+      {!isSelectedCatalogAvailable && !isEditMode && (
+        <View style={styles.scheduleNotice} accessibilityRole="alert">
+          <Ionicons name="time-outline" size={16} color={colors.warning} />
+          <Text maxFontSizeMultiplier={1.5} style={styles.scheduleNoticeText}>
+            This menu is outside its scheduled hours
+          </Text>
+        </View>
+      )}
+
       {/* Category Pills */}
       {activeCategories.length > 0 && (
         <View style={styles.categorySection}>
@@ -2046,8 +2234,10 @@ export function MenuScreen() {
         visible={productModalVisible}
         product={editingProduct}
         categories={categories || []}
+        taxRates={taxRates || []}
         catalogId={selectedCatalog.id}
         onSave={handleSaveProduct}
+        onAdjustStock={handleAdjustStock}
         onClose={handleCloseProductModal}
         onOpenCategoryManager={() => {
           // Don't close ProductModal - show CategoryManager on top
@@ -2072,7 +2262,7 @@ export function MenuScreen() {
         catalog={selectedCatalog}
         onSave={handleSaveCatalog}
         onDuplicate={subscription?.tier !== 'starter' && subscription?.tier !== 'free' ? handleDuplicateCatalog : undefined}
-        onDelete={user?.role === 'owner' ? handleDeleteCatalog : undefined}
+        onDelete={can('delete_catalog') ? handleDeleteCatalog : undefined}
         onClose={() => setCatalogSettingsVisible(false)}
       />
 
@@ -2084,6 +2274,25 @@ export function MenuScreen() {
           onCancel={handleCancelNotes}
         />
 
+        {/* Product Options Modal (for products with option groups) */}
+        <ProductOptionsModal
+          visible={!!optionsProduct}
+          product={optionsProduct}
+          onConfirm={handleAddWithOptions}
+          onCancel={() => setOptionsProduct(null)}
+        />
+
+        {/* Barcode Scanner (scan-to-cart) */}
+        <CodeScannerModal
+          visible={scannerVisible}
+          title={itemCount > 0 ? `Scan Items · ${itemCount} in cart` : 'Scan Items'}
+          hint="Scan product barcodes or SKU labels"
+          continuous
+          feedback={scanFeedback}
+          onScan={handleScanCode}
+          onClose={handleCloseScanner}
+        />
+
         {/* Quick Charge Bottom Sheet */}
         <QuickChargeBottomSheet
           visible={quickChargeVisible}
@@ -2365,6 +2574,9 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, cardWidth: nu
       fontWeight: '600',
       color: '#fff',
     },
+    soldOutBadge: {
+      backgroundColor: colors.error,
+    },
     // List layout styles with glass effect
     listCard: {
       width: cardWidth,
@@ -2616,6 +2828,12 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, cardWidth: nu
       fontWeight: '500',
       color: colors.textMuted,
     },
+    compactSoldOutBadge: {
+      backgroundColor: colors.errorBg,
+    },
+    compactSoldOutText: {
+      color: colors.error,
+    },
     compactPrice: {
       fontSize: 17,
       fontWeight: '700',
@@ -2701,6 +2919,23 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, cardWidth: nu
       color: '#fff',
     },
     // Search results styles
+    scheduleNotice: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginHorizontal: GRID_PADDING,
+      marginTop: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+      backgroundColor: colors.warning + '20',
+    },
+    scheduleNoticeText: {
+      flex: 1,
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.warning,
+    },
     searchResultsBar: {
       paddingHorizontal: GRID_PADDING,
       paddingVertical: 8,
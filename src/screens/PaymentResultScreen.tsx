@@ -24,12 +24,14 @@ import { config } from '../lib/config';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context/CartContext';
+import { usePrinters } from '../context/PrinterContext';
 import { formatCents } from '../utils/currency';
 import { fonts } from '../lib/fonts';
 import { glass } from '../lib/colors';
 import { shadows } from '../lib/shadows';
 import { useQueryClient } from '@tanstack/react-query';
-import { stripeTerminalApi, ordersApi, preordersApi } from '../lib/api';
+import { stripeTerminalApi, ordersApi, preordersApi, CreateOrderParams } from '../lib/api';
+import { receiptFromOrder, ReceiptData } from '../lib/printer';
 import logger from '../lib/logger';
 import { isValidEmail } from '../lib/validation';
 import { StarBackground } from '../components/StarBackground';
@@ -47,12 +49,16 @@ type RouteParams = {
     errorMessage?: string;
     skipToCardEntry?: boolean; // Go directly to card entry page
     preorderId?: string; // If present, complete the preorder on success
+    offline?: boolean; // Cash sale queued in the offline outbox - no server order yet
+    offlineOrder?: CreateOrderParams; // the queued order, so it can still be printed
+    cashTendered?: number; // cash payments, in cents
+    changeAmount?: number;
   };
 };
 
 export function PaymentResultScreen() {
   const { colors, isDark } = useTheme();
-  const { currency } = useAuth();
+  const { currency, organization } = useAuth();
   const navigation = useNavigation<any>();
   const route = useRoute<RouteProp<RouteParams, 'PaymentResult'>>();
   const glassColors = isDark ? glass.dark : glass.light;
@@ -61,7 +67,8 @@ export function PaymentResultScreen() {
   const insets = useSafeAreaInsets();
 
   const queryClient = useQueryClient();
-  const { success, amount, paymentIntentId, orderId, orderNumber, customerEmail, errorMessage, skipToCardEntry, preorderId } = route.params;
+  const { success, amount, paymentIntentId, orderId, orderNumber, customerEmail, errorMessage, skipToCardEntry, preorderId, offline, offlineOrder, cashTendered, changeAmount } = route.params;
+  const { printers, printOrder } = usePrinters();
 
   // Dynamic font sizes based on screen width (accounting for 24px padding on each side)
   const amountText = formatCents(amount, currency);
@@ -75,6 +82,12 @@ export function PaymentResultScreen() {
   const [sendingReceipt, setSendingReceipt] = useState(false);
   const [showEmailInput, setShowEmailInput] = useState(false);
 
+  // Print state
+  const [printing, setPrinting] = useState(false);
+  const autoPrintedRef = useRef(false);
+  const canPrint = success && printers.length > 0 && (!!orderId || !!offlineOrder);
+  const canPrintReceipt = canPrint && printers.some(p => p.printReceipts);
+
   // Manual card entry state - fallback when Tap to Pay fails
   const [showCardEntry, setShowCardEntry] = useState(false);
   const [cardDetails, setCardDetails] = useState<CardFieldInput.Details | null>(null);
@@ -125,6 +138,68 @@ export function PaymentResultScreen() {
     }
   }, [success, preorderId, paymentIntentId, queryClient]);
 
+  // Build receipt data from the server order, or from the queued params for an offline sale
+  const loadReceiptData = async (): Promise<ReceiptData | null> => {
+    const extras = {
+      businessName: organization?.name || '',
+      dateLabel: new Date().toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+      cashTendered,
+      changeAmount,
+    };
+    if (offlineOrder) {
+      // No order number until the outbox syncs - use the start of the client ID so tickets can be matched up
+      return receiptFromOrder(offlineOrder, {
+        ...extras,
+        orderNumber: offlineOrder.clientOrderId?.slice(0, 6).toUpperCase(),
+      });
+    }
+    if (!orderId) return null;
+    const order = await ordersApi.get(orderId);
+    return receiptFromOrder(order, extras);
+  };
+
+  // Auto-print receipts and kitchen tickets on printers set to print after payment
+  useEffect(() => {
+    if (!canPrint || autoPrintedRef.current || !printers.some(p => p.autoPrint)) return;
+    autoPrintedRef.current = true;
+
+    const autoPrint = async () => {
+      try {
+        const data = await loadReceiptData();
+        if (!data) return;
+        const result = await printOrder(data, { autoOnly: true });
+        if (result.failed.length > 0) {
+          Alert.alert(
+            'Print Failed',
+            `Could not print to ${result.failed.map(f => f.printer.name).join(', ')}. You can try again with Print Receipt.`
+          );
+        }
+      } catch (error) {
+        logger.error('[PaymentResult] Failed to auto-print:', error);
+      }
+    };
+    autoPrint();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canPrint, printers]);
+
+  const handlePrint = async () => {
+    setPrinting(true);
+    try {
+      const data = await loadReceiptData();
+      if (!data) return;
+      // The kitchen already has its ticket, so a reprint is for the customer only
+      const result = await printOrder(data, { receiptOnly: true });
+      if (result.failed.length > 0) {
+        Alert.alert('Print Failed', result.failed.map(f => `${f.printer.name}: ${f.error}`).join('\n'));
+      }
+    } catch (error: any) {
+      logger.error('[PaymentResult] Failed to print:', error);
+      Alert.alert('Error', error.message || 'Failed to load the order for printing.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   // Animations
   const scaleAnim = useRef(new Animated.Value(0)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -566,15 +641,24 @@ export function PaymentResultScreen() {
                 {orderNumber && (
                   <Text style={styles.orderNumber} maxFontSizeMultiplier={1.5}>Order #{orderNumber}</Text>
                 )}
-                <View style={styles.successBadge} accessibilityRole="text" accessibilityLabel={receiptSent ? 'Receipt sent' : 'Transaction completed'}>
-                  <Ionicons name="shield-checkmark" size={18} color={colors.success} />
-                  <Text style={styles.successBadgeText} maxFontSizeMultiplier={1.5}>
-                    {receiptSent ? 'Receipt sent' : 'Transaction completed'}
-                  </Text>
-                </View>
+                {offline ? (
+                  <View style={styles.offlineBadge} accessibilityRole="text" accessibilityLabel="Saved offline, will sync when back online">
+                    <Ionicons name="cloud-offline-outline" size={18} color={colors.warning} />
+                    <Text style={styles.offlineBadgeText} maxFontSizeMultiplier={1.5}>
+                      Saved offline · will sync when back online
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={styles.successBadge} accessibilityRole="text" accessibilityLabel={receiptSent ? 'Receipt sent' : 'Transaction completed'}>
+                    <Ionicons name="shield-checkmark" size={18} color={colors.success} />
+                    <Text style={styles.successBadgeText} maxFontSizeMultiplier={1.5}>
+                      {receiptSent ? 'Receipt sent' : 'Transaction completed'}
+                    </Text>
+                  </View>
+                )}
 
-                {/* Receipt Section */}
-                {!receiptSent && !showEmailInput && (
+                {/* Receipt Section - unavailable until an offline order has synced */}
+                {!offline && !receiptSent && !showEmailInput && (
                   <TouchableOpacity
                     style={styles.receiptButton}
                     onPress={() => setShowEmailInput(true)}
@@ -587,6 +671,24 @@ export function PaymentResultScreen() {
                   </TouchableOpacity>
                 )}
 
+                {canPrintReceipt && (
+                  <TouchableOpacity
+                    style={[styles.receiptButton, printing && styles.sendButtonDisabled]}
+                    onPress={handlePrint}
+                    disabled={printing}
+                    accessibilityRole="button"
+                    accessibilityLabel={printing ? 'Printing receipt' : 'Print receipt'}
+                    accessibilityState={{ disabled: printing }}
+                  >
+                    {printing ? (
+                      <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Printing" />
+                    ) : (
+                      <Ionicons name="print-outline" size={20} color={colors.primary} />
+                    )}
+                    <Text style={styles.receiptButtonText} maxFontSizeMultiplier={1.3}>Print Receipt</Text>
+                  </TouchableOpacity>
+                )}
+
                 {showEmailInput && (
                   <View style={styles.emailInputContainer}>
                     <TextInput
@@ -811,6 +913,22 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, success: bool
       fontFamily: fonts.medium,
       color: colors.success,
     },
+    offlineBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      backgroundColor: colors.warningBg,
+      paddingVertical: 12,
+      paddingHorizontal: 20,
+      borderRadius: 9999,
+      borderWidth: 1,
+      borderColor: colors.warning + '30',
+    },
+    offlineBadgeText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.warning,
+    },
     receiptButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,333 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { stripeConnectApi, PayoutDetail, PayoutTransaction, ApiError } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { formatPayoutDate, getPayoutStatusLabel, getPayoutTransactionTypeLabel } from '../utils/payouts';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+type PayoutDetailParams = {
+  PayoutDetail: {
+    id: string;
+  };
+};
+
+export function PayoutDetailScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<PayoutDetailParams, 'PayoutDetail'>>();
+  const insets = useSafeAreaInsets();
+
+  const { data: payout, isLoading, error } = useQuery<PayoutDetail, ApiError>({
+    queryKey: ['connect-payout', route.params.id],
+    queryFn: () => stripeConnectApi.getPayout(route.params.id),
+  });
+
+  const openTransaction = (item: PayoutTransaction) => {
+    if (!item.transactionId) return;
+    navigation.navigate('MainTabs', {
+      screen: 'History',
+      params: { screen: 'TransactionDetail', params: { id: item.transactionId } },
+    });
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    hero: {
+      alignItems: 'center',
+      paddingVertical: 24,
+    },
+    heroAmount: {
+      fontSize: 34,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    heroDetail: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    failure: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.error,
+      marginTop: 8,
+      textAlign: 'center',
+      paddingHorizontal: 24,
+    },
+    section: {
+      marginTop: 8,
+      marginBottom: 16,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    summaryLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    summaryValue: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    summaryTotal: {
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    summaryTotalText: {
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    itemTitle: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    itemDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    itemRight: {
+      alignItems: 'flex-end',
+    },
+    itemNet: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    itemFee: {
+      fontSize: 12,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    chevron: {
+      marginLeft: 6,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+  });
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <Ionicons name="chevron-back" size={22} color={colors.text} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Payout</Text>
+    </View>
+  );
+
+  if (isLoading || !payout) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyState}>
+          {error ? (
+            <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+              {error.error || 'Failed to load payout'}
+            </Text>
+          ) : (
+            <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading payout" />
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  const money = (cents: number) => formatCents(cents, payout.currency);
+
+  return (
+    <View style={styles.container}>
+      {renderHeader()}
+      <ScrollView style={styles.content}>
+        <View style={styles.hero}>
+          <Text style={styles.heroAmount} maxFontSizeMultiplier={1.2}>{money(payout.amount)}</Text>
+          <Text style={styles.heroDetail} maxFontSizeMultiplier={1.5}>
+            {getPayoutStatusLabel(payout.status)} · {payout.status === 'paid' ? 'arrived' : 'arrives'} {formatPayoutDate(payout.arrivalDate)}
+          </Text>
+          {payout.last4 && (
+            <Text style={styles.heroDetail} maxFontSizeMultiplier={1.5}>
+              {payout.bankName || 'Bank account'} ••{payout.last4}{payout.method === 'instant' ? ' · Instant' : ''}
+            </Text>
+          )}
+          {payout.failureMessage && (
+            <Text style={styles.failure} maxFontSizeMultiplier={1.5}>{payout.failureMessage}</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Summary</Text>
+          <View style={styles.card}>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>Gross sales</Text>
+              <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>{money(payout.grossAmount)}</Text>
+            </View>
+            {payout.refundAmount > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>Refunds</Text>
+                <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>-{money(payout.refundAmount)}</Text>
+              </View>
+            )}
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>Processing fees</Text>
+              <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>-{money(payout.feeAmount)}</Text>
+            </View>
+            <View style={[styles.summaryRow, styles.summaryTotal]}>
+              <Text style={[styles.summaryLabel, styles.summaryTotalText]} maxFontSizeMultiplier={1.5}>Paid out</Text>
+              <Text style={[styles.summaryValue, styles.summaryTotalText]} maxFontSizeMultiplier={1.5}>{money(payout.amount)}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>
+            Transactions ({payout.transactions.length})
+          </Text>
+          <View style={styles.card}>
+            {payout.transactions.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>No transactions in this payout</Text>
+              </View>
+            ) : (
+              payout.transactions.map((item, index) => (
+                <React.Fragment key={item.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <TouchableOpacity
+                    style={styles.row}
+                    onPress={() => openTransaction(item)}
+                    disabled={!item.transactionId}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${getPayoutTransactionTypeLabel(item.type)} ${money(item.amount)}, fee ${money(item.fee)}, net ${money(item.net)}`}
+                    accessibilityHint={item.transactionId ? 'View transaction details' : undefined}
+                  >
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.itemTitle} maxFontSizeMultiplier={1.3} numberOfLines={1}>
+                        {item.description || getPayoutTransactionTypeLabel(item.type)}
+                      </Text>
+                      <Text style={styles.itemDetail} maxFontSizeMultiplier={1.5}>
+                        {getPayoutTransactionTypeLabel(item.type)} · {formatPayoutDate(item.created)}
+                      </Text>
+                    </View>
+                    <View style={styles.itemRight}>
+                      <Text style={styles.itemNet} maxFontSizeMultiplier={1.3}>{money(item.net)}</Text>
+                      {item.fee !== 0 && (
+                        <Text style={styles.itemFee} maxFontSizeMultiplier={1.5}>
+                          {money(item.amount)} − {money(item.fee)} fee
+                        </Text>
+                      )}
+                    </View>
+                    {item.transactionId && (
+                      <Ionicons name="chevron-forward" size={16} color={colors.textMuted} style={styles.chevron} />
+                    )}
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
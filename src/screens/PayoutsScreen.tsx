@@ -0,0 +1,495 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
+import { stripeConnectApi, Payout, PayoutStatus } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { formatPayoutSchedule, formatPayoutDate, getPayoutStatusLabel } from '../utils/payouts';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+type FeeRange = 'week' | 'month' | 'quarter';
+
+const FEE_RANGES: { key: FeeRange; label: string; days: number }[] = [
+  { key: 'week', label: 'Last 7 Days', days: 7 },
+  { key: 'month', label: 'Last 30 Days', days: 30 },
+  { key: 'quarter', label: 'Last 90 Days', days: 90 },
+];
+
+const PAYOUTS_PAGE_SIZE = 20;
+
+// [from, to) covering the last `days` days including today, in local time
+function getFeeRange(days: number): { from: string; to: string } {
+  const to = new Date();
+  to.setHours(0, 0, 0, 0);
+  to.setDate(to.getDate() + 1);
+  const from = new Date(to);
+  from.setDate(from.getDate() - days);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+export function PayoutsScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+
+  const [feeRange, setFeeRange] = useState<FeeRange>('month');
+  const canView = can('manage_business');
+
+  const { data: balance, isLoading: balanceLoading, refetch: refetchBalance, isRefetching } = useQuery({
+    queryKey: ['connect-balance'],
+    queryFn: stripeConnectApi.getBalance,
+    enabled: canView,
+  });
+
+  const feeParams = useMemo(
+    () => getFeeRange(FEE_RANGES.find(r => r.key === feeRange)!.days),
+    [feeRange]
+  );
+  const { data: fees, isLoading: feesLoading, refetch: refetchFees } = useQuery({
+    queryKey: ['connect-fees', feeParams.from, feeParams.to],
+    queryFn: () => stripeConnectApi.getFeeSummary(feeParams),
+    enabled: canView,
+  });
+
+  const {
+    data: payoutPages,
+    isLoading: payoutsLoading,
+    refetch: refetchPayouts,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['connect-payouts'],
+    queryFn: ({ pageParam }) => stripeConnectApi.listPayouts({ limit: PAYOUTS_PAGE_SIZE, starting_after: pageParam }),
+    getNextPageParam: (lastPage) => {
+      if (!lastPage.hasMore || lastPage.data.length === 0) return undefined;
+      return lastPage.data[lastPage.data.length - 1].id;
+    },
+    initialPageParam: undefined as string | undefined,
+    enabled: canView,
+  });
+
+  const payouts = payoutPages?.pages.flatMap(page => page.data) || [];
+  const balanceCurrency = balance?.currency || currency;
+
+  const handleRefresh = () => {
+    refetchBalance();
+    refetchFees();
+    refetchPayouts();
+  };
+
+  const getStatusColor = (status: PayoutStatus) => {
+    switch (status) {
+      case 'paid':
+        return colors.success;
+      case 'pending':
+      case 'in_transit':
+        return colors.warning;
+      default:
+        return colors.error;
+    }
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    balanceRow: {
+      flexDirection: 'row',
+    },
+    balanceCell: {
+      flex: 1,
+      padding: 16,
+    },
+    balanceDivider: {
+      width: 1,
+      backgroundColor: cardBorder,
+    },
+    balanceLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    balanceAmount: {
+      fontSize: 24,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      marginTop: 4,
+    },
+    pendingAmount: {
+      color: colors.textSecondary,
+    },
+    scheduleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    scheduleText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    chipActive: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: fonts.semiBold,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    summaryLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    summaryValue: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    summaryTotal: {
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    summaryTotalText: {
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    payoutAmount: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    payoutDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    statusText: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      marginRight: 8,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    loadMore: {
+      alignItems: 'center',
+      paddingVertical: 14,
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    loadMoreText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
+  });
+
+  const renderPayout = (payout: Payout, index: number) => (
+    <React.Fragment key={payout.id}>
+      {index > 0 && <View style={styles.divider} />}
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => navigation.navigate('PayoutDetail', { id: payout.id })}
+        accessibilityRole="button"
+        accessibilityLabel={`Payout ${formatCents(payout.amount, payout.currency)}, ${getPayoutStatusLabel(payout.status)}, arriving ${formatPayoutDate(payout.arrivalDate)}`}
+        accessibilityHint="View the transactions in this payout"
+      >
+        <View style={styles.rowLeft}>
+          <Text style={styles.payoutAmount} maxFontSizeMultiplier={1.3}>{formatCents(payout.amount, payout.currency)}</Text>
+          <Text style={styles.payoutDetail} maxFontSizeMultiplier={1.5} numberOfLines={1}>
+            {payout.status === 'paid' ? 'Arrived' : 'Arrives'} {formatPayoutDate(payout.arrivalDate)}
+            {payout.last4 ? ` · ${payout.bankName || 'Bank'} ••${payout.last4}` : ''}
+          </Text>
+        </View>
+        <Text style={[styles.statusText, { color: getStatusColor(payout.status) }]} maxFontSizeMultiplier={1.3}>
+          {getPayoutStatusLabel(payout.status)}
+        </Text>
+        <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
+      </TouchableOpacity>
+    </React.Fragment>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Payouts</Text>
+      </View>
+
+      {!canView ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+            Only owners and admins can view balances and payouts.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor={colors.primary} />}
+        >
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Balance</Text>
+            <View style={styles.card}>
+              {balanceLoading ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading balance" />
+                </View>
+              ) : balance ? (
+                <>
+                  <View style={styles.balanceRow}>
+                    <View style={styles.balanceCell}>
+                      <Text style={styles.balanceLabel} maxFontSizeMultiplier={1.5}>Available</Text>
+                      <Text style={styles.balanceAmount} maxFontSizeMultiplier={1.2}>{formatCents(balance.available, balanceCurrency)}</Text>
+                    </View>
+                    <View style={styles.balanceDivider} />
+                    <View style={styles.balanceCell}>
+                      <Text style={styles.balanceLabel} maxFontSizeMultiplier={1.5}>Pending</Text>
+                      <Text style={[styles.balanceAmount, styles.pendingAmount]} maxFontSizeMultiplier={1.2}>
+                        {formatCents(balance.pending, balanceCurrency)}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.scheduleRow}>
+                    <Ionicons name="calendar-outline" size={16} color={colors.textSecondary} />
+                    <Text style={styles.scheduleText} maxFontSizeMultiplier={1.5}>
+                      {formatPayoutSchedule(balance.schedule)}
+                      {balance.nextPayoutDate ? ` · next payout ${formatPayoutDate(balance.nextPayoutDate)}` : ''}
+                    </Text>
+                  </View>
+                </>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Balance unavailable</Text>
+                </View>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Fees</Text>
+            <View style={styles.chips}>
+              {FEE_RANGES.map(range => {
+                const isActive = feeRange === range.key;
+                return (
+                  <TouchableOpacity
+                    key={range.key}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => setFeeRange(range.key)}
+                    accessibilityRole="button"
+                    accessibilityLabel={range.label}
+                    accessibilityState={{ selected: isActive }}
+                  >
+                    <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>{range.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.card}>
+              {feesLoading ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Loading fees" />
+                </View>
+              ) : fees ? (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>
+                      Gross sales ({fees.chargeCount} payment{fees.chargeCount === 1 ? '' : 's'})
+                    </Text>
+                    <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>{formatCents(fees.grossAmount, balanceCurrency)}</Text>
+                  </View>
+                  {fees.refundAmount > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>Refunds</Text>
+                      <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>-{formatCents(fees.refundAmount, balanceCurrency)}</Text>
+                    </View>
+                  )}
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>Processing fees</Text>
+                    <Text style={styles.summaryValue} maxFontSizeMultiplier={1.5}>-{formatCents(fees.feeAmount, balanceCurrency)}</Text>
+                  </View>
+                  <View style={[styles.summaryRow, styles.summaryTotal]}>
+                    <Text style={[styles.summaryLabel, styles.summaryTotalText]} maxFontSizeMultiplier={1.5}>Net</Text>
+                    <Text style={[styles.summaryValue, styles.summaryTotalText]} maxFontSizeMultiplier={1.5}>{formatCents(fees.netAmount, balanceCurrency)}</Text>
+                  </View>
+                </>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Fee totals unavailable</Text>
+                </View>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Payouts</Text>
+            <View style={styles.card}>
+              {payoutsLoading ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading payouts" />
+                </View>
+              ) : payouts.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Ionicons name="cash-outline" size={40} color={colors.textMuted} />
+                  <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                    No payouts yet.{'\n'}Payments are paid out to your bank on your payout schedule.
+                  </Text>
+                </View>
+              ) : (
+                <>
+                  {payouts.map(renderPayout)}
+                  {hasNextPage && (
+                    <TouchableOpacity
+                      style={styles.loadMore}
+                      onPress={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      accessibilityRole="button"
+                      accessibilityLabel="Load more payouts"
+                    >
+                      {isFetchingNextPage ? (
+                        <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Loading more payouts" />
+                      ) : (
+                        <Text style={styles.loadMoreText} maxFontSizeMultiplier={1.3}>Load More</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+            </View>
+          </View>
+
+          <View style={{ height: insets.bottom + 32 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -18,6 +18,7 @@ import { useSocketEvent, useSocket, SocketEvents } from '../context/SocketContex
 import { preordersApi, Preorder, PreorderStatus } from '../lib/api/preorders';
 import { stripeTerminalApi } from '../lib/api/stripe-terminal';
 import { usePreorders } from '../context/PreordersContext';
+import { useAuthorize } from '../hooks';
 import { formatCurrency } from '../utils/currency';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
@@ -91,6 +92,7 @@ function formatDate(dateString: string): string {
 export function PreorderDetailScreen() {
   const { colors, isDark } = useTheme();
   const { currency } = useAuth();
+  const { authorize } = useAuthorize();
   const navigation = useNavigation<any>();
   const route = useRoute();
   const { preorderId } = route.params as RouteParams;
@@ -224,10 +226,16 @@ export function PreorderDetailScreen() {
     }
   };
 
-  const handleCancel = () => {
+  const handleCancel = async () => {
     if (!preorder || isCancelling) return;
 
     const isPaid = preorder.paymentType === 'pay_now' && preorder.stripePaymentIntentId;
+    // Cancelling a paid preorder refunds it, so cashiers need a manager to approve
+    const authorization = isPaid
+      ? await authorize('refund', 'A manager needs to approve this refund.')
+      : { override: null };
+    if (!authorization) return;
+
     const formattedTotal = formatCurrency(preorder.totalAmount || 0, currency);
     Alert.alert(
       isPaid ? 'Cancel & Refund Order' : 'Cancel Order',
@@ -242,7 +250,7 @@ export function PreorderDetailScreen() {
           onPress: async () => {
             setIsCancelling(true);
             try {
-              await preordersApi.cancel(preorder.id);
+              await preordersApi.cancel(preorder.id, undefined, authorization.override?.token);
               refreshCounts();
               Alert.alert(
                 isPaid ? 'Cancelled & Refunded' : 'Cancelled',
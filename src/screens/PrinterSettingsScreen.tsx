@@ -0,0 +1,586 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../context/ThemeContext';
+import { usePrinters, SavedPrinter } from '../context/PrinterContext';
+import {
+  DEFAULT_PRINTER_PORT,
+  DiscoveredPrinter,
+  PaperWidth,
+  isBluetoothPrintingAvailable,
+  isNetworkPrintingAvailable,
+} from '../lib/printer';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+const PAPER_WIDTHS: PaperWidth[] = [58, 80];
+
+export function PrinterSettingsScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const {
+    printers,
+    discoveredPrinters,
+    isScanning,
+    startScan,
+    addPrinter,
+    updatePrinter,
+    removePrinter,
+    printTestPage,
+  } = usePrinters();
+
+  const [showAddNetwork, setShowAddNetwork] = useState(false);
+  const [networkName, setNetworkName] = useState('');
+  const [networkHost, setNetworkHost] = useState('');
+  const [networkPort, setNetworkPort] = useState(String(DEFAULT_PRINTER_PORT));
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const handleAddNetwork = useCallback(async () => {
+    const host = networkHost.trim();
+    const port = parseInt(networkPort, 10);
+    if (!host) {
+      Alert.alert('Missing Address', "Enter the printer's IP address. Most printers print it on a self-test page.");
+      return;
+    }
+    if (!port || port < 1 || port > 65535) {
+      Alert.alert('Invalid Port', 'Enter a port between 1 and 65535. Most printers use 9100.');
+      return;
+    }
+    await addPrinter({
+      name: networkName.trim() || host,
+      type: 'network',
+      address: host,
+      port,
+      paperWidth: 80,
+      printReceipts: true,
+      printKitchenTickets: false,
+      autoPrint: true,
+    });
+    setShowAddNetwork(false);
+    setNetworkName('');
+    setNetworkHost('');
+    setNetworkPort(String(DEFAULT_PRINTER_PORT));
+  }, [networkName, networkHost, networkPort, addPrinter]);
+
+  const handleScan = useCallback(async () => {
+    try {
+      await startScan();
+    } catch (err: any) {
+      Alert.alert('Scan Failed', err.message || 'Failed to scan for Bluetooth printers.');
+    }
+  }, [startScan]);
+
+  const handleAddBluetooth = useCallback(async (printer: DiscoveredPrinter) => {
+    await addPrinter({
+      name: printer.name,
+      type: 'bluetooth',
+      address: printer.id,
+      paperWidth: 58,
+      printReceipts: true,
+      printKitchenTickets: false,
+      autoPrint: true,
+    });
+  }, [addPrinter]);
+
+  const handleTest = useCallback(async (printer: SavedPrinter) => {
+    setTestingId(printer.id);
+    try {
+      await printTestPage(printer);
+    } catch (err: any) {
+      Alert.alert(
+        'Test Print Failed',
+        `${err.message || 'Could not reach the printer.'}\n\nCheck that it is powered on, has paper, and is ${printer.type === 'network' ? 'on the same Wi-Fi network' : 'within Bluetooth range'}.`
+      );
+    } finally {
+      setTestingId(null);
+    }
+  }, [printTestPage]);
+
+  const handleRemove = useCallback((printer: SavedPrinter) => {
+    Alert.alert(
+      'Remove Printer',
+      `Stop printing to ${printer.name} from this device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removePrinter(printer.id),
+        },
+      ]
+    );
+  }, [removePrinter]);
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    printerCard: {
+      marginBottom: 12,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    printerName: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    printerDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    printerIcon: {
+      marginRight: 12,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    toggleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    toggleLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.text,
+    },
+    widthOptions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    widthOption: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 8,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+    },
+    widthOptionActive: {
+      backgroundColor: colors.primary,
+    },
+    widthOptionText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    widthOptionTextActive: {
+      color: '#FFFFFF',
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    registerForm: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 4,
+    },
+    cardButtonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      padding: 16,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    removeButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.error,
+    },
+    actionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+    },
+    actionButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
+    unavailableText: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      padding: 16,
+    },
+  });
+
+  const renderToggle = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.toggleRow}>
+      <Text style={styles.toggleLabel} maxFontSizeMultiplier={1.3}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ true: colors.primary }}
+        accessibilityLabel={label}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Printers</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity
+            onPress={() => setShowAddNetwork(!showAddNetwork)}
+            accessibilityRole="button"
+            accessibilityLabel="Add network printer"
+          >
+            <Ionicons name={showAddNetwork ? 'close' : 'add-circle-outline'} size={26} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Add Network Printer */}
+        {showAddNetwork && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Add Network Printer</Text>
+            <View style={styles.card}>
+              {isNetworkPrintingAvailable() ? (
+                <View style={styles.registerForm}>
+                  <TextInput
+                    style={styles.input}
+                    value={networkName}
+                    onChangeText={setNetworkName}
+                    placeholder="Name (optional, e.g. 'Kitchen')"
+                    placeholderTextColor={colors.textMuted}
+                    accessibilityLabel="Printer name"
+                  />
+                  <TextInput
+                    style={styles.input}
+                    value={networkHost}
+                    onChangeText={setNetworkHost}
+                    placeholder="IP address (e.g. 192.168.1.50)"
+                    placeholderTextColor={colors.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="numbers-and-punctuation"
+                    accessibilityLabel="Printer IP address"
+                  />
+                  <TextInput
+                    style={styles.input}
+                    value={networkPort}
+                    onChangeText={setNetworkPort}
+                    placeholder="Port"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="number-pad"
+                    accessibilityLabel="Printer port"
+                  />
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => setShowAddNetwork(false)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Cancel adding printer"
+                    >
+                      <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.primaryButton}
+                      onPress={handleAddNetwork}
+                      accessibilityRole="button"
+                      accessibilityLabel="Add printer"
+                    >
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Add</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <Text style={styles.unavailableText} maxFontSizeMultiplier={1.5}>
+                  Network printing needs the full Luma app and is not available in this build.
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Saved Printers */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Saved Printers</Text>
+          {printers.length === 0 ? (
+            <View style={styles.card}>
+              <View style={styles.emptyState}>
+                <Ionicons name="print-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  No printers added.{'\n'}Scan for a Bluetooth printer below or tap + to add a network printer.
+                </Text>
+              </View>
+            </View>
+          ) : (
+            printers.map(printer => (
+              <View key={printer.id} style={[styles.card, styles.printerCard]}>
+                <View style={styles.row}>
+                  <Ionicons
+                    name={printer.type === 'network' ? 'wifi' : 'bluetooth'}
+                    size={20}
+                    color={colors.primary}
+                    style={styles.printerIcon}
+                  />
+                  <View style={styles.rowLeft}>
+                    <Text style={styles.printerName} maxFontSizeMultiplier={1.3}>{printer.name}</Text>
+                    <Text style={styles.printerDetail} maxFontSizeMultiplier={1.5} numberOfLines={1}>
+                      {printer.type === 'network'
+                        ? `${printer.address}:${printer.port || DEFAULT_PRINTER_PORT}`
+                        : 'Bluetooth'} · {printer.paperWidth}mm
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.divider} />
+                {renderToggle('Customer receipts', printer.printReceipts, value => updatePrinter(printer.id, { printReceipts: value }))}
+                {renderToggle('Kitchen tickets', printer.printKitchenTickets, value => updatePrinter(printer.id, { printKitchenTickets: value }))}
+                {renderToggle('Print automatically after payment', printer.autoPrint, value => updatePrinter(printer.id, { autoPrint: value }))}
+                <View style={styles.toggleRow}>
+                  <Text style={styles.toggleLabel} maxFontSizeMultiplier={1.3}>Paper width</Text>
+                  <View style={styles.widthOptions}>
+                    {PAPER_WIDTHS.map(width => {
+                      const active = printer.paperWidth === width;
+                      return (
+                        <TouchableOpacity
+                          key={width}
+                          style={[styles.widthOption, active && styles.widthOptionActive]}
+                          onPress={() => updatePrinter(printer.id, { paperWidth: width })}
+                          accessibilityRole="button"
+                          accessibilityLabel={`${width} millimeter paper`}
+                          accessibilityState={{ selected: active }}
+                        >
+                          <Text style={[styles.widthOptionText, active && styles.widthOptionTextActive]} maxFontSizeMultiplier={1.3}>
+                            {width}mm
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+                <View style={styles.cardButtonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => handleRemove(printer)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove ${printer.name}`}
+                  >
+                    <Text style={styles.removeButtonText} maxFontSizeMultiplier={1.3}>Remove</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, testingId === printer.id && { opacity: 0.6 }]}
+                    onPress={() => handleTest(printer)}
+                    disabled={testingId !== null}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Print test page on ${printer.name}`}
+                  >
+                    {testingId === printer.id ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Printing" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Test Print</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Bluetooth Scan */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Bluetooth Printers</Text>
+          <View style={styles.card}>
+            {isBluetoothPrintingAvailable() ? (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleScan}
+                disabled={isScanning}
+                accessibilityRole="button"
+                accessibilityLabel={isScanning ? 'Scanning for Bluetooth printers' : 'Scan for Bluetooth printers'}
+              >
+                {isScanning ? (
+                  <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Scanning" />
+                ) : (
+                  <Ionicons name="bluetooth" size={20} color={colors.primary} />
+                )}
+                <Text style={styles.actionButtonText} maxFontSizeMultiplier={1.3}>
+                  {isScanning ? 'Scanning...' : 'Scan for Bluetooth Printers'}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.unavailableText} maxFontSizeMultiplier={1.5}>
+                Bluetooth printing needs the full Luma app and is not available in this build.
+              </Text>
+            )}
+
+            {discoveredPrinters.length > 0 && (
+              <>
+                <View style={styles.divider} />
+                {discoveredPrinters.map((printer, index) => {
+                  const added = printers.some(p => p.type === 'bluetooth' && p.address === printer.id);
+                  return (
+                    <React.Fragment key={printer.id}>
+                      {index > 0 && <View style={styles.divider} />}
+                      <TouchableOpacity
+                        style={styles.row}
+                        onPress={() => handleAddBluetooth(printer)}
+                        disabled={added}
+                        accessibilityRole="button"
+                        accessibilityLabel={added ? `${printer.name}, already added` : `Add ${printer.name}`}
+                      >
+                        <View style={styles.rowLeft}>
+                          <Text style={styles.printerName} maxFontSizeMultiplier={1.3}>{printer.name}</Text>
+                          <Text style={styles.printerDetail} maxFontSizeMultiplier={1.5}>
+                            {added ? 'Added' : 'Tap to add'}
+                          </Text>
+                        </View>
+                        <Ionicons
+                          name={added ? 'checkmark-circle' : 'add-circle-outline'}
+                          size={20}
+                          color={added ? colors.success : colors.primary}
+                        />
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  );
+                })}
+              </>
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,559 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { discountsApi, PromoCode, DiscountType, CreatePromoCodeData } from '../lib/api';
+import { Toggle } from '../components/Toggle';
+import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+function centsToInput(cents: number | null): string {
+  return cents === null ? '' : (cents / 100).toFixed(2);
+}
+
+function inputToCents(text: string): number | null {
+  const value = parseFloat(text);
+  return text.trim() && !isNaN(value) && value >= 0 ? Math.round(value * 100) : null;
+}
+
+export function PromoCodesScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  // null = not editing, 'new' = creating, otherwise the code being edited
+  const [editing, setEditing] = useState<PromoCode | 'new' | null>(null);
+  const [code, setCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<DiscountType>('percentage');
+  const [valueString, setValueString] = useState('');
+  const [minSubtotalString, setMinSubtotalString] = useState('');
+  const [maxUsesString, setMaxUsesString] = useState('');
+
+  const { data: promoCodes, isLoading } = useQuery({
+    queryKey: ['promo-codes'],
+    queryFn: () => discountsApi.listPromoCodes(),
+  });
+
+  const startEditing = (promoCode: PromoCode | 'new') => {
+    const isNew = promoCode === 'new';
+    setEditing(promoCode);
+    setCode(isNew ? '' : promoCode.code);
+    setDescription(isNew ? '' : promoCode.description || '');
+    setType(isNew ? 'percentage' : promoCode.type);
+    setValueString(isNew ? '' : promoCode.type === 'percentage' ? String(promoCode.value) : centsToInput(promoCode.value));
+    setMinSubtotalString(isNew ? '' : centsToInput(promoCode.minSubtotal));
+    setMaxUsesString(isNew || promoCode.maxUses === null ? '' : String(promoCode.maxUses));
+  };
+
+  const stopEditing = () => {
+    setEditing(null);
+    setCode('');
+    setDescription('');
+    setValueString('');
+    setMinSubtotalString('');
+    setMaxUsesString('');
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CreatePromoCodeData) =>
+      editing === 'new' || !editing
+        ? discountsApi.createPromoCode(data)
+        : discountsApi.updatePromoCode(editing.id, {
+            description: data.description,
+            value: data.value,
+            minSubtotal: data.minSubtotal,
+            maxUses: data.maxUses,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promo-codes'] });
+      stopEditing();
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to save promo code');
+    },
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      discountsApi.updatePromoCode(id, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promo-codes'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to update promo code');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => discountsApi.deletePromoCode(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promo-codes'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to delete promo code');
+    },
+  });
+
+  const handleSave = () => {
+    const trimmedCode = code.trim().toUpperCase();
+    if (!trimmedCode) {
+      Alert.alert('Missing Code', 'Enter the code customers will give at checkout, e.g. "SUMMER10".');
+      return;
+    }
+    // Percentages are saved as whole numbers, so check what will actually be saved
+    const value = type === 'percentage' ? Math.round(parseFloat(valueString)) : inputToCents(valueString);
+    if (value === null || isNaN(value) || value <= 0 || (type === 'percentage' && value > 100)) {
+      Alert.alert('Invalid Amount', type === 'percentage' ? 'Enter a percentage between 1 and 100.' : 'Enter an amount greater than zero.');
+      return;
+    }
+    const maxUses = maxUsesString.trim() ? parseInt(maxUsesString, 10) : null;
+    if (maxUses !== null && (isNaN(maxUses) || maxUses < 1)) {
+      Alert.alert('Invalid Limit', 'Leave the usage limit empty for unlimited, or enter 1 or more.');
+      return;
+    }
+    saveMutation.mutate({
+      code: trimmedCode,
+      description: description.trim() || null,
+      type,
+      value,
+      minSubtotal: inputToCents(minSubtotalString),
+      maxUses,
+    });
+  };
+
+  const handleDelete = (promoCode: PromoCode) => {
+    Alert.alert(
+      'Delete Promo Code',
+      `Delete ${promoCode.code}? Orders that already used it keep their discount.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate(promoCode.id),
+        },
+      ]
+    );
+  };
+
+  const describe = (promoCode: PromoCode) => {
+    const parts = [
+      promoCode.type === 'percentage' ? `${promoCode.value}% off` : `${formatCents(promoCode.value, currency)} off`,
+    ];
+    if (promoCode.minSubtotal) parts.push(`min ${formatCents(promoCode.minSubtotal, currency)}`);
+    parts.push(promoCode.maxUses ? `${promoCode.usesCount}/${promoCode.maxUses} used` : `${promoCode.usesCount} used`);
+    return parts.join(' · ');
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    codeName: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    codeDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    deleteButton: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      marginLeft: 8,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    inputDisabled: {
+      opacity: 0.5,
+    },
+    formLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    chipActive: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: fonts.semiBold,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 4,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  const isNew = editing === 'new';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Promo Codes</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity
+            onPress={() => (editing ? stopEditing() : startEditing('new'))}
+            accessibilityRole="button"
+            accessibilityLabel={editing ? 'Cancel editing' : 'Add promo code'}
+          >
+            <Ionicons name={editing ? 'close' : 'add-circle-outline'} size={26} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {editing && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>
+              {isNew ? 'New Promo Code' : `Edit ${code}`}
+            </Text>
+            <View style={styles.card}>
+              <View style={styles.form}>
+                <TextInput
+                  style={[styles.input, !isNew && styles.inputDisabled]}
+                  value={code}
+                  onChangeText={text => setCode(text.toUpperCase())}
+                  placeholder="Code (e.g. 'SUMMER10')"
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  editable={isNew}
+                  maxLength={32}
+                  accessibilityLabel="Promo code"
+                  maxFontSizeMultiplier={1.3}
+                />
+                <TextInput
+                  style={styles.input}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="Description (optional)"
+                  placeholderTextColor={colors.textMuted}
+                  maxLength={80}
+                  accessibilityLabel="Description"
+                  maxFontSizeMultiplier={1.3}
+                />
+                {isNew && (
+                  <View style={styles.chips}>
+                    {([
+                      { key: 'percentage', label: 'Percentage' },
+                      { key: 'fixed', label: 'Fixed Amount' },
+                    ] as { key: DiscountType; label: string }[]).map(option => {
+                      const isActive = type === option.key;
+                      return (
+                        <TouchableOpacity
+                          key={option.key}
+                          style={[styles.chip, isActive && styles.chipActive]}
+                          onPress={() => {
+                            setType(option.key);
+                            setValueString('');
+                          }}
+                          accessibilityRole="radio"
+                          accessibilityLabel={option.label}
+                          accessibilityState={{ checked: isActive }}
+                        >
+                          <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+                <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>
+                  {type === 'percentage' ? 'Percent off' : `Amount off (${getCurrencySymbol(currency)})`}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={valueString}
+                  onChangeText={setValueString}
+                  placeholder={type === 'percentage' ? '10' : '5.00'}
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel={type === 'percentage' ? 'Percent off' : 'Amount off'}
+                  maxFontSizeMultiplier={1.3}
+                />
+                <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>
+                  Minimum order ({getCurrencySymbol(currency)}, optional)
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={minSubtotalString}
+                  onChangeText={setMinSubtotalString}
+                  placeholder="No minimum"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Minimum order amount"
+                  maxFontSizeMultiplier={1.3}
+                />
+                <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>Usage limit (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={maxUsesString}
+                  onChangeText={setMaxUsesString}
+                  placeholder="Unlimited"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                  accessibilityLabel="Usage limit"
+                  maxFontSizeMultiplier={1.3}
+                />
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={stopEditing}
+                    accessibilityRole="button"
+                    accessibilityLabel="Cancel"
+                  >
+                    <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, saveMutation.isPending && { opacity: 0.6 }]}
+                    onPress={handleSave}
+                    disabled={saveMutation.isPending}
+                    accessibilityRole="button"
+                    accessibilityLabel="Save promo code"
+                  >
+                    {saveMutation.isPending ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Codes</Text>
+          <View style={styles.card}>
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading promo codes" />
+              </View>
+            ) : !promoCodes || promoCodes.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="pricetag-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  No promo codes yet.{'\n'}Tap + to create one for customers to use at checkout.
+                </Text>
+              </View>
+            ) : (
+              promoCodes.map((promoCode, index) => (
+                <React.Fragment key={promoCode.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <TouchableOpacity
+                    style={styles.row}
+                    onPress={() => startEditing(promoCode)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${promoCode.code}, ${describe(promoCode)}. Tap to edit`}
+                  >
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.codeName} maxFontSizeMultiplier={1.3}>{promoCode.code}</Text>
+                      <Text style={styles.codeDetail} numberOfLines={2} maxFontSizeMultiplier={1.5}>
+                        {promoCode.description ? `${promoCode.description} · ` : ''}{describe(promoCode)}
+                      </Text>
+                    </View>
+                    <Toggle
+                      value={promoCode.isActive}
+                      onValueChange={isActive => activeMutation.mutate({ id: promoCode.id, isActive })}
+                      accessibilityLabel={`${promoCode.code} active`}
+                    />
+                    <TouchableOpacity
+                      style={styles.deleteButton}
+                      onPress={() => handleDelete(promoCode)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Delete ${promoCode.code}`}
+                    >
+                      <Ionicons name="trash-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            Codes apply to the whole order. Turn a code off to stop it being accepted without deleting it.
+          </Text>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
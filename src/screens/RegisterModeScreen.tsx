@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../context/ThemeContext';
+import { useRegisterMode, IDLE_TIMEOUT_OPTIONS } from '../context/RegisterModeContext';
+import { usePermissions } from '../hooks';
+import { Toggle } from '../components/Toggle';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+export function RegisterModeScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const {
+    isRegisterMode,
+    idleTimeoutMinutes,
+    activeCashier,
+    enableRegisterMode,
+    disableRegisterMode,
+    setIdleTimeout,
+    lock,
+  } = useRegisterMode();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+
+  const [isSaving, setIsSaving] = useState(false);
+  const canManage = can('manage_team');
+
+  const handleToggle = (value: boolean) => {
+    if (!value) {
+      Alert.alert(
+        'Turn Off Register Mode',
+        'This device will stay signed in as the account owner and stop asking for a PIN.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Turn Off',
+            style: 'destructive',
+            onPress: async () => {
+              setIsSaving(true);
+              await disableRegisterMode();
+              setIsSaving(false);
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Turn On Register Mode',
+      'The register will lock straight away. Cashiers unlock it with their own PIN, and their sales are recorded under their name. Make sure everyone has a PIN set in Team first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn On',
+          onPress: async () => {
+            setIsSaving(true);
+            try {
+              await enableRegisterMode();
+            } catch (error: any) {
+              Alert.alert('Error', error.error || error.message || 'Failed to turn on register mode');
+            } finally {
+              setIsSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    label: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    sublabel: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      padding: 16,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    chipActive: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: fonts.semiBold,
+    },
+    lockButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+      backgroundColor: colors.primary + '15',
+    },
+    lockButtonText: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+  });
+
+  const cashierName = activeCashier
+    ? [activeCashier.firstName, activeCashier.lastName].filter(Boolean).join(' ') || activeCashier.email
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Register Mode</Text>
+      </View>
+
+      {!canManage ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+            Only owners and admins can change register mode.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <View style={styles.row}>
+                <View style={styles.rowLeft}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Shared Register</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.5}>
+                    Cashiers switch with a PIN instead of signing in
+                  </Text>
+                </View>
+                {isSaving ? (
+                  <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Saving" />
+                ) : (
+                  <Toggle value={isRegisterMode} onValueChange={handleToggle} accessibilityLabel="Shared register" />
+                )}
+              </View>
+            </View>
+            <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+              This device stays signed in to your account, so switching cashiers doesn't sign anyone out elsewhere. Set PINs for your team in Settings → Team.
+            </Text>
+          </View>
+
+          {isRegisterMode && (
+            <>
+              {activeCashier && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Current Cashier</Text>
+                  <View style={styles.card}>
+                    <View style={styles.row}>
+                      <View style={styles.rowLeft}>
+                        <Text style={styles.label} maxFontSizeMultiplier={1.3}>{cashierName}</Text>
+                        <Text style={styles.sublabel} maxFontSizeMultiplier={1.5}>Sales on this device are recorded under this cashier</Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.lockButton}
+                        onPress={lock}
+                        accessibilityRole="button"
+                        accessibilityLabel="Lock register"
+                      >
+                        <Ionicons name="lock-closed-outline" size={16} color={colors.primary} />
+                        <Text style={styles.lockButtonText} maxFontSizeMultiplier={1.3}>Lock</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </View>
+              )}
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Auto-Lock</Text>
+                <View style={styles.card}>
+                  <View style={styles.chips}>
+                    {IDLE_TIMEOUT_OPTIONS.map(minutes => {
+                      const isActive = idleTimeoutMinutes === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          style={[styles.chip, isActive && styles.chipActive]}
+                          onPress={() => setIdleTimeout(minutes)}
+                          accessibilityRole="radio"
+                          accessibilityLabel={`${minutes} minute${minutes === 1 ? '' : 's'}`}
+                          accessibilityState={{ checked: isActive }}
+                        >
+                          <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>
+                            {minutes} min
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+                <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+                  The register goes back to the PIN screen after this long without a tap.
+                </Text>
+              </View>
+            </>
+          )}
+
+          <View style={{ height: insets.bottom + 32 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
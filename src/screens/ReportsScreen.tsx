@@ -0,0 +1,525 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useCatalog } from '../context/CatalogContext';
+import { usePermissions } from '../hooks';
+import { StarBackground } from '../components/StarBackground';
+import { BarChart, BreakdownList, SplitBar, ChartDatum } from '../components/ReportCharts';
+import { reportsApi, SalesReport } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { getPaymentMethodLabel } from '../utils/shift-report';
+import { glass } from '../lib/colors';
+import { fonts } from '../lib/fonts';
+import { shadows } from '../lib/shadows';
+
+type RangePreset = 'today' | 'yesterday' | 'week' | 'month' | 'custom';
+
+const RANGE_PRESETS: { key: RangePreset; label: string }[] = [
+  { key: 'today', label: 'Today' },
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'week', label: 'Last 7 Days' },
+  { key: 'month', label: 'Last 30 Days' },
+  { key: 'custom', label: 'Custom' },
+];
+
+const TOP_PRODUCTS_LIMIT = 10;
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+// [from, to) for a preset, in local time
+function getPresetRange(preset: RangePreset, customFrom: Date, customTo: Date): { from: Date; to: Date } {
+  const today = startOfDay(new Date());
+  switch (preset) {
+    case 'yesterday':
+      return { from: addDays(today, -1), to: today };
+    case 'week':
+      return { from: addDays(today, -6), to: addDays(today, 1) };
+    case 'month':
+      return { from: addDays(today, -29), to: addDays(today, 1) };
+    case 'custom':
+      return { from: startOfDay(customFrom), to: addDays(startOfDay(customTo), 1) };
+    case 'today':
+    default:
+      return { from: today, to: addDays(today, 1) };
+  }
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'a' : 'p';
+  const h = hour % 12 === 0 ? 12 : hour % 12;
+  return `${h}${suffix}`;
+}
+
+function formatDay(date: string): string {
+  // YYYY-MM-DD from the API is already in local time; avoid a UTC shift
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function ReportsScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { selectedCatalog } = useCatalog();
+  const { can } = usePermissions();
+  const insets = useSafeAreaInsets();
+
+  const [preset, setPreset] = useState<RangePreset>('today');
+  const [customFrom, setCustomFrom] = useState(() => addDays(new Date(), -6));
+  const [customTo, setCustomTo] = useState(() => new Date());
+  const [pickerTarget, setPickerTarget] = useState<'from' | 'to' | null>(null);
+  const [catalogOnly, setCatalogOnly] = useState(false);
+
+  const styles = createStyles(colors, glassColors, isDark);
+  const money = (cents: number) => formatCents(cents, currency);
+
+  const range = useMemo(
+    () => getPresetRange(preset, customFrom, customTo),
+    [preset, customFrom, customTo]
+  );
+  const catalogId = catalogOnly ? selectedCatalog?.id : undefined;
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const { data: report, isLoading, isRefetching, refetch, error } = useQuery({
+    queryKey: ['sales-report', range.from.toISOString(), range.to.toISOString(), catalogId ?? 'all'],
+    queryFn: () => reportsApi.getSales({
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      timezone,
+      catalogId,
+    }),
+    enabled: can('view_reports'),
+  });
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    const target = pickerTarget;
+    if (Platform.OS === 'android') {
+      setPickerTarget(null);
+    }
+    if (event.type !== 'set' || !selectedDate || !target) return;
+
+    if (target === 'from') {
+      setCustomFrom(selectedDate);
+      if (selectedDate > customTo) setCustomTo(selectedDate);
+    } else {
+      setCustomTo(selectedDate);
+      if (selectedDate < customFrom) setCustomFrom(selectedDate);
+    }
+  };
+
+  if (!can('view_reports')) {
+    return (
+      <StarBackground colors={colors} isDark={isDark}>
+        <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
+          <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Only managers can view reports.</Text>
+        </View>
+      </StarBackground>
+    );
+  }
+
+  const renderStat = (label: string, value: string, detail?: string) => (
+    <View style={styles.statCard} accessible accessibilityLabel={`${label}, ${value}${detail ? `, ${detail}` : ''}`}>
+      <View style={styles.statInner}>
+        <Text style={styles.statLabel} maxFontSizeMultiplier={1.3}>{label}</Text>
+        <Text style={styles.statValue} maxFontSizeMultiplier={1.2} numberOfLines={1} adjustsFontSizeToFit>{value}</Text>
+        {detail && <Text style={styles.statDetail} maxFontSizeMultiplier={1.3}>{detail}</Text>}
+      </View>
+    </View>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>{title}</Text>
+      <View style={styles.card}>{children}</View>
+    </View>
+  );
+
+  const renderReport = (data: SalesReport) => {
+    const { summary } = data;
+
+    if (summary.orderCount === 0 && summary.refundCount === 0) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="bar-chart-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>No sales in this period.</Text>
+        </View>
+      );
+    }
+
+    const hourData: ChartDatum[] = Array.from({ length: 24 }, (_, hour) => {
+      const bucket = data.byHour.find(h => h.hour === hour);
+      return { key: `h${hour}`, label: formatHour(hour), value: bucket?.amount ?? 0 };
+    });
+    const dayData: ChartDatum[] = data.byDay.map(d => ({ key: d.date, label: formatDay(d.date), value: d.amount }));
+    const catalogData: ChartDatum[] = data.byCatalog.map(c => ({
+      key: c.catalogId ?? 'quick-charge',
+      label: c.catalogName ?? 'Quick Charge',
+      value: c.amount,
+    }));
+    const productCounts = new Map(data.topProducts.map(p => [p.productId, p.quantity]));
+    const productData: ChartDatum[] = data.topProducts.slice(0, TOP_PRODUCTS_LIMIT).map(p => ({
+      key: p.productId,
+      label: p.name,
+      value: p.amount,
+    }));
+    const categoryData: ChartDatum[] = data.categoryMix.map(c => ({
+      key: c.categoryId ?? 'uncategorized',
+      label: c.categoryName ?? 'Uncategorized',
+      value: c.amount,
+    }));
+    const paymentData: ChartDatum[] = data.paymentMethods.map(p => ({
+      key: p.method,
+      label: getPaymentMethodLabel(p.method),
+      value: p.amount,
+    }));
+
+    return (
+      <>
+        <View style={styles.statsGrid}>
+          {renderStat('Net Sales', money(summary.netSales), `${money(summary.grossSales)} gross`)}
+          {renderStat('Orders', summary.orderCount.toString(), `${money(summary.averageOrder)} avg`)}
+          {renderStat('Tips', money(summary.tipsCollected))}
+          {renderStat('Refunds', money(summary.refunds), `${summary.refundCount} refund${summary.refundCount === 1 ? '' : 's'}`)}
+          {renderStat('Discounts', money(summary.discounts))}
+          {renderStat('Tax', money(summary.taxCollected))}
+        </View>
+
+        {renderSection('Sales by Hour', (
+          <BarChart
+            data={hourData}
+            formatValue={money}
+            labelEvery={6}
+            accessibilityLabel="Sales by hour of day"
+          />
+        ))}
+
+        {dayData.length > 1 && renderSection('Sales by Day', (
+          <BarChart
+            data={dayData}
+            formatValue={money}
+            labelEvery={Math.max(1, Math.ceil(dayData.length / 5))}
+            accessibilityLabel="Sales by day"
+          />
+        ))}
+
+        {!catalogId && catalogData.length > 1 && renderSection('Sales by Catalog', (
+          <BreakdownList data={catalogData} formatValue={money} />
+        ))}
+
+        {productData.length > 0 && renderSection('Top Products', (
+          <BreakdownList
+            data={productData}
+            formatValue={money}
+            formatDetail={(d) => `${productCounts.get(d.key) ?? 0} sold`}
+          />
+        ))}
+
+        {categoryData.length > 0 && renderSection('Category Mix', (
+          <SplitBar data={categoryData} formatValue={money} />
+        ))}
+
+        {paymentData.length > 0 && renderSection('Payment Methods', (
+          <SplitBar data={paymentData} formatValue={money} />
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <StarBackground colors={colors} isDark={isDark}>
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <Text maxFontSizeMultiplier={1.3} style={styles.title}>Reports</Text>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.presetRow}
+          style={styles.presetScroll}
+        >
+          {RANGE_PRESETS.map(p => {
+            const isActive = preset === p.key;
+            return (
+              <TouchableOpacity
+                key={p.key}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setPreset(p.key)}
+                accessibilityRole="button"
+                accessibilityLabel={p.label}
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>
+                  {p.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {selectedCatalog && (
+            <TouchableOpacity
+              style={[styles.chip, catalogOnly && styles.chipActive]}
+              onPress={() => setCatalogOnly(!catalogOnly)}
+              accessibilityRole="button"
+              accessibilityLabel={catalogOnly ? `Showing ${selectedCatalog.name} only` : 'Showing all catalogs'}
+              accessibilityHint="Switches between all catalogs and the current catalog"
+            >
+              <Ionicons name="albums-outline" size={14} color={catalogOnly ? colors.primary : colors.textSecondary} />
+              <Text style={[styles.chipText, catalogOnly && styles.chipTextActive]} maxFontSizeMultiplier={1.3} numberOfLines={1}>
+                {catalogOnly ? selectedCatalog.name : 'All Catalogs'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+
+        {preset === 'custom' && (
+          <View style={styles.customRange}>
+            {(['from', 'to'] as const).map(target => {
+              const value = target === 'from' ? customFrom : customTo;
+              const isOpen = pickerTarget === target;
+              return (
+                <TouchableOpacity
+                  key={target}
+                  style={[styles.dateButton, isOpen && styles.chipActive]}
+                  onPress={() => setPickerTarget(isOpen ? null : target)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${target === 'from' ? 'Start' : 'End'} date, ${value.toLocaleDateString()}`}
+                >
+                  <Text style={styles.dateLabel} maxFontSizeMultiplier={1.3}>{target === 'from' ? 'From' : 'To'}</Text>
+                  <Text style={styles.dateValue} maxFontSizeMultiplier={1.3}>{value.toLocaleDateString()}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {pickerTarget && (
+          Platform.OS === 'ios' ? (
+            <View style={styles.pickerContainer}>
+              <DateTimePicker
+                value={pickerTarget === 'from' ? customFrom : customTo}
+                mode="date"
+                display="inline"
+                maximumDate={new Date()}
+                onChange={handleDateChange}
+                themeVariant={isDark ? 'dark' : 'light'}
+              />
+            </View>
+          ) : (
+            <DateTimePicker
+              value={pickerTarget === 'from' ? customFrom : customTo}
+              mode="date"
+              display="default"
+              maximumDate={new Date()}
+              onChange={handleDateChange}
+            />
+          )
+        )}
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: 32 }}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />
+          }
+        >
+          {isLoading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading report" />
+            </View>
+          ) : error || !report ? (
+            <View style={styles.centered}>
+              <Ionicons name="cloud-offline-outline" size={40} color={colors.textMuted} />
+              <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Couldn't load reports. Pull down to try again.</Text>
+            </View>
+          ) : (
+            renderReport(report)
+          )}
+        </ScrollView>
+      </View>
+    </StarBackground>
+  );
+}
+
+const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boolean) => {
+  const cardBackground = isDark ? '#181819' : 'rgba(255,255,255,0.85)';
+  const cardBorder = isDark ? '#1d1d1f' : 'rgba(0,0,0,0.08)';
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: 'transparent',
+    },
+    title: {
+      fontSize: 22,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      letterSpacing: -0.3,
+      paddingHorizontal: 16,
+      paddingTop: 4,
+      marginBottom: 8,
+    },
+    presetScroll: {
+      flexGrow: 0,
+    },
+    presetRow: {
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: cardBackground,
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+      maxWidth: 200,
+    },
+    chipActive: {
+      backgroundColor: isDark ? '#0d1427' : colors.primary + '20',
+      borderColor: isDark ? '#132040' : colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+    },
+    customRange: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingBottom: 8,
+    },
+    dateButton: {
+      flex: 1,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: cardBackground,
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    dateLabel: {
+      fontSize: 12,
+      fontFamily: fonts.medium,
+      color: colors.textMuted,
+    },
+    dateValue: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+      marginTop: 2,
+    },
+    pickerContainer: {
+      marginHorizontal: 16,
+      marginBottom: 8,
+      borderRadius: 16,
+      backgroundColor: glassColors.backgroundElevated,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+      overflow: 'hidden',
+    },
+    content: {
+      flex: 1,
+    },
+    statsGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      paddingHorizontal: 12,
+      paddingTop: 8,
+    },
+    statCard: {
+      width: '50%',
+      padding: 4,
+    },
+    statInner: {
+      backgroundColor: cardBackground,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+    },
+    statLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    statValue: {
+      fontSize: 22,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      marginTop: 4,
+    },
+    statDetail: {
+      fontSize: 12,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    section: {
+      marginTop: 20,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: cardBackground,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      padding: 16,
+      ...shadows.sm,
+    },
+    centered: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 64,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+  });
+};
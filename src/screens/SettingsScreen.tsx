@@ -25,6 +25,8 @@ import { useTheme } from '../context/ThemeContext';
 import { useCatalog } from '../context/CatalogContext';
 import { useTerminal } from '../context/StripeTerminalContext';
 import { useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { useRegisterMode } from '../context/RegisterModeContext';
+import { usePermissions } from '../hooks';
 import { billingService, SubscriptionInfo } from '../lib/api/billing';
 import { Subscription } from '../lib/api';
 import { formatCents } from '../utils/currency';
@@ -61,6 +63,9 @@ export function SettingsScreen() {
   }, [isDark]);
   const { user, organization, subscription, signOut, connectStatus, connectLoading, isPaymentReady, refreshAuth, biometricCapabilities, biometricEnabled, setBiometricEnabled, refreshBiometricStatus, currency } = useAuth();
   const { selectedCatalog, catalogs, clearCatalog } = useCatalog();
+  const { isRegisterMode, activeCashier, lock } = useRegisterMode();
+  // In register mode the device is signed in as the owner, so show the cashier and keep the owner's profile read-only
+  const profile = activeCashier ?? user;
   const {
     deviceCompatibility,
     isInitialized,
@@ -105,13 +110,19 @@ export function SettingsScreen() {
   const isStripePlatformUser = subscriptionInfo?.platform === 'stripe';
 
 
+  // Vendor portal, subscription and banking are owner/admin only
+  const { can } = usePermissions();
+  const canManageBusiness = can('manage_business');
+  const canManageTeam = can('manage_team');
+  const canEditCatalog = can('edit_catalog');
+
   // Profile edit modal
   const [showProfileEdit, setShowProfileEdit] = useState(false);
 
   // Biometric toggle loading state (values come from AuthContext)
   const [biometricLoading, setBiometricLoading] = useState(false);
 
-  const needsBankingSetup = !connectLoading && !connectStatus?.chargesEnabled && (user?.role === 'owner' || user?.role === 'admin');
+  const needsBankingSetup = !connectLoading && !connectStatus?.chargesEnabled && canManageBusiness;
 
   // Refresh biometric status when screen is focused
   useFocusEffect(
@@ -283,7 +294,7 @@ export function SettingsScreen() {
       >
         <View style={styles.contentContainer}>
         {/* 1. Vendor Portal - Featured section for owners/admins */}
-        {(user?.role === 'owner' || user?.role === 'admin') && (
+        {canManageBusiness && (
           <View style={styles.section}>
             <TouchableOpacity
               style={styles.vendorPortalCard}
@@ -340,11 +351,59 @@ export function SettingsScreen() {
                 </TouchableOpacity>
               )}
             </View>
+
+            {canEditCatalog && (
+              <>
+                <View style={styles.divider} />
+
+                {/* Tax Rates */}
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => navigation.navigate('TaxRates')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Tax Rates"
+                  accessibilityHint="Set up named tax rates for categories and products"
+                >
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                      <Ionicons name="receipt-outline" size={18} color={colors.primary} />
+                    </View>
+                    <View style={styles.labelContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.3}>Tax Rates</Text>
+                      <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Food, alcohol & other rates</Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+
+                <View style={styles.divider} />
+
+                {/* Promo Codes */}
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => navigation.navigate('PromoCodes')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Promo Codes"
+                  accessibilityHint="Create and manage promo codes customers can use at checkout"
+                >
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                      <Ionicons name="pricetag-outline" size={18} color={colors.primary} />
+                    </View>
+                    <View style={styles.labelContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.3}>Promo Codes</Text>
+                      <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Codes, limits & minimum spend</Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         </View>
 
         {/* 3. Business Section - Subscription + Banking combined (owners/admins only) */}
-        {(user?.role === 'owner' || user?.role === 'admin') && (
+        {canManageBusiness && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Business</Text>
           <View style={styles.card}>
@@ -455,7 +514,7 @@ export function SettingsScreen() {
             )}
 
             {/* Banking - for owners/admins */}
-            {(user?.role === 'owner' || user?.role === 'admin') && (
+            {canManageBusiness && (
               <>
                 <View style={styles.divider} />
                 <TouchableOpacity
@@ -499,8 +558,58 @@ export function SettingsScreen() {
               </>
             )}
 
+            {/* Payouts - balance, payout history and fees once payments are active */}
+            {canManageBusiness && connectStatus?.chargesEnabled && (
+              <>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => navigation.navigate('Payouts')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Payouts"
+                  accessibilityHint="View your balance, payouts and processing fees"
+                >
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                      <Ionicons name="cash-outline" size={18} color={colors.primary} />
+                    </View>
+                    <View style={styles.labelContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.3}>Payouts</Text>
+                      <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Balance, payouts & fees</Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+              </>
+            )}
+
+            {/* Team - staff accounts, roles and signed-in devices */}
+            {canManageTeam && (
+              <>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => navigation.navigate('Team')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Team"
+                  accessibilityHint="Invite staff, assign roles and manage signed-in devices"
+                >
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                      <Ionicons name="people-outline" size={18} color={colors.primary} />
+                    </View>
+                    <View style={styles.labelContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.3}>Team</Text>
+                      <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Staff, roles & devices</Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+              </>
+            )}
+
             {/* Payment Setup - for non-admins when not enabled */}
-            {connectStatus && !connectStatus.chargesEnabled && user?.role !== 'owner' && user?.role !== 'admin' && (
+            {connectStatus && !connectStatus.chargesEnabled && !canManageBusiness && (
               <>
                 <View style={styles.divider} />
                 <TouchableOpacity
@@ -534,26 +643,27 @@ export function SettingsScreen() {
             <TouchableOpacity
               style={styles.profileCard}
               onPress={() => setShowProfileEdit(true)}
+              disabled={isRegisterMode}
               activeOpacity={0.7}
               accessibilityRole="button"
-              accessibilityLabel={`Profile, ${user?.firstName} ${user?.lastName}, ${user?.email}`}
-              accessibilityHint="Tap to edit your profile"
+              accessibilityLabel={`Profile, ${profile?.firstName} ${profile?.lastName}, ${profile?.email}`}
+              accessibilityHint={isRegisterMode ? undefined : 'Tap to edit your profile'}
             >
-              {user?.avatarUrl ? (
+              {!activeCashier && user?.avatarUrl ? (
                 <Image source={{ uri: user.avatarUrl }} style={styles.profileAvatarImage} fadeDuration={0} />
               ) : (
                 <View style={styles.profileAvatar}>
                   <Text style={styles.profileInitials} maxFontSizeMultiplier={1.3}>
-                    {user?.firstName?.charAt(0)?.toUpperCase() || ''}{user?.lastName?.charAt(0)?.toUpperCase() || ''}
+                    {profile?.firstName?.charAt(0)?.toUpperCase() || ''}{profile?.lastName?.charAt(0)?.toUpperCase() || ''}
                   </Text>
                 </View>
               )}
               <View style={styles.profileInfo}>
                 <Text style={styles.profileName} numberOfLines={1} maxFontSizeMultiplier={1.3}>
-                  {user?.firstName} {user?.lastName}
+                  {profile?.firstName} {profile?.lastName}
                 </Text>
                 <Text style={styles.profileEmail} numberOfLines={1} maxFontSizeMultiplier={1.3}>
-                  {user?.email}
+                  {profile?.email}
                 </Text>
                 <View style={styles.profileOrgRow}>
                   <Ionicons name="business-outline" size={12} color={colors.textMuted} />
@@ -562,7 +672,7 @@ export function SettingsScreen() {
                   </Text>
                 </View>
               </View>
-              <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+              {!isRegisterMode && <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />}
             </TouchableOpacity>
 
             {/* Biometric Login */}
@@ -698,6 +808,187 @@ export function SettingsScreen() {
 
             <View style={styles.divider} />
 
+            {/* Cash Drawer */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('CashDrawer')}
+              accessibilityRole="button"
+              accessibilityLabel="Cash Drawer"
+              accessibilityHint="Open or close a shift, record pay ins and pay outs, and view shift history"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="cash-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Cash Drawer</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Shifts, pay ins & Z-reports</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            {/* Time Clock */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('TimeClock')}
+              accessibilityRole="button"
+              accessibilityLabel="Time Clock"
+              accessibilityHint="Clock in or out and see time worked today"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="time-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Time Clock</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Clock in & out, tip pool</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            {/* Printers */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('Printers')}
+              accessibilityRole="button"
+              accessibilityLabel="Printers"
+              accessibilityHint="Pair receipt and kitchen printers"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="print-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Printers</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Receipts & kitchen tickets</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            {/* Kitchen Display */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('KitchenDisplay')}
+              accessibilityRole="button"
+              accessibilityLabel="Kitchen Display"
+              accessibilityHint="Show order tickets for the kitchen, with bump and recall"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="restaurant-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Kitchen Display</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Tickets for in-person orders & preorders</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            {/* Customer Display */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('CustomerDisplay')}
+              accessibilityRole="button"
+              accessibilityLabel="Customer Display"
+              accessibilityHint="Show the cart and tip options on a second device facing the customer"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="tv-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Customer Display</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Cart, tip & receipt email on a second device</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            {/* Register Mode - owners/admins share this device between cashiers */}
+            {canManageTeam && (
+              <>
+                <View style={styles.divider} />
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => navigation.navigate('RegisterMode')}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Register Mode${isRegisterMode ? ', on' : ''}`}
+                  accessibilityHint="Let cashiers switch on this device with a PIN"
+                >
+                  <View style={styles.rowLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                      <Ionicons name="keypad-outline" size={18} color={colors.primary} />
+                    </View>
+                    <View style={styles.labelContainer}>
+                      <Text style={styles.label} maxFontSizeMultiplier={1.3}>Register Mode</Text>
+                      <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>
+                        {isRegisterMode ? 'On - cashiers unlock with a PIN' : 'Share this device with PIN switching'}
+                      </Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+              </>
+            )}
+
+            <View style={styles.divider} />
+
+            {/* Customers */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('Customers')}
+              accessibilityRole="button"
+              accessibilityLabel="Customers"
+              accessibilityHint="Look up customers, order history and loyalty points"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="people-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Customers</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Order history & loyalty points</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            {/* Gift Cards */}
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate('GiftCards')}
+              accessibilityRole="button"
+              accessibilityLabel="Gift Cards"
+              accessibilityHint="Sell gift cards and check balances"
+            >
+              <View style={styles.rowLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+                  <Ionicons name="gift-outline" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.labelContainer}>
+                  <Text style={styles.label} maxFontSizeMultiplier={1.3}>Gift Cards</Text>
+                  <Text style={styles.sublabel} maxFontSizeMultiplier={1.3}>Sell cards & check balances</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
             {/* Dark Mode */}
             <View style={styles.row}>
               <View style={styles.rowLeft}>
@@ -789,12 +1080,19 @@ export function SettingsScreen() {
           </View>
         </View>
 
-        {/* Sign Out */}
+        {/* Sign Out - in register mode the cashier locks the register instead */}
         <View style={styles.section}>
-          <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut} accessibilityRole="button" accessibilityLabel="Sign out">
-            <Ionicons name="log-out-outline" size={20} color={colors.error} />
-            <Text style={styles.signOutText} maxFontSizeMultiplier={1.3}>Sign Out</Text>
-          </TouchableOpacity>
+          {isRegisterMode ? (
+            <TouchableOpacity style={styles.signOutButton} onPress={lock} accessibilityRole="button" accessibilityLabel="Lock register">
+              <Ionicons name="lock-closed-outline" size={20} color={colors.error} />
+              <Text style={styles.signOutText} maxFontSizeMultiplier={1.3}>Lock Register</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut} accessibilityRole="button" accessibilityLabel="Sign out">
+              <Ionicons name="log-out-outline" size={20} color={colors.error} />
+              <Text style={styles.signOutText} maxFontSizeMultiplier={1.3}>Sign Out</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Footer */}
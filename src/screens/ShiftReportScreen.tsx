@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Share,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
+import { shiftsApi } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { formatZReport, formatVariance, getPaymentMethodLabel } from '../utils/shift-report';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+
+type RouteParams = {
+  ShiftReport: {
+    shiftId: string;
+  };
+};
+
+export function ShiftReportScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency, user } = useAuth();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RouteParams, 'ShiftReport'>>();
+  const insets = useSafeAreaInsets();
+  const { shiftId } = route.params;
+
+  const [showEmailInput, setShowEmailInput] = useState(false);
+  const [email, setEmail] = useState(user?.email || '');
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['shift-report', shiftId],
+    queryFn: () => shiftsApi.getReport(shiftId),
+  });
+
+  const handleShare = async () => {
+    if (!report) return;
+    try {
+      // The share sheet includes Print on iOS and Android
+      await Share.share({
+        title: 'Z-Report',
+        message: formatZReport(report, currency),
+      });
+    } catch (err) {
+      logger.error('Share Z-report error:', err);
+    }
+  };
+
+  const handleSendEmail = async () => {
+    const to = email.trim();
+    if (!to) {
+      Alert.alert('Missing Email', 'Enter an email address to send the report to.');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await shiftsApi.emailReport(shiftId, to);
+      setShowEmailInput(false);
+      Alert.alert('Report Sent', `Z-report sent to ${to}`);
+    } catch (err: any) {
+      Alert.alert('Error', err.error || err.message || 'Failed to send report');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    summaryLabel: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      flexShrink: 1,
+      marginRight: 12,
+    },
+    summaryValue: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    totalLabel: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    totalValue: {
+      fontSize: 16,
+      fontFamily: fonts.bold,
+      color: colors.text,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    centered: {
+      alignItems: 'center',
+      paddingVertical: 48,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    notesText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      padding: 16,
+    },
+    actionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+    },
+    actionButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
+    emailForm: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  const renderRow = (label: string, value: string, valueColor?: string) => (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.5}>{label}</Text>
+      <Text style={[styles.summaryValue, valueColor ? { color: valueColor } : null]} maxFontSizeMultiplier={1.5}>{value}</Text>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading report" />
+        </View>
+      );
+    }
+
+    if (error || !report) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Couldn't load this report.</Text>
+        </View>
+      );
+    }
+
+    const { shift } = report;
+    const money = (cents: number) => formatCents(cents, currency);
+    const variance = shift.variance ?? 0;
+    const varianceColor = variance === 0 ? colors.success : variance > 0 ? colors.warning : colors.error;
+
+    return (
+      <>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Shift</Text>
+          <View style={styles.card}>
+            {renderRow('Opened', `${new Date(shift.openedAt).toLocaleString()}${shift.openedByName ? ` · ${shift.openedByName}` : ''}`)}
+            {renderRow('Closed', shift.closedAt
+              ? `${new Date(shift.closedAt).toLocaleString()}${shift.closedByName ? ` · ${shift.closedByName}` : ''}`
+              : 'Still open')}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Sales</Text>
+          <View style={styles.card}>
+            {renderRow('Orders', report.orderCount.toString())}
+            {renderRow('Gross sales', money(report.grossSales))}
+            {report.discounts > 0 && renderRow('Discounts', `-${money(report.discounts)}`)}
+            {report.refunds > 0 && renderRow('Refunds', `-${money(report.refunds)}`)}
+            <View style={styles.divider} />
+            <View style={[styles.summaryRow, { paddingVertical: 14 }]}>
+              <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>Net sales</Text>
+              <Text style={styles.totalValue} maxFontSizeMultiplier={1.3}>{money(report.netSales)}</Text>
+            </View>
+            <View style={styles.divider} />
+            {renderRow('Tax collected', money(report.taxCollected))}
+            {renderRow('Tips', money(report.tipsCollected))}
+          </View>
+        </View>
+
+        {report.payments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Payments</Text>
+            <View style={styles.card}>
+              {report.payments.map((p) => (
+                <React.Fragment key={p.method}>
+                  {renderRow(`${getPaymentMethodLabel(p.method)} (${p.count})`, money(p.amount))}
+                </React.Fragment>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Cash Drawer</Text>
+          <View style={styles.card}>
+            {renderRow('Starting float', money(shift.startingFloat))}
+            {renderRow('Cash sales', money(shift.cashSales))}
+            {shift.cashRefunds > 0 && renderRow('Cash refunds', `-${money(shift.cashRefunds)}`)}
+            {renderRow('Pay ins', money(shift.payIns))}
+            {renderRow('Pay outs', shift.payOuts > 0 ? `-${money(shift.payOuts)}` : money(0))}
+            <View style={styles.divider} />
+            {renderRow('Expected', money(shift.expectedCash))}
+            {renderRow('Counted', shift.countedCash !== null ? money(shift.countedCash) : '-')}
+            <View style={[styles.summaryRow, { paddingVertical: 14 }]}>
+              <Text style={styles.totalLabel} maxFontSizeMultiplier={1.3}>Over / short</Text>
+              <Text style={[styles.totalValue, { color: varianceColor }]} maxFontSizeMultiplier={1.3}>
+                {shift.variance !== null ? formatVariance(variance, currency) : '-'}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {report.movements.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Pay Ins & Pay Outs</Text>
+            <View style={styles.card}>
+              {report.movements.map((m) => (
+                <React.Fragment key={m.id}>
+                  {renderRow(
+                    `${new Date(m.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} · ${m.reason}`,
+                    `${m.type === 'pay_in' ? '+' : '-'}${money(m.amount)}`,
+                    m.type === 'pay_in' ? colors.success : colors.error,
+                  )}
+                </React.Fragment>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {shift.notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Notes</Text>
+            <View style={styles.card}>
+              <Text style={styles.notesText} maxFontSizeMultiplier={1.5}>{shift.notes}</Text>
+            </View>
+          </View>
+        )}
+
+        {/* Email */}
+        <View style={styles.section}>
+          <View style={styles.card}>
+            {showEmailInput ? (
+              <View style={styles.emailForm}>
+                <TextInput
+                  style={styles.input}
+                  value={email}
+                  onChangeText={setEmail}
+                  placeholder="Email address"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel="Email address for the report"
+                  maxFontSizeMultiplier={1.3}
+                />
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => setShowEmailInput(false)}
+                    accessibilityRole="button"
+                    accessibilityLabel="Cancel"
+                  >
+                    <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, isSending && { opacity: 0.6 }]}
+                    onPress={handleSendEmail}
+                    disabled={isSending}
+                    accessibilityRole="button"
+                    accessibilityLabel="Send report"
+                  >
+                    {isSending ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Sending" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Send</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setShowEmailInput(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Email report"
+              >
+                <Ionicons name="mail-outline" size={20} color={colors.primary} />
+                <Text style={styles.actionButtonText} maxFontSizeMultiplier={1.3}>Email Report</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {can('view_reports') && (
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => navigation.navigate('TipReport', { shiftId })}
+                accessibilityRole="button"
+                accessibilityLabel="Tip pool"
+                accessibilityHint="See how this shift's tips are shared between the team"
+              >
+                <Ionicons name="people-outline" size={20} color={colors.primary} />
+                <Text style={styles.actionButtonText} maxFontSizeMultiplier={1.3}>Tip Pool</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Z-Report</Text>
+        {report && (
+          <View style={styles.headerRight}>
+            <TouchableOpacity
+              onPress={handleShare}
+              accessibilityRole="button"
+              accessibilityLabel="Share or print report"
+            >
+              <Ionicons name="share-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {renderContent()}
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -20,8 +20,11 @@ import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context/CartContext';
 import { useTerminal } from '../context/StripeTerminalContext';
-import { ordersApi, OrderPayment, stripeTerminalApi } from '../lib/api';
+import { useCatalog } from '../context/CatalogContext';
+import { ordersApi, Order, OrderPayment, AddPaymentParams, stripeTerminalApi, giftCardsApi, GiftCard } from '../lib/api';
 import { formatCents, getCurrencySymbol } from '../utils/currency';
+import { splitEvenly, getUnclaimedQuantity, calculateItemsShare, getClaimedItems, getPaidShares } from '../utils/split';
+import { CodeScannerModal } from '../components/CodeScannerModal';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 import { shadows } from '../lib/shadows';
@@ -34,10 +37,24 @@ type RouteParams = {
     orderNumber: string;
     totalAmount: number; // in cents
     customerEmail?: string;
+    initialMethod?: PaymentMethod; // e.g. gift card chosen at checkout
+    isGiftCardSale?: boolean; // a gift card can't be bought with another gift card
   };
 };
 
-type PaymentMethod = 'card' | 'cash' | 'tap_to_pay';
+type PaymentMethod = 'card' | 'cash' | 'tap_to_pay' | 'gift_card';
+
+const PAYMENT_METHODS: PaymentMethod[] = ['tap_to_pay', 'card', 'cash', 'gift_card'];
+
+type SplitMode = 'custom' | 'even' | 'items';
+
+const SPLIT_MODES: Array<{ key: SplitMode; label: string }> = [
+  { key: 'custom', label: 'Custom' },
+  { key: 'even', label: 'Even' },
+  { key: 'items', label: 'By Item' },
+];
+
+const MAX_GUESTS = 20;
 
 export function SplitPaymentScreen() {
   const { colors, isDark } = useTheme();
@@ -46,11 +63,13 @@ export function SplitPaymentScreen() {
   const navigation = useNavigation<any>();
   const route = useRoute<RouteProp<RouteParams, 'SplitPayment'>>();
   const { clearCart } = useCart();
+  const { selectedCatalog } = useCatalog();
   const glassColors = isDark ? glass.dark : glass.light;
   const { initializeTerminal, connectReader, processPayment: terminalProcessPayment, preferredReader, processServerDrivenPayment, waitForWarm } = useTerminal();
   const { confirmPayment } = useConfirmPayment();
 
-  const { orderId, orderNumber, totalAmount, customerEmail } = route.params;
+  const { orderId, orderNumber, totalAmount, customerEmail, initialMethod, isGiftCardSale } = route.params;
+  const paymentMethods = isGiftCardSale ? PAYMENT_METHODS.filter(method => method !== 'gift_card') : PAYMENT_METHODS;
 
   const [payments, setPayments] = useState<OrderPayment[]>([]);
   const [totalPaid, setTotalPaid] = useState(0);
@@ -59,11 +78,28 @@ export function SplitPaymentScreen() {
   const [isProcessing, setIsProcessing] = useState(false);
 
   // Add payment modal state
-  const [showAddPayment, setShowAddPayment] = useState(false);
-  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>('tap_to_pay');
+  const [showAddPayment, setShowAddPayment] = useState(!!initialMethod);
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>(initialMethod || 'tap_to_pay');
   const [cardDetails, setCardDetails] = useState<CardFieldInput.Details | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
   const [cashTendered, setCashTendered] = useState('');
+  const [tipPercent, setTipPercent] = useState<number | null>(null);
+  const [customTip, setCustomTip] = useState('');
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCard, setGiftCard] = useState<GiftCard | null>(null);
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  // Split mode state
+  const [splitMode, setSplitMode] = useState<SplitMode>('custom');
+  const [guestCount, setGuestCount] = useState(2);
+  const [order, setOrder] = useState<Order | null>(null);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [selectedItems, setSelectedItems] = useState<Record<string, number>>({}); // current guest's picks
+
+  // Each payment records its share, so the split picks up where it left off if the screen is reopened
+  const claimedItems = useMemo(() => getClaimedItems(payments), [payments]); // item ID -> quantity paid for
+  const paidShares = useMemo(() => getPaidShares(payments), [payments]);
 
   const styles = createStyles(colors, glassColors, isDark);
 
@@ -75,11 +111,18 @@ export function SplitPaymentScreen() {
       setTotalPaid(response.totalPaid);
       setRemainingBalance(response.remainingBalance);
 
+      // Keep the guest count an earlier even split used
+      const lastEvenSplit = [...response.payments].reverse().find(payment => payment.splitGuests);
+      if (lastEvenSplit?.splitGuests) {
+        setGuestCount(count => Math.max(count, lastEvenSplit.splitGuests!));
+      }
+
       // Check if order is complete
       if (response.remainingBalance <= 0) {
         handleOrderComplete();
       }
     } catch (error: any) {
+      Alert.alert('Error', error.error || error.message || 'Failed to load payments for this order');
     } finally {
       setIsLoading(false);
     }
@@ -89,6 +132,52 @@ export function SplitPaymentScreen() {
     fetchPayments();
   }, [fetchPayments]);
 
+  // Order items are only needed for splitting by item
+  const fetchOrder = useCallback(async () => {
+    setOrderError(null);
+    try {
+      setOrder(await ordersApi.get(orderId));
+    } catch (error: any) {
+      setOrderError(error.error || error.message || 'Failed to load the order items');
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const tipPercentages = selectedCatalog?.tipPercentages ?? [15, 18, 20, 25];
+  const orderItems = order?.items || [];
+
+  // Even split: the remaining balance is shared by the guests who haven't paid yet,
+  // so earlier custom payments and rounding are absorbed by the last share.
+  // A balance of a few cents goes to fewer guests so no share comes out as zero
+  const evenShares = useMemo(
+    () => splitEvenly(remainingBalance, Math.min(Math.max(1, guestCount - paidShares), remainingBalance)),
+    [remainingBalance, guestCount, paidShares]
+  );
+
+  const itemsShare = useMemo(() => {
+    if (!order) return 0;
+    const claimsEverything = (order.items || []).every(
+      item => getUnclaimedQuantity(item, claimedItems) <= (selectedItems[item.id] || 0)
+    );
+    // The last guest covers whatever is left so rounding never leaves a cent behind
+    if (claimsEverything && Object.values(selectedItems).some(quantity => quantity > 0)) {
+      return remainingBalance;
+    }
+    return Math.min(calculateItemsShare(order, selectedItems), remainingBalance);
+  }, [order, claimedItems, selectedItems, remainingBalance]);
+
+  // Even and by-item modes fill in the amount
+  useEffect(() => {
+    if (splitMode === 'even') {
+      setPaymentAmount(evenShares.length > 0 ? (evenShares[0] / 100).toFixed(2) : '');
+    } else if (splitMode === 'items') {
+      setPaymentAmount(itemsShare > 0 ? (itemsShare / 100).toFixed(2) : '');
+    }
+  }, [splitMode, evenShares, itemsShare]);
+
   const handleOrderComplete = () => {
     clearCart();
     navigation.dispatch(
@@ -121,7 +210,7 @@ export function SplitPaymentScreen() {
 
       // Create payment intent via API
       const piResponse = await stripeTerminalApi.createPaymentIntent({
-        amount: amount / 100, // Convert cents to dollars for API
+        amount: (amount + tipCents) / 100, // Convert cents to dollars for API
       });
 
       if (isServerDriven) {
@@ -133,6 +222,8 @@ export function SplitPaymentScreen() {
         await ordersApi.addPayment(orderId, {
           paymentMethod: 'tap_to_pay',
           amount,
+          ...getSplitDetails(),
+          tipAmount: tipCents,
           stripePaymentIntentId: piResponse.id,
         });
       } else {
@@ -158,13 +249,13 @@ export function SplitPaymentScreen() {
         await ordersApi.addPayment(orderId, {
           paymentMethod: 'tap_to_pay',
           amount,
+          ...getSplitDetails(),
+          tipAmount: tipCents,
           stripePaymentIntentId: piResponse.id,
         });
       }
 
-      await fetchPayments();
-      setShowAddPayment(false);
-      resetPaymentForm();
+      await handlePaymentRecorded();
     } catch (error: any) {
       Alert.alert('Payment Failed', error.message || 'Failed to process payment');
     } finally {
@@ -182,7 +273,7 @@ export function SplitPaymentScreen() {
     setIsProcessing(true);
     try {
       const paymentIntent = await stripeTerminalApi.createPaymentIntent({
-        amount: amount / 100,
+        amount: (amount + tipCents) / 100,
         orderId,
         isQuickCharge: false,
         captureMethod: 'automatic',
@@ -215,12 +306,12 @@ export function SplitPaymentScreen() {
       await ordersApi.addPayment(orderId, {
         paymentMethod: 'card',
         amount,
+        ...getSplitDetails(),
+        tipAmount: tipCents,
         stripePaymentIntentId: paymentIntent.id,
       });
 
-      await fetchPayments();
-      setShowAddPayment(false);
-      resetPaymentForm();
+      await handlePaymentRecorded();
     } catch (error: any) {
       Alert.alert('Payment Failed', error.message || 'Failed to process card payment');
     } finally {
@@ -235,19 +326,19 @@ export function SplitPaymentScreen() {
       await ordersApi.addPayment(orderId, {
         paymentMethod: 'cash',
         amount,
+        ...getSplitDetails(),
+        tipAmount: tipCents,
         cashTendered: tendered,
       });
 
       // Show change if any
-      const change = tendered - amount;
+      const change = tendered - amount - tipCents;
       if (change > 0) {
         Alert.alert('Change Due', `Give customer ${formatCents(change, currency)} in change`);
       }
 
       // Refresh payments
-      await fetchPayments();
-      setShowAddPayment(false);
-      resetPaymentForm();
+      await handlePaymentRecorded();
     } catch (error: any) {
       Alert.alert('Payment Failed', error.message || 'Failed to process cash payment');
     } finally {
@@ -255,16 +346,105 @@ export function SplitPaymentScreen() {
     }
   };
 
+  // Process gift card or store credit payment - the balance is debited server-side
+  const processGiftCardPayment = async (amount: number, card: GiftCard) => {
+    setIsProcessing(true);
+    try {
+      await ordersApi.addPayment(orderId, {
+        paymentMethod: 'gift_card',
+        amount,
+        ...getSplitDetails(),
+        tipAmount: tipCents,
+        giftCardCode: card.code,
+      });
+
+      await handlePaymentRecorded();
+    } catch (error: any) {
+      Alert.alert('Payment Failed', error.message || 'Failed to redeem gift card');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Look up a typed or scanned code and prefill as much of the balance as the order needs
+  const checkGiftCard = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    setGiftCardCode(trimmed);
+    setIsCheckingGiftCard(true);
+    try {
+      const card = await giftCardsApi.lookup(trimmed);
+      if (card.status !== 'active' || card.balance <= 0) {
+        setGiftCard(null);
+        Alert.alert('Card Unavailable', card.status === 'depleted' || card.balance <= 0
+          ? 'This card has no balance left.'
+          : 'This card is not active.');
+        return;
+      }
+      setGiftCard(card);
+      if (splitMode === 'custom') {
+        setPaymentAmount((Math.min(card.balance, remainingBalance) / 100).toFixed(2));
+      }
+    } catch (error: any) {
+      setGiftCard(null);
+      Alert.alert('Card Not Found', error.message || 'No gift card matches this code');
+    } finally {
+      setIsCheckingGiftCard(false);
+    }
+  };
+
   const resetPaymentForm = () => {
     setPaymentAmount('');
     setCashTendered('');
     setCardDetails(null);
     setSelectedMethod('tap_to_pay');
+    setTipPercent(null);
+    setCustomTip('');
+    setGiftCardCode('');
+    setGiftCard(null);
+  };
+
+  // The even share or item picks a payment covers, stored with it on the order
+  const getSplitDetails = (): Pick<AddPaymentParams, 'splitItems' | 'splitGuests'> => {
+    if (splitMode === 'even') return { splitGuests: guestCount };
+    if (splitMode === 'items') {
+      return {
+        splitItems: Object.entries(selectedItems)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+      };
+    }
+    return {};
+  };
+
+  // Refresh the payments, which now include this guest's share
+  const handlePaymentRecorded = async () => {
+    setSelectedItems({});
+    await fetchPayments();
+    setShowAddPayment(false);
+    resetPaymentForm();
+  };
+
+  const handleSelectMode = (mode: SplitMode) => {
+    setSplitMode(mode);
+    setPaymentAmount('');
+    setSelectedItems({});
+  };
+
+  const changeItemQuantity = (itemId: string, delta: number, max: number) => {
+    setSelectedItems(prev => ({
+      ...prev,
+      [itemId]: Math.max(0, Math.min(max, (prev[itemId] || 0) + delta)),
+    }));
   };
 
   const MIN_STRIPE_AMOUNT_CENTS = 50; // $0.50 minimum for Stripe
 
   const amountCents = Math.round(parseFloat(paymentAmount || '0') * 100);
+  const tipCents = tipPercent !== null
+    ? Math.round(amountCents * (tipPercent / 100))
+    : Math.max(0, Math.round(parseFloat(customTip || '0') * 100));
   const isStripeMethod = selectedMethod === 'tap_to_pay' || selectedMethod === 'card';
   const isBelowStripeMinimum = isStripeMethod && amountCents > 0 && amountCents < MIN_STRIPE_AMOUNT_CENTS;
 
@@ -288,11 +468,24 @@ export function SplitPaymentScreen() {
 
     if (selectedMethod === 'cash') {
       const tenderedCents = Math.round(parseFloat(cashTendered || '0') * 100);
-      if (tenderedCents < amountCents) {
-        Alert.alert('Insufficient Cash', 'Cash tendered must be at least the payment amount');
+      if (tenderedCents < amountCents + tipCents) {
+        Alert.alert('Insufficient Cash', 'Cash tendered must be at least the payment amount plus tip');
         return;
       }
       await processCashPayment(amountCents, tenderedCents);
+    } else if (selectedMethod === 'gift_card') {
+      if (!giftCard) {
+        Alert.alert('Gift Card Required', 'Scan or enter a gift card code and check its balance.');
+        return;
+      }
+      if (amountCents + tipCents > giftCard.balance) {
+        Alert.alert(
+          'Insufficient Balance',
+          `This card has ${formatCents(giftCard.balance, currency)} left. Lower the amount and take the rest with another method.`
+        );
+        return;
+      }
+      await processGiftCardPayment(amountCents, giftCard);
     } else if (selectedMethod === 'tap_to_pay') {
       await processTapToPayPayment(amountCents);
     } else {
@@ -312,6 +505,8 @@ export function SplitPaymentScreen() {
         return 'card-outline';
       case 'tap_to_pay':
         return 'phone-portrait-outline';
+      case 'gift_card':
+        return 'gift-outline';
       default:
         return 'card-outline';
     }
@@ -325,6 +520,8 @@ export function SplitPaymentScreen() {
         return 'Card';
       case 'tap_to_pay':
         return 'Tap to Pay';
+      case 'gift_card':
+        return 'Gift Card';
       default:
         return 'Card';
     }
@@ -427,9 +624,144 @@ export function SplitPaymentScreen() {
                 <View style={styles.paymentForm}>
                   <Text style={styles.formTitle} maxFontSizeMultiplier={1.3}>Add Payment</Text>
 
+                  {/* Split Mode Selection */}
+                  <View style={styles.splitModeSelection}>
+                    {SPLIT_MODES.map(({ key, label }) => {
+                      const isSelected = splitMode === key;
+                      const unavailable = key === 'items' && orderItems.length === 0 && !orderError;
+                      return (
+                        <TouchableOpacity
+                          key={key}
+                          style={[
+                            styles.splitModeButton,
+                            isSelected && styles.splitModeButtonSelected,
+                            unavailable && styles.methodButtonDisabled,
+                          ]}
+                          onPress={() => handleSelectMode(key)}
+                          disabled={unavailable}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Split ${label.toLowerCase()}`}
+                          accessibilityState={{ selected: isSelected, disabled: unavailable }}
+                        >
+                          <Text
+                            style={[styles.splitModeText, isSelected && styles.methodButtonTextSelected]}
+                            maxFontSizeMultiplier={1.3}
+                          >
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {/* Even Split */}
+                  {splitMode === 'even' && (
+                    <View style={styles.inputGroup}>
+                      <View style={styles.guestRow}>
+                        <Text style={styles.inputLabel} maxFontSizeMultiplier={1.5}>Number of Guests</Text>
+                        <View style={styles.stepper}>
+                          <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => setGuestCount(count => Math.max(Math.max(2, paidShares + 1), count - 1))}
+                            disabled={guestCount <= Math.max(2, paidShares + 1)}
+                            accessibilityRole="button"
+                            accessibilityLabel="Fewer guests"
+                          >
+                            <Ionicons name="remove" size={18} color={colors.text} />
+                          </TouchableOpacity>
+                          <Text style={styles.stepperValue} maxFontSizeMultiplier={1.3}>{guestCount}</Text>
+                          <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => setGuestCount(count => Math.min(MAX_GUESTS, count + 1))}
+                            disabled={guestCount >= MAX_GUESTS}
+                            accessibilityRole="button"
+                            accessibilityLabel="More guests"
+                          >
+                            <Ionicons name="add" size={18} color={colors.text} />
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                      {Array.from({ length: guestCount }).map((_, index) => {
+                        const isPaid = index < paidShares;
+                        const isCurrent = index === paidShares;
+                        return (
+                          <View key={index} style={styles.shareRow}>
+                            <Text style={[styles.shareLabel, isCurrent && styles.shareLabelCurrent]} maxFontSizeMultiplier={1.5}>
+                              Guest {index + 1}
+                            </Text>
+                            <Text style={[styles.shareAmount, isPaid && { color: colors.success }]} maxFontSizeMultiplier={1.5}>
+                              {isPaid ? 'Paid' : formatCents(evenShares[index - paidShares] || 0, currency)}
+                            </Text>
+                          </View>
+                        );
+                      })}
+                    </View>
+                  )}
+
+                  {/* Split by Item */}
+                  {splitMode === 'items' && (
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel} maxFontSizeMultiplier={1.5}>Items for This Guest</Text>
+                      {orderError && (
+                        <View style={styles.shareRow}>
+                          <Text style={[styles.shareItemMeta, styles.shareItemInfo, { color: colors.error }]} maxFontSizeMultiplier={1.5}>
+                            {orderError}
+                          </Text>
+                          <TouchableOpacity onPress={fetchOrder} accessibilityRole="button" accessibilityLabel="Retry loading order items">
+                            <Text style={styles.retryText} maxFontSizeMultiplier={1.3}>Retry</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                      {orderItems.map(item => {
+                        const available = getUnclaimedQuantity(item, claimedItems);
+                        const quantity = selectedItems[item.id] || 0;
+                        return (
+                          <View key={item.id} style={styles.shareRow}>
+                            <View style={styles.shareItemInfo}>
+                              <Text style={[styles.shareLabel, available === 0 && styles.methodButtonTextDisabled]} numberOfLines={1} maxFontSizeMultiplier={1.5}>
+                                {item.name}
+                              </Text>
+                              <Text style={styles.shareItemMeta} maxFontSizeMultiplier={1.5}>
+                                {available === 0 ? 'Paid' : `${formatCents(item.unitPrice, currency)} · ${available} left`}
+                              </Text>
+                            </View>
+                            {available > 0 && (
+                              <View style={styles.stepper}>
+                                <TouchableOpacity
+                                  style={styles.stepperButton}
+                                  onPress={() => changeItemQuantity(item.id, -1, available)}
+                                  disabled={quantity === 0}
+                                  accessibilityRole="button"
+                                  accessibilityLabel={`Remove one ${item.name}`}
+                                >
+                                  <Ionicons name="remove" size={18} color={quantity === 0 ? colors.textMuted : colors.text} />
+                                </TouchableOpacity>
+                                <Text style={styles.stepperValue} maxFontSizeMultiplier={1.3}>{quantity}</Text>
+                                <TouchableOpacity
+                                  style={styles.stepperButton}
+                                  onPress={() => changeItemQuantity(item.id, 1, available)}
+                                  disabled={quantity >= available}
+                                  accessibilityRole="button"
+                                  accessibilityLabel={`Add one ${item.name}`}
+                                >
+                                  <Ionicons name="add" size={18} color={quantity >= available ? colors.textMuted : colors.text} />
+                                </TouchableOpacity>
+                              </View>
+                            )}
+                          </View>
+                        );
+                      })}
+                      {itemsShare > 0 && (
+                        <Text style={styles.shareItemMeta} maxFontSizeMultiplier={1.5}>
+                          {order?.serviceChargeAmount ? 'Includes tax and service charge on the selected items' : 'Includes tax on the selected items'}
+                        </Text>
+                      )}
+                    </View>
+                  )}
+
                   {/* Payment Method Selection */}
                   <View style={styles.methodSelection}>
-                    {(['tap_to_pay', 'card', 'cash'] as PaymentMethod[]).map((method) => {
+                    {paymentMethods.map((method) => {
                       const isStripe = method === 'tap_to_pay' || method === 'card';
                       const belowMin = isStripe && remainingBalance < MIN_STRIPE_AMOUNT_CENTS;
                       return (
@@ -485,19 +817,66 @@ export function SplitPaymentScreen() {
                         style={styles.amountInput}
                         value={paymentAmount}
                         onChangeText={setPaymentAmount}
+                        editable={splitMode === 'custom'}
                         keyboardType="decimal-pad"
                         placeholder="0.00"
                         placeholderTextColor={colors.textMuted}
                         accessibilityLabel="Payment amount"
                       />
-                      <TouchableOpacity
-                        style={styles.remainingButton}
-                        onPress={handlePayRemaining}
-                        accessibilityRole="button"
-                        accessibilityLabel={`Fill remaining balance ${formatCents(remainingBalance, currency)}`}
-                      >
-                        <Text style={styles.remainingButtonText} maxFontSizeMultiplier={1.3}>Remaining</Text>
-                      </TouchableOpacity>
+                      {splitMode === 'custom' && (
+                        <TouchableOpacity
+                          style={styles.remainingButton}
+                          onPress={handlePayRemaining}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Fill remaining balance ${formatCents(remainingBalance, currency)}`}
+                        >
+                          <Text style={styles.remainingButtonText} maxFontSizeMultiplier={1.3}>Remaining</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+
+                  {/* Tip for this share */}
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel} maxFontSizeMultiplier={1.5}>
+                      Tip{tipCents > 0 ? ` · ${formatCents(tipCents, currency)}` : ''}
+                    </Text>
+                    <View style={styles.tipOptions}>
+                      {[...tipPercentages, 0].map((pct: number) => {
+                        const isSelected = tipPercent === pct;
+                        return (
+                          <TouchableOpacity
+                            key={pct}
+                            style={[styles.tipOption, isSelected && styles.methodButtonSelected]}
+                            onPress={() => {
+                              setTipPercent(pct);
+                              setCustomTip('');
+                            }}
+                            accessibilityRole="button"
+                            accessibilityLabel={pct === 0 ? 'No tip' : `${pct} percent tip`}
+                            accessibilityState={{ selected: isSelected }}
+                          >
+                            <Text style={[styles.methodButtonText, isSelected && styles.methodButtonTextSelected]} maxFontSizeMultiplier={1.3}>
+                              {pct === 0 ? 'None' : `${pct}%`}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <View style={[styles.amountInputContainer, { marginTop: 8 }]}>
+                      <Text style={styles.dollarSign} maxFontSizeMultiplier={1.3}>{getCurrencySymbol(currency)}</Text>
+                      <TextInput
+                        style={styles.amountInput}
+                        value={customTip}
+                        onChangeText={(text) => {
+                          setCustomTip(text);
+                          setTipPercent(null);
+                        }}
+                        keyboardType="decimal-pad"
+                        placeholder="Custom tip"
+                        placeholderTextColor={colors.textMuted}
+                        accessibilityLabel="Custom tip amount"
+                      />
                     </View>
                   </View>
 
@@ -522,10 +901,70 @@ export function SplitPaymentScreen() {
                         <View style={styles.changeDisplay}>
                           <Text style={styles.changeLabel} maxFontSizeMultiplier={1.5}>Change Due:</Text>
                           <Text style={styles.changeAmount} maxFontSizeMultiplier={1.3}>
-                            {formatCents(Math.round(Math.max(0, (parseFloat(cashTendered) - parseFloat(paymentAmount))) * 100), currency)}
+                            {formatCents(Math.max(0, Math.round(parseFloat(cashTendered) * 100) - amountCents - tipCents), currency)}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  )}
+
+                  {/* Gift Card (code entry, scan and balance) */}
+                  {selectedMethod === 'gift_card' && (
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel} maxFontSizeMultiplier={1.5}>Gift Card or Store Credit</Text>
+                      <View style={styles.amountInputContainer}>
+                        <TextInput
+                          style={[styles.amountInput, styles.giftCardInput]}
+                          value={giftCardCode}
+                          onChangeText={(text) => {
+                            setGiftCardCode(text);
+                            setGiftCard(null);
+                          }}
+                          onSubmitEditing={() => checkGiftCard(giftCardCode)}
+                          autoCapitalize="characters"
+                          autoCorrect={false}
+                          returnKeyType="search"
+                          placeholder="Card code"
+                          placeholderTextColor={colors.textMuted}
+                          accessibilityLabel="Gift card code"
+                        />
+                        <TouchableOpacity
+                          style={styles.giftCardScanButton}
+                          onPress={() => setShowScanner(true)}
+                          accessibilityRole="button"
+                          accessibilityLabel="Scan gift card"
+                        >
+                          <Ionicons name="scan-outline" size={20} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.remainingButton}
+                          onPress={() => checkGiftCard(giftCardCode)}
+                          disabled={isCheckingGiftCard || !giftCardCode.trim()}
+                          accessibilityRole="button"
+                          accessibilityLabel="Check balance"
+                        >
+                          {isCheckingGiftCard ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
+                          ) : (
+                            <Text style={styles.remainingButtonText} maxFontSizeMultiplier={1.3}>Check</Text>
+                          )}
+                        </TouchableOpacity>
+                      </View>
+                      {giftCard && (
+                        <View style={styles.changeDisplay}>
+                          <Text style={styles.changeLabel} maxFontSizeMultiplier={1.5}>
+                            {giftCard.kind === 'store_credit' ? 'Store Credit Balance:' : 'Card Balance:'}
+                          </Text>
+                          <Text style={styles.changeAmount} maxFontSizeMultiplier={1.3}>
+                            {formatCents(giftCard.balance, currency)}
                           </Text>
                         </View>
                       )}
+                      {giftCard && amountCents + tipCents > giftCard.balance && (
+                        <Text style={styles.shareItemMeta} maxFontSizeMultiplier={1.5}>
+                          {`Covers up to ${formatCents(giftCard.balance, currency)}. Take the rest with another payment.`}
+                        </Text>
+                      )}
                     </View>
                   )}
 
@@ -606,6 +1045,17 @@ export function SplitPaymentScreen() {
           </View>
         )}
       </KeyboardAvoidingView>
+
+      <CodeScannerModal
+        visible={showScanner}
+        title="Scan Gift Card"
+        hint="Line up the card's barcode or QR code"
+        onScan={(code) => {
+          setShowScanner(false);
+          checkGiftCard(code);
+        }}
+        onClose={() => setShowScanner(false)}
+      />
     </View>
   );
 }
@@ -767,11 +1217,13 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
     },
     methodSelection: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       gap: 10,
       marginBottom: 20,
     },
     methodButton: {
       flex: 1,
+      minWidth: '45%',
       flexDirection: 'row',
       alignItems: 'center',
       justifyContent: 'center',
@@ -853,6 +1305,105 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       color: colors.text,
       paddingVertical: 14,
     },
+    splitModeSelection: {
+      flexDirection: 'row',
+      backgroundColor: glassColors.background,
+      borderRadius: 12,
+      padding: 4,
+      marginBottom: 16,
+    },
+    splitModeButton: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 9,
+      alignItems: 'center',
+    },
+    splitModeButtonSelected: {
+      backgroundColor: colors.primary,
+    },
+    splitModeText: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.textSecondary,
+    },
+    guestRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    stepperButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: glassColors.background,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+    },
+    stepperValue: {
+      minWidth: 20,
+      textAlign: 'center',
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    shareRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: glassColors.border,
+    },
+    shareLabel: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    shareLabelCurrent: {
+      color: colors.text,
+      fontFamily: fonts.semiBold,
+    },
+    shareAmount: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    shareItemInfo: {
+      flex: 1,
+      marginRight: 12,
+    },
+    shareItemMeta: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    retryText: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    tipOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    tipOption: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 10,
+      backgroundColor: glassColors.background,
+      borderWidth: 1,
+      borderColor: glassColors.border,
+    },
     remainingButton: {
       backgroundColor: colors.primary + '20',
       paddingHorizontal: 12,
@@ -864,6 +1415,15 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       fontFamily: fonts.medium,
       color: colors.primary,
     },
+    giftCardInput: {
+      fontSize: 16,
+      letterSpacing: 1,
+    },
+    giftCardScanButton: {
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      marginRight: 6,
+    },
     changeDisplay: {
       flexDirection: 'row',
       alignItems: 'center',
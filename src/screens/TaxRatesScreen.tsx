@@ -0,0 +1,479 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useCatalog } from '../context/CatalogContext';
+import { taxRatesApi, categoriesApi, TaxRate, TaxRateData } from '../lib/api';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+export function TaxRatesScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { selectedCatalog } = useCatalog();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const catalogId = selectedCatalog?.id;
+
+  // null = not editing, 'new' = creating, otherwise the rate being edited
+  const [editing, setEditing] = useState<TaxRate | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [rateString, setRateString] = useState('');
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+
+  const { data: taxRates, isLoading } = useQuery({
+    queryKey: ['tax-rates'],
+    queryFn: () => taxRatesApi.list(),
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ['categories', catalogId],
+    queryFn: () => categoriesApi.list(catalogId!),
+    enabled: !!catalogId,
+  });
+
+  const categoryNamesFor = (taxRateId: string) =>
+    (categories ?? []).filter(c => c.taxRateId === taxRateId).map(c => c.name);
+
+  const startEditing = (taxRate: TaxRate | 'new') => {
+    setEditing(taxRate);
+    setName(taxRate === 'new' ? '' : taxRate.name);
+    setRateString(taxRate === 'new' ? '' : String(taxRate.rate));
+    setCategoryIds(taxRate === 'new' ? [] : (categories ?? []).filter(c => c.taxRateId === taxRate.id).map(c => c.id));
+  };
+
+  const stopEditing = () => {
+    setEditing(null);
+    setName('');
+    setRateString('');
+    setCategoryIds([]);
+  };
+
+  const toggleCategory = (id: string) => {
+    setCategoryIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  // Saves the rate, then points this menu's categories at it (or back to the default)
+  const saveMutation = useMutation({
+    mutationFn: async (data: TaxRateData) => {
+      const saved = editing === 'new' || !editing
+        ? await taxRatesApi.create(data)
+        : await taxRatesApi.update(editing.id, data);
+      if (catalogId) {
+        const changed = (categories ?? []).filter(c =>
+          categoryIds.includes(c.id) ? c.taxRateId !== saved.id : c.taxRateId === saved.id
+        );
+        await Promise.all(changed.map(c =>
+          categoriesApi.update(catalogId, c.id, { taxRateId: categoryIds.includes(c.id) ? saved.id : null })
+        ));
+      }
+      return saved;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['categories', catalogId] });
+      stopEditing();
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to save tax rate');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (taxRateId: string) => taxRatesApi.delete(taxRateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to delete tax rate');
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Give the rate a name, e.g. "Food" or "Alcohol".');
+      return;
+    }
+    const rate = parseFloat(rateString);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      Alert.alert('Invalid Rate', 'Please enter a valid tax rate (0-100%)');
+      return;
+    }
+    saveMutation.mutate({ name: name.trim(), rate });
+  };
+
+  const handleDelete = (taxRate: TaxRate) => {
+    Alert.alert(
+      'Delete Tax Rate',
+      `Delete ${taxRate.name}? Categories and products using it will be taxed at each menu's default rate.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate(taxRate.id),
+        },
+      ]
+    );
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    rateName: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rateDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    deleteButton: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    rateInputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    rateInput: {
+      flex: 1,
+    },
+    percentSymbol: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginBottom: 12,
+    },
+    formLabel: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      gap: 12,
+    },
+    categoryName: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.text,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Tax Rates</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity
+            onPress={() => (editing ? stopEditing() : startEditing('new'))}
+            accessibilityRole="button"
+            accessibilityLabel={editing ? 'Cancel editing' : 'Add tax rate'}
+          >
+            <Ionicons name={editing ? 'close' : 'add-circle-outline'} size={26} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {editing && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>
+              {editing === 'new' ? 'New Tax Rate' : `Edit ${editing.name}`}
+            </Text>
+            <View style={styles.card}>
+              <View style={styles.form}>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Name (e.g. 'Alcohol')"
+                  placeholderTextColor={colors.textMuted}
+                  maxLength={40}
+                  accessibilityLabel="Tax rate name"
+                />
+                <View style={styles.rateInputRow}>
+                  <TextInput
+                    style={[styles.input, styles.rateInput]}
+                    value={rateString}
+                    onChangeText={setRateString}
+                    placeholder="0"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel="Tax rate percentage"
+                  />
+                  <Text style={styles.percentSymbol} maxFontSizeMultiplier={1.5}>%</Text>
+                </View>
+                {(categories ?? []).length > 0 && (
+                  <Text style={styles.formLabel} maxFontSizeMultiplier={1.5}>
+                    Categories on {selectedCatalog?.name || 'this menu'}
+                  </Text>
+                )}
+                {(categories ?? []).map(category => {
+                  const selected = categoryIds.includes(category.id);
+                  return (
+                    <TouchableOpacity
+                      key={category.id}
+                      style={styles.categoryRow}
+                      onPress={() => toggleCategory(category.id)}
+                      accessibilityRole="checkbox"
+                      accessibilityLabel={category.name}
+                      accessibilityState={{ checked: selected }}
+                    >
+                      <Ionicons
+                        name={selected ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={selected ? colors.primary : colors.textMuted}
+                      />
+                      <Text style={styles.categoryName} maxFontSizeMultiplier={1.3}>{category.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={stopEditing}
+                    accessibilityRole="button"
+                    accessibilityLabel="Cancel"
+                  >
+                    <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, saveMutation.isPending && { opacity: 0.6 }]}
+                    onPress={handleSave}
+                    disabled={saveMutation.isPending}
+                    accessibilityRole="button"
+                    accessibilityLabel="Save tax rate"
+                  >
+                    {saveMutation.isPending ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                    ) : (
+                      <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Rates</Text>
+          <View style={styles.card}>
+            {isLoading ? (
+              <View style={styles.emptyState}>
+                <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading tax rates" />
+              </View>
+            ) : !taxRates || taxRates.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="receipt-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  No tax rates yet.{'\n'}Tap + to tax food, alcohol or other categories at their own rate.
+                </Text>
+              </View>
+            ) : (
+              taxRates.map((taxRate, index) => {
+                const assigned = categoryNamesFor(taxRate.id);
+                return (
+                  <React.Fragment key={taxRate.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <TouchableOpacity
+                      style={styles.row}
+                      onPress={() => startEditing(taxRate)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${taxRate.name}, ${taxRate.rate}%. Tap to edit`}
+                    >
+                      <View style={styles.rowLeft}>
+                        <Text style={styles.rateName} maxFontSizeMultiplier={1.3}>{taxRate.name} · {taxRate.rate}%</Text>
+                        <Text style={styles.rateDetail} numberOfLines={2} maxFontSizeMultiplier={1.5}>
+                          {assigned.join(', ') || 'No categories on this menu'}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleDelete(taxRate)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Delete ${taxRate.name}`}
+                      >
+                        <Ionicons name="trash-outline" size={20} color={colors.error} />
+                      </TouchableOpacity>
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })
+            )}
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            Rates are shared by every menu. Items without a rate use the menu's default tax rate, and a product's own rate overrides its category's.
+          </Text>
+        </View>
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
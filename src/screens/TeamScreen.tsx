@@ -0,0 +1,906 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  RefreshControl,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useSocketEvent, SocketEvents } from '../context/SocketContext';
+import { usePermissions } from '../hooks';
+import { teamApi, TeamMember, TeamRole, TeamSession, InviteTeamMemberData } from '../lib/api';
+import { getDeviceId } from '../lib/device';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+type AssignableRole = Exclude<TeamRole, 'owner'>;
+
+const ROLE_OPTIONS: { key: AssignableRole; label: string; description: string }[] = [
+  { key: 'staff', label: 'Staff', description: 'Take payments and manage orders' },
+  { key: 'admin', label: 'Admin', description: 'Everything staff can do, plus refunds, menus, reports, banking and the team' },
+];
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  staff: 'Staff',
+};
+
+const STATUS_ORDER: Record<TeamMember['status'], number> = {
+  active: 0,
+  invited: 1,
+  deactivated: 2,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 6;
+
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${diffDays}d ago`;
+}
+
+function getMemberName(member: TeamMember): string {
+  const name = [member.firstName, member.lastName].filter(Boolean).join(' ');
+  return name || member.email;
+}
+
+export function TeamScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  const canManageTeam = can('manage_team');
+
+  const [inviting, setInviting] = useState(false);
+  const [email, setEmail] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [role, setRole] = useState<AssignableRole>('staff');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Member whose PIN is being set, and the PIN typed so far
+  const [pinMemberId, setPinMemberId] = useState<string | null>(null);
+  const [pinValue, setPinValue] = useState('');
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDeviceId().then(setDeviceId);
+  }, []);
+
+  const { data: members, isLoading, refetch, isRefetching } = useQuery({
+    queryKey: ['team'],
+    queryFn: teamApi.list,
+    enabled: canManageTeam,
+  });
+
+  // Keep the list current when another manager makes changes or a member signs in somewhere
+  const handleTeamUpdated = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['team'] });
+  }, [queryClient]);
+  useSocketEvent(SocketEvents.TEAM_UPDATED, handleTeamUpdated);
+
+  const sortedMembers = [...(members ?? [])].sort((a, b) => {
+    if (a.role === 'owner' || b.role === 'owner') return a.role === 'owner' ? -1 : 1;
+    if (a.status !== b.status) return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+    return getMemberName(a).localeCompare(getMemberName(b));
+  });
+
+  const stopInviting = () => {
+    setInviting(false);
+    setEmail('');
+    setFirstName('');
+    setLastName('');
+    setRole('staff');
+  };
+
+  const invalidateTeam = () => queryClient.invalidateQueries({ queryKey: ['team'] });
+
+  const inviteMutation = useMutation({
+    mutationFn: (data: InviteTeamMemberData) => teamApi.invite(data),
+    onSuccess: (member) => {
+      invalidateTeam();
+      stopInviting();
+      Alert.alert('Invite Sent', `${member.email} will get an email to set up their account.`);
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to send invite');
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (member: TeamMember) => teamApi.resendInvite(member.id),
+    onSuccess: (_, member) => {
+      Alert.alert('Invite Sent', `We sent another invite to ${member.email}.`);
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to resend invite');
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ memberId, newRole }: { memberId: string; newRole: AssignableRole }) =>
+      teamApi.updateRole(memberId, newRole),
+    onSuccess: invalidateTeam,
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to change role');
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: ({ memberId, pin }: { memberId: string; pin: string }) => teamApi.setPin(memberId, pin),
+    onSuccess: () => {
+      invalidateTeam();
+      setPinMemberId(null);
+      setPinValue('');
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to set PIN');
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (member: TeamMember) =>
+      member.status === 'deactivated' ? teamApi.reactivate(member.id) : teamApi.deactivate(member.id),
+    onSuccess: invalidateTeam,
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to update account');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: ({ memberId, sessionId }: { memberId: string; sessionId: string }) =>
+      teamApi.revokeSession(memberId, sessionId),
+    onSuccess: invalidateTeam,
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to sign out device');
+    },
+  });
+
+  const handleInvite = () => {
+    const trimmedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(trimmedEmail)) {
+      Alert.alert('Invalid Email', 'Enter the email address the invite should go to.');
+      return;
+    }
+    if (members?.some(m => m.email.toLowerCase() === trimmedEmail)) {
+      Alert.alert('Already on the Team', `${trimmedEmail} already has an account or a pending invite.`);
+      return;
+    }
+    inviteMutation.mutate({
+      email: trimmedEmail,
+      role,
+      firstName: firstName.trim() || undefined,
+      lastName: lastName.trim() || undefined,
+    });
+  };
+
+  const handleSavePin = (member: TeamMember) => {
+    if (pinValue.length < MIN_PIN_LENGTH) {
+      Alert.alert('PIN Too Short', `Use ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits.`);
+      return;
+    }
+    pinMutation.mutate({ memberId: member.id, pin: pinValue });
+  };
+
+  const handleRoleChange = (member: TeamMember, newRole: AssignableRole) => {
+    if (member.role === newRole) return;
+    Alert.alert(
+      'Change Role',
+      `Make ${getMemberName(member)} ${newRole === 'admin' ? 'an Admin' : 'Staff'}? This takes effect the next time the app refreshes their account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Change', onPress: () => roleMutation.mutate({ memberId: member.id, newRole }) },
+      ]
+    );
+  };
+
+  const handleToggleStatus = (member: TeamMember) => {
+    if (member.status === 'deactivated') {
+      statusMutation.mutate(member);
+      return;
+    }
+    if (member.status === 'invited') {
+      Alert.alert(
+        'Cancel Invite',
+        `Cancel the invite for ${member.email}? The link in their email will stop working.`,
+        [
+          { text: 'Keep', style: 'cancel' },
+          { text: 'Cancel Invite', style: 'destructive', onPress: () => statusMutation.mutate(member) },
+        ]
+      );
+      return;
+    }
+    Alert.alert(
+      'Deactivate Account',
+      `Deactivate ${getMemberName(member)}? They will be signed out of every device and can't sign in until reactivated. Their sales history is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Deactivate', style: 'destructive', onPress: () => statusMutation.mutate(member) },
+      ]
+    );
+  };
+
+  const handleRevokeSession = (member: TeamMember, session: TeamSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign ${getMemberName(member)} out of ${session.deviceName}? Anything unsaved on that device will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => revokeMutation.mutate({ memberId: member.id, sessionId: session.id }),
+        },
+      ]
+    );
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 8,
+    },
+    memberName: {
+      fontSize: 16,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    memberNameInactive: {
+      color: colors.textMuted,
+    },
+    memberDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    badge: {
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 8,
+      marginRight: 8,
+    },
+    badgeText: {
+      fontSize: 12,
+      fontFamily: fonts.semiBold,
+    },
+    expanded: {
+      paddingHorizontal: 16,
+      paddingBottom: 16,
+    },
+    label: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    chipActive: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: fonts.semiBold,
+    },
+    roleDescription: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: -4,
+      marginBottom: 12,
+    },
+    sessionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      gap: 12,
+    },
+    sessionInfo: {
+      flex: 1,
+    },
+    sessionName: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    sessionDetail: {
+      fontSize: 12,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    sessionAction: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.error,
+    },
+    thisDevice: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textMuted,
+    },
+    noSessions: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginBottom: 12,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    form: {
+      padding: 16,
+    },
+    input: {
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    pinRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 12,
+    },
+    pinInput: {
+      flex: 1,
+      marginBottom: 0,
+      letterSpacing: 4,
+    },
+    pinStatus: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+    },
+    pinSave: {
+      fontSize: 14,
+      fontFamily: fonts.semiBold,
+      color: colors.primary,
+    },
+    pinCancel: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    nameRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    nameInput: {
+      flex: 1,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    secondaryButton: {
+      flex: 1,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+      borderRadius: 10,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    destructiveButtonText: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.error,
+    },
+  });
+
+  const getStatusBadge = (member: TeamMember) => {
+    if (member.status === 'invited') return { label: 'Invited', color: colors.warning };
+    if (member.status === 'deactivated') return { label: 'Deactivated', color: colors.textMuted };
+    return { label: ROLE_LABELS[member.role], color: member.role === 'staff' ? colors.textSecondary : colors.primary };
+  };
+
+  const renderSessions = (member: TeamMember) => {
+    if (member.sessions.length === 0) {
+      return (
+        <Text style={styles.noSessions} maxFontSizeMultiplier={1.5}>Not signed in on any device</Text>
+      );
+    }
+    return member.sessions.map(session => {
+      const isThisDevice = member.id === user?.id && session.deviceId === deviceId;
+      const details = [session.deviceModel, session.os, `active ${formatTimeAgo(session.lastActiveAt)}`].filter(Boolean).join(' · ');
+      return (
+        <View key={session.id} style={styles.sessionRow}>
+          <Ionicons name="phone-portrait-outline" size={20} color={colors.textSecondary} />
+          <View style={styles.sessionInfo}>
+            <Text style={styles.sessionName} maxFontSizeMultiplier={1.3} numberOfLines={1}>{session.deviceName}</Text>
+            <Text style={styles.sessionDetail} maxFontSizeMultiplier={1.5} numberOfLines={1}>{details}</Text>
+          </View>
+          {isThisDevice ? (
+            <Text style={styles.thisDevice} maxFontSizeMultiplier={1.3}>This device</Text>
+          ) : (
+            <TouchableOpacity
+              onPress={() => handleRevokeSession(member, session)}
+              disabled={revokeMutation.isPending}
+              accessibilityRole="button"
+              accessibilityLabel={`Sign ${getMemberName(member)} out of ${session.deviceName}`}
+            >
+              <Text style={styles.sessionAction} maxFontSizeMultiplier={1.3}>Sign Out</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    });
+  };
+
+  const renderExpanded = (member: TeamMember) => {
+    // The owner's account and your own are managed from the profile, not here
+    const isEditable = member.role !== 'owner' && member.id !== user?.id;
+    // Anyone can set their own PIN; only the owner sets the owner's
+    const canSetPin = member.status === 'active' && (member.role !== 'owner' || member.id === user?.id);
+    const isSettingPin = pinMemberId === member.id;
+    return (
+      <View style={styles.expanded}>
+        {isEditable && member.status !== 'deactivated' && (
+          <>
+            <Text style={styles.label} maxFontSizeMultiplier={1.5}>Role</Text>
+            <View style={styles.chips}>
+              {ROLE_OPTIONS.map(option => {
+                const isActive = member.role === option.key;
+                return (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => handleRoleChange(member, option.key)}
+                    disabled={roleMutation.isPending}
+                    accessibilityRole="radio"
+                    accessibilityLabel={option.label}
+                    accessibilityState={{ checked: isActive }}
+                  >
+                    <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        {canSetPin && (
+          <>
+            <Text style={styles.label} maxFontSizeMultiplier={1.5}>PIN</Text>
+            {isSettingPin ? (
+              <View style={styles.pinRow}>
+                <TextInput
+                  style={[styles.input, styles.pinInput]}
+                  value={pinValue}
+                  onChangeText={(text) => setPinValue(text.replace(/[^0-9]/g, '').slice(0, MAX_PIN_LENGTH))}
+                  placeholder={`${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits`}
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  autoFocus
+                  maxLength={MAX_PIN_LENGTH}
+                  accessibilityLabel={`New PIN for ${getMemberName(member)}`}
+                />
+                <TouchableOpacity
+                  onPress={() => {
+                    setPinMemberId(null);
+                    setPinValue('');
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel"
+                >
+                  <Text style={styles.pinCancel} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleSavePin(member)}
+                  disabled={pinMutation.isPending}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save PIN"
+                >
+                  {pinMutation.isPending ? (
+                    <ActivityIndicator size="small" color={colors.primary} accessibilityLabel="Saving" />
+                  ) : (
+                    <Text style={styles.pinSave} maxFontSizeMultiplier={1.3}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.pinRow}>
+                <Text style={styles.pinStatus} maxFontSizeMultiplier={1.5}>
+                  {member.hasPin ? 'Set - used for register mode and approvals' : 'Not set - needed for register mode'}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    setPinMemberId(member.id);
+                    setPinValue('');
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel={member.hasPin ? `Change PIN for ${getMemberName(member)}` : `Set PIN for ${getMemberName(member)}`}
+                >
+                  <Text style={styles.pinSave} maxFontSizeMultiplier={1.3}>{member.hasPin ? 'Change' : 'Set PIN'}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
+        )}
+
+        {member.status === 'active' && (
+          <>
+            <Text style={styles.label} maxFontSizeMultiplier={1.5}>Signed In On</Text>
+            {renderSessions(member)}
+          </>
+        )}
+
+        {isEditable && (
+          <View style={styles.buttonRow}>
+            {member.status === 'invited' && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => resendMutation.mutate(member)}
+                disabled={resendMutation.isPending}
+                accessibilityRole="button"
+                accessibilityLabel={`Resend invite to ${member.email}`}
+              >
+                {resendMutation.isPending ? (
+                  <ActivityIndicator size="small" color={colors.textSecondary} accessibilityLabel="Sending" />
+                ) : (
+                  <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Resend Invite</Text>
+                )}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleToggleStatus(member)}
+              disabled={statusMutation.isPending}
+              accessibilityRole="button"
+              accessibilityLabel={member.status === 'deactivated' ? `Reactivate ${getMemberName(member)}` : `Deactivate ${getMemberName(member)}`}
+            >
+              {statusMutation.isPending ? (
+                <ActivityIndicator size="small" color={colors.textSecondary} accessibilityLabel="Updating" />
+              ) : member.status === 'deactivated' ? (
+                <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Reactivate</Text>
+              ) : (
+                <Text style={styles.destructiveButtonText} maxFontSizeMultiplier={1.3}>
+                  {member.status === 'invited' ? 'Cancel Invite' : 'Deactivate'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderMember = (member: TeamMember, index: number) => {
+    const isExpanded = expandedId === member.id;
+    const badge = getStatusBadge(member);
+    const isInactive = member.status === 'deactivated';
+    const name = getMemberName(member);
+    const detail = member.status === 'active'
+      ? `${member.email} · ${member.sessions.length} device${member.sessions.length === 1 ? '' : 's'}`
+      : member.status === 'invited' && member.invitedAt
+        ? `Invited ${formatTimeAgo(member.invitedAt)} as ${ROLE_LABELS[member.role]}`
+        : member.email;
+    return (
+      <React.Fragment key={member.id}>
+        {index > 0 && <View style={styles.divider} />}
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => setExpandedId(isExpanded ? null : member.id)}
+          accessibilityRole="button"
+          accessibilityLabel={`${name}, ${badge.label}`}
+          accessibilityState={{ expanded: isExpanded }}
+        >
+          <View style={styles.rowLeft}>
+            <Text style={[styles.memberName, isInactive && styles.memberNameInactive]} maxFontSizeMultiplier={1.3} numberOfLines={1}>
+              {name}{member.id === user?.id ? ' (You)' : ''}
+            </Text>
+            <Text style={styles.memberDetail} maxFontSizeMultiplier={1.5} numberOfLines={1}>{detail}</Text>
+          </View>
+          <View style={[styles.badge, { backgroundColor: badge.color + '20' }]}>
+            <Text style={[styles.badgeText, { color: badge.color }]} maxFontSizeMultiplier={1.3}>{badge.label}</Text>
+          </View>
+          <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color={colors.textMuted} />
+        </TouchableOpacity>
+        {isExpanded && renderExpanded(member)}
+      </React.Fragment>
+    );
+  };
+
+  const selectedRole = ROLE_OPTIONS.find(option => option.key === role)!;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Team</Text>
+        {canManageTeam && (
+          <View style={styles.headerRight}>
+            <TouchableOpacity
+              onPress={() => (inviting ? stopInviting() : setInviting(true))}
+              accessibilityRole="button"
+              accessibilityLabel={inviting ? 'Cancel invite' : 'Invite team member'}
+            >
+              <Ionicons name={inviting ? 'close' : 'person-add-outline'} size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {!canManageTeam ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+            Only owners and admins can manage the team.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+        >
+          {inviting && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Invite Team Member</Text>
+              <View style={styles.card}>
+                <View style={styles.form}>
+                  <TextInput
+                    style={styles.input}
+                    value={email}
+                    onChangeText={setEmail}
+                    placeholder="Email address"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus
+                    accessibilityLabel="Email address"
+                  />
+                  <View style={styles.nameRow}>
+                    <TextInput
+                      style={[styles.input, styles.nameInput]}
+                      value={firstName}
+                      onChangeText={setFirstName}
+                      placeholder="First name"
+                      placeholderTextColor={colors.textMuted}
+                      accessibilityLabel="First name, optional"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.nameInput]}
+                      value={lastName}
+                      onChangeText={setLastName}
+                      placeholder="Last name"
+                      placeholderTextColor={colors.textMuted}
+                      accessibilityLabel="Last name, optional"
+                    />
+                  </View>
+                  <View style={styles.chips}>
+                    {ROLE_OPTIONS.map(option => {
+                      const isActive = role === option.key;
+                      return (
+                        <TouchableOpacity
+                          key={option.key}
+                          style={[styles.chip, isActive && styles.chipActive]}
+                          onPress={() => setRole(option.key)}
+                          accessibilityRole="radio"
+                          accessibilityLabel={option.label}
+                          accessibilityState={{ checked: isActive }}
+                        >
+                          <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>{option.label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <Text style={styles.roleDescription} maxFontSizeMultiplier={1.5}>{selectedRole.description}</Text>
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={stopInviting}
+                      accessibilityRole="button"
+                      accessibilityLabel="Cancel"
+                    >
+                      <Text style={styles.secondaryButtonText} maxFontSizeMultiplier={1.3}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, inviteMutation.isPending && { opacity: 0.6 }]}
+                      onPress={handleInvite}
+                      disabled={inviteMutation.isPending}
+                      accessibilityRole="button"
+                      accessibilityLabel="Send invite"
+                    >
+                      {inviteMutation.isPending ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Sending" />
+                      ) : (
+                        <Text style={styles.primaryButtonText} maxFontSizeMultiplier={1.3}>Send Invite</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Members</Text>
+            <View style={styles.card}>
+              {isLoading ? (
+                <View style={styles.emptyState}>
+                  <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading team" />
+                </View>
+              ) : sortedMembers.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Ionicons name="people-outline" size={40} color={colors.textMuted} />
+                  <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                    No team members yet.{'\n'}Tap the invite button to add staff by email.
+                  </Text>
+                </View>
+              ) : (
+                sortedMembers.map(renderMember)
+              )}
+            </View>
+            <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+              Each account can be signed in on one device at a time. Signing a device out returns it to the login screen.
+            </Text>
+          </View>
+
+          <View style={{ height: insets.bottom + 32 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { useRegisterMode } from '../context/RegisterModeContext';
+import { usePermissions } from '../hooks';
+import { timeClockApi, TimeEntry } from '../lib/api';
+import { getDeviceId } from '../lib/device';
+import { getEntryMinutes, formatWorkedTime } from '../utils/tip-pool';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+
+// Re-render the running timer this often while clocked in
+const TICK_MS = 30000;
+
+function startOfToday(): Date {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function formatTime(dateString: string): string {
+  return new Date(dateString).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+export function TimeClockScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { user } = useAuth();
+  const { activeCashier } = useRegisterMode();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+
+  // In register mode the clock belongs to whoever unlocked the register
+  const userId = activeCashier?.id ?? user?.id;
+  const canManageTeam = can('manage_team');
+  const canViewReports = can('view_reports');
+
+  const [now, setNow] = useState(() => new Date());
+
+  // Today's window, fixed when the screen opens
+  const today = useMemo(() => {
+    const from = startOfToday();
+    const to = new Date(from);
+    to.setDate(to.getDate() + 1);
+    return { from, to };
+  }, []);
+
+  const { data: current, isLoading: currentLoading, refetch: refetchCurrent, isRefetching } = useQuery({
+    queryKey: ['time-clock-current', userId],
+    queryFn: timeClockApi.getCurrent,
+    enabled: !!userId,
+  });
+
+  const { data: todayEntries, refetch: refetchToday } = useQuery({
+    queryKey: ['time-entries', today.from.toISOString(), canManageTeam ? 'all' : userId],
+    queryFn: () =>
+      timeClockApi.listEntries({
+        from: today.from.toISOString(),
+        to: today.to.toISOString(),
+        userId: canManageTeam ? undefined : userId,
+      }),
+    enabled: !!userId,
+  });
+
+  useEffect(() => {
+    if (!current) return;
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [current]);
+
+  const myEntries = (todayEntries ?? []).filter(entry => entry.userId === userId);
+  const onTheClock = canManageTeam
+    ? (todayEntries ?? []).filter(entry => !entry.clockOutAt && entry.userId !== userId)
+    : [];
+  const myMinutesToday = myEntries.reduce((sum, entry) => sum + getEntryMinutes(entry, today.from, today.to, now), 0);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['time-clock-current'] });
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+  };
+
+  const clockInMutation = useMutation({
+    mutationFn: async () => timeClockApi.clockIn(await getDeviceId()),
+    onSuccess: () => {
+      setNow(new Date());
+      invalidate();
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to clock in');
+    },
+  });
+
+  const clockOutMutation = useMutation({
+    mutationFn: (entry: TimeEntry) => timeClockApi.clockOut(entry.id),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to clock out');
+    },
+  });
+
+  const handleClockOut = () => {
+    if (!current) return;
+    Alert.alert(
+      'Clock Out',
+      `Clock out after ${formatWorkedTime(getEntryMinutes(current, new Date(current.clockInAt), now, now))}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clock Out', onPress: () => clockOutMutation.mutate(current) },
+      ]
+    );
+  };
+
+  const handleRefresh = () => {
+    refetchCurrent();
+    refetchToday();
+  };
+
+  const isBusy = clockInMutation.isPending || clockOutMutation.isPending;
+  const displayName = activeCashier
+    ? [activeCashier.firstName, activeCashier.lastName].filter(Boolean).join(' ') || activeCashier.email
+    : [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.email;
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    statusCard: {
+      alignItems: 'center',
+      padding: 24,
+    },
+    statusName: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    statusText: {
+      fontSize: 28,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      marginTop: 8,
+    },
+    statusDetail: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    clockButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      alignSelf: 'stretch',
+      marginTop: 20,
+      paddingVertical: 14,
+      borderRadius: 12,
+    },
+    clockButtonText: {
+      fontSize: 16,
+      fontFamily: fonts.semiBold,
+      color: '#FFFFFF',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rowValue: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    totalRow: {
+      borderTopWidth: 1,
+      borderTopColor: cardBorder,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      padding: 16,
+      textAlign: 'center',
+    },
+  });
+
+  const renderEntry = (entry: TimeEntry, index: number, showName: boolean) => (
+    <React.Fragment key={entry.id}>
+      {index > 0 && <View style={styles.divider} />}
+      <View style={styles.row}>
+        <View style={styles.rowLeft}>
+          <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>
+            {showName ? entry.userName : `${formatTime(entry.clockInAt)} – ${entry.clockOutAt ? formatTime(entry.clockOutAt) : 'now'}`}
+          </Text>
+          {showName && (
+            <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>Since {formatTime(entry.clockInAt)}</Text>
+          )}
+        </View>
+        <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>
+          {formatWorkedTime(getEntryMinutes(entry, today.from, today.to, now))}
+        </Text>
+      </View>
+    </React.Fragment>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>Time Clock</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor={colors.primary} />}
+      >
+        <View style={styles.section}>
+          <View style={[styles.card, styles.statusCard]}>
+            {currentLoading ? (
+              <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading time clock" />
+            ) : (
+              <>
+                <Text style={styles.statusName} maxFontSizeMultiplier={1.3}>{displayName}</Text>
+                <Text style={styles.statusText} maxFontSizeMultiplier={1.2}>
+                  {current ? formatWorkedTime(getEntryMinutes(current, new Date(current.clockInAt), now, now)) : 'Clocked Out'}
+                </Text>
+                <Text style={styles.statusDetail} maxFontSizeMultiplier={1.5}>
+                  {current ? `Clocked in at ${formatTime(current.clockInAt)}` : 'Clock in when your shift starts'}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.clockButton, { backgroundColor: current ? colors.error : colors.success, opacity: isBusy ? 0.6 : 1 }]}
+                  onPress={current ? handleClockOut : () => clockInMutation.mutate()}
+                  disabled={isBusy}
+                  accessibilityRole="button"
+                  accessibilityLabel={current ? 'Clock out' : 'Clock in'}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" accessibilityLabel="Saving" />
+                  ) : (
+                    <>
+                      <Ionicons name={current ? 'log-out-outline' : 'log-in-outline'} size={20} color="#FFFFFF" />
+                      <Text style={styles.clockButtonText} maxFontSizeMultiplier={1.3}>{current ? 'Clock Out' : 'Clock In'}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Today</Text>
+          <View style={styles.card}>
+            {myEntries.length === 0 ? (
+              <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>No time recorded today</Text>
+            ) : (
+              <>
+                {myEntries.map((entry, index) => renderEntry(entry, index, false))}
+                <View style={[styles.row, styles.totalRow]}>
+                  <Text style={[styles.rowTitle, styles.rowLeft]} maxFontSizeMultiplier={1.3}>Total</Text>
+                  <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>{formatWorkedTime(myMinutesToday)}</Text>
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+
+        {canManageTeam && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Also On the Clock</Text>
+            <View style={styles.card}>
+              {onTheClock.length === 0 ? (
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Nobody else is clocked in</Text>
+              ) : (
+                onTheClock.map((entry, index) => renderEntry(entry, index, true))
+              )}
+            </View>
+          </View>
+        )}
+
+        {canViewReports && (
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => navigation.navigate('TipReport')}
+                accessibilityRole="button"
+                accessibilityLabel="Tip report"
+                accessibilityHint="See tips collected and each employee's share of the pool"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>Tip Report</Text>
+                  <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>Tip pool shares by day or shift</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
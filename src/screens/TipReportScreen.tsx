@@ -0,0 +1,472 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks';
+import { timeClockApi, shiftsApi, TipPoolSettings, TeamRole } from '../lib/api';
+import { formatCents } from '../utils/currency';
+import { TIP_POOL_METHODS, calculateTipShares, formatWorkedTime, tipReportToCsv } from '../utils/tip-pool';
+import { getExportFileName } from '../utils/exports';
+import { shareCsvFile } from '../lib/share-file';
+import { fonts } from '../lib/fonts';
+import { glass } from '../lib/colors';
+import logger from '../lib/logger';
+
+type RouteParams = {
+  TipReport: {
+    shiftId?: string; // report on a drawer shift instead of a calendar period
+  } | undefined;
+};
+
+type PeriodKey = 'today' | 'yesterday' | 'week';
+
+const PERIOD_OPTIONS: { key: PeriodKey; label: string }[] = [
+  { key: 'today', label: 'Today' },
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'week', label: 'Last 7 Days' },
+];
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  staff: 'Staff',
+};
+
+const ROLE_ORDER: TeamRole[] = ['staff', 'admin', 'owner'];
+
+function getPeriodRange(period: PeriodKey): { from: Date; to: Date } {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const from = new Date(startOfToday);
+  const to = new Date(startOfToday);
+  if (period === 'today') {
+    to.setDate(to.getDate() + 1);
+  } else if (period === 'yesterday') {
+    from.setDate(from.getDate() - 1);
+  } else {
+    from.setDate(from.getDate() - 6);
+    to.setDate(to.getDate() + 1);
+  }
+  return { from, to };
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function TipReportScreen() {
+  const { colors, isDark } = useTheme();
+  const glassColors = isDark ? glass.dark : glass.light;
+  const { currency } = useAuth();
+  const { can } = usePermissions();
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RouteParams, 'TipReport'>>();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+  const shiftId = route.params?.shiftId;
+
+  const [period, setPeriod] = useState<PeriodKey>('today');
+  const canView = can('view_reports');
+  const canEditPool = can('manage_team');
+
+  const { data: shiftReport, isLoading: shiftLoading } = useQuery({
+    queryKey: ['shift-report', shiftId],
+    queryFn: () => shiftsApi.getReport(shiftId!),
+    enabled: !!shiftId && canView,
+  });
+
+  // A shift covers its own open-to-close window on its own device
+  const range = useMemo(() => {
+    if (shiftId) {
+      if (!shiftReport) return null;
+      const { shift } = shiftReport;
+      return {
+        from: new Date(shift.openedAt),
+        to: shift.closedAt ? new Date(shift.closedAt) : new Date(),
+        deviceId: shift.deviceId,
+      };
+    }
+    return { ...getPeriodRange(period), deviceId: undefined };
+  }, [shiftId, shiftReport, period]);
+
+  const { data: report, isLoading: reportLoading, error } = useQuery({
+    queryKey: ['tip-report', range?.from.toISOString(), range?.to.toISOString(), range?.deviceId],
+    queryFn: () =>
+      timeClockApi.getTipReport({
+        from: range!.from.toISOString(),
+        to: range!.to.toISOString(),
+        deviceId: range!.deviceId,
+      }),
+    enabled: !!range && canView,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (settings: TipPoolSettings) => timeClockApi.updateTipPoolSettings(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tip-report'] });
+    },
+    onError: (error: any) => {
+      Alert.alert('Error', error.error || error.message || 'Failed to save tip pool settings');
+    },
+  });
+
+  // Show the pending change straight away while it saves
+  const settings = settingsMutation.isPending && settingsMutation.variables
+    ? settingsMutation.variables
+    : report?.settings;
+
+  const shares = useMemo(() => {
+    if (!report || !range || !settings) return [];
+    return calculateTipShares(report.totalTips, report.entries, settings, range.from, range.to);
+  }, [report, range, settings]);
+
+  const handleMethodChange = (method: TipPoolSettings['method']) => {
+    if (!settings || settings.method === method) return;
+    settingsMutation.mutate({ ...settings, method });
+  };
+
+  const handleRoleToggle = (role: TeamRole) => {
+    if (!settings) return;
+    const eligibleRoles = settings.eligibleRoles.includes(role)
+      ? settings.eligibleRoles.filter(r => r !== role)
+      : [...settings.eligibleRoles, role];
+    if (eligibleRoles.length === 0) {
+      Alert.alert('Tip Pool', 'At least one role has to share in the pool.');
+      return;
+    }
+    settingsMutation.mutate({ ...settings, eligibleRoles });
+  };
+
+  const handleExport = async () => {
+    if (!report || !settings) return;
+    try {
+      await shareCsvFile(getExportFileName('tip-report'), tipReportToCsv(report, shares, settings.method, currency));
+    } catch (err: any) {
+      logger.error('Share tip report error:', err);
+      Alert.alert('Error', err.error || err.message || 'Failed to export tip report');
+    }
+  };
+
+  const cardBorder = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.08)';
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: insets.top + 8,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: cardBorder,
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 8,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    headerRight: {
+      marginLeft: 'auto',
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      marginTop: 24,
+      marginHorizontal: 16,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontFamily: fonts.semiBold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      paddingHorizontal: 4,
+    },
+    sectionHint: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
+    card: {
+      backgroundColor: glassColors.backgroundElevated,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: cardBorder,
+      overflow: 'hidden',
+    },
+    summary: {
+      alignItems: 'center',
+      padding: 20,
+    },
+    summaryLabel: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    summaryValue: {
+      fontSize: 32,
+      fontFamily: fonts.bold,
+      color: colors.text,
+      marginTop: 4,
+    },
+    summaryDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      marginTop: 4,
+      textAlign: 'center',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    rowLeft: {
+      flex: 1,
+      marginRight: 12,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontFamily: fonts.medium,
+      color: colors.text,
+    },
+    rowDetail: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rowValue: {
+      fontSize: 15,
+      fontFamily: fonts.semiBold,
+      color: colors.text,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: cardBorder,
+      marginLeft: 16,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      padding: 16,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)',
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    chipActive: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary + '40',
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: fonts.medium,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: fonts.semiBold,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 32,
+      paddingHorizontal: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+  });
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void, role: 'radio' | 'checkbox', disabled = false) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole={role}
+      accessibilityLabel={label}
+      accessibilityState={{ checked: isActive, disabled }}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]} maxFontSizeMultiplier={1.3}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderContent = () => {
+    if (!canView) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+            Only owners and admins can see tip reports.
+          </Text>
+        </View>
+      );
+    }
+
+    if (shiftLoading || reportLoading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading tip report" />
+        </View>
+      );
+    }
+
+    if (error || !report || !range || !settings) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="alert-circle-outline" size={40} color={colors.textMuted} />
+          <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>Could not load the tip report</Text>
+        </View>
+      );
+    }
+
+    const methodInfo = TIP_POOL_METHODS.find(option => option.key === settings.method);
+
+    return (
+      <>
+        <View style={styles.section}>
+          <View style={[styles.card, styles.summary]}>
+            <Text style={styles.summaryLabel} maxFontSizeMultiplier={1.3}>Tips Collected</Text>
+            <Text style={styles.summaryValue} maxFontSizeMultiplier={1.2}>{formatCents(report.totalTips, currency)}</Text>
+            <Text style={styles.summaryDetail} maxFontSizeMultiplier={1.5}>
+              {report.orderCount} order{report.orderCount === 1 ? '' : 's'} · {formatDateTime(range.from)} – {formatDateTime(range.to)}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Shares</Text>
+          <View style={styles.card}>
+            {shares.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="time-outline" size={40} color={colors.textMuted} />
+                <Text style={styles.emptyText} maxFontSizeMultiplier={1.5}>
+                  Nobody in the pool was clocked in during this period
+                </Text>
+              </View>
+            ) : (
+              shares.map((share, index) => (
+                <React.Fragment key={share.userId}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <View style={styles.row}>
+                    <View style={styles.rowLeft}>
+                      <Text style={styles.rowTitle} maxFontSizeMultiplier={1.3}>{share.userName}</Text>
+                      <Text style={styles.rowDetail} maxFontSizeMultiplier={1.5}>
+                        {ROLE_LABELS[share.role]} · {formatWorkedTime(share.minutes)}
+                      </Text>
+                    </View>
+                    <Text style={styles.rowValue} maxFontSizeMultiplier={1.3}>{formatCents(share.amount, currency)}</Text>
+                  </View>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} maxFontSizeMultiplier={1.5}>Pool Rules</Text>
+          <View style={styles.card}>
+            <View style={styles.chips}>
+              {TIP_POOL_METHODS.map(option =>
+                renderChip(option.key, option.label, settings.method === option.key, () => handleMethodChange(option.key), 'radio', !canEditPool)
+              )}
+            </View>
+            <View style={styles.divider} />
+            <View style={styles.chips}>
+              {ROLE_ORDER.map(role =>
+                renderChip(role, ROLE_LABELS[role], settings.eligibleRoles.includes(role), () => handleRoleToggle(role), 'checkbox', !canEditPool)
+              )}
+            </View>
+          </View>
+          <Text style={styles.sectionHint} maxFontSizeMultiplier={1.5}>
+            {methodInfo?.description}. Only the roles selected share in the pool.
+            {!canEditPool && ' Only owners and admins can change these rules.'}
+          </Text>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} maxFontSizeMultiplier={1.3}>{shiftId ? 'Shift Tips' : 'Tip Report'}</Text>
+        {report && shares.length > 0 && (
+          <View style={styles.headerRight}>
+            <TouchableOpacity
+              onPress={handleExport}
+              accessibilityRole="button"
+              accessibilityLabel="Export tip report as CSV"
+            >
+              <Ionicons name="share-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <ScrollView style={styles.content}>
+        {!shiftId && canView && (
+          <View style={styles.section}>
+            <View style={styles.card}>
+              <View style={styles.chips}>
+                {PERIOD_OPTIONS.map(option =>
+                  renderChip(option.key, option.label, period === option.key, () => setPeriod(option.key), 'radio')
+                )}
+              </View>
+            </View>
+          </View>
+        )}
+        {renderContent()}
+        <View style={{ height: insets.bottom + 32 }} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -7,7 +7,6 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Linking,
-  Modal,
   Animated,
   Dimensions,
   TextInput,
@@ -20,9 +19,16 @@ import { LinearGradient } from 'expo-linear-gradient';
 
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
+import { useAuthorize } from '../hooks';
+import { Modal } from '../components/Modal';
 import { StarBackground } from '../components/StarBackground';
-import { transactionsApi, preordersApi } from '../lib/api';
+import { RefundModal } from '../components/RefundModal';
+import { transactionsApi, preordersApi, ManagerOverride, RefundParams } from '../lib/api';
 import { formatCents, formatCurrency } from '../utils/currency';
+import { formatDiscountLabel } from '../utils/discounts';
+import { formatTaxLineLabel } from '../utils/tax';
+import { formatServiceChargeLabel } from '../utils/service-charge';
+import { getRefundReasonLabel, getRemainingRefundable } from '../utils/refunds';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 
@@ -267,6 +273,7 @@ type RouteParams = {
 export function TransactionDetailScreen() {
   const { colors, isDark } = useTheme();
   const { currency } = useAuth();
+  const { authorize } = useAuthorize();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
   const route = useRoute<RouteProp<RouteParams, 'TransactionDetail'>>();
@@ -276,6 +283,7 @@ export function TransactionDetailScreen() {
   const { id, sourceType } = route.params;
 
   const [showRefundModal, setShowRefundModal] = useState(false);
+  const [refundOverride, setRefundOverride] = useState<ManagerOverride | null>(null);
   const [showResultModal, setShowResultModal] = useState(false);
   const [resultMessage, setResultMessage] = useState({ title: '', message: '', isError: false });
   const [showReceiptInput, setShowReceiptInput] = useState(false);
@@ -299,8 +307,9 @@ export function TransactionDetailScreen() {
   const isLoading = sourceType === 'preorder' ? isLoadingPreorder : isLoadingTransaction;
 
   const refundMutation = useMutation({
-    mutationFn: () => transactionsApi.refund(id),
-    onSuccess: () => {
+    // Preorders are always refunded in full, orders pass the amount, items and reason
+    mutationFn: (params?: RefundParams) => transactionsApi.refund(id, params, refundOverride?.token),
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['transaction', id] });
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       if (sourceType === 'preorder') {
@@ -308,7 +317,13 @@ export function TransactionDetailScreen() {
         queryClient.invalidateQueries({ queryKey: ['preorders'] });
       }
       setShowRefundModal(false);
-      setResultMessage({ title: 'Success', message: 'Refund processed successfully', isError: false });
+      setResultMessage(result.storeCredit
+        ? {
+            title: 'Store Credit Issued',
+            message: `${formatCents(result.storeCredit.balance, currency)} store credit issued. Give the customer code ${result.storeCredit.code} to redeem it.`,
+            isError: false,
+          }
+        : { title: 'Success', message: 'Refund processed successfully', isError: false });
       setShowResultModal(true);
     },
     onError: (error: any) => {
@@ -318,12 +333,16 @@ export function TransactionDetailScreen() {
     },
   });
 
-  const handleRefund = () => {
+  const handleRefund = async () => {
+    // Cashiers need a manager to approve; the approver is recorded on the refund
+    const authorization = await authorize('refund', 'A manager needs to approve this refund.');
+    if (!authorization) return;
+    setRefundOverride(authorization.override);
     setShowRefundModal(true);
   };
 
-  const confirmRefund = () => {
-    refundMutation.mutate();
+  const confirmRefund = (params?: RefundParams) => {
+    refundMutation.mutate(params);
   };
 
   const handleViewReceipt = () => {
@@ -557,7 +576,7 @@ export function TransactionDetailScreen() {
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={[styles.modalButton, styles.modalButtonDestructive]}
-                  onPress={confirmRefund}
+                  onPress={() => confirmRefund()}
                   disabled={refundMutation.isPending}
                   accessibilityRole="button"
                   accessibilityLabel="Confirm refund"
@@ -618,8 +637,9 @@ export function TransactionDetailScreen() {
     );
   }
 
+  const remainingRefundable = getRemainingRefundable(transaction);
   const canRefund =
-    transaction.status === 'succeeded' && transaction.amountRefunded === 0;
+    (transaction.status === 'succeeded' || transaction.status === 'partially_refunded') && remainingRefundable > 0;
 
   return (
     <StarBackground colors={colors} isDark={isDark}>
@@ -698,6 +718,8 @@ export function TransactionDetailScreen() {
                   ? 'Cash'
                   : transaction.paymentMethod.type === 'split'
                   ? 'Split Payment'
+                  : transaction.paymentMethod.type === 'gift_card'
+                  ? 'Gift Card'
                   : transaction.paymentMethod.brand && transaction.paymentMethod.last4
                   ? `${transaction.paymentMethod.brand.toUpperCase()} ****${transaction.paymentMethod.last4}`
                   : transaction.paymentMethod.last4
@@ -707,6 +729,51 @@ export function TransactionDetailScreen() {
             </View>
           )}
 
+          {transaction.discountAmount != null && transaction.discountAmount > 0 && (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>Discount</Text>
+              <Text maxFontSizeMultiplier={1.5} style={[styles.detailValue, { color: colors.success }]}>
+                -{formatCents(transaction.discountAmount, currency)}
+                {transaction.discount ? ` · ${formatDiscountLabel(transaction.discount, currency)}` : ''}
+              </Text>
+            </View>
+          )}
+
+          {transaction.discount?.approvedBy && (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>Discount Approved By</Text>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>{transaction.discount.approvedBy.name}</Text>
+            </View>
+          )}
+
+          {transaction.serviceChargeAmount != null && transaction.serviceChargeAmount > 0 && (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>{formatServiceChargeLabel(transaction.serviceChargeName)}</Text>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>{formatCents(transaction.serviceChargeAmount, currency)}</Text>
+            </View>
+          )}
+
+          {transaction.taxBreakdown && transaction.taxBreakdown.length > 0 ? (
+            transaction.taxBreakdown.map(line => (
+              <View key={line.taxRateId ?? 'default'} style={styles.detailRow}>
+                <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>{formatTaxLineLabel(line, transaction.taxInclusive)}</Text>
+                <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>{formatCents(line.amount, currency)}</Text>
+              </View>
+            ))
+          ) : transaction.taxAmount != null && transaction.taxAmount > 0 ? (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>{transaction.taxInclusive ? 'Incl. Tax' : 'Tax'}</Text>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>{formatCents(transaction.taxAmount, currency)}</Text>
+            </View>
+          ) : null}
+
+          {transaction.taxExempt && (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>Tax</Text>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>Exempt</Text>
+            </View>
+          )}
+
           {transaction.cashTendered != null && transaction.cashTendered > 0 && (
             <View style={styles.detailRow}>
               <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>Cash Tendered</Text>
@@ -736,6 +803,15 @@ export function TransactionDetailScreen() {
               </Text>
             </View>
           )}
+
+          {transaction.amountRefunded > 0 && remainingRefundable > 0 && (
+            <View style={styles.detailRow}>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailLabel}>Refundable Balance</Text>
+              <Text maxFontSizeMultiplier={1.5} style={styles.detailValue}>
+                {formatCents(remainingRefundable, currency)}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Payment Breakdown (for split payments) */}
@@ -751,6 +827,8 @@ export function TransactionDetailScreen() {
                         ? 'cash-outline'
                         : payment.paymentMethod === 'tap_to_pay'
                         ? 'phone-portrait-outline'
+                        : payment.paymentMethod === 'gift_card'
+                        ? 'gift-outline'
                         : 'card-outline'
                     }
                     size={18}
@@ -761,12 +839,21 @@ export function TransactionDetailScreen() {
                       ? 'Cash'
                       : payment.paymentMethod === 'tap_to_pay'
                       ? 'Tap to Pay'
+                      : payment.paymentMethod === 'gift_card'
+                      ? 'Gift Card'
                       : 'Card'}
                   </Text>
                 </View>
-                <Text maxFontSizeMultiplier={1.5} style={styles.paymentBreakdownAmount}>
-                  {formatCents(payment.amount, currency)}
-                </Text>
+                <View style={styles.paymentBreakdownRight}>
+                  <Text maxFontSizeMultiplier={1.5} style={styles.paymentBreakdownAmount}>
+                    {formatCents(payment.amount, currency)}
+                  </Text>
+                  {!!payment.amountRefunded && (
+                    <Text maxFontSizeMultiplier={1.5} style={styles.refundDate}>
+                      -{formatCents(payment.amountRefunded, currency)} refunded
+                    </Text>
+                  )}
+                </View>
               </View>
             ))}
           </View>
@@ -785,6 +872,31 @@ export function TransactionDetailScreen() {
                   <Text maxFontSizeMultiplier={1.5} style={styles.refundDate}>
                     {formatDate(refund.created)}
                   </Text>
+                  {refund.reasonCode && (
+                    <Text maxFontSizeMultiplier={1.5} style={styles.refundDate}>
+                      {getRefundReasonLabel(refund.reasonCode)}
+                    </Text>
+                  )}
+                  {refund.storeCreditCode && (
+                    <Text maxFontSizeMultiplier={1.5} style={styles.refundDate}>
+                      Store credit · {refund.storeCreditCode}
+                    </Text>
+                  )}
+                  {refund.items && refund.items.length > 0 && (
+                    <Text maxFontSizeMultiplier={1.5} style={styles.refundDate} numberOfLines={2}>
+                      {refund.items
+                        .map(line => {
+                          const item = transaction.items?.find(i => i.id === line.orderItemId);
+                          return `${line.quantity} × ${item?.name || 'Item'}`;
+                        })
+                        .join(', ')}
+                    </Text>
+                  )}
+                  {refund.approvedBy && (
+                    <Text maxFontSizeMultiplier={1.5} style={styles.refundDate}>
+                      Approved by {refund.approvedBy.name}
+                    </Text>
+                  )}
                 </View>
                 <Text
                   maxFontSizeMultiplier={1.5}
@@ -854,7 +966,7 @@ export function TransactionDetailScreen() {
               onPress={handleRefund}
               disabled={refundMutation.isPending}
               accessibilityRole="button"
-              accessibilityLabel={`Issue refund for ${formatCents(transaction.amount, currency)}`}
+              accessibilityLabel={`Issue refund, ${formatCents(remainingRefundable, currency)} refundable`}
               accessibilityState={{ disabled: refundMutation.isPending }}
             >
               {refundMutation.isPending ? (
@@ -872,50 +984,14 @@ export function TransactionDetailScreen() {
         </View>
       </ScrollView>
 
-      {/* Refund Confirmation Modal */}
-      <Modal
+      {/* Refund Modal */}
+      <RefundModal
         visible={showRefundModal}
-        transparent
-        animationType="fade"
-        onRequestClose={() => setShowRefundModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <View style={styles.modalIconContainer}>
-              <Ionicons name="arrow-undo" size={32} color={colors.error} />
-            </View>
-            <Text maxFontSizeMultiplier={1.3} style={styles.modalTitle}>Issue Refund</Text>
-            <Text maxFontSizeMultiplier={1.5} style={styles.modalMessage}>
-              Are you sure you want to refund this transaction? This action cannot be undone.
-            </Text>
-            <View style={styles.modalButtons}>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.modalButtonCancel]}
-                onPress={() => setShowRefundModal(false)}
-                disabled={refundMutation.isPending}
-                accessibilityRole="button"
-                accessibilityLabel="Cancel refund"
-              >
-                <Text maxFontSizeMultiplier={1.3} style={styles.modalButtonCancelText}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.modalButtonDestructive]}
-                onPress={confirmRefund}
-                disabled={refundMutation.isPending}
-                accessibilityRole="button"
-                accessibilityLabel="Confirm refund"
-                accessibilityState={{ disabled: refundMutation.isPending }}
-              >
-                {refundMutation.isPending ? (
-                  <ActivityIndicator size="small" color="#fff" accessibilityLabel="Processing refund" />
-                ) : (
-                  <Text maxFontSizeMultiplier={1.3} style={styles.modalButtonDestructiveText}>Refund</Text>
-                )}
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
+        transaction={transaction}
+        isSubmitting={refundMutation.isPending}
+        onConfirm={confirmRefund}
+        onCancel={() => setShowRefundModal(false)}
+      />
 
       {/* Result Modal */}
       <Modal
@@ -1125,6 +1201,9 @@ const createStyles = (colors: any, glassColors: typeof glass.dark) => {
       fontFamily: fonts.medium,
       color: colors.text,
     },
+    paymentBreakdownRight: {
+      alignItems: 'flex-end',
+    },
     paymentBreakdownAmount: {
       fontSize: 15,
       fontFamily: fonts.semiBold,
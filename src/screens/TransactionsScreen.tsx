@@ -10,12 +10,14 @@ import {
   Animated,
   Pressable,
   Alert,
+  TextInput,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { LinearGradient } from 'expo-linear-gradient';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
@@ -23,17 +25,33 @@ import { useCatalog } from '../context/CatalogContext';
 import { useDevice } from '../context/DeviceContext';
 import { useSocketEvent, useSocket, SocketEvents } from '../context/SocketContext';
 import { transactionsApi, Transaction, ordersApi, Order } from '../lib/api';
-import { getDeviceId } from '../lib/device';
+import { getDeviceId, generateUUID } from '../lib/device';
 import { formatCents } from '../utils/currency';
+import {
+  TransactionFilters,
+  TransactionStatusFilter,
+  SavedTransactionFilter,
+  DEFAULT_TRANSACTION_FILTERS,
+  toTransactionsListParams,
+  countActiveFilters,
+  hasActiveFilters,
+} from '../utils/transaction-filters';
+import logger from '../lib/logger';
 import { glass } from '../lib/colors';
 import { fonts } from '../lib/fonts';
 import { shadows } from '../lib/shadows';
 import { Swipeable } from 'react-native-gesture-handler';
 import { StarBackground } from '../components/StarBackground';
-import { useTapToPayGuard } from '../hooks';
+import { TransactionFiltersModal } from '../components/TransactionFiltersModal';
+import { TransactionExportModal } from '../components/TransactionExportModal';
+import { useTapToPayGuard, useAuthorize, usePermissions } from '../hooks';
 
 type TabType = 'transactions' | 'held';
 
+const FILTERS_STORAGE_KEY = 'luma_transaction_filters';
+const SAVED_FILTERS_STORAGE_KEY = 'luma_saved_transaction_filters';
+const SEARCH_DEBOUNCE_MS = 300;
+
 type TransactionsScreenParams = {
   History: {
     initialTab?: TabType;
@@ -41,7 +59,7 @@ type TransactionsScreenParams = {
 };
 
 // Empty state content (no longer needs star background - parent has it)
-function EmptyTransactionsContent({ colors, isDark }: { colors: any; isDark: boolean }) {
+function EmptyTransactionsContent({ colors, isDark, filtered = false }: { colors: any; isDark: boolean; filtered?: boolean }) {
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
@@ -59,13 +77,13 @@ function EmptyTransactionsContent({ colors, isDark }: { colors: any; isDark: boo
           backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(99,102,241,0.1)',
           borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(99,102,241,0.15)'
         }]}>
-          <Ionicons name="receipt-outline" size={44} color={isDark ? 'rgba(255,255,255,0.95)' : colors.primary} />
+          <Ionicons name={filtered ? 'search-outline' : 'receipt-outline'} size={44} color={isDark ? 'rgba(255,255,255,0.95)' : colors.primary} />
         </View>
         <Text maxFontSizeMultiplier={1.2} style={[emptyStyles.title, { color: isDark ? '#fff' : colors.text }]}>
-          No transactions yet
+          {filtered ? 'No matching transactions' : 'No transactions yet'}
         </Text>
         <Text maxFontSizeMultiplier={1.5} style={[emptyStyles.subtitle, { color: isDark ? 'rgba(255,255,255,0.55)' : colors.textSecondary }]}>
-          Transactions will appear here after you accept payments
+          {filtered ? 'Try a different search or clear some filters' : 'Transactions will appear here after you accept payments'}
         </Text>
       </View>
     </Animated.View>
@@ -224,8 +242,6 @@ function LoadingTransactionsContent({ colors, isDark }: { colors: any; isDark: b
   );
 }
 
-type FilterType = 'all' | 'succeeded' | 'refunded' | 'failed';
-
 // Animated transaction item component
 const AnimatedTransactionItem = memo(function AnimatedTransactionItem({
   item,
@@ -277,6 +293,7 @@ const AnimatedTransactionItem = memo(function AnimatedTransactionItem({
     // Default: order
     if (item.paymentMethod?.type === 'cash') return 'Cash';
     if (item.paymentMethod?.type === 'split') return 'Split Payment';
+    if (item.paymentMethod?.type === 'gift_card') return 'Gift Card';
     if (item.paymentMethod?.brand && item.paymentMethod?.last4)
       return `${item.paymentMethod.brand.toUpperCase()} ****${item.paymentMethod.last4}`;
     if (item.paymentMethod?.last4) return `Card ****${item.paymentMethod.last4}`;
@@ -356,12 +373,18 @@ export function TransactionsScreen() {
   const { isConnected } = useSocket();
   const navigation = useNavigation<any>();
   const { guardCheckout } = useTapToPayGuard();
+  const { authorize } = useAuthorize();
+  const { can } = usePermissions();
   const route = useRoute<RouteProp<TransactionsScreenParams, 'History'>>();
   const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
   const glassColors = isDark ? glass.dark : glass.light;
   const [activeTab, setActiveTab] = useState<TabType>('transactions');
-  const [filter, setFilter] = useState<FilterType>('all');
+  const [filters, setFilters] = useState<TransactionFilters>(DEFAULT_TRANSACTION_FILTERS);
+  const [savedFilters, setSavedFilters] = useState<SavedTransactionFilter[]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [showFiltersModal, setShowFiltersModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [isManualRefreshing, setIsManualRefreshing] = useState(false);
   const wasConnectedRef = useRef(isConnected);
   const hasEverConnectedRef = useRef(false);
@@ -371,7 +394,54 @@ export function TransactionsScreen() {
   const [heldOrders, setHeldOrders] = useState<Order[]>(prefetchedHeld?.orders || []);
   const [isLoadingHeld, setIsLoadingHeld] = useState(false);
   const [isRefreshingHeld, setIsRefreshingHeld] = useState(false);
+  const [heldSearchText, setHeldSearchText] = useState('');
+  const [heldSearch, setHeldSearch] = useState('');
   const hasFetchedHeldRef = useRef(!!prefetchedHeld);
+  const lastHeldSearchRef = useRef(heldSearch);
+
+  // Filters stay on this device between visits, along with any the user saved by name
+  useEffect(() => {
+    AsyncStorage.multiGet([FILTERS_STORAGE_KEY, SAVED_FILTERS_STORAGE_KEY])
+      .then(([[, current], [, saved]]) => {
+        if (current) {
+          const restored: TransactionFilters = { ...DEFAULT_TRANSACTION_FILTERS, ...JSON.parse(current) };
+          setFilters(restored);
+          setSearchText(restored.search);
+        }
+        if (saved) setSavedFilters(JSON.parse(saved));
+      })
+      .catch(error => logger.error('[Transactions] Failed to load filters:', error));
+  }, []);
+
+  const applyFilters = useCallback((next: TransactionFilters) => {
+    setFilters(next);
+    AsyncStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(next))
+      .catch(error => logger.error('[Transactions] Failed to save filters:', error));
+  }, []);
+
+  const persistSavedFilters = (next: SavedTransactionFilter[]) => {
+    setSavedFilters(next);
+    AsyncStorage.setItem(SAVED_FILTERS_STORAGE_KEY, JSON.stringify(next))
+      .catch(error => logger.error('[Transactions] Failed to save filters:', error));
+  };
+
+  // Search as the user types
+  useEffect(() => {
+    if (searchText === filters.search) return;
+    const timer = setTimeout(() => applyFilters({ ...filters, search: searchText }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, filters, applyFilters]);
+
+  const handleApplyFilters = (next: TransactionFilters) => {
+    applyFilters(next);
+    setSearchText(next.search);
+    setShowFiltersModal(false);
+  };
+
+  const handleClearFilters = () => {
+    applyFilters(DEFAULT_TRANSACTION_FILTERS);
+    setSearchText('');
+  };
 
   // Handle initialTab route param - switch tabs when navigating with initialTab
   useEffect(() => {
@@ -383,7 +453,7 @@ export function TransactionsScreen() {
         setIsLoadingHeld(true);
         // Small delay to ensure state update happens first
         setTimeout(() => {
-          ordersApi.listHeld(deviceId || undefined).then(response => {
+          ordersApi.listHeld(deviceId || undefined, heldSearch.trim() || undefined).then(response => {
             setHeldOrders(response.orders);
             setIsLoadingHeld(false);
           }).catch(error => {
@@ -394,12 +464,12 @@ export function TransactionsScreen() {
       // Clear the param to prevent re-triggering on subsequent focuses
       navigation.setParams({ initialTab: undefined });
     }
-  }, [route.params?.initialTab, navigation, deviceId]);
+  }, [route.params?.initialTab, navigation, deviceId, heldSearch]);
 
   // Fetch held orders
   const fetchHeldOrders = useCallback(async () => {
     try {
-      const response = await ordersApi.listHeld(deviceId || undefined);
+      const response = await ordersApi.listHeld(deviceId || undefined, heldSearch.trim() || undefined);
       hasFetchedHeldRef.current = true;
       setHeldOrders(response.orders);
     } catch (error: any) {
@@ -407,7 +477,20 @@ export function TransactionsScreen() {
       setIsLoadingHeld(false);
       setIsRefreshingHeld(false);
     }
-  }, [deviceId]);
+  }, [deviceId, heldSearch]);
+
+  // Search held orders as the user types
+  useEffect(() => {
+    if (heldSearchText === heldSearch) return;
+    const timer = setTimeout(() => setHeldSearch(heldSearchText), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [heldSearchText, heldSearch]);
+
+  useEffect(() => {
+    if (heldSearch === lastHeldSearchRef.current) return;
+    lastHeldSearchRef.current = heldSearch;
+    fetchHeldOrders();
+  }, [heldSearch, fetchHeldOrders]);
 
   // Load held orders on first visit only - socket events keep it in sync after that
   useEffect(() => {
@@ -479,13 +562,12 @@ export function TransactionsScreen() {
     hasNextPage,
     isFetchingNextPage,
   } = useInfiniteQuery({
-    queryKey: ['transactions', selectedCatalog?.id, filter],
+    queryKey: ['transactions', selectedCatalog?.id, filters],
     queryFn: ({ pageParam }) =>
       transactionsApi.list({
+        ...toTransactionsListParams(filters, selectedCatalog?.id, deviceId),
         limit: 25,
         starting_after: pageParam,
-        catalog_id: selectedCatalog?.id,
-        status: filter,
       }),
     getNextPageParam: (lastPage) => {
       if (!lastPage.hasMore || lastPage.data.length === 0) return undefined;
@@ -494,8 +576,10 @@ export function TransactionsScreen() {
     initialPageParam: undefined as string | undefined,
   });
 
-  // Filtering is now done server-side via the status query parameter
+  // Search and filtering are done server-side
   const transactions = data?.pages.flatMap((page) => page.data) || [];
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = hasActiveFilters(filters);
 
   const styles = createStyles(colors, glassColors, isDark);
 
@@ -618,17 +702,20 @@ export function TransactionsScreen() {
   };
 
   const handleCancelOrder = async (order: Order) => {
+    const orderName = order.holdName || `Order #${order.orderNumber}`;
     Alert.alert(
       'Cancel Order',
-      `Are you sure you want to cancel "${order.holdName || `Order #${order.orderNumber}`}"?`,
+      `Are you sure you want to cancel "${orderName}"?`,
       [
         { text: 'Keep', style: 'cancel' },
         {
           text: 'Cancel Order',
           style: 'destructive',
           onPress: async () => {
+            const authorization = await authorize('void_held_order', `A manager needs to approve cancelling "${orderName}".`);
+            if (!authorization) return;
             try {
-              await ordersApi.cancel(order.id);
+              await ordersApi.cancel(order.id, authorization.override?.token);
               setHeldOrders(prev => prev.filter(o => o.id !== order.id));
             } catch (error: any) {
               Alert.alert('Error', error.message || 'Failed to cancel order');
@@ -706,12 +793,23 @@ export function TransactionsScreen() {
 
   const renderEmptyHeld = () => (
     <View style={styles.emptyHeldContainer}>
-      <Ionicons name="pause-circle-outline" size={64} color={colors.textMuted} />
-      <Text maxFontSizeMultiplier={1.3} style={styles.emptyHeldTitle}>No Held Orders</Text>
-      <Text maxFontSizeMultiplier={1.5} style={styles.emptyHeldSubtitle}>
-        Orders you put on hold will appear here.{'\n'}
-        Tap "Hold Order" at checkout to save an order for later.
-      </Text>
+      <Ionicons name={heldSearch.trim() ? 'search-outline' : 'pause-circle-outline'} size={64} color={colors.textMuted} />
+      {heldSearch.trim() ? (
+        <>
+          <Text maxFontSizeMultiplier={1.3} style={styles.emptyHeldTitle}>No Matching Held Orders</Text>
+          <Text maxFontSizeMultiplier={1.5} style={styles.emptyHeldSubtitle}>
+            Try a different name, order number or email.
+          </Text>
+        </>
+      ) : (
+        <>
+          <Text maxFontSizeMultiplier={1.3} style={styles.emptyHeldTitle}>No Held Orders</Text>
+          <Text maxFontSizeMultiplier={1.5} style={styles.emptyHeldSubtitle}>
+            Orders you put on hold will appear here.{'\n'}
+            Tap "Hold Order" at checkout to save an order for later.
+          </Text>
+        </>
+      )}
     </View>
   );
 
@@ -753,33 +851,112 @@ export function TransactionsScreen() {
 
         {activeTab === 'held' ? (
           // Held Orders Tab
-          isLoadingHeld ? (
-            <LoadingTransactionsContent colors={colors} isDark={isDark} />
-          ) : heldOrders.length === 0 ? (
-            renderEmptyHeld()
-          ) : (
-            <FlatList
-              data={heldOrders}
-              renderItem={renderHeldOrder}
-              keyExtractor={(item) => item.id}
-              contentContainerStyle={[styles.list, { flexGrow: 1 }]}
-              style={styles.listContainer}
-              refreshControl={
-                <RefreshControl
-                  refreshing={isRefreshingHeld}
-                  onRefresh={handleRefreshHeld}
-                  tintColor={colors.primary}
+          <>
+            <View style={styles.searchRow}>
+              <View style={styles.searchBox}>
+                <Ionicons name="search" size={18} color={colors.textMuted} />
+                <TextInput
+                  style={styles.searchInput}
+                  value={heldSearchText}
+                  onChangeText={setHeldSearchText}
+                  placeholder="Hold name, order #, customer or email"
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="search"
+                  accessibilityLabel="Search held orders"
                 />
-              }
-            />
-          )
+                {!!heldSearchText && (
+                  <TouchableOpacity
+                    onPress={() => setHeldSearchText('')}
+                    accessibilityRole="button"
+                    accessibilityLabel="Clear search"
+                  >
+                    <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
+            {isLoadingHeld ? (
+              <LoadingTransactionsContent colors={colors} isDark={isDark} />
+            ) : heldOrders.length === 0 ? (
+              renderEmptyHeld()
+            ) : (
+              <FlatList
+                data={heldOrders}
+                renderItem={renderHeldOrder}
+                keyExtractor={(item) => item.id}
+                contentContainerStyle={[styles.list, { flexGrow: 1 }]}
+                style={styles.listContainer}
+                refreshControl={
+                  <RefreshControl
+                    refreshing={isRefreshingHeld}
+                    onRefresh={handleRefreshHeld}
+                    tintColor={colors.primary}
+                  />
+                }
+              />
+            )}
+          </>
         ) : (
           // Transactions Tab
           <>
+            {/* Search */}
+            <View style={styles.searchRow}>
+              <View style={styles.searchBox}>
+                <Ionicons name="search" size={18} color={colors.textMuted} />
+                <TextInput
+                  style={styles.searchInput}
+                  value={searchText}
+                  onChangeText={setSearchText}
+                  placeholder="Order #, customer, email or card last 4"
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="search"
+                  accessibilityLabel="Search transactions"
+                />
+                {!!searchText && (
+                  <TouchableOpacity
+                    onPress={() => setSearchText('')}
+                    accessibilityRole="button"
+                    accessibilityLabel="Clear search"
+                  >
+                    <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+                  </TouchableOpacity>
+                )}
+              </View>
+              <TouchableOpacity
+                style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+                onPress={() => setShowFiltersModal(true)}
+                accessibilityRole="button"
+                accessibilityLabel={`Filters${activeFilterCount > 0 ? `, ${activeFilterCount} active` : ''}`}
+              >
+                <Ionicons name="options-outline" size={20} color={activeFilterCount > 0 ? colors.primary : colors.textSecondary} />
+                {activeFilterCount > 0 && (
+                  <View style={styles.filterBadge}>
+                    <Text maxFontSizeMultiplier={1.3} style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+              {can('view_reports') && (
+                <TouchableOpacity
+                  style={styles.filterButton}
+                  onPress={() => setShowExportModal(true)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export CSV"
+                  accessibilityHint="Export everything matching the current filters as a spreadsheet"
+                >
+                  <Ionicons name="download-outline" size={20} color={colors.textSecondary} />
+                </TouchableOpacity>
+              )}
+            </View>
+
             {/* Filter Tabs */}
             <View style={styles.filterContainer}>
-              {(['all', 'succeeded', 'refunded', 'failed'] as FilterType[]).map((f) => {
-                const isActive = filter === f;
+              {(['all', 'succeeded', 'refunded', 'failed'] as TransactionStatusFilter[]).map((f) => {
+                const isActive = filters.status === f;
                 // Use solid colors in dark mode to prevent stars showing through
                 const filterColors = isDark ? {
                   all: { bg: '#0d1427', border: '#132040', text: colors.primary },
@@ -801,7 +978,7 @@ export function TransactionsScreen() {
                       styles.filterTab,
                       isActive && { backgroundColor: colorSet.bg, borderColor: colorSet.border },
                     ]}
-                    onPress={() => setFilter(f)}
+                    onPress={() => applyFilters({ ...filters, status: f })}
                     accessibilityRole="button"
                     accessibilityLabel={`Filter by ${f === 'all' ? 'all statuses' : f}`}
                     accessibilityState={{ selected: isActive }}
@@ -818,12 +995,22 @@ export function TransactionsScreen() {
                   </TouchableOpacity>
                 );
               })}
+              {isFiltered && (
+                <TouchableOpacity
+                  style={styles.clearFilters}
+                  onPress={handleClearFilters}
+                  accessibilityRole="button"
+                  accessibilityLabel="Clear search and filters"
+                >
+                  <Text maxFontSizeMultiplier={1.3} style={styles.clearFiltersText}>Clear</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {isLoading ? (
               <LoadingTransactionsContent colors={colors} isDark={isDark} />
             ) : transactions.length === 0 ? (
-              <EmptyTransactionsContent colors={colors} isDark={isDark} />
+              <EmptyTransactionsContent colors={colors} isDark={isDark} filtered={isFiltered} />
             ) : (
               <FlatList
                 data={transactions}
@@ -846,6 +1033,22 @@ export function TransactionsScreen() {
           </>
         )}
       </View>
+
+      <TransactionFiltersModal
+        visible={showFiltersModal}
+        filters={filters}
+        savedFilters={savedFilters}
+        onApply={handleApplyFilters}
+        onSaveFilter={(name, saved) => persistSavedFilters([...savedFilters, { id: generateUUID(), name, filters: saved }])}
+        onDeleteSavedFilter={(id) => persistSavedFilters(savedFilters.filter(f => f.id !== id))}
+        onCancel={() => setShowFiltersModal(false)}
+      />
+
+      <TransactionExportModal
+        visible={showExportModal}
+        filters={filters}
+        onClose={() => setShowExportModal(false)}
+      />
     </StarBackground>
   );
 }
@@ -872,13 +1075,77 @@ const createStyles = (colors: any, glassColors: typeof glass.dark, isDark: boole
       paddingHorizontal: 16,
       marginBottom: 8,
     },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingTop: 12,
+    },
+    searchBox: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      backgroundColor: cardBackground,
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 15,
+      fontFamily: fonts.regular,
+      color: colors.text,
+    },
+    filterButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 16,
+      backgroundColor: cardBackground,
+      borderWidth: 1.5,
+      borderColor: cardBorder,
+    },
+    filterButtonActive: {
+      backgroundColor: isDark ? '#0d1427' : colors.primary + '20',
+      borderColor: isDark ? '#132040' : colors.primary + '40',
+    },
+    filterBadge: {
+      minWidth: 18,
+      paddingHorizontal: 5,
+      paddingVertical: 1,
+      borderRadius: 9,
+      alignItems: 'center',
+      backgroundColor: colors.primary,
+    },
+    filterBadgeText: {
+      fontSize: 11,
+      fontFamily: fonts.semiBold,
+      color: '#fff',
+    },
     filterContainer: {
       flexDirection: 'row',
+      alignItems: 'center',
       paddingHorizontal: 16,
       paddingVertical: 12,
       gap: 8,
       backgroundColor: 'transparent',
     },
+    clearFilters: {
+      marginLeft: 'auto',
+      paddingHorizontal: 4,
+      paddingVertical: 10,
+    },
+    clearFiltersText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: colors.primary,
+    },
     filterTab: {
       paddingHorizontal: 18,
       paddingVertical: 10,
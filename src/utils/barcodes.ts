@@ -0,0 +1,24 @@
+/**
+ * Matching scanned or typed codes to catalog products.
+ * Scanners report the same UPC-A barcode as 12 digits or as a 13-digit EAN
+ * with a leading zero, so numeric codes are compared without leading zeros.
+ */
+
+import type { Product } from '../lib/api/products';
+
+export function normalizeBarcode(code: string): string {
+  const trimmed = code.trim().toUpperCase();
+  return /^\d+$/.test(trimmed) ? trimmed.replace(/^0+(?=\d)/, '') : trimmed;
+}
+
+/**
+ * The product whose barcode or SKU matches the code, barcodes first.
+ * SKUs are the merchant's own codes, so leading zeros in them are significant.
+ */
+export function findProductByCode(products: Product[], code: string): Product | undefined {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return undefined;
+  const sku = code.trim().toUpperCase();
+  return products.find(p => p.upc && normalizeBarcode(p.upc) === normalized)
+    || products.find(p => p.sku && p.sku.trim().toUpperCase() === sku);
+}
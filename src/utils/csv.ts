@@ -0,0 +1,35 @@
+/**
+ * CSV text for exports shared through the system share sheet.
+ * Follows RFC 4180: comma separated, CRLF line endings, and fields quoted
+ * only when they contain a comma, quote or line break.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Quotes the value if needed, and prefixes text that would run as a formula
+ * (customer names, item names) with ' so it opens as plain text.
+ * Negative amounts like -4.50 are left as numbers.
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Header row followed by one line per row
+ * Rows should have one value per header column so the schema stays stable
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
@@ -50,6 +50,26 @@ export function formatCents(cents: number, currency: string = 'usd'): string {
   return formatCurrency(zd ? cents : cents / 100, currency);
 }
 
+/**
+ * Base-unit amount as a plain decimal with no symbol or grouping,
+ * e.g. "1234.50" or "1099" for JPY.
+ *
+ * Use for: CSV exports of amounts stored in base units, such as preorders.
+ */
+export function formatCurrencyPlain(amount: number, currency: string = 'usd'): string {
+  return amount.toFixed(isZeroDecimal(currency) ? 0 : 2);
+}
+
+/**
+ * Amount in Stripe's smallest unit as a plain decimal with no symbol or grouping,
+ * e.g. "1234.50" or "1099" for JPY.
+ *
+ * Use for: CSV exports and anything a spreadsheet needs to read as a number.
+ */
+export function formatCentsPlain(cents: number, currency: string = 'usd'): string {
+  return formatCurrencyPlain(isZeroDecimal(currency) ? cents : cents / 100, currency);
+}
+
 /**
  * Common currency symbols. Hermes (React Native) has limited Intl.formatToParts
  * support, so we use a lookup table for reliability.
@@ -0,0 +1,45 @@
+/**
+ * Customer display and loyalty points math.
+ * Points are awarded by the server when an order completes; these helpers
+ * only preview earning and build the discount for a redemption.
+ */
+
+import type { Customer, LoyaltyProgram } from '../lib/api/customers';
+import type { Discount } from '../lib/api/discounts';
+
+export const LOYALTY_DISCOUNT_LABEL = 'Loyalty reward';
+
+/**
+ * Best available label for a customer: name, then email, then phone
+ */
+export function getCustomerDisplayName(customer: Customer): string {
+  return customer.name || customer.email || customer.phone || 'Customer';
+}
+
+/**
+ * Points an order would earn, on whole dollars of the amount (in cents)
+ */
+export function calculatePointsEarned(program: LoyaltyProgram | null | undefined, amount: number): number {
+  if (!program?.enabled || amount <= 0) return 0;
+  return Math.floor(amount / 100) * program.pointsPerDollar;
+}
+
+/**
+ * How many whole rewards a points balance covers
+ */
+export function getAvailableRewards(program: LoyaltyProgram | null | undefined, pointsBalance: number): number {
+  if (!program?.enabled || program.rewardPoints <= 0) return 0;
+  return Math.floor(pointsBalance / program.rewardPoints);
+}
+
+/**
+ * The order discount for redeeming a number of rewards, capped so it never
+ * takes more off than the order is worth
+ */
+export function buildLoyaltyDiscount(program: LoyaltyProgram, rewards: number, maxAmount: number): Discount {
+  return {
+    type: 'fixed',
+    value: Math.min(rewards * program.rewardValue, Math.max(0, maxAmount)),
+    label: LOYALTY_DISCOUNT_LABEL,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Discount math shared by the cart and checkout.
+ * All amounts are in cents.
+ */
+
+import type { Discount } from '../lib/api/discounts';
+import { formatCents } from './currency';
+
+/**
+ * How much a discount takes off a base amount. Never more than the base itself.
+ */
+export function calculateDiscountAmount(discount: Discount | null | undefined, baseAmount: number): number {
+  if (!discount || baseAmount <= 0) return 0;
+  const raw = discount.type === 'percentage'
+    ? Math.round(baseAmount * (discount.value / 100))
+    : discount.value;
+  return Math.max(0, Math.min(raw, baseAmount));
+}
+
+/**
+ * Short label for a discount, e.g. "10% off", "$2.00 off", "SUMMER10".
+ */
+export function formatDiscountLabel(discount: Discount, currency: string): string {
+  const value = discount.type === 'percentage'
+    ? `${discount.value}%`
+    : formatCents(discount.value, currency);
+  const name = discount.promoCode || discount.label;
+  return name ? `${name} (${value})` : `${value} off`;
+}
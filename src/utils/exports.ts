@@ -0,0 +1,254 @@
+/**
+ * CSV exports of transactions, orders and preorders for spreadsheets.
+ * Each export has a fixed column list, one row per transaction or order, with
+ * line items, tax lines, refunds and payment legs listed inside their own cells.
+ * Amounts are in cents except preorders, which are stored in base units.
+ */
+
+import type { TransactionDetail } from '../lib/api/transactions';
+import type { Order, OrderPayment, OrderTaxLine } from '../lib/api/orders';
+import type { Preorder } from '../lib/api/preorders';
+import { toCsv } from './csv';
+import { formatCentsPlain, formatCurrencyPlain } from './currency';
+
+export type ExportKind = 'transactions' | 'orders' | 'preorders';
+
+export const EXPORT_KINDS: { key: ExportKind; label: string; description: string }[] = [
+  { key: 'transactions', label: 'Transactions', description: 'Payments with line items, refunds and payment legs' },
+  { key: 'orders', label: 'Orders', description: 'Every order, including unpaid and failed ones' },
+  { key: 'preorders', label: 'Preorders', description: 'Online orders for pickup' },
+];
+
+export const TRANSACTION_CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'source',
+  'daily_number',
+  'status',
+  'customer_name',
+  'customer_email',
+  'catalog',
+  'payment_method',
+  'card_brand',
+  'card_last4',
+  'line_items',
+  'subtotal',
+  'discount',
+  'tax',
+  'tax_lines',
+  'service_charge',
+  'tip',
+  'total',
+  'refunded',
+  'refunds',
+  'payment_legs',
+  'currency',
+];
+
+export const ORDER_CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'order_number',
+  'status',
+  'customer_email',
+  'catalog_id',
+  'device_id',
+  'user_id',
+  'payment_method',
+  'line_items',
+  'subtotal',
+  'discount',
+  'tax',
+  'tax_lines',
+  'service_charge',
+  'tip',
+  'total',
+  'payment_legs',
+  'currency',
+];
+
+export const PREORDER_CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'order_number',
+  'daily_number',
+  'status',
+  'payment_type',
+  'customer_name',
+  'customer_email',
+  'customer_phone',
+  'catalog',
+  'line_items',
+  'subtotal',
+  'tax',
+  'tip',
+  'total',
+  'picked_up_at',
+  'currency',
+];
+
+// Entries inside a single cell, e.g. "2 x Latte @ 4.50; 1 x Muffin @ 3.00"
+const LIST_SEPARATOR = '; ';
+
+/**
+ * File name for an export, e.g. "luma-transactions-2026-10-19.csv"
+ */
+export function getExportFileName(kind: ExportKind | 'tip-report', date: Date = new Date()): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return `luma-${kind}-${day}.csv`;
+}
+
+function formatTaxLines(lines: OrderTaxLine[] | null | undefined, currency: string): string {
+  return (lines ?? [])
+    .map(line => `${line.name} ${line.rate}%: ${formatCentsPlain(line.amount, currency)}`)
+    .join(LIST_SEPARATOR);
+}
+
+function formatOrderPayments(payments: OrderPayment[], currency: string): string {
+  return payments
+    .map(payment => {
+      let leg = `${payment.paymentMethod} ${formatCentsPlain(payment.amount, currency)}`;
+      if (payment.tipAmount > 0) leg += ` (tip ${formatCentsPlain(payment.tipAmount, currency)})`;
+      return `${leg} ${payment.status}`;
+    })
+    .join(LIST_SEPARATOR);
+}
+
+export function transactionsToCsv(transactions: TransactionDetail[], currency: string): string {
+  const money = (cents: number | null | undefined) => (cents === null || cents === undefined ? '' : formatCentsPlain(cents, currency));
+
+  return toCsv(
+    TRANSACTION_CSV_COLUMNS,
+    transactions.map(tx => {
+      const lineItems = (tx.items ?? []).map(item => {
+        let line = `${item.quantity} x ${item.name} @ ${money(item.unitPrice)}`;
+        if (item.discountAmount > 0) line += ` (-${money(item.discountAmount)})`;
+        if (item.refundedQuantity > 0) line += ` [${item.refundedQuantity} refunded]`;
+        return line;
+      });
+
+      const refunds = tx.refunds.map(refund => {
+        const reason = refund.reasonCode || refund.reason;
+        return [
+          new Date(refund.created * 1000).toISOString(),
+          money(refund.amount),
+          refund.status,
+          reason,
+          refund.storeCreditCode ? 'store credit' : null,
+        ].filter(Boolean).join(' ');
+      });
+
+      // Single-tender payments have no legs of their own, so the whole amount is one leg
+      const legs = tx.orderPayments && tx.orderPayments.length > 0
+        ? tx.orderPayments.map(payment => {
+            let leg = `${payment.paymentMethod} ${money(payment.amount)}`;
+            if (payment.tipAmount > 0) leg += ` (tip ${money(payment.tipAmount)})`;
+            if (payment.amountRefunded) leg += ` (refunded ${money(payment.amountRefunded)})`;
+            return `${leg} ${payment.status}`;
+          })
+        : tx.paymentMethod?.type ? [`${tx.paymentMethod.type} ${money(tx.amount)}`] : [];
+
+      return [
+        tx.id,
+        new Date(tx.created * 1000).toISOString(),
+        tx.sourceType ?? 'order',
+        tx.dailyNumber,
+        tx.status,
+        tx.customerName,
+        tx.customerEmail,
+        tx.catalogName || tx.eventName,
+        tx.paymentMethod?.type,
+        tx.paymentMethod?.brand,
+        tx.paymentMethod?.last4,
+        lineItems.join(LIST_SEPARATOR),
+        money(tx.subtotal),
+        money(tx.discountAmount),
+        money(tx.taxAmount),
+        formatTaxLines(tx.taxBreakdown, currency),
+        money(tx.serviceChargeAmount),
+        money(tx.tipAmount),
+        money(tx.amount),
+        money(tx.amountRefunded),
+        refunds.join(LIST_SEPARATOR),
+        legs.join(LIST_SEPARATOR),
+        currency.toUpperCase(),
+      ];
+    })
+  );
+}
+
+/**
+ * paymentsByOrder holds the legs of split orders, keyed by order ID
+ */
+export function ordersToCsv(orders: Order[], paymentsByOrder: Record<string, OrderPayment[]>, currency: string): string {
+  const money = (cents: number | null | undefined) => (cents === null || cents === undefined ? '' : formatCentsPlain(cents, currency));
+
+  return toCsv(
+    ORDER_CSV_COLUMNS,
+    orders.map(order => {
+      const lineItems = (order.items ?? []).map(item => {
+        const modifiers = (item.modifiers ?? []).map(m => m.optionName).join(', ');
+        let line = `${item.quantity} x ${item.name}${modifiers ? ` (${modifiers})` : ''} @ ${money(item.unitPrice)}`;
+        if (item.discount) line += ` (-${money(item.discount.amount)})`;
+        return line;
+      });
+
+      const payments = paymentsByOrder[order.id];
+      const legs = payments
+        ? formatOrderPayments(payments, currency)
+        : order.paymentMethod ? `${order.paymentMethod} ${money(order.totalAmount)}` : '';
+
+      return [
+        order.id,
+        order.createdAt,
+        order.orderNumber,
+        order.status,
+        order.customerEmail,
+        order.catalogId,
+        order.deviceId,
+        order.userId,
+        order.paymentMethod,
+        lineItems.join(LIST_SEPARATOR),
+        money(order.subtotal),
+        money(order.discountAmount ?? 0),
+        money(order.taxAmount),
+        formatTaxLines(order.taxBreakdown, currency),
+        money(order.serviceChargeAmount ?? 0),
+        money(order.tipAmount),
+        money(order.totalAmount),
+        legs,
+        currency.toUpperCase(),
+      ];
+    })
+  );
+}
+
+export function preordersToCsv(preorders: Preorder[], currency: string): string {
+  // DECIMAL columns can arrive as strings
+  const money = (amount: number | string | null | undefined) => formatCurrencyPlain(Number(amount ?? 0), currency);
+
+  return toCsv(
+    PREORDER_CSV_COLUMNS,
+    preorders.map(preorder => [
+      preorder.id,
+      preorder.createdAt,
+      preorder.orderNumber,
+      preorder.dailyNumber,
+      preorder.status,
+      preorder.paymentType,
+      preorder.customerName,
+      preorder.customerEmail,
+      preorder.customerPhone,
+      preorder.catalogName,
+      preorder.items
+        .map(item => `${item.quantity} x ${item.name} @ ${money(item.unitPrice)}`)
+        .join(LIST_SEPARATOR),
+      money(preorder.subtotal),
+      money(preorder.taxAmount),
+      money(preorder.tipAmount),
+      money(preorder.totalAmount),
+      preorder.pickedUpAt,
+      currency.toUpperCase(),
+    ])
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Stock helpers for catalog products.
+ * A product with a null stockQuantity isn't tracked and never sells out.
+ */
+
+import type { Product } from '../lib/api/products';
+
+export function isStockTracked(product: Product): boolean {
+  return product.stockQuantity !== null;
+}
+
+export function isSoldOut(product: Product): boolean {
+  return product.stockQuantity !== null && product.stockQuantity <= 0;
+}
+
+export function isLowStock(product: Product): boolean {
+  return product.stockQuantity !== null
+    && product.lowStockThreshold !== null
+    && product.stockQuantity > 0
+    && product.stockQuantity <= product.lowStockThreshold;
+}
+
+/**
+ * How many more can be added to the cart, given how many are already in it.
+ * Infinity when stock isn't tracked.
+ */
+export function getRemainingStock(product: Product, inCart: number): number {
+  if (product.stockQuantity === null) return Infinity;
+  return Math.max(0, product.stockQuantity - inCart);
+}
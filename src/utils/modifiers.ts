@@ -0,0 +1,20 @@
+/**
+ * Display helpers for product options (modifiers) chosen on an order line.
+ */
+
+import type { OrderItemModifier } from '../lib/api/orders';
+
+/**
+ * Join selected options into a short summary, e.g. "Large, Oat milk, Extra shot".
+ */
+export function formatModifiers(modifiers?: OrderItemModifier[] | null): string {
+  if (!modifiers || modifiers.length === 0) return '';
+  return modifiers.map(m => m.optionName).join(', ');
+}
+
+/**
+ * Build the secondary line for an order item: options first, then notes.
+ */
+export function formatItemDetails(modifiers?: OrderItemModifier[] | null, notes?: string | null): string {
+  return [formatModifiers(modifiers), notes?.trim()].filter(Boolean).join(' · ');
+}
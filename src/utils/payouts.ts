@@ -0,0 +1,66 @@
+/**
+ * Labels for Stripe Connect payouts and balances.
+ */
+
+import type { PayoutSchedule, PayoutStatus, PayoutTransactionType } from '../lib/api/stripe-connect';
+
+/**
+ * e.g. "Daily, 2 days after payment" or "Weekly on Monday"
+ */
+export function formatPayoutSchedule(schedule: PayoutSchedule): string {
+  const delay = schedule.delayDays > 0
+    ? `, ${schedule.delayDays} day${schedule.delayDays === 1 ? '' : 's'} after payment`
+    : '';
+  switch (schedule.interval) {
+    case 'daily':
+      return `Daily${delay}`;
+    case 'weekly':
+      return schedule.weeklyAnchor
+        ? `Weekly on ${schedule.weeklyAnchor.charAt(0).toUpperCase()}${schedule.weeklyAnchor.slice(1)}`
+        : 'Weekly';
+    case 'monthly':
+      return schedule.monthlyAnchor ? `Monthly on day ${schedule.monthlyAnchor}` : 'Monthly';
+    case 'manual':
+    default:
+      return 'Manual payouts';
+  }
+}
+
+export function getPayoutStatusLabel(status: PayoutStatus): string {
+  switch (status) {
+    case 'paid':
+      return 'Paid';
+    case 'in_transit':
+      return 'In Transit';
+    case 'pending':
+      return 'Pending';
+    case 'canceled':
+      return 'Canceled';
+    case 'failed':
+      return 'Failed';
+    default:
+      return status;
+  }
+}
+
+export function getPayoutTransactionTypeLabel(type: PayoutTransactionType): string {
+  switch (type) {
+    case 'charge':
+      return 'Payment';
+    case 'refund':
+      return 'Refund';
+    case 'adjustment':
+      return 'Adjustment';
+    case 'fee':
+      return 'Fee';
+    default:
+      return 'Other';
+  }
+}
+
+/**
+ * Date a Unix timestamp falls on, e.g. "Mar 4, 2026"
+ */
+export function formatPayoutDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
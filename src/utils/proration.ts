@@ -0,0 +1,83 @@
+/**
+ * An order's discounts and tax shared out over some of its lines, for item
+ * refunds and by-item split payments.
+ * Order-level discounts are spread across lines in proportion to their
+ * discounted totals. Tax comes from the order's per-rate breakdown, shared
+ * among the lines taxed at each rate, so a line only carries the tax of its
+ * own rate. Tax-inclusive prices already carry their tax.
+ * All amounts are in cents.
+ */
+
+import type { OrderTaxLine } from '../lib/api/orders';
+
+export interface ProrationLine {
+  id: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number; // line discount covering the whole line
+  taxRateId?: string | null; // null = the menu's default rate
+}
+
+export interface ProrationOrder {
+  lines: ProrationLine[];
+  subtotal?: number | null; // before discounts, defaults to the lines' total
+  discountAmount?: number | null; // line + order discounts
+  taxAmount?: number | null;
+  taxBreakdown?: OrderTaxLine[] | null;
+  taxInclusive?: boolean;
+}
+
+export interface ProratedItems {
+  itemsAmount: number; // after line and order discounts
+  taxAmount: number; // tax on those items, 0 for tax-inclusive prices
+  subtotalShare: number; // fraction of the discounted subtotal the items make up, 0 to 1
+}
+
+/**
+ * What the given quantities of each line come to. Quantities are capped at each line's quantity.
+ */
+export function prorateItems(order: ProrationOrder, quantities: Record<string, number>): ProratedItems {
+  const lineNet = (line: ProrationLine) => line.unitPrice * line.quantity - (line.discountAmount || 0);
+
+  const linesTotal = order.lines.reduce((sum, line) => sum + lineNet(line), 0);
+  if (linesTotal <= 0) return { itemsAmount: 0, taxAmount: 0, subtotalShare: 0 };
+
+  const netSubtotal = Math.max(0, (order.subtotal ?? linesTotal) - (order.discountAmount || 0));
+  // Share of each line left after the order-level discount
+  const orderDiscountRatio = Math.min(1, netSubtotal / linesTotal);
+
+  // Net of every line and of the picked quantities, per tax rate
+  const rateTotals = new Map<string, { net: number; picked: number }>();
+  let unroundedItems = 0;
+  order.lines.forEach(line => {
+    const net = lineNet(line) * orderDiscountRatio;
+    const quantity = Math.min(quantities[line.id] || 0, line.quantity);
+    const picked = quantity > 0 && line.quantity > 0 ? (net / line.quantity) * quantity : 0;
+    unroundedItems += picked;
+
+    const key = line.taxRateId ?? '';
+    const totals = rateTotals.get(key) ?? { net: 0, picked: 0 };
+    totals.net += net;
+    totals.picked += picked;
+    rateTotals.set(key, totals);
+  });
+
+  const itemsAmount = Math.round(unroundedItems);
+  const subtotalShare = netSubtotal > 0 ? Math.min(1, unroundedItems / netSubtotal) : 0;
+  if (order.taxInclusive) return { itemsAmount, taxAmount: 0, subtotalShare };
+
+  // Orders from before per-rate tax only have the total
+  const breakdown = order.taxBreakdown ?? [];
+  if (breakdown.length === 0) {
+    return { itemsAmount, taxAmount: Math.round((order.taxAmount || 0) * subtotalShare), subtotalShare };
+  }
+
+  let taxAmount = 0;
+  breakdown.forEach(taxLine => {
+    const totals = rateTotals.get(taxLine.taxRateId ?? '');
+    if (totals && totals.net > 0) {
+      taxAmount += taxLine.amount * Math.min(1, totals.picked / totals.net);
+    }
+  });
+  return { itemsAmount, taxAmount: Math.round(taxAmount), subtotalShare };
+}
@@ -0,0 +1,77 @@
+/**
+ * Refund math for partial and line-item refunds.
+ * All amounts are in cents. The server recalculates and validates every refund,
+ * these helpers only drive the preview shown to staff.
+ */
+
+import type { RefundReason, TransactionDetail, TransactionLineItem } from '../lib/api/transactions';
+import { prorateItems } from './proration';
+
+export const REFUND_REASONS: { value: RefundReason; label: string }[] = [
+  { value: 'requested_by_customer', label: 'Customer request' },
+  { value: 'wrong_item', label: 'Wrong item' },
+  { value: 'quality_issue', label: 'Quality issue' },
+  { value: 'duplicate', label: 'Duplicate charge' },
+  { value: 'other', label: 'Other' },
+];
+
+export function getRefundReasonLabel(reason: RefundReason | null | undefined): string | null {
+  if (!reason) return null;
+  return REFUND_REASONS.find(r => r.value === reason)?.label || null;
+}
+
+/**
+ * Quantity of a line that has not been refunded yet
+ */
+export function getRefundableQuantity(item: TransactionLineItem): number {
+  return Math.max(0, item.quantity - item.refundedQuantity);
+}
+
+/**
+ * Amount still available to refund on the whole transaction
+ */
+export function getRemainingRefundable(transaction: Pick<TransactionDetail, 'amount' | 'amountRefunded'>): number {
+  return Math.max(0, transaction.amount - transaction.amountRefunded);
+}
+
+/**
+ * Tip that has not already been refunded
+ */
+export function getRemainingTip(transaction: Pick<TransactionDetail, 'tipAmount' | 'refunds'>): number {
+  const refundedTip = transaction.refunds.reduce((sum, refund) => sum + (refund.tipAmount || 0), 0);
+  return Math.max(0, (transaction.tipAmount || 0) - refundedTip);
+}
+
+/**
+ * Service charge that has not already been refunded
+ */
+export function getRemainingServiceCharge(transaction: Pick<TransactionDetail, 'serviceChargeAmount' | 'refunds'>): number {
+  const refunded = transaction.refunds.reduce((sum, refund) => sum + (refund.serviceChargeAmount || 0), 0);
+  return Math.max(0, (transaction.serviceChargeAmount || 0) - refunded);
+}
+
+/**
+ * What a set of returned items is worth, after line and order discounts,
+ * plus the tax collected on them and their part of the service charge, shared
+ * the same way as a by-item split. Lines already refunded can't be returned again.
+ */
+export function calculateItemsRefund(
+  transaction: Pick<
+    TransactionDetail,
+    'items' | 'subtotal' | 'discountAmount' | 'taxAmount' | 'taxBreakdown' | 'taxInclusive' | 'serviceChargeAmount' | 'refunds'
+  >,
+  quantities: Record<string, number>
+): { itemsAmount: number; taxAmount: number; serviceChargeAmount: number } {
+  const items = transaction.items || [];
+  const refundable: Record<string, number> = {};
+  items.forEach(item => {
+    refundable[item.id] = Math.min(quantities[item.id] || 0, getRefundableQuantity(item));
+  });
+
+  const { itemsAmount, taxAmount, subtotalShare } = prorateItems({ ...transaction, lines: items }, refundable);
+  const serviceChargeAmount = Math.min(
+    Math.round((transaction.serviceChargeAmount || 0) * subtotalShare),
+    getRemainingServiceCharge(transaction)
+  );
+  return { itemsAmount, taxAmount, serviceChargeAmount };
+}
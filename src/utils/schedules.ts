@@ -0,0 +1,86 @@
+/**
+ * Time windows for catalog schedules and product price rules.
+ * Windows are weekly and in the device's local time; one that ends before it
+ * starts (e.g. 22:00-02:00) runs past midnight and belongs to the day it started.
+ */
+
+import type { Catalog, TimeWindow } from '../lib/api/catalogs';
+import type { Product, PriceRule } from '../lib/api/products';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// 'HH:mm' -> minutes after midnight
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function isValidTime(time: string): boolean {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  return !!match && parseInt(match[1], 10) < 24 && parseInt(match[2], 10) < 60;
+}
+
+export function isWithinWindow(window: TimeWindow, date: Date): boolean {
+  const start = parseTime(window.startTime);
+  const end = parseTime(window.endTime);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+
+  if (start === end) {
+    // Same start and end covers the whole day
+    return window.days.includes(day);
+  }
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight: late on a scheduled day, or early the morning after one
+  const previousDay = (day + 6) % 7;
+  return (window.days.includes(day) && minutes >= start)
+    || (window.days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * Catalogs without schedules are always available
+ */
+export function isCatalogAvailable(catalog: Catalog, date: Date): boolean {
+  if (!catalog.schedules || catalog.schedules.length === 0) return true;
+  return catalog.schedules.some(window => isWithinWindow(window, date));
+}
+
+export function getActivePriceRule(product: Product, date: Date): PriceRule | undefined {
+  return (product.priceRules || []).find(rule => isWithinWindow(rule, date));
+}
+
+/**
+ * Product price at a given time, before option price deltas
+ */
+export function getProductPrice(product: Product, date: Date): number {
+  return getActivePriceRule(product, date)?.price ?? product.price;
+}
+
+/**
+ * e.g. "Mon-Fri 4:00 PM-6:00 PM" or "Sat, Sun All day"
+ */
+export function formatTimeWindow(window: TimeWindow): string {
+  const days = [...window.days].sort((a, b) => a - b);
+  const isRun = days.length > 2 && days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+  const dayText = days.length === 7
+    ? 'Every day'
+    : isRun
+      ? `${DAY_LABELS[days[0]]}-${DAY_LABELS[days[days.length - 1]]}`
+      : days.map(day => DAY_LABELS[day]).join(', ');
+
+  if (parseTime(window.startTime) === parseTime(window.endTime)) {
+    return `${dayText} All day`;
+  }
+  return `${dayText} ${formatTime(window.startTime)}-${formatTime(window.endTime)}`;
+}
+
+function formatTime(time: string): string {
+  const minutes = parseTime(time) % MINUTES_PER_DAY;
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${(minutes % 60).toString().padStart(2, '0')} ${suffix}`;
+}
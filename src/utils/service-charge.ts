@@ -0,0 +1,44 @@
+/**
+ * Service charge (auto-gratuity) math for checkout.
+ * All amounts are in cents.
+ */
+
+import type { ServiceCharge } from '../lib/api/catalogs';
+
+export const DEFAULT_SERVICE_CHARGE_NAME = 'Service Charge';
+
+/**
+ * Whether an order is large enough for the service charge.
+ * With no thresholds set it applies to every order.
+ */
+export function isServiceChargeDue(
+  serviceCharge: ServiceCharge,
+  order: { itemCount: number; subtotal: number }
+): boolean {
+  const { minItemCount, minSubtotal } = serviceCharge;
+  if (minItemCount == null && minSubtotal == null) return true;
+  return (minItemCount != null && order.itemCount >= minItemCount)
+    || (minSubtotal != null && order.subtotal >= minSubtotal);
+}
+
+/**
+ * Service charge for an order, given its discounted subtotal
+ */
+export function calculateServiceCharge(
+  serviceCharge: ServiceCharge | null | undefined,
+  order: { itemCount: number; subtotal: number }
+): number {
+  if (!serviceCharge || serviceCharge.value <= 0 || order.subtotal <= 0) return 0;
+  if (!isServiceChargeDue(serviceCharge, order)) return 0;
+  return serviceCharge.type === 'fixed'
+    ? serviceCharge.value
+    : Math.round(order.subtotal * (serviceCharge.value / 100));
+}
+
+/**
+ * e.g. "Auto Gratuity (18%)" or "Service Charge"
+ */
+export function formatServiceChargeLabel(name: string | null | undefined, percentage?: number): string {
+  const label = name?.trim() || DEFAULT_SERVICE_CHARGE_NAME;
+  return percentage ? `${label} (${percentage}%)` : label;
+}
@@ -0,0 +1,77 @@
+/**
+ * Plain-text Z-report for a closed shift, used for sharing/printing.
+ * All amounts are in cents.
+ */
+
+import type { ShiftReport } from '../lib/api/shifts';
+import { formatCents } from './currency';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  card: 'Card',
+  cash: 'Cash',
+  tap_to_pay: 'Tap to Pay',
+  gift_card: 'Gift Card',
+  split: 'Split',
+};
+
+export function getPaymentMethodLabel(method: string): string {
+  return PAYMENT_METHOD_LABELS[method] || method;
+}
+
+/**
+ * Signed amount for over/short, e.g. "+$2.00" or "-$5.00".
+ */
+export function formatVariance(variance: number, currency: string): string {
+  if (variance === 0) return formatCents(0, currency);
+  return `${variance > 0 ? '+' : '-'}${formatCents(Math.abs(variance), currency)}`;
+}
+
+export function formatZReport(report: ShiftReport, currency: string): string {
+  const { shift } = report;
+  const money = (cents: number) => formatCents(cents, currency);
+  const line = (label: string, value: string) => `${label}: ${value}`;
+
+  const lines = [
+    'Z-REPORT',
+    line('Opened', `${new Date(shift.openedAt).toLocaleString()}${shift.openedByName ? ` (${shift.openedByName})` : ''}`),
+    line('Closed', shift.closedAt
+      ? `${new Date(shift.closedAt).toLocaleString()}${shift.closedByName ? ` (${shift.closedByName})` : ''}`
+      : 'Still open'),
+    '',
+    'SALES',
+    line('Orders', report.orderCount.toString()),
+    line('Gross sales', money(report.grossSales)),
+    line('Discounts', `-${money(report.discounts)}`),
+    line('Refunds', `-${money(report.refunds)}`),
+    line('Net sales', money(report.netSales)),
+    line('Tax', money(report.taxCollected)),
+    line('Tips', money(report.tipsCollected)),
+    '',
+    'PAYMENTS',
+    ...report.payments.map(p => line(`${getPaymentMethodLabel(p.method)} (${p.count})`, money(p.amount))),
+    '',
+    'CASH DRAWER',
+    line('Starting float', money(shift.startingFloat)),
+    line('Cash sales', money(shift.cashSales)),
+    line('Cash refunds', `-${money(shift.cashRefunds)}`),
+    line('Pay ins', money(shift.payIns)),
+    line('Pay outs', `-${money(shift.payOuts)}`),
+    line('Expected', money(shift.expectedCash)),
+    line('Counted', shift.countedCash !== null ? money(shift.countedCash) : '-'),
+    line('Over/short', shift.variance !== null ? formatVariance(shift.variance, currency) : '-'),
+  ];
+
+  if (report.movements.length > 0) {
+    lines.push('', 'PAY INS / PAY OUTS');
+    for (const m of report.movements) {
+      const sign = m.type === 'pay_in' ? '+' : '-';
+      lines.push(line(`${new Date(m.createdAt).toLocaleTimeString()} ${m.reason}`, `${sign}${money(m.amount)}`));
+    }
+  }
+
+  if (shift.notes) {
+    lines.push('', line('Notes', shift.notes));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,62 @@
+/**
+ * Split payment math for even and by-item splits.
+ * All amounts are in cents.
+ */
+
+import type { Order, OrderPayment } from '../lib/api/orders';
+import { prorateItems } from './proration';
+
+type SplitOrder = Pick<Order, 'items' | 'subtotal' | 'discountAmount' | 'taxAmount' | 'taxBreakdown' | 'taxInclusive' | 'serviceChargeAmount'>;
+type SplitOrderItem = NonNullable<Order['items']>[number];
+
+/**
+ * Split an amount into equal shares, with any leftover cents on the last share
+ * e.g. 1000 split 3 ways is [333, 333, 334]
+ */
+export function splitEvenly(amount: number, count: number): number[] {
+  if (count <= 0 || amount <= 0) return [];
+  const share = Math.floor(amount / count);
+  const shares = Array<number>(count).fill(share);
+  shares[count - 1] += amount - share * count;
+  return shares;
+}
+
+/**
+ * Item quantities already paid for, keyed by order item ID, from the payments recorded on the order
+ */
+export function getClaimedItems(payments: OrderPayment[]): Record<string, number> {
+  const claimed: Record<string, number> = {};
+  payments
+    .filter(payment => payment.status === 'succeeded')
+    .forEach(payment => {
+      (payment.splitItems || []).forEach(item => {
+        claimed[item.orderItemId] = (claimed[item.orderItemId] || 0) + item.quantity;
+      });
+    });
+  return claimed;
+}
+
+/**
+ * Even shares already paid, from the payments recorded on the order
+ */
+export function getPaidShares(payments: OrderPayment[]): number {
+  return payments.filter(payment => payment.status === 'succeeded' && !!payment.splitGuests).length;
+}
+
+/**
+ * Quantity of an order line that no guest has paid for yet
+ */
+export function getUnclaimedQuantity(item: SplitOrderItem, claimed: Record<string, number>): number {
+  return Math.max(0, item.quantity - (claimed[item.id] || 0));
+}
+
+/**
+ * A guest's share for the items they picked, after line and order discounts,
+ * plus the tax on those items and their part of the service charge, which is
+ * shared in proportion to the discounted subtotal
+ */
+export function calculateItemsShare(order: SplitOrder, quantities: Record<string, number>): number {
+  const lines = (order.items || []).map(item => ({ ...item, discountAmount: item.discount?.amount || 0 }));
+  const { itemsAmount, taxAmount, subtotalShare } = prorateItems({ ...order, lines }, quantities);
+  return itemsAmount + taxAmount + Math.round((order.serviceChargeAmount || 0) * subtotalShare);
+}
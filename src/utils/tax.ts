@@ -0,0 +1,112 @@
+/**
+ * Per-line tax calculation for checkout.
+ * Each line is taxed at its product's named rate, else its category's, else the
+ * menu's default rate. Order-level discounts are spread across lines in
+ * proportion to their discounted totals before tax is worked out.
+ * All amounts are in cents.
+ */
+
+import type { Category } from '../lib/api/categories';
+import type { OrderTaxLine } from '../lib/api/orders';
+import type { TaxRate, TaxRoundingMode } from '../lib/api/tax-rates';
+
+export interface TaxableLine {
+  amount: number; // line total after its own discount
+  taxRateId: string | null; // null = the menu's default rate
+}
+
+export interface TaxSettings {
+  defaultRate: number; // percentage
+  inclusive: boolean; // line amounts already include tax
+  rounding: TaxRoundingMode;
+}
+
+export interface TaxCalculation {
+  taxAmount: number;
+  breakdown: OrderTaxLine[];
+}
+
+export const DEFAULT_TAX_RATE_NAME = 'Tax';
+
+/**
+ * The named rate a product is taxed at, or null for the menu's default
+ */
+export function resolveTaxRateId(
+  product: { taxRateId: string | null; categoryId: string | null },
+  categories: Category[]
+): string | null {
+  if (product.taxRateId) return product.taxRateId;
+  if (!product.categoryId) return null;
+  return categories.find(c => c.id === product.categoryId)?.taxRateId ?? null;
+}
+
+/**
+ * Percentage a line is taxed at; a rate that has since been deleted falls back to the default
+ */
+export function getTaxRate(taxRateId: string | null, taxRates: TaxRate[], defaultRate: number): number {
+  const named = taxRateId ? taxRates.find(r => r.id === taxRateId) : undefined;
+  return named ? named.rate : defaultRate;
+}
+
+/**
+ * A tax-inclusive amount with its tax taken out, e.g. for a tax-exempt sale
+ */
+export function removeInclusiveTax(amount: number, rate: number): number {
+  return rate > 0 ? Math.round(amount / (1 + rate / 100)) : amount;
+}
+
+export function calculateTax(
+  lines: TaxableLine[],
+  orderDiscount: number,
+  taxRates: TaxRate[],
+  settings: TaxSettings
+): TaxCalculation {
+  const linesTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (linesTotal <= 0) return { taxAmount: 0, breakdown: [] };
+
+  // Share of each line left after the order-level discount
+  const orderDiscountRatio = Math.max(0, 1 - orderDiscount / linesTotal);
+
+  // Group lines by rate; a rate that has since been deleted falls back to the default
+  const groups = new Map<string, { line: OrderTaxLine; unroundedTax: number; net: number }>();
+  lines.forEach(line => {
+    const named = line.taxRateId ? taxRates.find(r => r.id === line.taxRateId) : undefined;
+    const rate = named ? named.rate : settings.defaultRate;
+    if (rate <= 0) return;
+
+    const net = line.amount * orderDiscountRatio;
+    const lineTax = settings.inclusive ? net - net / (1 + rate / 100) : net * (rate / 100);
+    const key = named?.id ?? '';
+    const group = groups.get(key) ?? {
+      line: { taxRateId: named?.id ?? null, name: named?.name ?? DEFAULT_TAX_RATE_NAME, rate, taxableAmount: 0, amount: 0 },
+      unroundedTax: 0,
+      net: 0,
+    };
+    group.net += net;
+    group.unroundedTax += lineTax;
+    if (settings.rounding === 'line') {
+      group.line.amount += Math.round(lineTax);
+    }
+    groups.set(key, group);
+  });
+
+  const breakdown: OrderTaxLine[] = [];
+  groups.forEach(({ line, unroundedTax, net }) => {
+    const amount = settings.rounding === 'line' ? line.amount : Math.round(unroundedTax);
+    if (amount <= 0) return;
+    const taxableAmount = Math.round(settings.inclusive ? net - amount : net);
+    breakdown.push({ ...line, amount, taxableAmount });
+  });
+
+  return {
+    taxAmount: breakdown.reduce((sum, line) => sum + line.amount, 0),
+    breakdown,
+  };
+}
+
+/**
+ * e.g. "Alcohol (10%)", or "Incl. VAT (20%)" for tax-inclusive prices
+ */
+export function formatTaxLineLabel(line: Pick<OrderTaxLine, 'name' | 'rate'>, inclusive?: boolean): string {
+  return `${inclusive ? 'Incl. ' : ''}${line.name} (${line.rate}%)`;
+}
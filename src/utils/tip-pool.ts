@@ -0,0 +1,116 @@
+/**
+ * Tip pooling: shares tips from a period between the team members who were
+ * clocked in, either equally or weighted by minutes worked.
+ * Amounts are in cents.
+ */
+
+import type { TimeEntry, TipPoolMethod, TipPoolSettings, TipReport } from '../lib/api/time-clock';
+import type { TeamRole } from '../lib/api/team';
+import { toCsv } from './csv';
+import { formatCentsPlain } from './currency';
+
+export interface TipShare {
+  userId: string;
+  userName: string;
+  role: TeamRole;
+  minutes: number; // worked inside the period
+  amount: number;
+}
+
+export const TIP_POOL_METHODS: { key: TipPoolMethod; label: string; description: string }[] = [
+  { key: 'equal', label: 'Equal Split', description: 'Everyone who worked gets the same share' },
+  { key: 'hours', label: 'By Hours', description: 'Shares are weighted by time on the clock' },
+];
+
+export const TIP_REPORT_CSV_COLUMNS = [
+  'period_start',
+  'period_end',
+  'employee',
+  'role',
+  'hours_worked',
+  'pool_method',
+  'pool_total',
+  'tip_share',
+];
+
+/**
+ * Minutes of an entry that fall inside [from, to)
+ * Entries still open count up to now
+ */
+export function getEntryMinutes(entry: TimeEntry, from: Date, to: Date, now: Date = new Date()): number {
+  const start = Math.max(new Date(entry.clockInAt).getTime(), from.getTime());
+  const end = Math.min(entry.clockOutAt ? new Date(entry.clockOutAt).getTime() : now.getTime(), to.getTime());
+  return end > start ? Math.floor((end - start) / 60000) : 0;
+}
+
+/**
+ * Each eligible member's share of the pool, largest first
+ * Cents left over from rounding go to the largest remainders so shares always add up to the pool
+ */
+export function calculateTipShares(
+  totalTips: number,
+  entries: TimeEntry[],
+  settings: TipPoolSettings,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): TipShare[] {
+  const byUser = new Map<string, TipShare>();
+  for (const entry of entries) {
+    if (!settings.eligibleRoles.includes(entry.role)) continue;
+    const minutes = getEntryMinutes(entry, from, to, now);
+    const existing = byUser.get(entry.userId);
+    if (existing) {
+      existing.minutes += minutes;
+    } else {
+      byUser.set(entry.userId, { userId: entry.userId, userName: entry.userName, role: entry.role, minutes, amount: 0 });
+    }
+  }
+
+  const shares = [...byUser.values()].filter(share => share.minutes > 0);
+  if (shares.length === 0 || totalTips <= 0) return shares;
+
+  const weights = shares.map(share => (settings.method === 'hours' ? share.minutes : 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const exact = weights.map(weight => (totalTips * weight) / totalWeight);
+  shares.forEach((share, index) => {
+    share.amount = Math.floor(exact[index]);
+  });
+
+  let leftover = totalTips - shares.reduce((sum, share) => sum + share.amount, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    shares[byRemainder[i].index].amount += 1;
+  }
+
+  return shares.sort((a, b) => b.amount - a.amount || a.userName.localeCompare(b.userName));
+}
+
+/**
+ * e.g. "7h 30m" or "45m"
+ */
+export function formatWorkedTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+export function tipReportToCsv(report: TipReport, shares: TipShare[], method: TipPoolMethod, currency: string): string {
+  return toCsv(
+    TIP_REPORT_CSV_COLUMNS,
+    shares.map(share => [
+      report.from,
+      report.to,
+      share.userName,
+      share.role,
+      (share.minutes / 60).toFixed(2),
+      method,
+      formatCentsPlain(report.totalTips, currency),
+      formatCentsPlain(share.amount, currency),
+    ])
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Search and filters for the transaction history.
+ * Filters combine with each other and are turned into list params for the API.
+ * Amounts are in cents.
+ */
+
+import type { TransactionsListParams } from '../lib/api/transactions';
+import type { OrdersListParams } from '../lib/api/orders';
+import type { PreordersListParams } from '../lib/api/preorders';
+
+export type TransactionStatusFilter = 'all' | 'succeeded' | 'refunded' | 'failed';
+
+export type DateRangePreset = 'any' | 'today' | 'yesterday' | 'week' | 'month' | 'custom';
+
+export type PaymentMethodFilter = 'card' | 'cash' | 'split' | 'gift_card';
+
+// 'current' follows the selected catalog, 'all' searches every catalog, anything else is a catalog ID
+export type CatalogFilter = 'current' | 'all' | string;
+
+// 'this' is the device in hand, 'all' every device, anything else is a device ID
+export type DeviceFilter = 'all' | 'this' | string;
+
+export interface TransactionFilters {
+  search: string;
+  status: TransactionStatusFilter;
+  datePreset: DateRangePreset;
+  customFrom: string | null; // ISO date, used with the 'custom' preset
+  customTo: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  paymentMethod: PaymentMethodFilter | null;
+  catalog: CatalogFilter;
+  device: DeviceFilter;
+}
+
+// A named set of filters saved on this device
+export interface SavedTransactionFilter {
+  id: string;
+  name: string;
+  filters: TransactionFilters;
+}
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  search: '',
+  status: 'all',
+  datePreset: 'any',
+  customFrom: null,
+  customTo: null,
+  minAmount: null,
+  maxAmount: null,
+  paymentMethod: null,
+  catalog: 'current',
+  device: 'all',
+};
+
+export const DATE_RANGE_PRESETS: { key: DateRangePreset; label: string }[] = [
+  { key: 'any', label: 'Any Time' },
+  { key: 'today', label: 'Today' },
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'week', label: 'Last 7 Days' },
+  { key: 'month', label: 'Last 30 Days' },
+  { key: 'custom', label: 'Custom' },
+];
+
+export const PAYMENT_METHOD_FILTERS: { key: PaymentMethodFilter; label: string }[] = [
+  { key: 'card', label: 'Card' },
+  { key: 'cash', label: 'Cash' },
+  { key: 'split', label: 'Split' },
+  { key: 'gift_card', label: 'Gift Card' },
+];
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/**
+ * [from, to) for the date filter in local time, or null for any time
+ */
+export function getFilterDateRange(filters: TransactionFilters): { from: Date; to: Date } | null {
+  const today = startOfDay(new Date());
+  switch (filters.datePreset) {
+    case 'today':
+      return { from: today, to: addDays(today, 1) };
+    case 'yesterday':
+      return { from: addDays(today, -1), to: today };
+    case 'week':
+      return { from: addDays(today, -6), to: addDays(today, 1) };
+    case 'month':
+      return { from: addDays(today, -29), to: addDays(today, 1) };
+    case 'custom': {
+      if (!filters.customFrom && !filters.customTo) return null;
+      const from = filters.customFrom ? startOfDay(new Date(filters.customFrom)) : new Date(0);
+      const to = addDays(startOfDay(filters.customTo ? new Date(filters.customTo) : new Date()), 1);
+      return { from, to };
+    }
+    case 'any':
+    default:
+      return null;
+  }
+}
+
+/**
+ * List params for the filters, without pagination
+ * catalogId is the selected catalog, deviceId this device
+ */
+export function toTransactionsListParams(
+  filters: TransactionFilters,
+  catalogId: string | undefined,
+  deviceId: string | null
+): TransactionsListParams {
+  const range = getFilterDateRange(filters);
+  return {
+    status: filters.status,
+    search: filters.search.trim() || undefined,
+    catalog_id: filters.catalog === 'current' ? catalogId : filters.catalog === 'all' ? undefined : filters.catalog,
+    device_id: filters.device === 'all' ? undefined : filters.device === 'this' ? deviceId || undefined : filters.device,
+    payment_method: filters.paymentMethod || undefined,
+    amount_gte: filters.minAmount ?? undefined,
+    amount_lte: filters.maxAmount ?? undefined,
+    created_gte: range ? Math.floor(range.from.getTime() / 1000) : undefined,
+    created_lt: range ? Math.floor(range.to.getTime() / 1000) : undefined,
+  };
+}
+
+// Order statuses that line up with the transaction status chips
+const ORDER_STATUS_FOR_FILTER: Record<TransactionStatusFilter, string | undefined> = {
+  all: undefined,
+  succeeded: 'completed',
+  refunded: 'refunded',
+  failed: 'failed',
+};
+
+/**
+ * The same filters as orders list params, for exports
+ */
+export function toOrdersListParams(
+  filters: TransactionFilters,
+  catalogId: string | undefined,
+  deviceId: string | null
+): OrdersListParams {
+  const params = toTransactionsListParams(filters, catalogId, deviceId);
+  const range = getFilterDateRange(filters);
+  return {
+    status: ORDER_STATUS_FOR_FILTER[filters.status],
+    search: params.search,
+    catalogId: params.catalog_id,
+    deviceId: params.device_id,
+    paymentMethod: params.payment_method,
+    minAmount: params.amount_gte,
+    maxAmount: params.amount_lte,
+    from: range?.from.toISOString(),
+    to: range?.to.toISOString(),
+  };
+}
+
+/**
+ * The filters that apply to preorders as list params, for exports
+ * Preorders have their own statuses and are paid online, so status, payment method,
+ * amount and device filters don't carry over
+ */
+export function toPreordersListParams(
+  filters: TransactionFilters,
+  catalogId: string | undefined
+): PreordersListParams {
+  const range = getFilterDateRange(filters);
+  return {
+    search: filters.search.trim() || undefined,
+    catalogId: filters.catalog === 'current' ? catalogId : filters.catalog === 'all' ? undefined : filters.catalog,
+    from: range?.from.toISOString(),
+    to: range?.to.toISOString(),
+  };
+}
+
+/**
+ * Number of filters set beyond the search text and status chips, for the filter button badge
+ */
+export function countActiveFilters(filters: TransactionFilters): number {
+  let count = 0;
+  if (filters.datePreset !== 'any') count++;
+  if (filters.minAmount !== null || filters.maxAmount !== null) count++;
+  if (filters.paymentMethod) count++;
+  if (filters.catalog !== DEFAULT_TRANSACTION_FILTERS.catalog) count++;
+  if (filters.device !== 'all') count++;
+  return count;
+}
+
+export function hasActiveFilters(filters: TransactionFilters): boolean {
+  return !!filters.search.trim() || filters.status !== 'all' || countActiveFilters(filters) > 0;
+}